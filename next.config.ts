@@ -53,6 +53,18 @@ const nextConfig: NextConfig = {
           },
         ],
       },
+      // Barcode scanning in the add-book dialog needs the camera on the
+      // library pages; the later match overrides the policy above
+      ...['/dashboard/:path*', '/books/:path*'].map(source => ({
+        source,
+        headers: [
+          {
+            key: 'Permissions-Policy',
+            value:
+              'camera=(self), microphone=(), geolocation=(), payment=(), usb=(), bluetooth=()',
+          },
+        ],
+      })),
     ];
   },
   images: {
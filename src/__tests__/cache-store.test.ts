@@ -0,0 +1,346 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * API cache stores: the file store's persistence, ApiCache on top of a store,
+ * and the Postgres store's queries against the api_cache table.
+ */
+
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { ApiCache } from '@/lib/utils/api-cache';
+import {
+  CacheItem,
+  FileCacheStore,
+  MemoryCacheStore,
+} from '@/lib/utils/cache-store';
+import { PostgresCacheStore } from '@/lib/utils/postgres-cache-store';
+
+type Result = { data: unknown; error: { message: string } | null };
+
+// Records every call on a query and resolves to the result queued for its
+// table or function
+const mockCalls: [string, string, unknown[]][] = [];
+const mockResults: Record<string, Result> = {};
+
+const mockQuery = (target: string) => {
+  const query: Record<string, unknown> = {
+    then: (resolve: (result: Result) => unknown) =>
+      Promise.resolve(mockResults[target] || { data: null, error: null }).then(
+        resolve,
+      ),
+  };
+  [
+    'select',
+    'eq',
+    'neq',
+    'lt',
+    'upsert',
+    'delete',
+    'order',
+    'limit',
+    'single',
+    'maybeSingle',
+  ].forEach(method => {
+    query[method] = (...args: unknown[]) => {
+      mockCalls.push([target, method, args]);
+      return query;
+    };
+  });
+  return query;
+};
+
+jest.mock('@/lib/supabase/server', () => ({
+  createServiceClient: () => ({
+    from: (table: string) => mockQuery(table),
+    rpc: (name: string, args?: unknown) => {
+      mockCalls.push([name, 'rpc', args === undefined ? [] : [args]]);
+      return mockQuery(name);
+    },
+  }),
+}));
+
+const NOW = Date.parse('2026-03-01T12:00:00.000Z');
+const HOUR = 60 * 60 * 1000;
+
+const item = (overrides: Partial<CacheItem<unknown>> = {}) => ({
+  data: { title: 'Venture Deals' },
+  timestamp: NOW,
+  ttl: HOUR,
+  hits: 0,
+  ...overrides,
+});
+
+describe('FileCacheStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  const writeCacheFile = (entries: [string, CacheItem<unknown>][]) =>
+    fs.writeFile(filePath, JSON.stringify({ cache: entries, timestamp: NOW }));
+
+  // What a store opened after a restart would see
+  const reopen = () => new FileCacheStore(filePath).keys();
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'api-cache-'));
+    filePath = join(dir, 'api-cache.json');
+    await writeCacheFile([
+      ['isbn:9780990530206', item({ timestamp: Date.now() })],
+      ['isbn:9781119594826', item({ timestamp: Date.now(), hits: 2 })],
+    ]);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('restores saved entries before the first read', async () => {
+    const store = new FileCacheStore(filePath);
+
+    expect((await store.keys()).sort()).toEqual([
+      'isbn:9780990530206',
+      'isbn:9781119594826',
+    ]);
+  });
+
+  it('drops expired entries when restoring', async () => {
+    await writeCacheFile([
+      ['isbn:9780990530206', item({ timestamp: Date.now() - 2 * HOUR })],
+    ]);
+
+    expect(await reopen()).toEqual([]);
+  });
+
+  it('counts a first hit against a restored entry', async () => {
+    const store = new FileCacheStore(filePath);
+
+    await store.recordHit('isbn:9781119594826', NOW);
+
+    expect((await store.getUsage(1)).hotKeys).toEqual([
+      { key: 'isbn:9781119594826', hits: 3, lastAccess: NOW },
+    ]);
+  });
+
+  it('keeps a clear on disk, even as the first call', async () => {
+    const store = new FileCacheStore(filePath);
+
+    await store.clear();
+
+    expect(await store.keys()).toEqual([]);
+    expect(await reopen()).toEqual([]);
+  });
+
+  it('keeps a delete on disk', async () => {
+    const store = new FileCacheStore(filePath);
+
+    expect(await store.delete('isbn:9780990530206')).toBe(true);
+    expect(await store.delete('isbn:9780990530206')).toBe(false);
+
+    expect(await reopen()).toEqual(['isbn:9781119594826']);
+  });
+
+  it('keeps a purge of expired entries on disk', async () => {
+    const store = new FileCacheStore(filePath);
+
+    expect(await store.deleteExpired(Date.now() + 2 * HOUR)).toBe(2);
+
+    expect(await reopen()).toEqual([]);
+  });
+
+  it('writes sets on close, and leaves the file alone if never used', async () => {
+    await new FileCacheStore(filePath).close();
+    expect(await reopen()).toHaveLength(2);
+
+    const store = new FileCacheStore(filePath);
+    await store.set('isbn:9781119378181', item({ timestamp: Date.now() }));
+    await store.close();
+
+    expect(await reopen()).toHaveLength(3);
+  });
+});
+
+describe('ApiCache', () => {
+  let store: MemoryCacheStore;
+  let cache: ApiCache;
+
+  beforeEach(() => {
+    store = new MemoryCacheStore();
+    cache = new ApiCache({ store, preWarmOnStart: false });
+  });
+
+  afterEach(async () => {
+    await cache.destroy();
+  });
+
+  it('returns what was set and counts hits in the store', async () => {
+    await cache.set('ISBN:9780990530206', { title: 'Startup Opportunities' });
+
+    expect(await cache.get('isbn:9780990530206')).toEqual({
+      title: 'Startup Opportunities',
+    });
+    expect(await cache.get('isbn:9781119594826')).toBeNull();
+
+    const stats = await cache.getStats();
+    expect(stats).toMatchObject({ store: 'memory', hits: 1, misses: 1 });
+    expect((await store.getUsage(1)).totalHits).toBe(1);
+  });
+
+  it('treats an expired entry as a miss and removes it', async () => {
+    await store.set('isbn:9780990530206', item({ timestamp: NOW - 2 * HOUR }));
+
+    expect(await cache.get('isbn:9780990530206')).toBeNull();
+    expect(await store.keys()).toEqual([]);
+  });
+
+  it('falls through when the store fails', async () => {
+    jest.spyOn(store, 'get').mockRejectedValue(new Error('unreachable'));
+    jest.spyOn(store, 'set').mockRejectedValue(new Error('unreachable'));
+
+    await expect(cache.set('isbn:9780990530206', {})).resolves.toBeUndefined();
+    expect(await cache.get('isbn:9780990530206')).toBeNull();
+    expect(await cache.has('isbn:9780990530206')).toBe(false);
+  });
+});
+
+describe('PostgresCacheStore', () => {
+  const store = new PostgresCacheStore();
+
+  beforeEach(() => {
+    mockCalls.length = 0;
+    Object.keys(mockResults).forEach(key => delete mockResults[key]);
+  });
+
+  const callsTo = (target: string) =>
+    mockCalls
+      .filter(([called]) => called === target)
+      .map(([, method, args]) => [method, ...args]);
+
+  it('reads a row back as a cache item', async () => {
+    mockResults.api_cache = {
+      data: {
+        key: 'isbn:9780990530206',
+        data: { title: 'Startup Opportunities' },
+        cached_at: '2026-03-01T12:00:00.000Z',
+        expires_at: '2026-03-01T13:00:00.000Z',
+        hits: 4,
+        last_access: '2026-03-01T12:30:00.000Z',
+      },
+      error: null,
+    };
+
+    expect(await store.get('isbn:9780990530206')).toEqual({
+      data: { title: 'Startup Opportunities' },
+      timestamp: NOW,
+      ttl: HOUR,
+      hits: 4,
+      lastAccess: NOW + HOUR / 2,
+    });
+    expect(callsTo('api_cache')).toEqual([
+      ['select', '*'],
+      ['eq', 'key', 'isbn:9780990530206'],
+      ['maybeSingle'],
+    ]);
+  });
+
+  it('returns null for a missing key', async () => {
+    expect(await store.get('isbn:9781119594826')).toBeNull();
+  });
+
+  it('upserts an item with its expiry', async () => {
+    await store.set('isbn:9780990530206', item({ lastAccess: NOW }));
+
+    expect(callsTo('api_cache')).toEqual([
+      [
+        'upsert',
+        {
+          key: 'isbn:9780990530206',
+          data: { title: 'Venture Deals' },
+          cached_at: '2026-03-01T12:00:00.000Z',
+          expires_at: '2026-03-01T13:00:00.000Z',
+          hits: 0,
+          last_access: '2026-03-01T12:00:00.000Z',
+        },
+      ],
+    ]);
+  });
+
+  it('reports whether a delete matched a row', async () => {
+    mockResults.api_cache = {
+      data: [{ key: 'isbn:9780990530206' }],
+      error: null,
+    };
+    expect(await store.delete('isbn:9780990530206')).toBe(true);
+
+    mockResults.api_cache = { data: [], error: null };
+    expect(await store.delete('isbn:9780990530206')).toBe(false);
+  });
+
+  it('clears every key with a filtered delete', async () => {
+    await store.clear();
+
+    expect(callsTo('api_cache')).toEqual([['delete'], ['neq', 'key', '']]);
+  });
+
+  it('purges rows that expired before now', async () => {
+    mockResults.api_cache = {
+      data: [{ key: 'isbn:9780990530206' }, { key: 'isbn:9781119594826' }],
+      error: null,
+    };
+
+    expect(await store.deleteExpired(NOW)).toBe(2);
+    expect(callsTo('api_cache')).toContainEqual([
+      'lt',
+      'expires_at',
+      '2026-03-01T12:00:00.000Z',
+    ]);
+  });
+
+  it('counts hits in the database', async () => {
+    await store.recordHit('isbn:9780990530206', NOW);
+
+    expect(callsTo('record_api_cache_hit')).toEqual([
+      [
+        'rpc',
+        {
+          p_key: 'isbn:9780990530206',
+          p_accessed_at: '2026-03-01T12:00:00.000Z',
+        },
+      ],
+    ]);
+  });
+
+  it('combines usage totals with the hottest keys', async () => {
+    mockResults.get_api_cache_usage = {
+      data: { size: '3', total_hits: '7' },
+      error: null,
+    };
+    mockResults.api_cache = {
+      data: [{ key: 'isbn:9780990530206', hits: 5, last_access: null }],
+      error: null,
+    };
+
+    expect(await store.getUsage(1)).toEqual({
+      size: 3,
+      totalHits: 7,
+      hotKeys: [{ key: 'isbn:9780990530206', hits: 5, lastAccess: undefined }],
+    });
+    expect(callsTo('api_cache')).toContainEqual(['limit', 1]);
+  });
+
+  it('throws with the database error', async () => {
+    mockResults.api_cache = {
+      data: null,
+      error: { message: 'permission denied' },
+    };
+
+    await expect(store.get('isbn:9780990530206')).rejects.toThrow(
+      'Failed to read api cache: permission denied',
+    );
+    await expect(store.keys()).rejects.toThrow(
+      'Failed to list api cache keys: permission denied',
+    );
+  });
+});
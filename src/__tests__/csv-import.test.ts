@@ -0,0 +1,318 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Spreadsheet import: per-row validation, ISBNdb enrichment, grouping rows
+ * into books and editions, and the result reported for every row.
+ */
+
+import { BookService } from '@/lib/services/book.service';
+import { CsvImportService } from '@/lib/services/csv-import.service';
+import { EditionGroup } from '@/lib/services/edition-detection.service';
+import { isbnDbService } from '@/lib/services/isbn-db.service';
+
+jest.mock('@/lib/services/book.service', () => ({
+  BookService: {
+    findExistingBook: jest.fn(),
+    createBook: jest.fn(),
+    updateBookWithNewEditions: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/services/isbn-db.service', () => ({
+  isbnDbService: { getBookByISBN: jest.fn() },
+}));
+
+const findExistingBook = BookService.findExistingBook as jest.Mock;
+const createBook = BookService.createBook as jest.Mock;
+const updateBookWithNewEditions =
+  BookService.updateBookWithNewEditions as jest.Mock;
+const getBookByISBN = isbnDbService.getBookByISBN as jest.Mock;
+
+const USER_ID = 'user_123';
+
+describe('CsvImportService.importRows', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    findExistingBook.mockResolvedValue(null);
+    createBook.mockImplementation(async (_userId, title: string) => ({
+      id: `book-${title}`,
+    }));
+  });
+
+  it('creates a book with an edition and binding for a complete row', async () => {
+    const result = await CsvImportService.importRows(USER_ID, [
+      {
+        title: 'Venture Deals',
+        author: 'Brad Feld',
+        isbn: '978-1-119-59482-6',
+        binding: 'Hardcover',
+        publisher: 'Wiley',
+        publication_year: '2019',
+        price: '$1,029.95',
+      },
+    ]);
+
+    expect(result).toEqual({
+      total: 1,
+      succeeded: 1,
+      failed: 0,
+      rows: [
+        {
+          row_number: 1,
+          status: 'created',
+          title: 'Venture Deals',
+          book_id: 'book-Venture Deals',
+          enriched: false,
+        },
+      ],
+    });
+
+    const [, title, author, editionGroups] = createBook.mock.calls[0];
+    expect(title).toBe('Venture Deals');
+    expect(author).toBe('Brad Feld');
+    expect(editionGroups).toHaveLength(1);
+    expect(editionGroups[0]).toMatchObject({
+      edition_number: 1,
+      publication_year: 2019,
+    });
+    expect(editionGroups[0].books[0]).toMatchObject({
+      title: 'Venture Deals',
+      authors: ['Brad Feld'],
+      isbn: '9781119594826',
+      isbn13: '9781119594826',
+      binding: 'Hardcover',
+      publisher: 'Wiley',
+      msrp: 1029.95,
+      year: 2019,
+      data_source: 'csv-import',
+    });
+    expect(editionGroups[0].books[0].provenance.title.source).toBe(
+      'csv-import',
+    );
+    expect(getBookByISBN).not.toHaveBeenCalled();
+  });
+
+  it('groups rows for the same book into editions', async () => {
+    const result = await CsvImportService.importRows(USER_ID, [
+      { title: 'Venture Deals', author: 'Brad Feld', binding: 'Hardcover' },
+      { title: 'venture deals', author: 'BRAD FELD', binding: 'Paperback' },
+      {
+        title: 'Venture Deals',
+        author: 'Brad Feld',
+        edition_number: '2',
+        publication_year: '2013',
+      },
+      {
+        title: 'Venture Deals',
+        author: 'Brad Feld',
+        edition_number: '2',
+        publication_year: '2012',
+      },
+    ]);
+
+    expect(result.succeeded).toBe(4);
+    expect(createBook).toHaveBeenCalledTimes(1);
+
+    const editionGroups: EditionGroup[] = createBook.mock.calls[0][3];
+    expect(
+      editionGroups.map(group => ({
+        edition_number: group.edition_number,
+        publication_year: group.publication_year,
+        books: group.books.length,
+      })),
+    ).toEqual([
+      { edition_number: 1, publication_year: undefined, books: 2 },
+      { edition_number: 2, publication_year: 2012, books: 2 },
+    ]);
+    expect(new Set(result.rows.map(row => row.book_id))).toEqual(
+      new Set(['book-Venture Deals']),
+    );
+  });
+
+  it('merges rows into a book the user already has', async () => {
+    findExistingBook.mockResolvedValue({ id: 'existing-book' });
+    updateBookWithNewEditions.mockResolvedValue({ id: 'existing-book' });
+
+    const result = await CsvImportService.importRows(USER_ID, [
+      { title: 'Startup Life', author: 'Brad Feld', binding: 'Audiobook' },
+    ]);
+
+    expect(result.rows).toEqual([
+      expect.objectContaining({
+        row_number: 1,
+        status: 'merged',
+        book_id: 'existing-book',
+      }),
+    ]);
+    expect(findExistingBook).toHaveBeenCalledWith(
+      USER_ID,
+      'Startup Life',
+      'Brad Feld',
+    );
+    expect(updateBookWithNewEditions).toHaveBeenCalledWith(
+      'existing-book',
+      expect.any(Array),
+    );
+    expect(createBook).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['a year out of range', { publication_year: '1700' }, 'publication_year'],
+    ['a negative price', { price: '-5' }, 'price'],
+    ['a malformed ISBN', { isbn: 'not-an-isbn' }, 'isbn: Invalid ISBN format'],
+    ['a non-numeric edition', { edition_number: 'first' }, 'edition_number'],
+  ])(
+    'reports %s without blocking other rows',
+    async (_, invalidCells, message) => {
+      const result = await CsvImportService.importRows(USER_ID, [
+        { title: 'Venture Deals', author: 'Brad Feld', ...invalidCells },
+        { title: 'Startup Life', author: 'Brad Feld' },
+      ]);
+
+      expect(result).toMatchObject({ total: 2, succeeded: 1, failed: 1 });
+      expect(result.rows[0]).toMatchObject({
+        row_number: 1,
+        status: 'error',
+        title: 'Venture Deals',
+      });
+      expect(result.rows[0].error).toContain(message);
+      expect(result.rows[1]).toMatchObject({
+        row_number: 2,
+        status: 'created',
+      });
+    },
+  );
+
+  it('suggests adding an ISBN when a row without one is missing its title', async () => {
+    const result = await CsvImportService.importRows(
+      USER_ID,
+      [{ author: 'Brad Feld' }],
+      { enrich: true },
+    );
+
+    expect(result.rows[0].status).toBe('error');
+    expect(result.rows[0].error).toMatch(
+      /^title: .*\(add an ISBN and enable lookup to fill it in\)$/,
+    );
+    expect(getBookByISBN).not.toHaveBeenCalled();
+  });
+
+  it('reports a missing author when lookup is off', async () => {
+    const result = await CsvImportService.importRows(USER_ID, [
+      { title: 'Venture Deals', isbn: '9781119594826' },
+    ]);
+
+    expect(result.rows[0]).toMatchObject({ status: 'error' });
+    expect(result.rows[0].error).toMatch(/^authors: /);
+    expect(result.rows[0].error).not.toContain('add an ISBN');
+    expect(getBookByISBN).not.toHaveBeenCalled();
+  });
+
+  it('fills missing cells from ISBNdb, keeping the spreadsheet values', async () => {
+    getBookByISBN.mockResolvedValue({
+      success: true,
+      data: {
+        isbn13: '9781119594826',
+        title: 'Venture Deals, 4th Edition',
+        authors: ['Brad Feld', 'Jason Mendelson'],
+        publisher: 'Wiley',
+        date_published: '2019-10-01',
+        pages: 336,
+        binding: 'Hardcover',
+        image: 'https://images.example.com/venture-deals.jpg',
+      },
+    });
+
+    const result = await CsvImportService.importRows(
+      USER_ID,
+      [{ title: 'Venture Deals', isbn: '1119594820', publisher: 'Own Press' }],
+      { enrich: true },
+    );
+
+    expect(getBookByISBN).toHaveBeenCalledWith('9781119594826');
+    expect(result.rows[0]).toMatchObject({
+      status: 'created',
+      title: 'Venture Deals',
+      enriched: true,
+    });
+
+    const [, title, author, editionGroups] = createBook.mock.calls[0];
+    expect(title).toBe('Venture Deals');
+    expect(author).toBe('Brad Feld, Jason Mendelson');
+    expect(editionGroups[0].publication_year).toBe(2019);
+
+    const book = editionGroups[0].books[0];
+    expect(book).toMatchObject({
+      title: 'Venture Deals',
+      publisher: 'Own Press',
+      binding: 'Hardcover',
+      pages: 336,
+      image: 'https://images.example.com/venture-deals.jpg',
+      data_source: 'csv-import,isbndb',
+    });
+    expect(book.provenance.title.source).toBe('csv-import');
+    expect(book.provenance.publisher.source).toBe('csv-import');
+    expect(book.provenance.binding.source).toBe('isbn-db');
+  });
+
+  it('reports a failed lookup for that row only', async () => {
+    getBookByISBN.mockResolvedValue({ success: false, error: 'Not found' });
+
+    const result = await CsvImportService.importRows(
+      USER_ID,
+      [
+        { isbn: '9780306406157' },
+        { title: 'Startup Life', author: 'Brad Feld' },
+      ],
+      { enrich: true },
+    );
+
+    expect(result.rows).toEqual([
+      {
+        row_number: 1,
+        status: 'error',
+        error: 'ISBN lookup failed: Not found',
+      },
+      expect.objectContaining({ row_number: 2, status: 'created' }),
+    ]);
+  });
+
+  it('reports a failed save on every row of that book', async () => {
+    createBook.mockImplementation(async (_userId, title: string) => {
+      if (title === 'Venture Deals') {
+        throw new Error('Failed to create book');
+      }
+      return { id: `book-${title}` };
+    });
+
+    const result = await CsvImportService.importRows(USER_ID, [
+      { title: 'Venture Deals', author: 'Brad Feld', binding: 'Hardcover' },
+      { title: 'Startup Life', author: 'Brad Feld' },
+      { title: 'Venture Deals', author: 'Brad Feld', binding: 'Ebook' },
+    ]);
+
+    expect(result).toMatchObject({ total: 3, succeeded: 1, failed: 2 });
+    expect(result.rows.map(row => [row.row_number, row.status])).toEqual([
+      [1, 'error'],
+      [2, 'created'],
+      [3, 'error'],
+    ]);
+    expect(result.rows[2].error).toBe('Failed to create book');
+  });
+
+  it('keeps the row numbers it was given and reports rows in order', async () => {
+    const result = await CsvImportService.importRows(USER_ID, [
+      { row_number: 7, title: 'Venture Deals', author: 'Brad Feld' },
+      { row_number: 3, title: 'Startup Life', author: 'Brad Feld' },
+      { row_number: 5, author: 'Brad Feld' },
+    ]);
+
+    expect(result.rows.map(row => [row.row_number, row.status])).toEqual([
+      [3, 'created'],
+      [5, 'error'],
+      [7, 'created'],
+    ]);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * CSV parsing and serializing, which library import and export rely on to
+ * read back what they write.
+ */
+
+import { parseCsv, parseCsvRecords, toCsv } from '@/lib/utils/csv';
+
+describe('parseCsv', () => {
+  it.each([
+    [
+      'plain cells',
+      'a,b,c\n1,2,3',
+      [
+        ['a', 'b', 'c'],
+        ['1', '2', '3'],
+      ],
+    ],
+    [
+      'CRLF line endings',
+      'a,b\r\n1,2\r\n',
+      [
+        ['a', 'b'],
+        ['1', '2'],
+      ],
+    ],
+    [
+      'bare CR line endings',
+      'a,b\r1,2',
+      [
+        ['a', 'b'],
+        ['1', '2'],
+      ],
+    ],
+    ['a quoted comma', '"Feld, Brad",x', [['Feld, Brad', 'x']]],
+    ['escaped quotes', '"The ""Best"" Book"', [['The "Best" Book']]],
+    [
+      'an embedded newline',
+      '"Line one\nLine two",x\r\n1,2',
+      [
+        ['Line one\nLine two', 'x'],
+        ['1', '2'],
+      ],
+    ],
+    ['an embedded CRLF', '"a\r\nb"', [['a\r\nb']]],
+    [
+      'a UTF-8 BOM',
+      '﻿title,isbn\nA,1',
+      [
+        ['title', 'isbn'],
+        ['A', '1'],
+      ],
+    ],
+    [
+      'empty cells',
+      'a,,c\n,,x',
+      [
+        ['a', '', 'c'],
+        ['', '', 'x'],
+      ],
+    ],
+    [
+      'blank lines',
+      'a,b\n\n  ,  \n1,2\n\n',
+      [
+        ['a', 'b'],
+        ['1', '2'],
+      ],
+    ],
+    ['a missing final newline', 'a\nb', [['a'], ['b']]],
+    ['empty input', '', []],
+  ])('handles %s', (_, text, expected) => {
+    expect(parseCsv(text)).toEqual(expected);
+  });
+});
+
+describe('parseCsvRecords', () => {
+  it('keys cells by trimmed header and fills short rows', () => {
+    expect(
+      parseCsvRecords(' Title , ISBN \n Venture Deals ,\nStartup Life'),
+    ).toEqual({
+      headers: ['Title', 'ISBN'],
+      records: [
+        { Title: 'Venture Deals', ISBN: '' },
+        { Title: 'Startup Life', ISBN: '' },
+      ],
+    });
+  });
+
+  it('returns nothing for an empty file', () => {
+    expect(parseCsvRecords('')).toEqual({ headers: [], records: [] });
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes only cells that need it and joins rows with CRLF', () => {
+    expect(
+      toCsv(
+        ['title', 'note', 'price'],
+        [
+          {
+            title: 'Venture Deals',
+            note: 'Has "quotes", commas',
+            price: 29.95,
+          },
+          { title: 'Two\nLines', note: null, price: undefined },
+        ],
+      ),
+    ).toBe(
+      'title,note,price\r\nVenture Deals,"Has ""quotes"", commas",29.95\r\n"Two\nLines",,',
+    );
+  });
+});
+
+describe('CSV round trip', () => {
+  const headers = ['title', 'authors', 'isbn', 'description', 'price'];
+  const rows = [
+    {
+      title: 'Venture Deals',
+      authors: 'Brad Feld, Jason Mendelson',
+      isbn: '9781119594826',
+      description: 'Be smarter than your lawyer and venture capitalist',
+      price: '29.95',
+    },
+    {
+      title: 'The "Startup" Book',
+      authors: 'Brad Feld',
+      isbn: '',
+      description: 'First line\r\nSecond line, with a comma\nThird line',
+      price: '',
+    },
+    {
+      title: 'Ünïcödé — Титул',
+      authors: 'Ana Ñúñez',
+      isbn: '080442957X',
+      description: '"Quoted" from the start',
+      price: '1,299',
+    },
+  ];
+
+  it('reads back what it writes', () => {
+    expect(parseCsvRecords(toCsv(headers, rows))).toEqual({
+      headers,
+      records: rows,
+    });
+  });
+
+  it('reads back what it writes with a BOM, as the library export does', () => {
+    expect(parseCsvRecords(`﻿${toCsv(headers, rows)}`)).toEqual({
+      headers,
+      records: rows,
+    });
+  });
+});
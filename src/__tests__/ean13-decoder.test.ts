@@ -0,0 +1,207 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * The fallback EAN-13 decoder used by barcode scanning, run against
+ * synthetic barcodes drawn pixel by pixel.
+ */
+
+import { decodeEan13, PixelImage } from '@/lib/utils/ean13-decoder';
+
+// Module widths of each digit's four runs in the L code
+const L_WIDTHS = [
+  [3, 2, 1, 1],
+  [2, 2, 2, 1],
+  [2, 1, 2, 2],
+  [1, 4, 1, 1],
+  [1, 1, 3, 2],
+  [1, 2, 3, 1],
+  [1, 1, 1, 4],
+  [1, 3, 1, 2],
+  [1, 2, 1, 3],
+  [3, 1, 1, 2],
+];
+const FIRST_DIGIT_PARITY = [
+  'LLLLLL',
+  'LLGLGG',
+  'LLGGLG',
+  'LLGGGL',
+  'LGLLGG',
+  'LGGLLG',
+  'LGGGLG',
+  'LGLGLG',
+  'LGLGGL',
+  'LGGLGL',
+];
+const QUIET_ZONE_MODULES = 11;
+
+// Runs of alternating modules, starting with a space or a bar
+const toModules = (widths: number[], startDark: boolean): boolean[] =>
+  widths.flatMap((width, index) =>
+    Array<boolean>(width).fill(index % 2 === 0 ? startDark : !startDark),
+  );
+
+/**
+ * The 95 modules of an EAN-13 barcode (true = bar). The check digit is
+ * drawn as given, so an invalid code can be drawn too.
+ */
+function encodeEan13(code: string): boolean[] {
+  const digits = code.split('').map(Number);
+  const parity = FIRST_DIGIT_PARITY[digits[0]];
+
+  const left = digits
+    .slice(1, 7)
+    .flatMap((digit, index) =>
+      parity[index] === 'G'
+        ? toModules([...L_WIDTHS[digit]].reverse(), false)
+        : toModules(L_WIDTHS[digit], false),
+    );
+  const right = digits
+    .slice(7)
+    .flatMap(digit => toModules(L_WIDTHS[digit], true));
+
+  return [
+    ...toModules([1, 1, 1], true),
+    ...left,
+    ...toModules([1, 1, 1, 1, 1], false),
+    ...right,
+    ...toModules([1, 1, 1], true),
+  ];
+}
+
+interface DrawOptions {
+  moduleWidth?: number;
+  height?: number;
+  dark?: number;
+  light?: number;
+}
+
+// One grey value per pixel, row by row
+type Grid = number[][];
+
+function drawBarcode(
+  modules: boolean[],
+  { moduleWidth = 3, height = 40, dark = 20, light = 235 }: DrawOptions = {},
+): Grid {
+  const quietZone = Array<boolean>(QUIET_ZONE_MODULES).fill(false);
+  const row = [...quietZone, ...modules, ...quietZone].flatMap(isBar =>
+    Array<number>(moduleWidth).fill(isBar ? dark : light),
+  );
+  return Array.from({ length: height }, () => [...row]);
+}
+
+const reverseRows = (grid: Grid): Grid => grid.map(row => [...row].reverse());
+
+const rotate90 = (grid: Grid): Grid =>
+  grid[0].map((_, x) => grid.map(row => row[x]).reverse());
+
+function toImage(grid: Grid): PixelImage {
+  const height = grid.length;
+  const width = grid[0].length;
+  const data = new Uint8ClampedArray(width * height * 4);
+  grid.forEach((row, y) =>
+    row.forEach((value, x) => {
+      const offset = (y * width + x) * 4;
+      data.set([value, value, value, 255], offset);
+    }),
+  );
+  return { data, width, height };
+}
+
+const VENTURE_DEALS = '9781119594826';
+const PHYSICS_TEXT = '9780306406157';
+
+describe('decodeEan13', () => {
+  it.each([
+    ['upright', (grid: Grid) => grid],
+    ['upside down', reverseRows],
+    ['rotated 90°', rotate90],
+    ['rotated 270°', (grid: Grid) => rotate90(rotate90(rotate90(grid)))],
+  ])('reads a barcode %s', (_, transform) => {
+    const grid = transform(drawBarcode(encodeEan13(VENTURE_DEALS)));
+
+    expect(decodeEan13(toImage(grid))).toBe(VENTURE_DEALS);
+  });
+
+  it.each(['9780306406157', '9783161484100', '9791090636071', '0012345678905'])(
+    'reads %s, covering its first-digit parity',
+    code => {
+      expect(decodeEan13(toImage(drawBarcode(encodeEan13(code))))).toBe(code);
+    },
+  );
+
+  it('reads a low-contrast barcode', () => {
+    const grid = drawBarcode(encodeEan13(VENTURE_DEALS), {
+      dark: 100,
+      light: 160,
+    });
+
+    expect(decodeEan13(toImage(grid))).toBe(VENTURE_DEALS);
+  });
+
+  it('reads a barcode drawn with narrower modules', () => {
+    const grid = drawBarcode(encodeEan13(VENTURE_DEALS), { moduleWidth: 2 });
+
+    expect(decodeEan13(toImage(grid))).toBe(VENTURE_DEALS);
+  });
+
+  it('goes with the code most scanlines read', () => {
+    // Two thirds of the rows show one barcode, the rest another
+    const majority = drawBarcode(encodeEan13(VENTURE_DEALS), { height: 40 });
+    const minority = drawBarcode(encodeEan13(PHYSICS_TEXT), { height: 20 });
+
+    expect(decodeEan13(toImage([...majority, ...minority]))).toBe(
+      VENTURE_DEALS,
+    );
+    expect(decodeEan13(toImage([...minority, ...majority]))).toBe(
+      VENTURE_DEALS,
+    );
+  });
+
+  describe('returns null', () => {
+    it('for a blank image', () => {
+      const grid = Array.from({ length: 40 }, () =>
+        Array<number>(300).fill(235),
+      );
+
+      expect(decodeEan13(toImage(grid))).toBeNull();
+    });
+
+    it('for a wrong check digit', () => {
+      const grid = drawBarcode(encodeEan13('9781119594827'));
+
+      expect(decodeEan13(toImage(grid))).toBeNull();
+    });
+
+    it('for too little contrast', () => {
+      const grid = drawBarcode(encodeEan13(VENTURE_DEALS), {
+        dark: 120,
+        light: 150,
+      });
+
+      expect(decodeEan13(toImage(grid))).toBeNull();
+    });
+
+    it('for a cut-off barcode', () => {
+      const grid = drawBarcode(encodeEan13(VENTURE_DEALS)).map(row =>
+        row.slice(0, Math.floor(row.length * 0.6)),
+      );
+
+      expect(decodeEan13(toImage(grid))).toBeNull();
+    });
+
+    it('without a quiet zone in front of the barcode', () => {
+      // Stripes right up against the start guard
+      const grid = drawBarcode([
+        true,
+        false,
+        true,
+        false,
+        ...encodeEan13(VENTURE_DEALS),
+      ]).map(row => row.slice(QUIET_ZONE_MODULES * 3));
+
+      expect(decodeEan13(toImage(grid))).toBeNull();
+    });
+  });
+});
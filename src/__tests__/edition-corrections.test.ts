@@ -0,0 +1,314 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Edition corrections: ISBN pairs users confirmed while fixing edition
+ * grouping, applied by edition detection and kept when the groups are saved.
+ */
+
+import { BookService } from '@/lib/services/book.service';
+import { EditionDetectionService } from '@/lib/services/edition-detection.service';
+import { EditionCorrectionPair } from '@/lib/types/edition-correction';
+import { UIBook } from '@/lib/types/ui-book';
+import {
+  EditionCorrectionRegistry,
+  toCorrectionPairs,
+} from '@/lib/utils/edition-correction-registry';
+
+type Row = Record<string, unknown>;
+
+// Just enough of the Supabase client for saving editions and bindings,
+// enforcing the unique indexes the fallbacks in BookService rely on
+const tables: Record<string, Row[]> = {};
+const UNIQUE_COLUMNS: Record<string, string[]> = {
+  book_editions: ['book_id', 'language', 'edition_number'],
+  book_bindings: ['isbn'],
+};
+
+class MockQuery {
+  private filters: [string, unknown][] = [];
+  private row?: Row;
+
+  constructor(private table: string) {}
+
+  insert(row: Row) {
+    this.row = row;
+    return this;
+  }
+
+  select() {
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push([column, value]);
+    return this;
+  }
+
+  single() {
+    return Promise.resolve(this.run(true));
+  }
+
+  then<T>(resolve: (result: ReturnType<MockQuery['run']>) => T) {
+    return Promise.resolve(this.run(false)).then(resolve);
+  }
+
+  private run(single: boolean) {
+    const rows = (tables[this.table] ||= []);
+
+    if (this.row) {
+      const unique = UNIQUE_COLUMNS[this.table] || [];
+      const duplicate =
+        unique.length > 0 &&
+        rows.some(row =>
+          unique.every(column => row[column] === this.row![column]),
+        );
+      if (duplicate) {
+        return { data: null, error: { code: '23505', message: 'duplicate' } };
+      }
+      const inserted = { id: `${this.table}-${rows.length + 1}`, ...this.row };
+      rows.push(inserted);
+      return { data: inserted, error: null };
+    }
+
+    const matches = rows.filter(row =>
+      this.filters.every(([column, value]) => row[column] === value),
+    );
+    if (!single) return { data: matches, error: null };
+    return matches.length === 1
+      ? { data: matches[0], error: null }
+      : { data: null, error: { code: 'PGRST116', message: 'not found' } };
+  }
+}
+
+jest.mock('@/lib/supabase/server', () => ({
+  createServiceClient: () => ({
+    from: (table: string) => new MockQuery(table),
+  }),
+}));
+
+const book = (
+  isbn13: string,
+  binding: string,
+  publishedDate: string,
+  title = 'Startup Opportunities: Know When to Quit Your Day Job',
+): UIBook => ({
+  id: `isbn-db-${isbn13}`,
+  title,
+  authors: ['Brad Feld', 'Sean Wise'],
+  isbn: isbn13,
+  isbn13,
+  binding,
+  published_date: publishedDate,
+  publisher: 'FG Press',
+  source: 'isbn-db',
+});
+
+const PAPERBACK = book('9780990530205', 'Paperback', '2015-03-03');
+const KINDLE = book('9780990530212', 'Kindle Edition', '2015-03-03');
+const REPRINT = book('9781119378181', 'Paperback', '2015-06-20');
+const SECOND_EDITION = book(
+  '9781119378181',
+  'Paperback',
+  '2017-06-20',
+  'Startup Opportunities, 2nd Edition',
+);
+
+const registry = (...corrections: EditionCorrectionPair[]) =>
+  new EditionCorrectionRegistry(corrections);
+
+const isbnsOf = (books: UIBook[]) => books.map(({ isbn13 }) => isbn13).sort();
+
+const summarize = (groups: { edition_number: number; books: UIBook[] }[]) =>
+  groups.map(group => [group.edition_number, isbnsOf(group.books)]);
+
+describe('toCorrectionPairs', () => {
+  it('sorts each pair and skips repeats, blanks and self-pairs', () => {
+    expect(
+      toCorrectionPairs(
+        ['9781119378181', '978-1-119-37818-1', null, '9780990530205'],
+        ['9780990530205', undefined],
+        'different-edition',
+      ),
+    ).toEqual([
+      {
+        isbn_a: '9780990530205',
+        isbn_b: '9781119378181',
+        relation: 'different-edition',
+      },
+    ]);
+  });
+
+  it('records ISBN-10s as ISBN-13s', () => {
+    expect(
+      toCorrectionPairs(['1119594820'], ['9780990530205'], 'different-work'),
+    ).toEqual([
+      {
+        isbn_a: '9780990530205',
+        isbn_b: '9781119594826',
+        relation: 'different-work',
+      },
+    ]);
+  });
+});
+
+describe('EditionCorrectionRegistry', () => {
+  const corrections = registry({
+    isbn_a: '9780990530205',
+    isbn_b: '9781119594826',
+    relation: 'different-work',
+  });
+
+  it('finds a pair in either order and by either ISBN form', () => {
+    expect(
+      corrections.relationBetween(
+        { isbn: '1119594820' },
+        { isbn13: '9780990530205' },
+      ),
+    ).toBe('different-work');
+    expect(
+      corrections.relationBetween(
+        { isbn13: '9780990530205' },
+        { isbn: '978-1-119-59482-6' },
+      ),
+    ).toBe('different-work');
+  });
+
+  it('has nothing to say about other pairs or a book and itself', () => {
+    expect(corrections.relationBetween(PAPERBACK, KINDLE)).toBeNull();
+    expect(corrections.relationBetween(PAPERBACK, PAPERBACK)).toBeNull();
+  });
+
+  it('ignores pairs without two distinct ISBNs', () => {
+    expect(
+      registry(
+        { isbn_a: '', isbn_b: '9780990530205', relation: 'same-edition' },
+        {
+          isbn_a: '9780990530205',
+          isbn_b: '9780990530205',
+          relation: 'different-edition',
+        },
+      ).size,
+    ).toBe(0);
+  });
+});
+
+describe('grouping with corrections', () => {
+  it('keeps a confirmed same-edition pair together over edition numbers', () => {
+    const books = [PAPERBACK, KINDLE, SECOND_EDITION];
+    expect(summarize(EditionDetectionService.groupByEdition(books))).toEqual([
+      [2, ['9781119378181']],
+      [1, ['9780990530205', '9780990530212']],
+    ]);
+
+    const { editionGroups, trace } =
+      EditionDetectionService.groupByEditionWithTrace(books, {
+        corrections: registry({
+          isbn_a: '9780990530205',
+          isbn_b: '9781119378181',
+          relation: 'same-edition',
+        }),
+      });
+
+    expect(summarize(editionGroups)).toEqual([
+      [1, ['9780990530205', '9780990530212', '9781119378181']],
+    ]);
+    const correctionRules = trace.books.map(traced =>
+      traced.events
+        .filter(event => event.stage === 'correction')
+        .map(event => event.rule),
+    );
+    expect(correctionRules).toEqual([[], [], ['confirmed-same-edition']]);
+  });
+
+  it('numbers each of two confirmed different works from the first edition', () => {
+    const groups = EditionDetectionService.groupByEdition([PAPERBACK, KINDLE], {
+      corrections: registry({
+        isbn_a: '9780990530205',
+        isbn_b: '9780990530212',
+        relation: 'different-work',
+      }),
+    });
+
+    expect(summarize(groups)).toEqual([
+      [1, ['9780990530205']],
+      [1, ['9780990530212']],
+    ]);
+  });
+
+  it('splits confirmed different works into separate books', () => {
+    const books = [PAPERBACK, KINDLE, REPRINT];
+    expect(EditionDetectionService.groupByBook(books)).toHaveLength(1);
+
+    const works = EditionDetectionService.groupByBook(books, {
+      corrections: registry(
+        {
+          isbn_a: '9780990530205',
+          isbn_b: '9781119378181',
+          relation: 'different-work',
+        },
+        {
+          isbn_a: '9780990530212',
+          isbn_b: '9781119378181',
+          relation: 'different-work',
+        },
+      ),
+    });
+
+    expect(works.map(summarize)).toEqual([
+      [[1, ['9780990530205', '9780990530212']]],
+      [[1, ['9781119378181']]],
+    ]);
+  });
+});
+
+describe('saving corrected edition groups', () => {
+  beforeEach(() => {
+    Object.keys(tables).forEach(table => delete tables[table]);
+  });
+
+  it('keeps a split-off group as its own edition', async () => {
+    const books = [PAPERBACK, KINDLE, REPRINT];
+    // The heuristics put all three in the first edition
+    expect(EditionDetectionService.groupByEdition(books)).toHaveLength(1);
+
+    const groups = EditionDetectionService.groupByEdition(books, {
+      corrections: registry(
+        {
+          isbn_a: '9780990530205',
+          isbn_b: '9781119378181',
+          relation: 'different-edition',
+        },
+        {
+          isbn_a: '9780990530212',
+          isbn_b: '9781119378181',
+          relation: 'different-edition',
+        },
+      ),
+    });
+    expect(
+      groups.map(group => [group.edition_number, isbnsOf(group.books)]),
+    ).toEqual([
+      [2, ['9781119378181']],
+      [1, ['9780990530205', '9780990530212']],
+    ]);
+
+    const editions = await BookService.createEditionsWithBindings(
+      'book-1',
+      groups,
+    );
+
+    expect(new Set(editions.map(edition => edition.id)).size).toBe(2);
+    expect(
+      editions.map(edition => [
+        edition.edition_number,
+        edition.bindings.map(binding => binding.isbn).sort(),
+      ]),
+    ).toEqual([
+      [2, ['9781119378181']],
+      [1, ['9780990530205', '9780990530212']],
+    ]);
+    expect(tables.book_editions).toHaveLength(2);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Golden-corpus regression harness for edition detection.
+ *
+ * Each directory under fixtures/edition-detection is one title search: the
+ * recorded result of every metadata provider (<provider-id>.json, as
+ * returned by MetadataProviderRegistry.searchByTitleAuthor) and
+ * expected.json with the grouping a person confirmed. An optional
+ * corrections.json holds edition corrections (ISBN pairs users confirmed)
+ * to group with, for cases that cover how corrections steer the heuristics.
+ * The harness merges the recorded results, groups them offline and scores
+ * the grouping per title.
+ *
+ * The baseline in expected.json is the score the heuristics reached when the
+ * fixture was recorded. Scores may only go up; raise the baseline when a
+ * change improves them.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { METADATA_PROVIDER_DEFAULTS } from '@/lib/constants/api-config';
+import { BookDataMergerService } from '@/lib/services/book-data-merger.service';
+import { EditionDetectionService } from '@/lib/services/edition-detection.service';
+import { EditionCorrectionPair } from '@/lib/types/edition-correction';
+import { MetadataProviderResult } from '@/lib/types/metadata-provider';
+import { UIBook } from '@/lib/types/ui-book';
+import { EditionCorrectionRegistry } from '@/lib/utils/edition-correction-registry';
+import {
+  EditionGroupingScore,
+  getGroupingKey,
+  scoreEditionGrouping,
+} from '@/lib/utils/edition-grouping-metrics';
+
+interface ExpectedGrouping {
+  title: string;
+  author: string;
+  editions: { edition_number: number; books: string[] }[];
+  excluded?: string[]; // Results that belong to no edition of this title
+  baseline: { precision: number; recall: number };
+}
+
+interface CorpusCase {
+  slug: string;
+  expected: ExpectedGrouping;
+  results: MetadataProviderResult<UIBook[]>[];
+  corrections: EditionCorrectionPair[];
+}
+
+const FIXTURE_FILES = ['expected.json', 'corrections.json'];
+
+const CORPUS_DIR = path.join(__dirname, 'fixtures', 'edition-detection');
+
+function readJson<T>(file: string): T {
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+}
+
+function loadCorpus(): CorpusCase[] {
+  return fs
+    .readdirSync(CORPUS_DIR)
+    .filter(slug => fs.statSync(path.join(CORPUS_DIR, slug)).isDirectory())
+    .sort()
+    .map(slug => {
+      const dir = path.join(CORPUS_DIR, slug);
+      const results = fs
+        .readdirSync(dir)
+        .filter(file => file.endsWith('.json') && !FIXTURE_FILES.includes(file))
+        .map(file =>
+          readJson<MetadataProviderResult<UIBook[]>>(path.join(dir, file)),
+        )
+        // Same order the registry merges in
+        .sort(
+          (a, b) =>
+            METADATA_PROVIDER_DEFAULTS[a.providerId].priority -
+            METADATA_PROVIDER_DEFAULTS[b.providerId].priority,
+        );
+
+      const correctionsFile = path.join(dir, 'corrections.json');
+
+      return {
+        slug,
+        expected: readJson<ExpectedGrouping>(path.join(dir, 'expected.json')),
+        results,
+        corrections: fs.existsSync(correctionsFile)
+          ? readJson<EditionCorrectionPair[]>(correctionsFile)
+          : [],
+      };
+    });
+}
+
+function scoreCase({
+  expected,
+  results,
+  corrections,
+}: CorpusCase): EditionGroupingScore & { groups: number } {
+  const { books } = BookDataMergerService.mergeProviderResults(results);
+  const groups = EditionDetectionService.groupByEdition(books, {
+    corrections: new EditionCorrectionRegistry(corrections),
+  });
+
+  return {
+    ...scoreEditionGrouping(
+      groups.map(group => group.books.map(getGroupingKey)),
+      expected.editions.map(edition => edition.books),
+      expected.excluded,
+    ),
+    groups: groups.length,
+  };
+}
+
+const corpus = loadCorpus();
+const report: Record<string, Record<string, string | number>> = {};
+
+describe('Edition detection golden corpus', () => {
+  afterAll(() => {
+    // eslint-disable-next-line no-console
+    console.table(report);
+  });
+
+  it.each(corpus.map(corpusCase => [corpusCase.slug, corpusCase] as const))(
+    'groups %s at or above its baseline',
+    (slug, corpusCase) => {
+      const score = scoreCase(corpusCase);
+      const { baseline, editions } = corpusCase.expected;
+
+      report[slug] = {
+        precision: Number(score.precision.toFixed(3)),
+        recall: Number(score.recall.toFixed(3)),
+        groups: `${score.groups} (expected ${editions.length})`,
+        missing: score.missing.join(', '),
+        unwanted: score.unwanted.join(', '),
+      };
+
+      expect(score.precision).toBeGreaterThanOrEqual(baseline.precision);
+      expect(score.recall).toBeGreaterThanOrEqual(baseline.recall);
+    },
+  );
+});
@@ -0,0 +1,265 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Batch ISBN lookup: bulk provider calls and their fallbacks in the
+ * registry, and previewing and saving a pasted list of ISBNs.
+ */
+
+import {
+  API_CONFIG,
+  ISBN_LOOKUP_CONCURRENCY,
+} from '@/lib/constants/api-config';
+import { BookService } from '@/lib/services/book.service';
+import { IsbnBatchService } from '@/lib/services/isbn-batch.service';
+import { MetadataProviderRegistry } from '@/lib/services/metadata-provider-registry';
+import { MetadataProviderSettingsService } from '@/lib/services/metadata-provider-settings.service';
+import { MetadataProvider } from '@/lib/types/metadata-provider';
+import { UIBook } from '@/lib/types/ui-book';
+
+jest.mock('@/lib/supabase/server', () => ({ createServiceClient: jest.fn() }));
+// The providers are the fakes registered below
+jest.mock('@/lib/services/metadata-providers', () => ({
+  BUILT_IN_METADATA_PROVIDERS: [],
+}));
+jest.mock('@/lib/services/metadata-provider-settings.service', () => ({
+  MetadataProviderSettingsService: { getOverrides: jest.fn() },
+}));
+jest.mock('@/lib/services/edition-correction.service', () => {
+  const { EditionCorrectionRegistry } = jest.requireActual(
+    '@/lib/utils/edition-correction-registry',
+  );
+  return {
+    EditionCorrectionService: {
+      getRegistry: jest.fn(async () => EditionCorrectionRegistry.empty()),
+    },
+  };
+});
+jest.mock('@/lib/services/book.service', () => ({
+  BookService: {
+    findExistingBook: jest.fn(),
+    createBook: jest.fn(),
+    updateBookWithNewEditions: jest.fn(),
+  },
+}));
+
+const getOverrides = MetadataProviderSettingsService.getOverrides as jest.Mock;
+const findExistingBook = BookService.findExistingBook as jest.Mock;
+const createBook = BookService.createBook as jest.Mock;
+const updateBookWithNewEditions =
+  BookService.updateBookWithNewEditions as jest.Mock;
+
+const book = (isbn13: string, overrides: Partial<UIBook> = {}): UIBook => ({
+  id: `isbn-db-${isbn13}`,
+  title: 'Startup Opportunities',
+  authors: ['Brad Feld', 'Sean Wise'],
+  isbn: isbn13,
+  isbn13,
+  binding: 'Paperback',
+  published_date: '2015-03-03',
+  publisher: 'FG Press',
+  ...overrides,
+});
+
+const wait = <T>(ms: number, value: T) =>
+  new Promise<T>(resolve => setTimeout(() => resolve(value), ms));
+
+const bulkLookup = jest.fn<
+  ReturnType<NonNullable<MetadataProvider['lookupByISBNs']>>,
+  [string[]]
+>();
+const singleLookup = jest.fn<
+  ReturnType<NonNullable<MetadataProvider['lookupByISBN']>>,
+  [string]
+>();
+
+// A bulk source ahead of a per-ISBN one, as with ISBNdb and Google Books
+beforeAll(() => {
+  MetadataProviderRegistry.register({
+    id: 'isbn-db',
+    name: 'ISBNdb',
+    providesIsbns: true,
+    isAvailable: () => true,
+    lookupByISBN: async () => ({ success: true, data: null }),
+    lookupByISBNs: bulkLookup,
+    bulkLookup: {
+      maxIsbns: API_CONFIG.ISBN_DB.BULK_MAX_ISBNS,
+      timeoutMs: API_CONFIG.ISBN_DB.BULK_TIMEOUT,
+    },
+  });
+  MetadataProviderRegistry.register({
+    id: 'google-books',
+    name: 'Google Books',
+    providesIsbns: true,
+    isAvailable: () => true,
+    lookupByISBN: singleLookup,
+  });
+});
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  getOverrides.mockResolvedValue([]);
+  bulkLookup.mockImplementation(async isbns => ({
+    success: true,
+    data: isbns.map(isbn => book(isbn)),
+  }));
+  singleLookup.mockResolvedValue({ success: true, data: null });
+});
+
+describe('MetadataProviderRegistry.lookupByISBNs', () => {
+  const isbns = Array.from(
+    { length: 150 },
+    (_, index) => `978000000${String(index).padStart(4, '0')}`,
+  );
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('sends bulk lookups in batches, each with the bulk timeout', async () => {
+    jest.useFakeTimers();
+    // Slower than the single-lookup timeout, as when waiting on rate limits
+    const slowerThanSingleLookups =
+      MetadataProviderRegistry.getSettings('isbn-db').timeoutMs + 1000;
+    bulkLookup.mockImplementation(batch =>
+      wait(slowerThanSingleLookups, {
+        success: true,
+        data: batch.map(isbn => book(isbn)),
+      }),
+    );
+
+    const lookup = MetadataProviderRegistry.lookupByISBNs(isbns);
+    await jest.advanceTimersByTimeAsync(2 * slowerThanSingleLookups);
+    const found = await lookup;
+
+    expect(bulkLookup.mock.calls.map(([batch]) => batch.length)).toEqual([
+      100, 50,
+    ]);
+    expect(found.size).toBe(150);
+    expect(singleLookup).not.toHaveBeenCalled();
+  });
+
+  it('falls back to single lookups a few at a time', async () => {
+    bulkLookup.mockResolvedValue({ success: false, error: 'Rate limited' });
+    let inFlight = 0;
+    let mostInFlight = 0;
+    singleLookup.mockImplementation(async isbn => {
+      mostInFlight = Math.max(mostInFlight, ++inFlight);
+      await Promise.resolve();
+      inFlight--;
+      return { success: true, data: book(isbn, { source: 'google-books' }) };
+    });
+
+    const found = await MetadataProviderRegistry.lookupByISBNs(isbns);
+
+    expect(singleLookup).toHaveBeenCalledTimes(150);
+    expect(mostInFlight).toBe(ISBN_LOOKUP_CONCURRENCY);
+    expect(found.size).toBe(150);
+    expect(found.get(isbns[0])?.provenance?.title?.source).toBe('google-books');
+  });
+
+  it('only asks later providers for what earlier ones lacked', async () => {
+    bulkLookup.mockImplementation(async batch => ({
+      success: true,
+      data: batch.slice(1).map(isbn => book(isbn)),
+    }));
+    singleLookup.mockImplementation(async isbn => ({
+      success: true,
+      data: book(isbn, { source: 'google-books' }),
+    }));
+
+    const found = await MetadataProviderRegistry.lookupByISBNs(
+      isbns.slice(0, 3),
+    );
+
+    expect(singleLookup.mock.calls).toEqual([[isbns[0]]]);
+    expect(Array.from(found.keys()).sort()).toEqual(isbns.slice(0, 3));
+  });
+});
+
+describe('IsbnBatchService', () => {
+  const PAPERBACK = '9780990530206';
+  const KINDLE = '9780990530213';
+  const MISSING = '9781119378181';
+
+  beforeEach(() => {
+    bulkLookup.mockImplementation(async batch => ({
+      success: true,
+      data: batch
+        .filter(isbn => isbn !== MISSING)
+        .map(isbn =>
+          book(
+            isbn,
+            isbn === KINDLE ? { binding: 'Kindle Edition' } : undefined,
+          ),
+        ),
+    }));
+    findExistingBook.mockResolvedValue(null);
+    createBook.mockImplementation(async (_userId, title: string) => ({
+      id: `book-${title}`,
+    }));
+  });
+
+  it('previews found books and reports invalid and missing ISBNs', async () => {
+    const preview = await IsbnBatchService.preview([
+      '978-0-9905302-0-6',
+      KINDLE,
+      KINDLE,
+      MISSING,
+      '9780990530205',
+      '  ',
+    ]);
+
+    expect(preview.items).toHaveLength(1);
+    expect(preview.items[0].book.title).toBe('Startup Opportunities');
+    expect(preview.items[0].isbns.sort()).toEqual([PAPERBACK, KINDLE]);
+    expect(preview.not_found).toEqual([MISSING]);
+    expect(preview.invalid).toEqual([
+      { input: '9780990530205', suggestions: expect.any(Array) },
+    ]);
+    expect(preview.invalid[0].suggestions).toContain('978-0-9905302-0-6');
+  });
+
+  it('saves previewed items, each on its own', async () => {
+    const { items } = await IsbnBatchService.preview([PAPERBACK, KINDLE]);
+    // Items come back from the client as JSON
+    const reviewed = JSON.parse(JSON.stringify(items));
+
+    const result = await IsbnBatchService.commit('user_123', [
+      { book: { title: '' }, editionGroups: [] },
+      ...reviewed,
+    ]);
+
+    expect(result).toMatchObject({ total: 2, succeeded: 1, failed: 1 });
+    expect(result.items[0]).toMatchObject({ index: 0, status: 'error' });
+    expect(result.items[1]).toEqual({
+      index: 1,
+      status: 'created',
+      title: 'Startup Opportunities',
+      book_id: 'book-Startup Opportunities',
+    });
+    const [, title, author, editionGroups] = createBook.mock.calls[0];
+    expect([title, author]).toEqual([
+      'Startup Opportunities',
+      'Brad Feld, Sean Wise',
+    ]);
+    expect(editionGroups[0].books).toHaveLength(2);
+  });
+
+  it('merges an item into a book the user already has', async () => {
+    findExistingBook.mockResolvedValue({ id: 'existing-book' });
+    updateBookWithNewEditions.mockResolvedValue({ id: 'existing-book' });
+    const { items } = await IsbnBatchService.preview([PAPERBACK]);
+
+    const result = await IsbnBatchService.commit(
+      'user_123',
+      JSON.parse(JSON.stringify(items)),
+    );
+
+    expect(result.items).toEqual([
+      expect.objectContaining({ status: 'merged', book_id: 'existing-book' }),
+    ]);
+    expect(createBook).not.toHaveBeenCalled();
+  });
+});
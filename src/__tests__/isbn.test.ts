@@ -0,0 +1,192 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * The shared ISBN toolkit: validation, ISBN-10/13 conversion, range-table
+ * hyphenation, publisher and group lookup, and typo suggestions.
+ */
+
+import {
+  cleanIsbn,
+  convertISBN10to13,
+  convertISBN13to10,
+  getPublisherPrefix,
+  hyphenateIsbn,
+  isValidISBN,
+  normalizeIsbn,
+  parseIsbn,
+  suggestIsbnCorrections,
+  toISBN13,
+} from '@/lib/utils/isbn';
+
+describe('ISBN toolkit', () => {
+  describe('known ISBNs', () => {
+    it.each([
+      // isbn13, isbn10, hyphenated, publisher prefix, group, language
+      [
+        '9780306406157',
+        '0306406152',
+        '978-0-306-40615-7',
+        '978-0-306',
+        '0',
+        'en',
+      ],
+      [
+        '9781119594826',
+        '1119594820',
+        '978-1-119-59482-6',
+        '978-1-119',
+        '1',
+        'en',
+      ],
+      [
+        '9783161484100',
+        '316148410X',
+        '978-3-16-148410-0',
+        '978-3-16',
+        '3',
+        'de',
+      ],
+      [
+        '9780804429573',
+        '080442957X',
+        '978-0-8044-2957-3',
+        '978-0-8044',
+        '0',
+        'en',
+      ],
+    ])(
+      '%s converts, hyphenates and parses',
+      (isbn13, isbn10, hyphenated, publisherPrefix, group, language) => {
+        expect(convertISBN13to10(isbn13)).toBe(isbn10);
+        expect(convertISBN10to13(isbn10)).toBe(isbn13);
+        expect(hyphenateIsbn(isbn13)).toBe(hyphenated);
+        expect(getPublisherPrefix(isbn10)).toBe(publisherPrefix);
+        expect(parseIsbn(isbn13)).toMatchObject({
+          isbn13,
+          isbn10,
+          prefix: '978',
+          group,
+          language,
+          checkDigit: isbn13[12],
+        });
+      },
+    );
+
+    it.each([
+      ['0-306-40615-2', '0-306-40615-2'],
+      ['0306406152', '0-306-40615-2'],
+      ['080442957X', '0-8044-2957-X'],
+      ['ISBN 978-0-306-40615-7', '978-0-306-40615-7'],
+    ])('hyphenates %s in the form it was given', (input, hyphenated) => {
+      expect(hyphenateIsbn(input)).toBe(hyphenated);
+    });
+
+    it.each([
+      ['ISBN-13: 978-0-306-40615-7', '9780306406157'],
+      ['0 306 40615 2', '9780306406157'],
+      ['080442957x', '9780804429573'],
+    ])('normalizes %s to %s', (input, isbn13) => {
+      expect(normalizeIsbn(input)).toBe(isbn13);
+      expect(toISBN13(input)).toBe(isbn13);
+    });
+  });
+
+  describe('979 prefixes', () => {
+    it.each([
+      ['9791090636071', '979-10-90636-07-1', '10', 'fr'],
+      ['9798212345675', '979-8-212-34567-5', '8', 'en'],
+    ])('%s has no ISBN-10 form', (isbn13, hyphenated, group, language) => {
+      expect(isValidISBN(isbn13)).toBe(true);
+      expect(convertISBN13to10(isbn13)).toBeNull();
+      expect(hyphenateIsbn(isbn13)).toBe(hyphenated);
+
+      const parsed = parseIsbn(isbn13);
+      expect(parsed).toMatchObject({ prefix: '979', group, language });
+      expect(parsed?.isbn10).toBeUndefined();
+    });
+  });
+
+  describe('X check digits', () => {
+    it.each([
+      ['080442957X', true],
+      ['080442957x', true],
+      ['316148410X', true],
+      ['0306406152X', false], // Eleven characters
+      ['03064061X2', false], // X before the check digit
+      ['979821234567X', false], // ISBN-13s never end in X
+    ])('%s is valid: %s', (isbn, valid) => {
+      expect(isValidISBN(isbn)).toBe(valid);
+    });
+
+    it('cleans a lowercase x to X', () => {
+      expect(cleanIsbn('0-8044-2957-x')).toBe('080442957X');
+    });
+  });
+
+  describe('invalid input', () => {
+    it.each([
+      ['', null],
+      [null, null],
+      [undefined, null],
+      ['123', null],
+      ['9780306406158', null], // Wrong check digit
+      ['9770306406157', null], // Not a 978/979 prefix
+      ['0306406153', null],
+      ['not an isbn', null],
+    ])('%p has no ISBN-13', (input, expected) => {
+      expect(toISBN13(input)).toBe(expected);
+      expect(parseIsbn(input)).toBeNull();
+      expect(hyphenateIsbn(input)).toBeNull();
+    });
+
+    it('keeps a malformed ISBN matching itself when normalized', () => {
+      expect(normalizeIsbn('978-0-306-40615-8')).toBe('9780306406158');
+    });
+  });
+
+  describe('typo suggestions', () => {
+    it.each([
+      // input, intended ISBN, reason
+      ['9780306406175', '9780306406157', 'transposition'],
+      ['0360406152', '0306406152', 'transposition'],
+      ['9780306406158', '9780306406157', 'check-digit'],
+      ['0306406153', '0306406152', 'check-digit'],
+      ['030640615X', '0306406152', 'check-digit'],
+      ['9770306406157', '9780306406157', 'substitution'],
+    ])('suggests %s → %s (%s)', (input, intended, reason) => {
+      expect(suggestIsbnCorrections(input)).toContainEqual(
+        expect.objectContaining({ isbn: intended, reason }),
+      );
+    });
+
+    it('ranks transpositions ahead of check digits ahead of substitutions', () => {
+      const reasons = suggestIsbnCorrections('9780306406175').map(
+        correction => correction.reason,
+      );
+      const ranks = reasons.map(reason =>
+        ['transposition', 'check-digit', 'substitution'].indexOf(reason),
+      );
+      expect(ranks).toEqual([...ranks].sort((a, b) => a - b));
+    });
+
+    it('only suggests valid, distinct ISBNs', () => {
+      const suggestions = suggestIsbnCorrections('9780306406158');
+      expect(suggestions.length).toBeGreaterThan(0);
+      suggestions.forEach(({ isbn }) => expect(isValidISBN(isbn)).toBe(true));
+      expect(new Set(suggestions.map(({ isbn }) => isbn)).size).toBe(
+        suggestions.length,
+      );
+    });
+
+    it.each([
+      ['9780306406157'], // Already valid
+      ['123'],
+      ['030640615X2'],
+      ['97803064061X7'],
+    ])('makes no suggestions for %s', input => {
+      expect(suggestIsbnCorrections(input)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Library backups: a JSON export restored into an empty library comes back
+ * with the same bindings, picked values, series and works.
+ */
+
+import { BookService } from '@/lib/services/book.service';
+import { EditionGroup } from '@/lib/services/edition-detection.service';
+import { LibraryExportService } from '@/lib/services/library-export.service';
+import { SeriesService } from '@/lib/services/series.service';
+import { WorkService } from '@/lib/services/work.service';
+import { Book, BookBinding, BookBindingInsert } from '@/lib/types/book';
+import { LibraryImportSchema } from '@/lib/validation/api-schemas';
+
+jest.mock('@/lib/supabase/server', () => ({ createServiceClient: jest.fn() }));
+
+jest.mock('@/lib/services/book.service', () => {
+  const { BookService: ActualBookService } = jest.requireActual(
+    '@/lib/services/book.service',
+  );
+  return {
+    BookService: {
+      findExistingBook: jest.fn(),
+      createBook: jest.fn(),
+      updateBookWithNewEditions: jest.fn(),
+      toBindingInsert: ActualBookService.toBindingInsert,
+    },
+  };
+});
+
+jest.mock('@/lib/services/series.service', () => ({
+  SeriesService: {
+    resolveSeriesFields: jest.fn(),
+    setBookEntry: jest.fn(),
+    removeBookEntry: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/services/work.service', () => ({
+  WorkService: { mergeBooks: jest.fn(), updateWork: jest.fn() },
+}));
+
+const findExistingBook = BookService.findExistingBook as jest.Mock;
+const createBook = BookService.createBook as jest.Mock;
+const resolveSeriesFields = SeriesService.resolveSeriesFields as jest.Mock;
+const setBookEntry = SeriesService.setBookEntry as jest.Mock;
+const removeBookEntry = SeriesService.removeBookEntry as jest.Mock;
+const mergeBooks = WorkService.mergeBooks as jest.Mock;
+const updateWork = WorkService.updateWork as jest.Mock;
+
+const USER_ID = 'user_123';
+const SAVED_AT = '2026-01-01T00:00:00.000Z';
+const PICKED_AT = '2026-01-15T00:00:00.000Z';
+
+const isbnDb = { source: 'isbn-db', fetched_at: SAVED_AT };
+const googleBooks = { source: 'google-books', fetched_at: SAVED_AT };
+
+const binding = (overrides: Partial<BookBinding>): BookBinding => ({
+  id: 'binding-1',
+  book_edition_id: 'edition-1',
+  binding_type: 'paperback',
+  language: 'en',
+  created_at: SAVED_AT,
+  ...overrides,
+});
+
+const FIRST_EDITION: Book = {
+  id: 'book-1',
+  user_id: 'user_old',
+  title: 'Startup Opportunities',
+  author: 'Brad Feld, Sean Wise',
+  selected_edition_id: 'edition-1',
+  series_id: 'series-1',
+  series_number: 3,
+  reading_order: null,
+  series: { id: 'series-1', name: 'Startup Revolution' },
+  work_id: 'work-1',
+  work: { id: 'work-1', title: 'Startup Opportunities' },
+  created_at: SAVED_AT,
+  updated_at: SAVED_AT,
+  editions: [
+    {
+      id: 'edition-1',
+      book_id: 'book-1',
+      edition_number: 1,
+      publication_year: 2015,
+      language: 'en',
+      created_at: SAVED_AT,
+      bindings: [
+        binding({
+          isbn: '9780990530205',
+          publisher: 'FG Press',
+          pages: 336,
+          price: 19.99,
+          provenance: { publisher: isbnDb, pages: googleBooks },
+          metadata_conflicts: {
+            pages: [
+              { value: 320, ...isbnDb },
+              { value: 336, ...googleBooks },
+            ],
+          },
+          user_overrides: {
+            pages: {
+              value: 336,
+              source: 'google-books',
+              overridden_at: PICKED_AT,
+            },
+          },
+        }),
+        binding({
+          id: 'binding-2',
+          isbn: '9780990530212',
+          binding_type: 'ebook',
+          publisher: 'FG Press',
+          provenance: { publisher: isbnDb },
+        }),
+      ],
+    },
+  ],
+};
+
+const SECOND_EDITION: Book = {
+  id: 'book-2',
+  user_id: 'user_old',
+  title: 'Startup Opportunities, 2nd Edition',
+  author: 'Brad Feld, Sean Wise',
+  series_id: null,
+  series: null,
+  work_id: 'work-1',
+  work: { id: 'work-1', title: 'Startup Opportunities' },
+  created_at: SAVED_AT,
+  updated_at: SAVED_AT,
+  editions: [
+    {
+      id: 'edition-2',
+      book_id: 'book-2',
+      edition_number: 1,
+      publication_year: 2017,
+      language: 'en',
+      created_at: SAVED_AT,
+      bindings: [
+        binding({
+          id: 'binding-3',
+          book_edition_id: 'edition-2',
+          isbn: '9781119378181',
+          publisher: 'Wiley',
+          description: 'Know when to quit your day job',
+          provenance: { publisher: isbnDb, description: googleBooks },
+        }),
+      ],
+    },
+  ],
+};
+
+// What the export file holds, read back the way the import route reads it
+const exportAndParse = (books: Book[]) =>
+  LibraryImportSchema.parse(
+    JSON.parse(JSON.stringify(LibraryExportService.toJson(books))),
+  );
+
+const STORED_COLUMNS = [
+  'isbn',
+  'binding_type',
+  'price',
+  'publisher',
+  'cover_image_url',
+  'description',
+  'pages',
+  'language',
+  'metadata_conflicts',
+  'user_overrides',
+] as const;
+
+const storedValues = (saved: BookBinding | BookBindingInsert) =>
+  Object.fromEntries(
+    STORED_COLUMNS.map(column => [
+      column,
+      column === 'metadata_conflicts' ? saved[column] || {} : saved[column],
+    ]),
+  );
+
+describe('LibraryExportService JSON round trip', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    findExistingBook.mockResolvedValue(null);
+    createBook.mockImplementation(async (_userId, title: string) => ({
+      id: `new-${title}`,
+      series_id: null,
+    }));
+    resolveSeriesFields.mockResolvedValue({ series_id: 'series-new' });
+    mergeBooks.mockResolvedValue({ id: 'work-new' });
+  });
+
+  it('saves every binding with the values it was exported with', async () => {
+    const result = await LibraryExportService.restoreFromJson(
+      USER_ID,
+      exportAndParse([FIRST_EDITION, SECOND_EDITION]),
+    );
+
+    expect(result).toEqual({ total: 2, created: 2, merged: 0, failed: [] });
+    [FIRST_EDITION, SECOND_EDITION].forEach((book, index) => {
+      const [, title, author, editionGroups, selectedEditionNumber] =
+        createBook.mock.calls[index];
+      expect([title, author]).toEqual([book.title, book.author]);
+      expect(selectedEditionNumber).toBe(
+        book.selected_edition_id ? 1 : undefined,
+      );
+
+      const exported = book.editions[0];
+      const [group]: EditionGroup[] = editionGroups;
+      expect(group.edition_number).toBe(exported.edition_number);
+      expect(group.publication_year).toBe(exported.publication_year);
+
+      const saved = group.books.map(restored =>
+        BookService.toBindingInsert(restored, exported.id),
+      );
+      expect(saved.map(storedValues)).toEqual(
+        exported.bindings.map(storedValues),
+      );
+      saved.forEach((savedBinding, bindingIndex) =>
+        expect(savedBinding.provenance).toMatchObject(
+          exported.bindings[bindingIndex].provenance!,
+        ),
+      );
+    });
+  });
+
+  it('puts books back in their series and work', async () => {
+    await LibraryExportService.restoreFromJson(
+      USER_ID,
+      exportAndParse([FIRST_EDITION, SECOND_EDITION]),
+    );
+
+    expect(resolveSeriesFields).toHaveBeenCalledWith(USER_ID, {
+      name: 'Startup Revolution',
+    });
+    expect(setBookEntry).toHaveBeenCalledTimes(1);
+    expect(setBookEntry).toHaveBeenCalledWith(
+      'series-new',
+      'new-Startup Opportunities',
+      USER_ID,
+      { series_number: 3, reading_order: null },
+    );
+    expect(mergeBooks).toHaveBeenCalledWith(USER_ID, [
+      'new-Startup Opportunities',
+      'new-Startup Opportunities, 2nd Edition',
+    ]);
+    expect(updateWork).toHaveBeenCalledWith('work-new', USER_ID, {
+      title: 'Startup Opportunities',
+    });
+  });
+
+  it('drops a series detected on restore that the export says it lacked', async () => {
+    createBook.mockResolvedValue({ id: 'new-book', series_id: 'detected' });
+
+    await LibraryExportService.restoreFromJson(
+      USER_ID,
+      exportAndParse([SECOND_EDITION]),
+    );
+
+    expect(removeBookEntry).toHaveBeenCalledWith(
+      'detected',
+      'new-book',
+      USER_ID,
+    );
+    expect(mergeBooks).not.toHaveBeenCalled();
+  });
+
+  it('keeps the series of a book it merges into', async () => {
+    findExistingBook.mockResolvedValue({ id: 'existing-book' });
+
+    const result = await LibraryExportService.restoreFromJson(
+      USER_ID,
+      exportAndParse([FIRST_EDITION]),
+    );
+
+    expect(result.merged).toBe(1);
+    expect(BookService.updateBookWithNewEditions).toHaveBeenCalledWith(
+      'existing-book',
+      expect.any(Array),
+    );
+    expect(setBookEntry).not.toHaveBeenCalled();
+    expect(removeBookEntry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Library restructuring: move, merge and split run as database functions,
+ * record what they taught edition grouping, and undo takes that back.
+ */
+
+import { BookService } from '@/lib/services/book.service';
+import { EditionCorrectionService } from '@/lib/services/edition-correction.service';
+import { LibraryRestructureService } from '@/lib/services/library-restructure.service';
+import { Book, BookEdition } from '@/lib/types/book';
+import {
+  EditionCorrectionChange,
+  EditionCorrectionPair,
+} from '@/lib/types/edition-correction';
+
+// Rows .single() reads back per table, and every update made
+const mockRows: Record<string, unknown> = {};
+const mockUpdates: [string, unknown][] = [];
+const mockRpc = jest.fn();
+
+jest.mock('@/lib/supabase/server', () => ({
+  createServiceClient: () => ({
+    rpc: (...args: unknown[]) => mockRpc(...args),
+    from: (table: string) => {
+      const query = {
+        select: () => query,
+        eq: () => query,
+        single: async () =>
+          mockRows[table]
+            ? { data: mockRows[table], error: null }
+            : { data: null, error: { message: 'not found' } },
+        update: (values: unknown) => {
+          mockUpdates.push([table, values]);
+          return { eq: async () => ({ error: null }) };
+        },
+      };
+      return query;
+    },
+  }),
+}));
+
+jest.mock('@/lib/services/book.service', () => ({
+  BookService: { getBookWithDetails: jest.fn() },
+}));
+
+jest.mock('@/lib/services/edition-correction.service', () => ({
+  EditionCorrectionService: {
+    getBookIsbns: jest.fn(),
+    getEditionIsbns: jest.fn(),
+    recordCorrections: jest.fn(),
+    revertCorrections: jest.fn(),
+  },
+}));
+
+const getBookWithDetails = BookService.getBookWithDetails as jest.Mock;
+const getBookIsbns = EditionCorrectionService.getBookIsbns as jest.Mock;
+const getEditionIsbns = EditionCorrectionService.getEditionIsbns as jest.Mock;
+const recordCorrections =
+  EditionCorrectionService.recordCorrections as jest.Mock;
+const revertCorrections =
+  EditionCorrectionService.revertCorrections as jest.Mock;
+
+const USER_ID = 'user_123';
+const SAVED_AT = '2026-01-01T00:00:00.000Z';
+
+const PAPERBACK = '9780990530206';
+const KINDLE = '9780990530213';
+const REPRINT = '9781119378181';
+const SECOND_EDITION = '9781119594826';
+
+const edition = (id: string, bindings: [string, string][]): BookEdition => ({
+  id,
+  book_id: 'book-1',
+  edition_number: 1,
+  language: 'en',
+  created_at: SAVED_AT,
+  bindings: bindings.map(([bindingId, isbn]) => ({
+    id: bindingId,
+    book_edition_id: id,
+    isbn,
+    binding_type: 'paperback',
+    language: 'en',
+    created_at: SAVED_AT,
+  })),
+});
+
+const book = (...editions: BookEdition[]): Book => ({
+  id: 'book-1',
+  user_id: USER_ID,
+  title: 'Startup Opportunities',
+  author: 'Brad Feld, Sean Wise',
+  created_at: SAVED_AT,
+  updated_at: SAVED_AT,
+  editions,
+});
+
+const pair = (
+  isbn_a: string,
+  isbn_b: string,
+  relation: EditionCorrectionPair['relation'],
+): EditionCorrectionPair => ({ isbn_a, isbn_b, relation });
+
+// What record_edition_corrections reports back for new pairs
+const recorded = (pairs: EditionCorrectionPair[]): EditionCorrectionChange[] =>
+  pairs.map(correction => ({
+    ...correction,
+    previous_relation: null,
+    previous_confirmations: null,
+  }));
+
+const OPERATION = { operation_id: 'operation-1', book_id: 'book-1' };
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  Object.keys(mockRows).forEach(table => delete mockRows[table]);
+  mockUpdates.length = 0;
+  mockRows.audit_logs = { metadata: { book_ids: ['book-1'] } };
+  mockRpc.mockResolvedValue({ data: OPERATION, error: null });
+  recordCorrections.mockImplementation(async (_userId, pairs) =>
+    recorded(pairs),
+  );
+});
+
+describe('LibraryRestructureService', () => {
+  it('moves a binding and records its new and old siblings', async () => {
+    mockRows.book_bindings = { isbn: KINDLE, book_edition_id: 'edition-1' };
+    getEditionIsbns.mockResolvedValue(
+      new Map([['edition-1', [PAPERBACK, KINDLE]]]),
+    );
+    const moved = book(
+      edition('edition-2', [
+        ['binding-2', KINDLE],
+        ['binding-3', REPRINT],
+      ]),
+    );
+    getBookWithDetails.mockResolvedValue(moved);
+
+    const result = await LibraryRestructureService.moveBinding(
+      USER_ID,
+      'binding-2',
+      'edition-2',
+    );
+
+    expect(result).toEqual({ operation_id: 'operation-1', book: moved });
+    expect(mockRpc).toHaveBeenCalledWith('move_binding', {
+      p_user_id: USER_ID,
+      p_binding_id: 'binding-2',
+      p_target_edition_id: 'edition-2',
+    });
+    const pairs = [
+      pair(KINDLE, REPRINT, 'same-edition'),
+      pair(PAPERBACK, KINDLE, 'different-edition'),
+    ];
+    expect(recordCorrections).toHaveBeenCalledWith(USER_ID, pairs);
+    // Kept with the operation, so undoing it can take them back
+    expect(mockUpdates).toEqual([
+      [
+        'audit_logs',
+        {
+          metadata: {
+            book_ids: ['book-1'],
+            edition_corrections: recorded(pairs),
+          },
+        },
+      ],
+    ]);
+  });
+
+  it('merges editions and records them as the same edition', async () => {
+    getEditionIsbns.mockResolvedValue(
+      new Map([
+        ['edition-1', [PAPERBACK]],
+        ['edition-2', [KINDLE]],
+      ]),
+    );
+    getBookWithDetails.mockResolvedValue(
+      book(
+        edition('edition-2', [
+          ['binding-1', PAPERBACK],
+          ['binding-2', KINDLE],
+        ]),
+      ),
+    );
+
+    await LibraryRestructureService.mergeEditions(
+      USER_ID,
+      'edition-1',
+      'edition-2',
+    );
+
+    expect(mockRpc).toHaveBeenCalledWith('merge_editions', {
+      p_user_id: USER_ID,
+      p_source_edition_id: 'edition-1',
+      p_target_edition_id: 'edition-2',
+    });
+    expect(recordCorrections).toHaveBeenCalledWith(USER_ID, [
+      pair(PAPERBACK, KINDLE, 'same-edition'),
+    ]);
+  });
+
+  it('merges books and records where the moved bindings landed', async () => {
+    getBookIsbns.mockResolvedValue(new Map([['book-2', [REPRINT]]]));
+    getBookWithDetails.mockResolvedValue(
+      book(
+        edition('edition-1', [
+          ['binding-1', PAPERBACK],
+          ['binding-3', REPRINT],
+        ]),
+        edition('edition-2', [['binding-4', SECOND_EDITION]]),
+      ),
+    );
+
+    await LibraryRestructureService.mergeBooks(USER_ID, 'book-2', 'book-1');
+
+    expect(mockRpc).toHaveBeenCalledWith('merge_books', {
+      p_user_id: USER_ID,
+      p_source_book_id: 'book-2',
+      p_target_book_id: 'book-1',
+    });
+    expect(recordCorrections).toHaveBeenCalledWith(USER_ID, [
+      pair(PAPERBACK, REPRINT, 'same-edition'),
+      pair(REPRINT, SECOND_EDITION, 'different-edition'),
+    ]);
+  });
+
+  it('splits an edition and records the parts as different editions', async () => {
+    getBookWithDetails.mockResolvedValue(
+      book(
+        edition('edition-1', [['binding-1', PAPERBACK]]),
+        edition('edition-3', [['binding-2', KINDLE]]),
+      ),
+    );
+
+    await LibraryRestructureService.splitEdition(USER_ID, 'edition-1', [
+      'binding-2',
+    ]);
+
+    expect(mockRpc).toHaveBeenCalledWith('split_edition', {
+      p_user_id: USER_ID,
+      p_edition_id: 'edition-1',
+      p_binding_ids: ['binding-2'],
+    });
+    expect(recordCorrections).toHaveBeenCalledWith(USER_ID, [
+      pair(PAPERBACK, KINDLE, 'different-edition'),
+    ]);
+  });
+
+  it('records nothing when the database refuses a change', async () => {
+    mockRpc.mockResolvedValue({
+      data: null,
+      error: { message: 'Select some, but not all, of the bindings' },
+    });
+
+    await expect(
+      LibraryRestructureService.splitEdition(USER_ID, 'edition-1', [
+        'binding-1',
+        'binding-2',
+      ]),
+    ).rejects.toThrow('Failed to split edition: Select some, but not all');
+    expect(recordCorrections).not.toHaveBeenCalled();
+    expect(mockUpdates).toEqual([]);
+  });
+
+  it('leaves the audit log alone when no correction was recorded', async () => {
+    recordCorrections.mockResolvedValue([]);
+    getBookWithDetails.mockResolvedValue(
+      book(
+        edition('edition-1', [['binding-1', PAPERBACK]]),
+        edition('edition-3', [['binding-2', KINDLE]]),
+      ),
+    );
+
+    await LibraryRestructureService.splitEdition(USER_ID, 'edition-1', [
+      'binding-2',
+    ]);
+
+    expect(mockUpdates).toEqual([]);
+  });
+
+  describe('undoOperation', () => {
+    const corrections = recorded([pair(PAPERBACK, KINDLE, 'same-edition')]);
+
+    beforeEach(() => {
+      mockRows.audit_logs = {
+        metadata: { book_ids: ['book-1'], edition_corrections: corrections },
+      };
+      getBookWithDetails.mockResolvedValue(
+        book(edition('edition-1', [['binding-1', PAPERBACK]])),
+      );
+    });
+
+    it('undoes the change and takes back its corrections', async () => {
+      mockRpc.mockResolvedValue({
+        data: { operation_id: 'operation-2', book_id: 'book-1' },
+        error: null,
+      });
+
+      const result = await LibraryRestructureService.undoOperation(
+        USER_ID,
+        'operation-1',
+      );
+
+      expect(result.operation_id).toBe('operation-2');
+      expect(mockRpc).toHaveBeenCalledWith('undo_library_operation', {
+        p_user_id: USER_ID,
+        p_operation_id: 'operation-1',
+      });
+      expect(revertCorrections).toHaveBeenCalledWith(corrections);
+    });
+
+    it('keeps the corrections when the books changed since', async () => {
+      mockRpc.mockResolvedValue({
+        data: null,
+        error: {
+          message:
+            'These books have changed since, so this change can no longer be undone',
+        },
+      });
+
+      await expect(
+        LibraryRestructureService.undoOperation(USER_ID, 'operation-1'),
+      ).rejects.toThrow('can no longer be undone');
+      expect(revertCorrections).not.toHaveBeenCalled();
+    });
+  });
+});
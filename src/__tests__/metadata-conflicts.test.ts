@@ -0,0 +1,294 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Metadata conflicts: keeping every value providers disagree on, and
+ * refreshing saved bindings without overwriting values the user picked.
+ */
+
+import { BookBinding, BookBindingInsert } from '@/lib/types/book';
+import { UIBook } from '@/lib/types/ui-book';
+import {
+  collectConflicts,
+  getRefreshUpdate,
+  keepMatchingOverrides,
+  mergeConflicts,
+  toBindingValue,
+} from '@/lib/utils/metadata-conflicts';
+
+const SAVED_AT = '2026-01-01T00:00:00.000Z';
+const PICKED_AT = '2026-01-15T00:00:00.000Z';
+const REFRESHED_AT = '2026-02-01T00:00:00.000Z';
+
+const isbnDb = { source: 'isbn-db', fetched_at: SAVED_AT };
+const googleBooks = { source: 'google-books', fetched_at: REFRESHED_AT };
+
+const binding = (overrides: Partial<BookBinding> = {}): BookBinding => ({
+  id: 'binding-1',
+  book_edition_id: 'edition-1',
+  binding_type: 'hardcover',
+  language: 'en',
+  publisher: 'Wiley',
+  pages: 320,
+  provenance: { publisher: isbnDb, pages: isbnDb },
+  created_at: SAVED_AT,
+  ...overrides,
+});
+
+const refreshed = (
+  overrides: Partial<BookBindingInsert> = {},
+): BookBindingInsert => ({
+  book_edition_id: 'edition-1',
+  binding_type: 'hardcover',
+  language: 'en',
+  publisher: 'Wiley',
+  pages: 336,
+  provenance: { publisher: googleBooks, pages: googleBooks },
+  ...overrides,
+});
+
+describe('mergeConflicts', () => {
+  it('keeps the first occurrence of each distinct value', () => {
+    expect(
+      mergeConflicts(
+        { pages: [{ value: 320, ...isbnDb }] },
+        {
+          pages: [
+            { value: '320', ...googleBooks },
+            { value: 336, ...googleBooks },
+          ],
+        },
+      ),
+    ).toEqual({
+      pages: [
+        { value: 320, ...isbnDb },
+        { value: 336, ...googleBooks },
+      ],
+    });
+  });
+
+  it('compares text without case or surrounding spaces', () => {
+    expect(
+      mergeConflicts(
+        { publisher: [{ value: 'Wiley', ...isbnDb }] },
+        { publisher: [{ value: ' WILEY ', ...googleBooks }] },
+      ),
+    ).toEqual({});
+  });
+
+  it('drops fields left with a single candidate', () => {
+    expect(
+      mergeConflicts(
+        {
+          price: [
+            { value: '19.99', ...isbnDb },
+            { value: 19.99, ...googleBooks },
+          ],
+        },
+        null,
+        undefined,
+      ),
+    ).toEqual({});
+  });
+});
+
+describe('collectConflicts', () => {
+  const book = (overrides: Partial<UIBook>): UIBook => ({
+    id: 'book-1',
+    title: 'Venture Deals',
+    authors: ['Brad Feld'],
+    ...overrides,
+  });
+
+  it('collects the values books disagree on, crediting each source', () => {
+    const conflicts = collectConflicts([
+      book({
+        page_count: 320,
+        publisher: 'Wiley',
+        provenance: { pages: isbnDb },
+      }),
+      book({
+        page_count: 336,
+        publisher: 'Wiley',
+        source: 'google-books',
+        updated_at: REFRESHED_AT,
+      }),
+    ]);
+
+    expect(conflicts).toEqual({
+      pages: [
+        { value: 320, ...isbnDb },
+        { value: 336, ...googleBooks },
+      ],
+    });
+  });
+
+  it('keeps candidates from books that were already merged', () => {
+    const conflicts = collectConflicts([
+      book({
+        page_count: 320,
+        provenance: { pages: isbnDb },
+        conflicts: {
+          pages: [
+            { value: 320, ...isbnDb },
+            { value: 312, source: 'open-library', fetched_at: SAVED_AT },
+          ],
+        },
+      }),
+      book({ page_count: 336, provenance: { pages: googleBooks } }),
+    ]);
+
+    expect(conflicts.pages?.map(candidate => candidate.value)).toEqual([
+      320, 312, 336,
+    ]);
+  });
+});
+
+describe('toBindingValue', () => {
+  it.each([
+    ['pages', '336', 336],
+    ['price', '19.99', 19.99],
+    ['publisher', 'Wiley', 'Wiley'],
+    ['language', 'en', 'en'],
+  ] as const)('stores %s %p as %p', (field, value, stored) => {
+    expect(toBindingValue(field, value)).toBe(stored);
+  });
+});
+
+describe('getRefreshUpdate', () => {
+  it('applies fresh values and keeps the old ones as candidates', () => {
+    const update = getRefreshUpdate(binding(), refreshed());
+
+    expect(update).toEqual({
+      pages: 336,
+      provenance: { publisher: isbnDb, pages: googleBooks },
+      metadata_conflicts: {
+        pages: [
+          { value: 320, ...isbnDb },
+          { value: 336, ...googleBooks },
+        ],
+      },
+    });
+  });
+
+  it('never overwrites a value the user picked', () => {
+    const existing = binding({
+      pages: 320,
+      metadata_conflicts: {
+        pages: [
+          { value: 320, ...isbnDb },
+          { value: 312, source: 'open-library', fetched_at: SAVED_AT },
+        ],
+      },
+      user_overrides: {
+        pages: { value: 320, source: 'isbn-db', overridden_at: PICKED_AT },
+      },
+    });
+
+    const update = getRefreshUpdate(existing, refreshed());
+
+    expect(update).not.toHaveProperty('pages');
+    expect(update?.provenance?.pages).toEqual(isbnDb);
+    expect(update?.metadata_conflicts?.pages).toEqual([
+      { value: 320, ...isbnDb },
+      { value: 312, source: 'open-library', fetched_at: SAVED_AT },
+      { value: 336, ...googleBooks },
+    ]);
+  });
+
+  it('never overwrites a value edited by hand', () => {
+    const manual = { source: 'manual', fetched_at: PICKED_AT };
+    const update = getRefreshUpdate(
+      binding({ provenance: { publisher: manual, pages: manual } }),
+      refreshed({ publisher: 'John Wiley & Sons' }),
+    );
+
+    expect(update).not.toHaveProperty('pages');
+    expect(update).not.toHaveProperty('publisher');
+    expect(update?.provenance).toEqual({ publisher: manual, pages: manual });
+    expect(Object.keys(update?.metadata_conflicts || {}).sort()).toEqual([
+      'pages',
+      'publisher',
+    ]);
+  });
+
+  it('keeps earlier conflicts when a refresh agrees with the saved value', () => {
+    const metadataConflicts = {
+      pages: [
+        { value: 320, ...isbnDb },
+        { value: 336, ...googleBooks },
+      ],
+    };
+
+    expect(
+      getRefreshUpdate(
+        binding({ pages: 336, metadata_conflicts: metadataConflicts }),
+        refreshed(),
+      ),
+    ).toBeNull();
+  });
+
+  it('fills a field that was empty without recording a conflict', () => {
+    const update = getRefreshUpdate(
+      binding({ description: undefined }),
+      refreshed({
+        pages: 320,
+        description: 'Be smarter than your lawyer',
+        provenance: { description: googleBooks },
+      }),
+    );
+
+    expect(update).toEqual({
+      description: 'Be smarter than your lawyer',
+      provenance: {
+        publisher: isbnDb,
+        pages: isbnDb,
+        description: googleBooks,
+      },
+      metadata_conflicts: {},
+    });
+  });
+
+  it('ignores values no source supplied, such as default languages', () => {
+    expect(
+      getRefreshUpdate(
+        binding({ language: 'de' }),
+        refreshed({ pages: 320, language: 'en', provenance: {} }),
+      ),
+    ).toBeNull();
+  });
+
+  it('returns null when nothing changed', () => {
+    expect(getRefreshUpdate(binding(), refreshed({ pages: 320 }))).toBeNull();
+  });
+});
+
+describe('keepMatchingOverrides', () => {
+  const overrides = {
+    pages: { value: '336', source: 'google-books', overridden_at: PICKED_AT },
+    publisher: { value: 'Wiley', source: 'isbn-db', overridden_at: PICKED_AT },
+  };
+
+  it('keeps picks the edit leaves alone or agrees with', () => {
+    expect(
+      keepMatchingOverrides(overrides, { pages: 336, price: 29.95 }),
+    ).toEqual(overrides);
+  });
+
+  it('drops a pick the user replaced by hand', () => {
+    expect(
+      keepMatchingOverrides(overrides, { publisher: 'John Wiley & Sons' }),
+    ).toEqual({ pages: overrides.pages });
+  });
+
+  it('drops a pick the user cleared', () => {
+    expect(keepMatchingOverrides(overrides, { pages: undefined })).toEqual({
+      publisher: overrides.publisher,
+    });
+  });
+
+  it('handles a binding without overrides', () => {
+    expect(keepMatchingOverrides(null, { pages: 336 })).toEqual({});
+  });
+});
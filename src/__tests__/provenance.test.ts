@@ -0,0 +1,261 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Field provenance: which source is credited with each field when books are
+ * stamped, merged, saved as bindings and edited by hand.
+ */
+
+import { BookBinding, BookBindingInsert } from '@/lib/types/book';
+import { UIBook } from '@/lib/types/ui-book';
+import {
+  getBindingProvenance,
+  getFieldProvenance,
+  markEditedFields,
+  mergeProvenance,
+  stampProvenance,
+  summarizeProvenance,
+} from '@/lib/utils/provenance';
+
+const EARLIER = '2026-01-01T00:00:00.000Z';
+const LATER = '2026-02-01T00:00:00.000Z';
+
+const book = (overrides: Partial<UIBook> = {}): UIBook => ({
+  id: 'book-1',
+  title: 'Venture Deals',
+  authors: ['Brad Feld'],
+  ...overrides,
+});
+
+const binding = (overrides: Partial<BookBinding> = {}): BookBinding => ({
+  id: 'binding-1',
+  book_edition_id: 'edition-1',
+  binding_type: 'hardcover',
+  language: 'en',
+  created_at: EARLIER,
+  ...overrides,
+});
+
+describe('stampProvenance', () => {
+  it('credits every populated field to the source', () => {
+    const stamped = stampProvenance(
+      book({ publisher: 'Wiley', page_count: 336, published_date: '2019-10' }),
+      'isbn-db',
+      EARLIER,
+    );
+
+    expect(stamped.provenance).toEqual({
+      title: { source: 'isbn-db', fetched_at: EARLIER },
+      authors: { source: 'isbn-db', fetched_at: EARLIER },
+      publisher: { source: 'isbn-db', fetched_at: EARLIER },
+      pages: { source: 'isbn-db', fetched_at: EARLIER },
+      year: { source: 'isbn-db', fetched_at: EARLIER },
+    });
+  });
+
+  it('keeps fields that already have a source', () => {
+    const stamped = stampProvenance(
+      book({
+        publisher: 'Wiley',
+        provenance: { publisher: { source: 'manual', fetched_at: EARLIER } },
+      }),
+      'google-books',
+      LATER,
+    );
+
+    expect(stamped.provenance?.publisher).toEqual({
+      source: 'manual',
+      fetched_at: EARLIER,
+    });
+    expect(stamped.provenance?.title?.source).toBe('google-books');
+  });
+
+  it('skips empty fields', () => {
+    const stamped = stampProvenance(
+      book({ publisher: '', authors: [], msrp: 0 }),
+      'isbn-db',
+      EARLIER,
+    );
+
+    expect(Object.keys(stamped.provenance || {}).sort()).toEqual([
+      'price',
+      'title',
+    ]);
+  });
+});
+
+describe('mergeProvenance', () => {
+  const isbnDb = book({
+    publisher: 'Wiley',
+    page_count: 320,
+    provenance: {
+      title: { source: 'isbn-db', fetched_at: EARLIER },
+      publisher: { source: 'isbn-db', fetched_at: EARLIER },
+      pages: { source: 'isbn-db', fetched_at: EARLIER },
+    },
+  });
+  const googleBooks = book({
+    page_count: 336,
+    thumbnail: 'https://books.google.com/cover.jpg',
+    source: 'google-books',
+    updated_at: LATER,
+  });
+
+  it('credits each field to the first candidate holding the merged value', () => {
+    const merged = book({
+      publisher: 'Wiley',
+      page_count: 336,
+      thumbnail: 'https://books.google.com/cover.jpg',
+    });
+
+    expect(mergeProvenance(merged, [isbnDb, googleBooks])).toEqual({
+      title: { source: 'isbn-db', fetched_at: EARLIER },
+      publisher: { source: 'isbn-db', fetched_at: EARLIER },
+      pages: { source: 'google-books', fetched_at: LATER },
+      cover: { source: 'google-books', fetched_at: LATER },
+    });
+  });
+
+  it('falls back to the first candidate with any value for combined values', () => {
+    const merged = book({ authors: ['Brad Feld', 'Jason Mendelson'] });
+    const withCoauthor = book({
+      authors: ['Jason Mendelson'],
+      provenance: { authors: { source: 'google-books', fetched_at: LATER } },
+    });
+    const withAuthor = book({
+      provenance: { authors: { source: 'isbn-db', fetched_at: EARLIER } },
+    });
+
+    expect(mergeProvenance(merged, [withCoauthor, withAuthor]).authors).toEqual(
+      { source: 'google-books', fetched_at: LATER },
+    );
+  });
+
+  it('leaves out fields the merged book has no value for', () => {
+    const provenance = mergeProvenance(book(), [isbnDb, googleBooks]);
+
+    expect(provenance.publisher).toBeUndefined();
+    expect(provenance.pages).toBeUndefined();
+  });
+});
+
+describe('getFieldProvenance', () => {
+  it('prefers the recorded entry', () => {
+    expect(
+      getFieldProvenance(
+        book({
+          source: 'google-books',
+          provenance: { title: { source: 'isbn-db', fetched_at: EARLIER } },
+        }),
+        'title',
+      ),
+    ).toEqual({ source: 'isbn-db', fetched_at: EARLIER });
+  });
+
+  it.each<[Partial<UIBook>, string]>([
+    [{ source: 'itunes' }, 'itunes'],
+    [{ data_source: 'isbn-db,google-books' }, 'isbn-db'],
+  ])('falls back to the book source for %p', (overrides, source) => {
+    expect(
+      getFieldProvenance(book({ ...overrides, updated_at: LATER }), 'title'),
+    ).toEqual({ source, fetched_at: LATER });
+  });
+
+  it('has nothing for a book without a source', () => {
+    expect(getFieldProvenance(book(), 'title')).toBeUndefined();
+  });
+});
+
+describe('getBindingProvenance', () => {
+  it('keeps only fields the binding stores, plus book and edition fields', () => {
+    const saved: BookBindingInsert = {
+      book_edition_id: 'edition-1',
+      binding_type: 'hardcover',
+      publisher: 'Wiley',
+      language: 'en',
+    };
+    const provenance = getBindingProvenance(
+      book({
+        publisher: 'Wiley',
+        description: 'Dropped before saving',
+        year: 2019,
+        data_source: 'isbn-db,google-books',
+        provenance: { publisher: { source: 'itunes', fetched_at: EARLIER } },
+      }),
+      saved,
+    );
+
+    expect(Object.keys(provenance).sort()).toEqual([
+      'authors',
+      'publisher',
+      'title',
+      'year',
+    ]);
+    expect(provenance.publisher?.source).toBe('itunes');
+    expect(provenance.title?.source).toBe('isbn-db');
+  });
+
+  it('credits a book without a source to a manual entry', () => {
+    const provenance = getBindingProvenance(book(), {
+      book_edition_id: 'edition-1',
+      binding_type: 'ebook',
+      language: 'en',
+    });
+
+    expect(provenance.title?.source).toBe('manual');
+  });
+});
+
+describe('markEditedFields', () => {
+  const saved = binding({
+    publisher: 'Wiley',
+    pages: 320,
+    description: 'Original',
+    provenance: {
+      publisher: { source: 'isbn-db', fetched_at: EARLIER },
+      pages: { source: 'isbn-db', fetched_at: EARLIER },
+      description: { source: 'google-books', fetched_at: EARLIER },
+    },
+  });
+
+  it('credits changed fields to a manual edit and drops cleared ones', () => {
+    const provenance = markEditedFields(saved, {
+      pages: 336,
+      description: '',
+      publisher: 'Wiley',
+    });
+
+    expect(provenance.pages?.source).toBe('manual');
+    expect(provenance.description).toBeUndefined();
+    expect(provenance.publisher).toEqual({
+      source: 'isbn-db',
+      fetched_at: EARLIER,
+    });
+  });
+
+  it('leaves fields outside the change alone', () => {
+    expect(markEditedFields(saved, {})).toEqual(saved.provenance);
+  });
+});
+
+describe('summarizeProvenance', () => {
+  it('groups fields by source with display labels and the latest fetch', () => {
+    expect(
+      summarizeProvenance({
+        publisher: { source: 'isbn-db', fetched_at: EARLIER },
+        cover: { source: 'google-books', fetched_at: EARLIER },
+        pages: { source: 'isbn-db', fetched_at: LATER },
+        binding: { source: 'custom-feed', fetched_at: EARLIER },
+      }),
+    ).toEqual([
+      { source: 'ISBNdb', fields: ['publisher', 'pages'], fetchedAt: LATER },
+      { source: 'Google Books', fields: ['cover'], fetchedAt: EARLIER },
+      { source: 'custom-feed', fields: ['format'], fetchedAt: EARLIER },
+    ]);
+  });
+
+  it('is empty without provenance', () => {
+    expect(summarizeProvenance(undefined)).toEqual([]);
+  });
+});
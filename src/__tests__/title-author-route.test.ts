@@ -0,0 +1,135 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Route-level checks for GET /api/books/title-author. Providers, auth and
+ * the database-backed services are mocked; merging, filtering and edition
+ * grouping run for real, so a step that throws fails the request here.
+ */
+
+import { NextRequest } from 'next/server';
+
+import { GET } from '@/app/api/books/title-author/route';
+import { BookDataMergerService } from '@/lib/services/book-data-merger.service';
+import { MetadataProviderRegistry } from '@/lib/services/metadata-provider-registry';
+import { MetadataProviderResult } from '@/lib/types/metadata-provider';
+import { UIBook } from '@/lib/types/ui-book';
+
+jest.mock('@clerk/nextjs/server', () => ({
+  auth: jest.fn(async () => ({ userId: null })),
+}));
+jest.mock('@/lib/services/author-alias.service', () => {
+  const { AuthorAliasRegistry } = jest.requireActual(
+    '@/lib/utils/author-alias-registry',
+  );
+  return {
+    AuthorAliasService: {
+      getRegistry: jest.fn(async () => AuthorAliasRegistry.empty()),
+    },
+  };
+});
+jest.mock('@/lib/services/edition-correction.service', () => {
+  const { EditionCorrectionRegistry } = jest.requireActual(
+    '@/lib/utils/edition-correction-registry',
+  );
+  return {
+    EditionCorrectionService: {
+      getRegistry: jest.fn(async () => EditionCorrectionRegistry.empty()),
+    },
+  };
+});
+jest.mock('@/lib/services/waitlist.service', () => ({
+  WaitlistService: jest.fn(() => ({ isUserAdmin: jest.fn(async () => false) })),
+}));
+jest.mock('@/lib/services/metadata-provider-registry', () => ({
+  MetadataProviderRegistry: { searchByTitleAuthor: jest.fn() },
+}));
+jest.mock('@/lib/services/smart-enhancement.service', () => ({
+  SmartEnhancementService: {
+    enhanceBooks: jest.fn(async (books: unknown[]) => books),
+  },
+}));
+jest.mock('@/lib/services/image-enhancement-queue.service', () => ({
+  ImageEnhancementQueueService: {
+    applyEnhancedImages: jest.fn(async (books: unknown[]) => books),
+    enqueueBooks: jest.fn(async () => undefined),
+  },
+}));
+jest.mock('@/lib/services/book-enrichment.service', () => ({
+  BookEnrichmentService: jest.fn(),
+}));
+
+const book = (overrides: Partial<UIBook>): UIBook => ({
+  id: overrides.isbn13 || 'book',
+  isbn: overrides.isbn13,
+  title: 'Venture Deals',
+  authors: ['Brad Feld', 'Jason Mendelson'],
+  publisher: 'Wiley',
+  published_date: '2019-10-15',
+  language: 'en',
+  ...overrides,
+});
+
+const providerResult = (data: UIBook[]): MetadataProviderResult<UIBook[]> => ({
+  providerId: 'isbn-db',
+  providesIsbns: true,
+  success: true,
+  data,
+  durationMs: 1,
+});
+
+const get = (params: Record<string, string>) =>
+  GET(
+    new NextRequest(
+      `http://localhost/api/books/title-author?${new URLSearchParams(params)}`,
+    ),
+  );
+
+describe('GET /api/books/title-author', () => {
+  beforeEach(() => {
+    (
+      MetadataProviderRegistry.searchByTitleAuthor as jest.Mock
+    ).mockResolvedValue([
+      providerResult([
+        book({ isbn13: '9781119594826', binding: 'Hardcover' }),
+        book({ isbn13: '9781119594833', binding: 'Kindle Edition' }),
+      ]),
+    ]);
+  });
+
+  it('rejects a search without an author', async () => {
+    const response = await get({ title: 'Venture Deals' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('returns grouped editions and timings for a plain search', async () => {
+    const response = await get({ title: 'Venture Deals', author: 'Brad Feld' });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(body.books).toHaveLength(2);
+    expect(body.editionGroups.length).toBeGreaterThan(0);
+    expect(body.validation).toEqual({ enabled: false });
+    expect(typeof body.performance.totalMs).toBe('number');
+  });
+
+  it('returns validation details for a validated search', async () => {
+    jest
+      .spyOn(BookDataMergerService, 'validateBooks')
+      .mockImplementation(async books => books);
+
+    const response = await get({
+      title: 'Venture Deals',
+      author: 'Brad Feld',
+      validate: 'true',
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.validation).toMatchObject({ enabled: true, finalCount: 2 });
+    expect(typeof body.performance.validationMs).toBe('number');
+  });
+});
@@ -2,13 +2,19 @@
 
 import { useUser } from '@clerk/nextjs';
 import { formatDistanceToNow } from 'date-fns';
-import { Edit } from 'lucide-react';
+import { Download, Edit, GitMerge } from 'lucide-react';
 import Image from 'next/image';
 import { useRouter, useParams } from 'next/navigation';
 import { useEffect, useState } from 'react';
 
 import { EditBookDialog } from '@/components/book-management/EditBookDialog';
 import { EditionCard } from '@/components/book-management/EditionCard';
+import { EditionSuggestionsPanel } from '@/components/book-management/EditionSuggestionsPanel';
+import { LibraryChangesPanel } from '@/components/book-management/LibraryChangesPanel';
+import { MergeBookDialog } from '@/components/book-management/MergeBookDialog';
+import { MetadataConflictsPanel } from '@/components/book-management/MetadataConflictsPanel';
+import { TranslationsPanel } from '@/components/book-management/TranslationsPanel';
+import { WorkPanel } from '@/components/book-management/WorkPanel';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Badge } from '@/components/ui/badge';
 import { Breadcrumb } from '@/components/ui/breadcrumb';
@@ -16,6 +22,13 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Book, BookEdition, BookBinding } from '@/lib/types/book';
 import { getBookPrimaryCover, getCurrentEdition } from '@/lib/utils/book-cover';
+import { formatContributors } from '@/lib/utils/contributors';
+import {
+  DEFAULT_LANGUAGE,
+  getLanguageName,
+  summarizeLanguages,
+} from '@/lib/utils/languages';
+import { formatSeriesLabel } from '@/lib/utils/series';
 
 // CI-safe wrapper component
 function BookDetailPageContent() {
@@ -28,6 +41,8 @@ function BookDetailPageContent() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
+  const [mergeDialogOpen, setMergeDialogOpen] = useState(false);
+  const [languageFilter, setLanguageFilter] = useState<string | null>(null);
 
   useEffect(() => {
     if (isLoaded && !user) {
@@ -88,6 +103,32 @@ function BookDetailPageContent() {
     }
   };
 
+  // Moves, merges and splits answer with the reloaded book they ended up in
+  const handleRestructured = (restructured: Book) => {
+    if (restructured.id !== bookId) {
+      router.push(`/books/${restructured.id}`);
+      return;
+    }
+    setBook(restructured);
+  };
+
+  const handleMergeBook = async (targetBookId: string) => {
+    const response = await fetch(`/api/books/${bookId}/merge`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ target_book_id: targetBookId }),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to merge books');
+    }
+
+    handleRestructured(data.data.book);
+  };
+
   const handleEditionUpdated = (updatedEdition: BookEdition) => {
     if (!book) return;
 
@@ -245,6 +286,14 @@ function BookDetailPageContent() {
       0,
     ) || 0;
 
+  // Languages for the per-language view
+  const languages = summarizeLanguages(book.editions || []);
+  const visibleEditions = (book.editions || []).filter(
+    edition =>
+      !languageFilter ||
+      (edition.language || DEFAULT_LANGUAGE) === languageFilter,
+  );
+
   // Get year range
   const years = book.editions
     ?.map(e => e.publication_year)
@@ -321,17 +370,52 @@ function BookDetailPageContent() {
                 <h1 className="mr-4 text-3xl font-bold text-gray-900">
                   {book.title}
                 </h1>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setEditDialogOpen(true)}
-                  className="flex items-center gap-2"
-                >
-                  <Edit className="h-4 w-4" />
-                  Edit
-                </Button>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    asChild
+                    className="flex items-center gap-2"
+                  >
+                    <a href={`/api/books/${book.id}/onix`} download>
+                      <Download className="h-4 w-4" />
+                      ONIX
+                    </a>
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setEditDialogOpen(true)}
+                    className="flex items-center gap-2"
+                  >
+                    <Edit className="h-4 w-4" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setMergeDialogOpen(true)}
+                    className="flex items-center gap-2"
+                  >
+                    <GitMerge className="h-4 w-4" />
+                    Merge
+                  </Button>
+                </div>
               </div>
-              <p className="mb-4 text-xl text-gray-600">by {book.author}</p>
+              <p className="mb-4 text-xl text-gray-600">
+                by{' '}
+                {book.contributors?.length
+                  ? formatContributors(book.contributors)
+                  : book.author}
+              </p>
+              {book.series && (
+                <p className="-mt-2 mb-4 text-base font-medium text-blue-700">
+                  {formatSeriesLabel(book.series.name, book.series_number)}
+                  {book.reading_order &&
+                    book.reading_order !== book.series_number &&
+                    ` · read ${book.reading_order}${getOrdinalSuffix(book.reading_order)}`}
+                </p>
+              )}
 
               {/* Statistics */}
               <div className="mb-6 flex flex-wrap gap-3">
@@ -365,13 +449,62 @@ function BookDetailPageContent() {
             </div>
           </div>
 
+          {/* Conflicts between metadata sources */}
+          <MetadataConflictsPanel
+            book={book}
+            onBindingUpdated={handleBindingUpdated}
+          />
+
+          {/* Bindings found by the periodic edition discovery */}
+          <EditionSuggestionsPanel bookId={book.id} onBookUpdated={setBook} />
+
+          {/* Translated editions and their rights details */}
+          <TranslationsPanel book={book} onBookUpdated={setBook} />
+
+          {/* Other titles of the same work, with merge and split */}
+          <WorkPanel book={book} onBookUpdated={setBook} />
+
+          {/* Manual moves, merges and splits, with undo */}
+          <LibraryChangesPanel book={book} onBookUpdated={handleRestructured} />
+
           {/* Editions Section */}
           <div className="space-y-4">
-            <h2 className="text-2xl font-semibold text-gray-900">Editions</h2>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-2xl font-semibold text-gray-900">Editions</h2>
+              {languages.length > 1 && (
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant={languageFilter ? 'outline' : 'default'}
+                    size="sm"
+                    onClick={() => setLanguageFilter(null)}
+                  >
+                    All languages
+                  </Button>
+                  {languages.map(summary => (
+                    <Button
+                      key={summary.language}
+                      variant={
+                        languageFilter === summary.language
+                          ? 'default'
+                          : 'outline'
+                      }
+                      size="sm"
+                      onClick={() => setLanguageFilter(summary.language)}
+                    >
+                      {getLanguageName(summary.language)}
+                      {!summary.is_translation && ' (original)'}
+                      <Badge variant="secondary" className="ml-2">
+                        {summary.bindings}
+                      </Badge>
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
 
-            {book.editions && book.editions.length > 0 ? (
+            {visibleEditions.length > 0 ? (
               <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-                {book.editions.map(edition => (
+                {visibleEditions.map(edition => (
                   <EditionCard
                     key={edition.id}
                     edition={edition}
@@ -379,6 +512,10 @@ function BookDetailPageContent() {
                     onEditionDeleted={handleEditionDeleted}
                     onBindingUpdated={handleBindingUpdated}
                     onBindingDeleted={handleBindingDeleted}
+                    otherEditions={book.editions.filter(
+                      other => other.id !== edition.id,
+                    )}
+                    onRestructured={handleRestructured}
                   />
                 ))}
               </div>
@@ -406,6 +543,14 @@ function BookDetailPageContent() {
         book={book}
         onSave={handleEditBook}
       />
+
+      {/* Merge Dialog */}
+      <MergeBookDialog
+        isOpen={mergeDialogOpen}
+        onOpenChange={setMergeDialogOpen}
+        onConfirm={handleMergeBook}
+        book={book}
+      />
     </>
   );
 }
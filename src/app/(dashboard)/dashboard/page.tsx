@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 
 import { BookLibraryGrid } from '@/components/dashboard/BookLibraryGrid';
+import { WhatChangedFeed } from '@/components/dashboard/WhatChangedFeed';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { SimplifiedBook } from '@/lib/types/book';
 
@@ -83,6 +84,9 @@ function DashboardPageContent() {
           </p>
         </div>
 
+        {/* Changes found by the background metadata refresh */}
+        <WhatChangedFeed />
+
         {/* Dashboard Content */}
         <div className="w-full">
           {booksError && (
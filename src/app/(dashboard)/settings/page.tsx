@@ -1,8 +1,9 @@
 import { auth } from '@clerk/nextjs/server';
-import { User, Bell, Shield, Palette } from 'lucide-react';
+import { User, Bell, Shield, Palette, Users } from 'lucide-react';
 import { redirect } from 'next/navigation';
 
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { AuthorAliasManager } from '@/components/settings/AuthorAliasManager';
 import { Button } from '@/components/ui/button';
 import {
   Card,
@@ -60,6 +61,29 @@ export default async function SettingsPage() {
             </CardContent>
           </Card>
 
+          {/* Author Aliases */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Author Aliases
+              </CardTitle>
+              <CardDescription>
+                Tell book search how to split author names that data providers
+                run together, and which co-authors belong to your books.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isCI ? (
+                <p className="py-6 text-center text-gray-600">
+                  Author aliases are unavailable in CI mode.
+                </p>
+              ) : (
+                <AuthorAliasManager />
+              )}
+            </CardContent>
+          </Card>
+
           {/* Notification Preferences */}
           <Card>
             <CardHeader>
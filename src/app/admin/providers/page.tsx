@@ -0,0 +1,42 @@
+import { auth } from '@clerk/nextjs/server';
+import { redirect } from 'next/navigation';
+
+import { MetadataProviderSettings } from '@/components/admin/MetadataProviderSettings';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { WaitlistService } from '@/lib/services/waitlist.service';
+
+export default async function AdminProvidersPage() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect('/sign-in');
+  }
+
+  const waitlistService = new WaitlistService();
+
+  // Check if user is admin
+  const isAdmin = await waitlistService.isUserAdmin(userId);
+
+  if (!isAdmin) {
+    redirect('/dashboard');
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-8">
+        {/* Page Header */}
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">
+            Metadata Providers
+          </h1>
+          <p className="mt-2 text-gray-600">
+            Enable, disable and reorder the book data sources behind search and
+            enrichment.
+          </p>
+        </div>
+
+        <MetadataProviderSettings />
+      </div>
+    </DashboardLayout>
+  );
+}
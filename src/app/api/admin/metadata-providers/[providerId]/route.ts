@@ -0,0 +1,170 @@
+import { NextRequest } from 'next/server';
+
+import { AuditLogService } from '@/lib/services/audit-log.service';
+import { MetadataProviderRegistry } from '@/lib/services/metadata-provider-registry';
+import { MetadataProviderSettingsService } from '@/lib/services/metadata-provider-settings.service';
+import { WaitlistService } from '@/lib/services/waitlist.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+import {
+  MetadataProviderSettingsUpdateSchema,
+  validateRequestBody,
+} from '@/lib/validation/api-schemas';
+
+/**
+ * Confirm the caller is an admin and the provider exists
+ */
+async function validateProviderAccess(providerId: string, userId: string) {
+  const isAdmin = await new WaitlistService().isUserAdmin(userId);
+  if (!isAdmin) {
+    throw new Error('Forbidden: Admin access required');
+  }
+
+  if (!MetadataProviderRegistry.isRegistered(providerId)) {
+    throw new Error(`Metadata provider not found: ${providerId}`);
+  }
+
+  return providerId;
+}
+
+function handleProviderError(error: unknown, requestId: string) {
+  if (error instanceof Error) {
+    if (error.message.includes('Authentication required')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId,
+      );
+    }
+
+    if (error.message.includes('Forbidden')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.FORBIDDEN,
+        requestId,
+      );
+    }
+
+    if (error.message.includes('provider not found')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.NOT_FOUND,
+        requestId,
+      );
+    }
+  }
+
+  return ApiErrorHandler.createErrorResponse(
+    error,
+    STATUS_CODES.INTERNAL_SERVER_ERROR,
+    requestId,
+  );
+}
+
+/**
+ * Override a provider's enabled state, priority or timeout
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ providerId: string }> },
+) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { providerId: rawProviderId } = await params;
+    const providerId = await validateProviderAccess(rawProviderId, userId);
+
+    const rawBody = await request.json();
+    const validation = validateRequestBody(
+      MetadataProviderSettingsUpdateSchema,
+      rawBody,
+    );
+    if (!validation.success) {
+      return ApiErrorHandler.createErrorResponse(
+        validation.error,
+        STATUS_CODES.UNPROCESSABLE_ENTITY,
+        requestId,
+      );
+    }
+
+    const before = MetadataProviderRegistry.getSettings(providerId);
+    await MetadataProviderSettingsService.upsertOverride(
+      providerId,
+      userId,
+      validation.data,
+    );
+    MetadataProviderRegistry.invalidateSettings();
+
+    const providers = await MetadataProviderRegistry.listStatus();
+    const provider = providers.find(status => status.id === providerId);
+
+    await new AuditLogService().logAuditEvent({
+      action_type: 'metadata_provider_update',
+      action_category: 'configuration',
+      action_description: `Updated metadata provider settings: ${providerId}`,
+      performed_by_user_id: userId,
+      target_resource_type: 'metadata_provider',
+      target_resource_id: providerId,
+      before_state: { ...before },
+      after_state: provider
+        ? {
+            enabled: provider.enabled,
+            priority: provider.priority,
+            timeoutMs: provider.timeoutMs,
+          }
+        : undefined,
+    });
+
+    return ApiErrorHandler.createSuccessResponse(
+      { provider },
+      'Metadata provider settings updated successfully',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    return handleProviderError(error, requestId!);
+  }
+}
+
+/**
+ * Reset a provider to its API_CONFIG defaults
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ providerId: string }> },
+) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { providerId: rawProviderId } = await params;
+    const providerId = await validateProviderAccess(rawProviderId, userId);
+
+    await MetadataProviderSettingsService.deleteOverride(providerId);
+    MetadataProviderRegistry.invalidateSettings();
+
+    await new AuditLogService().logAuditEvent({
+      action_type: 'metadata_provider_reset',
+      action_category: 'configuration',
+      action_description: `Reset metadata provider settings to defaults: ${providerId}`,
+      performed_by_user_id: userId,
+      target_resource_type: 'metadata_provider',
+      target_resource_id: providerId,
+    });
+
+    return ApiErrorHandler.createSuccessResponse(
+      { providerId },
+      'Metadata provider settings reset to defaults',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    return handleProviderError(error, requestId!);
+  }
+}
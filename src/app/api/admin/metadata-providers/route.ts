@@ -0,0 +1,51 @@
+import { MetadataProviderRegistry } from '@/lib/services/metadata-provider-registry';
+import { WaitlistService } from '@/lib/services/waitlist.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+
+/**
+ * List every registered metadata provider with its effective settings
+ */
+export async function GET() {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const isAdmin = await new WaitlistService().isUserAdmin(userId);
+    if (!isAdmin) {
+      return ApiErrorHandler.createErrorResponse(
+        new Error('Forbidden: Admin access required'),
+        STATUS_CODES.FORBIDDEN,
+        requestId,
+      );
+    }
+
+    const providers = await MetadataProviderRegistry.listStatus();
+
+    return ApiErrorHandler.createSuccessResponse(
+      { providers },
+      'Metadata providers retrieved successfully',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message.includes('Authentication required')
+    ) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId!,
+      );
+    }
+
+    return ApiErrorHandler.createErrorResponse(
+      error,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      requestId!,
+    );
+  }
+}
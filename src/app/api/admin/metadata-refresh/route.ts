@@ -0,0 +1,124 @@
+import { timingSafeEqual } from 'crypto';
+
+import { NextRequest } from 'next/server';
+
+import { MetadataRefreshService } from '@/lib/services/metadata-refresh.service';
+import { WaitlistService } from '@/lib/services/waitlist.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+
+/**
+ * Schedulers authenticate with a shared secret instead of a session:
+ * METADATA_REFRESH_SECRET, or CRON_SECRET, which Vercel Cron sends for the
+ * schedule in vercel.json
+ */
+function isScheduledRequest(request: NextRequest): boolean {
+  const authorization = request.headers.get('authorization');
+  if (!authorization) return false;
+
+  return [process.env.METADATA_REFRESH_SECRET, process.env.CRON_SECRET].some(
+    secret => !!secret && matchesSecret(authorization, `Bearer ${secret}`),
+  );
+}
+
+// Constant time, so response timing gives away nothing about the secret
+function matchesSecret(received: string, expected: string): boolean {
+  const receivedBytes = Buffer.from(received);
+  const expectedBytes = Buffer.from(expected);
+  return (
+    receivedBytes.length === expectedBytes.length &&
+    timingSafeEqual(receivedBytes, expectedBytes)
+  );
+}
+
+async function requireAdmin(): Promise<string> {
+  const { userId, requestId } = await ApiErrorHandler.validateAuth();
+
+  const isAdmin = await new WaitlistService().isUserAdmin(userId);
+  if (!isAdmin) {
+    throw new Error('Forbidden: Admin access required');
+  }
+
+  return requestId;
+}
+
+function handleRefreshError(error: unknown, requestId: string) {
+  if (error instanceof Error) {
+    if (error.message.includes('Authentication required')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId,
+      );
+    }
+    if (error.message.includes('Forbidden')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.FORBIDDEN,
+        requestId,
+      );
+    }
+  }
+
+  return ApiErrorHandler.createErrorResponse(
+    error,
+    STATUS_CODES.INTERNAL_SERVER_ERROR,
+    requestId,
+  );
+}
+
+async function runRefresh(requestId: string) {
+  const result = await MetadataRefreshService.run();
+
+  return ApiErrorHandler.createSuccessResponse(
+    { result },
+    `Refreshed ${result.processed} books, ${result.changes} changes found`,
+    STATUS_CODES.OK,
+    requestId,
+  );
+}
+
+/**
+ * Refresh queue statistics. Vercel Cron only sends GET requests, so a
+ * scheduled GET runs the refresh worker instead.
+ */
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  try {
+    if (isScheduledRequest(request)) {
+      return await runRefresh(requestId);
+    }
+
+    await requireAdmin();
+
+    const stats = await MetadataRefreshService.getQueueStats();
+
+    return ApiErrorHandler.createSuccessResponse(
+      { stats },
+      'Metadata refresh stats retrieved successfully',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    return handleRefreshError(error, requestId);
+  }
+}
+
+/**
+ * Run the refresh worker: queue stale books, then process one batch.
+ * Vercel Cron calls this hourly (see vercel.json); other schedulers can POST
+ * with the shared secret, and admins can run it by hand.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  try {
+    if (!isScheduledRequest(request)) {
+      await requireAdmin();
+    }
+
+    return await runRefresh(requestId);
+  } catch (error) {
+    return handleRefreshError(error, requestId);
+  }
+}
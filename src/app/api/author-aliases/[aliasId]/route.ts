@@ -0,0 +1,145 @@
+import { NextRequest } from 'next/server';
+
+import { AuthorAliasService } from '@/lib/services/author-alias.service';
+import { WaitlistService } from '@/lib/services/waitlist.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+import {
+  AuthorAliasUpdateSchema,
+  sanitizeObject,
+  validateRequestBody,
+} from '@/lib/validation/api-schemas';
+
+/**
+ * Load an alias and confirm the caller may modify it.
+ * Users own their aliases; global aliases require an admin.
+ */
+async function getEditableAlias(aliasId: string, userId: string) {
+  const alias = await AuthorAliasService.getAliasById(aliasId);
+
+  if (!alias) {
+    throw new Error('Author alias not found or access denied');
+  }
+
+  if (alias.user_id === null) {
+    const isAdmin = await new WaitlistService().isUserAdmin(userId);
+    if (!isAdmin) {
+      throw new Error('Forbidden: Admin access required');
+    }
+  } else if (alias.user_id !== userId) {
+    throw new Error('Author alias not found or access denied');
+  }
+
+  return alias;
+}
+
+function handleAliasError(error: unknown, requestId: string) {
+  if (error instanceof Error) {
+    if (error.message.includes('Authentication required')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId,
+      );
+    }
+
+    if (error.message.includes('not found or access denied')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.NOT_FOUND,
+        requestId,
+      );
+    }
+
+    if (error.message.includes('Forbidden')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.FORBIDDEN,
+        requestId,
+      );
+    }
+
+    if (error.message.includes('already exists')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.CONFLICT,
+        requestId,
+      );
+    }
+  }
+
+  return ApiErrorHandler.createErrorResponse(
+    error,
+    STATUS_CODES.INTERNAL_SERVER_ERROR,
+    requestId,
+  );
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ aliasId: string }> },
+) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { aliasId } = await params;
+
+    const rawBody = await request.json();
+    const validation = validateRequestBody(
+      AuthorAliasUpdateSchema,
+      sanitizeObject(rawBody),
+    );
+    if (!validation.success) {
+      return ApiErrorHandler.createErrorResponse(
+        validation.error,
+        STATUS_CODES.UNPROCESSABLE_ENTITY,
+        requestId,
+      );
+    }
+
+    await getEditableAlias(aliasId, userId);
+    const alias = await AuthorAliasService.updateAlias(
+      aliasId,
+      validation.data,
+    );
+
+    return ApiErrorHandler.createSuccessResponse(
+      { alias },
+      'Author alias updated successfully',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    return handleAliasError(error, requestId!);
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ aliasId: string }> },
+) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { aliasId } = await params;
+
+    await getEditableAlias(aliasId, userId);
+    await AuthorAliasService.deleteAlias(aliasId);
+
+    return ApiErrorHandler.createSuccessResponse(
+      { deleted: true },
+      'Author alias deleted successfully',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    return handleAliasError(error, requestId!);
+  }
+}
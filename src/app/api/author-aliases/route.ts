@@ -0,0 +1,127 @@
+import { NextRequest } from 'next/server';
+
+import { AuthorAliasService } from '@/lib/services/author-alias.service';
+import { WaitlistService } from '@/lib/services/waitlist.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+import {
+  AuthorAliasCreateSchema,
+  sanitizeObject,
+  validateRequestBody,
+} from '@/lib/validation/api-schemas';
+
+export async function GET() {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const [aliases, isAdmin] = await Promise.all([
+      ApiErrorHandler.handleAsync(
+        () => AuthorAliasService.getAliasesForUser(userId),
+        'Failed to fetch author aliases',
+      ),
+      new WaitlistService().isUserAdmin(userId),
+    ]);
+
+    return ApiErrorHandler.createSuccessResponse(
+      { aliases, canManageGlobal: isAdmin },
+      'Author aliases retrieved successfully',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message.includes('Authentication required')
+    ) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId!,
+      );
+    }
+
+    return ApiErrorHandler.createErrorResponse(
+      error,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      requestId!,
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const rawBody = await request.json();
+    const validation = validateRequestBody(
+      AuthorAliasCreateSchema,
+      sanitizeObject(rawBody),
+    );
+    if (!validation.success) {
+      return ApiErrorHandler.createErrorResponse(
+        validation.error,
+        STATUS_CODES.UNPROCESSABLE_ENTITY,
+        requestId,
+      );
+    }
+
+    const { scope, ...aliasData } = validation.data;
+
+    // Only admins may create global aliases
+    if (scope === 'global') {
+      const isAdmin = await new WaitlistService().isUserAdmin(userId);
+      if (!isAdmin) {
+        return ApiErrorHandler.createErrorResponse(
+          new Error('Forbidden: Admin access required'),
+          STATUS_CODES.FORBIDDEN,
+          requestId,
+        );
+      }
+    }
+
+    const alias = await AuthorAliasService.createAlias(
+      scope === 'global' ? null : userId,
+      userId,
+      aliasData,
+    );
+
+    return ApiErrorHandler.createSuccessResponse(
+      { alias },
+      'Author alias created successfully',
+      STATUS_CODES.CREATED,
+      requestId,
+    );
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message.includes('Authentication required')
+    ) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId!,
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('already exists')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.CONFLICT,
+        requestId!,
+      );
+    }
+
+    return ApiErrorHandler.createErrorResponse(
+      error,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      requestId!,
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { revalidatePath } from 'next/cache';
+import { NextRequest } from 'next/server';
+
+import { BookService } from '@/lib/services/book.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+import {
+  BookContributorsUpdateSchema,
+  sanitizeObject,
+  validateRequestBody,
+} from '@/lib/validation/api-schemas';
+
+/**
+ * Replace the book's contributors (or one binding's, with binding_id)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string }> },
+) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { bookId } = await params;
+
+    const validation = validateRequestBody(
+      BookContributorsUpdateSchema,
+      sanitizeObject(await request.json()),
+    );
+    if (!validation.success) {
+      return ApiErrorHandler.createErrorResponse(
+        validation.error,
+        STATUS_CODES.UNPROCESSABLE_ENTITY,
+        requestId,
+      );
+    }
+
+    const { contributors, binding_id } = validation.data;
+    const book = await BookService.updateContributors(
+      bookId,
+      userId,
+      contributors,
+      binding_id,
+    );
+
+    revalidatePath('/dashboard');
+
+    return ApiErrorHandler.createSuccessResponse(
+      { book },
+      'Contributors updated',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('Authentication required')) {
+        return ApiErrorHandler.createErrorResponse(
+          error,
+          STATUS_CODES.UNAUTHORIZED,
+          requestId!,
+        );
+      }
+
+      if (error.message.includes('or access denied')) {
+        return ApiErrorHandler.createErrorResponse(
+          error,
+          STATUS_CODES.NOT_FOUND,
+          requestId!,
+        );
+      }
+    }
+
+    return ApiErrorHandler.createErrorResponse(
+      error,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      requestId!,
+    );
+  }
+}
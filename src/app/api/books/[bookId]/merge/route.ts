@@ -0,0 +1,100 @@
+import { revalidatePath } from 'next/cache';
+import { NextRequest } from 'next/server';
+
+import { LibraryRestructureService } from '@/lib/services/library-restructure.service';
+import { WorkService } from '@/lib/services/work.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+import {
+  BookMergeSchema,
+  sanitizeObject,
+  validateRequestBody,
+} from '@/lib/validation/api-schemas';
+
+function handleRestructureError(error: unknown, requestId: string) {
+  if (error instanceof Error) {
+    if (error.message.includes('Authentication required')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId,
+      );
+    }
+    if (error.message.includes('or access denied')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.NOT_FOUND,
+        requestId,
+      );
+    }
+    if (error.message.includes('Cannot merge')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNPROCESSABLE_ENTITY,
+        requestId,
+      );
+    }
+  }
+
+  return ApiErrorHandler.createErrorResponse(
+    error,
+    STATUS_CODES.INTERNAL_SERVER_ERROR,
+    requestId,
+  );
+}
+
+/**
+ * Merge this book into another book; this book is removed
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string }> },
+) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { bookId } = await params;
+
+    const rawBody = await request.json();
+    const validation = validateRequestBody(
+      BookMergeSchema,
+      sanitizeObject(rawBody),
+    );
+    if (!validation.success) {
+      return ApiErrorHandler.createErrorResponse(
+        validation.error,
+        STATUS_CODES.UNPROCESSABLE_ENTITY,
+        requestId,
+      );
+    }
+
+    const result = await LibraryRestructureService.mergeBooks(
+      userId,
+      bookId,
+      validation.data.target_book_id,
+    );
+
+    // A removed or restored book changes the works; a failed recluster
+    // can be rerun from the works API
+    await WorkService.clusterLibrary(userId).catch(error => {
+      if (process.env.NODE_ENV === 'development') {
+        // eslint-disable-next-line no-console
+        console.error('Failed to cluster works:', error);
+      }
+    });
+
+    revalidatePath('/dashboard');
+
+    return ApiErrorHandler.createSuccessResponse(
+      result,
+      'Books merged successfully',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    return handleRestructureError(error, requestId!);
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { BookService } from '@/lib/services/book.service';
+import { OnixExportService } from '@/lib/services/onix-export.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+
+/**
+ * ONIX 3.0 export for a single book.
+ * ?report=true returns the validation report as JSON instead of the feed.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string }> },
+) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { bookId } = await params;
+    const { searchParams } = new URL(request.url);
+    const reportOnly = searchParams.get('report') === 'true';
+    const currencyCode = searchParams.get('currency') || undefined;
+
+    const book = await ApiErrorHandler.handleAsync(
+      () => BookService.getBookWithDetails(bookId, userId),
+      'Failed to fetch book details',
+    );
+
+    if (!book) {
+      return ApiErrorHandler.createErrorResponse(
+        new Error('Book not found'),
+        STATUS_CODES.NOT_FOUND,
+        requestId,
+      );
+    }
+
+    const report = OnixExportService.validateBooks([book]);
+
+    if (reportOnly) {
+      return ApiErrorHandler.createSuccessResponse(
+        { report },
+        'ONIX validation report generated',
+        STATUS_CODES.OK,
+        requestId,
+      );
+    }
+
+    const xml = OnixExportService.exportBook(book, { currencyCode });
+
+    return new NextResponse(xml, {
+      status: STATUS_CODES.OK,
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Content-Disposition': `attachment; filename="onix-${bookId}.xml"`,
+        'X-Request-ID': requestId,
+        'X-ONIX-Products': String(report.totalProducts),
+        'X-ONIX-Products-With-Errors': String(report.productsWithErrors),
+      },
+    });
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message.includes('Authentication required')
+    ) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId!,
+      );
+    }
+
+    return ApiErrorHandler.createErrorResponse(
+      error,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      requestId!,
+    );
+  }
+}
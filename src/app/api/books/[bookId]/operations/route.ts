@@ -0,0 +1,50 @@
+import { NextRequest } from 'next/server';
+
+import { LibraryRestructureService } from '@/lib/services/library-restructure.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+
+/**
+ * Recent moves, merges and splits that touched this book
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string }> },
+) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { bookId } = await params;
+    const operations = await LibraryRestructureService.getBookOperations(
+      userId,
+      bookId,
+    );
+
+    return ApiErrorHandler.createSuccessResponse(
+      { operations },
+      'Library changes retrieved successfully',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message.includes('Authentication required')
+    ) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId!,
+      );
+    }
+
+    return ApiErrorHandler.createErrorResponse(
+      error,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      requestId!,
+    );
+  }
+}
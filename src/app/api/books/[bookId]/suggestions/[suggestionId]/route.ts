@@ -0,0 +1,97 @@
+import { NextRequest } from 'next/server';
+
+import { BookService } from '@/lib/services/book.service';
+import { EditionDiscoveryService } from '@/lib/services/edition-discovery.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+
+function handleSuggestionError(error: unknown, requestId: string) {
+  if (error instanceof Error) {
+    if (error.message.includes('Authentication required')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId,
+      );
+    }
+    if (
+      error.message.includes('Suggestion not found or access denied') ||
+      error.message.includes('Book not found or access denied')
+    ) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.NOT_FOUND,
+        requestId,
+      );
+    }
+  }
+
+  return ApiErrorHandler.createErrorResponse(
+    error,
+    STATUS_CODES.INTERNAL_SERVER_ERROR,
+    requestId,
+  );
+}
+
+/**
+ * Accept a suggestion: add the binding (and its edition, if new) to the book
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string; suggestionId: string }> },
+) {
+  let requestId: string;
+
+  try {
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { bookId, suggestionId } = await params;
+    await EditionDiscoveryService.acceptSuggestion(
+      bookId,
+      suggestionId,
+      userId,
+    );
+
+    const book = await BookService.getBookWithDetails(bookId, userId);
+
+    return ApiErrorHandler.createSuccessResponse(
+      { book },
+      'Suggestion added to book',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    return handleSuggestionError(error, requestId!);
+  }
+}
+
+/**
+ * Dismiss a suggestion so it is not offered again
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string; suggestionId: string }> },
+) {
+  let requestId: string;
+
+  try {
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { bookId, suggestionId } = await params;
+    await EditionDiscoveryService.dismissSuggestion(
+      bookId,
+      suggestionId,
+      userId,
+    );
+
+    return ApiErrorHandler.createSuccessResponse(
+      { dismissed: true },
+      'Suggestion dismissed',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    return handleSuggestionError(error, requestId!);
+  }
+}
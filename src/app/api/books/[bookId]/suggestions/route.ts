@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server';
+
+import { EditionDiscoveryService } from '@/lib/services/edition-discovery.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+
+/**
+ * Bindings and editions found for this book by the periodic discovery job
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string }> },
+) {
+  let requestId: string;
+
+  try {
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { bookId } = await params;
+    const suggestions = await EditionDiscoveryService.getSuggestions(
+      bookId,
+      userId,
+    );
+
+    return ApiErrorHandler.createSuccessResponse(
+      { suggestions },
+      'Edition suggestions retrieved successfully',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message.includes('Authentication required')
+    ) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId!,
+      );
+    }
+
+    return ApiErrorHandler.createErrorResponse(
+      error,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      requestId!,
+    );
+  }
+}
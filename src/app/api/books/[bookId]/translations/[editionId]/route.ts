@@ -0,0 +1,92 @@
+import { revalidatePath } from 'next/cache';
+import { NextRequest } from 'next/server';
+
+import { TranslationService } from '@/lib/services/translation.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+import {
+  sanitizeObject,
+  TranslationUpdateSchema,
+  validateRequestBody,
+} from '@/lib/validation/api-schemas';
+
+function handleTranslationError(error: unknown, requestId: string) {
+  if (error instanceof Error) {
+    if (error.message.includes('Authentication required')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId,
+      );
+    }
+
+    if (error.message.includes('or access denied')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.NOT_FOUND,
+        requestId,
+      );
+    }
+
+    if (error.message.includes('already exists')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.CONFLICT,
+        requestId,
+      );
+    }
+  }
+
+  return ApiErrorHandler.createErrorResponse(
+    error,
+    STATUS_CODES.INTERNAL_SERVER_ERROR,
+    requestId,
+  );
+}
+
+/**
+ * Update a translated edition's language, title, territory or translators
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string; editionId: string }> },
+) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { bookId, editionId } = await params;
+
+    const validation = validateRequestBody(
+      TranslationUpdateSchema,
+      sanitizeObject(await request.json()),
+    );
+    if (!validation.success) {
+      return ApiErrorHandler.createErrorResponse(
+        validation.error,
+        STATUS_CODES.UNPROCESSABLE_ENTITY,
+        requestId,
+      );
+    }
+
+    const edition = await TranslationService.updateTranslation(
+      bookId,
+      editionId,
+      userId,
+      validation.data,
+    );
+
+    revalidatePath('/dashboard');
+
+    return ApiErrorHandler.createSuccessResponse(
+      { edition },
+      'Translation updated',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    return handleTranslationError(error, requestId!);
+  }
+}
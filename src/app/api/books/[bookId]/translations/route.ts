@@ -0,0 +1,133 @@
+import { revalidatePath } from 'next/cache';
+import { NextRequest } from 'next/server';
+
+import { TranslationService } from '@/lib/services/translation.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+import {
+  sanitizeObject,
+  TranslationCreateSchema,
+  validateRequestBody,
+} from '@/lib/validation/api-schemas';
+
+function handleTranslationError(error: unknown, requestId: string) {
+  if (error instanceof Error) {
+    if (error.message.includes('Authentication required')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId,
+      );
+    }
+
+    if (
+      error.message.includes('or access denied') ||
+      error.message.includes('No book found')
+    ) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.NOT_FOUND,
+        requestId,
+      );
+    }
+
+    if (error.message.includes('already exists')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.CONFLICT,
+        requestId,
+      );
+    }
+
+    if (error.message.includes('language is required')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNPROCESSABLE_ENTITY,
+        requestId,
+      );
+    }
+  }
+
+  return ApiErrorHandler.createErrorResponse(
+    error,
+    STATUS_CODES.INTERNAL_SERVER_ERROR,
+    requestId,
+  );
+}
+
+/**
+ * List the book's translated editions
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string }> },
+) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { bookId } = await params;
+    const translations = await TranslationService.getTranslations(
+      bookId,
+      userId,
+    );
+
+    return ApiErrorHandler.createSuccessResponse(
+      { translations },
+      'Translations retrieved successfully',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    return handleTranslationError(error, requestId!);
+  }
+}
+
+/**
+ * Add a translation by ISBN
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string }> },
+) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { bookId } = await params;
+
+    const validation = validateRequestBody(
+      TranslationCreateSchema,
+      sanitizeObject(await request.json()),
+    );
+    if (!validation.success) {
+      return ApiErrorHandler.createErrorResponse(
+        validation.error,
+        STATUS_CODES.UNPROCESSABLE_ENTITY,
+        requestId,
+      );
+    }
+
+    const edition = await TranslationService.addTranslation(
+      bookId,
+      userId,
+      validation.data,
+    );
+
+    revalidatePath('/dashboard');
+
+    return ApiErrorHandler.createSuccessResponse(
+      { edition },
+      'Translation added',
+      STATUS_CODES.CREATED,
+      requestId,
+    );
+  } catch (error) {
+    return handleTranslationError(error, requestId!);
+  }
+}
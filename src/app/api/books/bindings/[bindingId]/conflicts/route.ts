@@ -0,0 +1,126 @@
+import { NextRequest } from 'next/server';
+
+import { BookService } from '@/lib/services/book.service';
+import { CONFLICT_FIELDS, ConflictField } from '@/lib/types/provenance';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+import {
+  BindingConflictResolutionSchema,
+  validateRequestBody,
+} from '@/lib/validation/api-schemas';
+
+function handleConflictError(error: unknown, requestId: string) {
+  if (error instanceof Error) {
+    if (error.message.includes('Authentication required')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId,
+      );
+    }
+    if (error.message.includes('Binding not found or access denied')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.NOT_FOUND,
+        requestId,
+      );
+    }
+    if (error.message.includes('is not a candidate')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNPROCESSABLE_ENTITY,
+        requestId,
+      );
+    }
+  }
+
+  return ApiErrorHandler.createErrorResponse(
+    error,
+    STATUS_CODES.INTERNAL_SERVER_ERROR,
+    requestId,
+  );
+}
+
+/**
+ * Pick the correct value for a field the metadata providers disagreed on.
+ * The choice is kept as a user override that refreshes never replace.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ bindingId: string }> },
+) {
+  let requestId: string;
+  try {
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { bindingId } = await params;
+
+    const validation = validateRequestBody(
+      BindingConflictResolutionSchema,
+      await request.json(),
+    );
+    if (!validation.success) {
+      return ApiErrorHandler.createErrorResponse(
+        validation.error,
+        STATUS_CODES.UNPROCESSABLE_ENTITY,
+        requestId,
+      );
+    }
+
+    const { field, value } = validation.data;
+    const binding = await BookService.resolveBindingConflict(
+      bindingId,
+      userId,
+      field,
+      value,
+    );
+
+    return ApiErrorHandler.createSuccessResponse(
+      { binding },
+      'Conflict resolved',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    return handleConflictError(error, requestId!);
+  }
+}
+
+/**
+ * Drop the override for a field (?field=pages) so it follows provider data
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ bindingId: string }> },
+) {
+  let requestId: string;
+  try {
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { bindingId } = await params;
+    const field = request.nextUrl.searchParams.get('field');
+    if (!field || !CONFLICT_FIELDS.includes(field as ConflictField)) {
+      return ApiErrorHandler.createErrorResponse(
+        new Error(`Field must be one of: ${CONFLICT_FIELDS.join(', ')}`),
+        STATUS_CODES.BAD_REQUEST,
+        requestId,
+      );
+    }
+
+    const binding = await BookService.clearBindingOverride(
+      bindingId,
+      userId,
+      field as ConflictField,
+    );
+
+    return ApiErrorHandler.createSuccessResponse(
+      { binding },
+      'Override removed',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    return handleConflictError(error, requestId!);
+  }
+}
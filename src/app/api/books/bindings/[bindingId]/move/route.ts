@@ -0,0 +1,90 @@
+import { revalidatePath } from 'next/cache';
+import { NextRequest } from 'next/server';
+
+import { LibraryRestructureService } from '@/lib/services/library-restructure.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+import {
+  BindingMoveSchema,
+  sanitizeObject,
+  validateRequestBody,
+} from '@/lib/validation/api-schemas';
+
+function handleRestructureError(error: unknown, requestId: string) {
+  if (error instanceof Error) {
+    if (error.message.includes('Authentication required')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId,
+      );
+    }
+    if (error.message.includes('or access denied')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.NOT_FOUND,
+        requestId,
+      );
+    }
+    if (error.message.includes('already in this edition')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.CONFLICT,
+        requestId,
+      );
+    }
+  }
+
+  return ApiErrorHandler.createErrorResponse(
+    error,
+    STATUS_CODES.INTERNAL_SERVER_ERROR,
+    requestId,
+  );
+}
+
+/**
+ * Move the binding into another edition
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ bindingId: string }> },
+) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { bindingId } = await params;
+
+    const rawBody = await request.json();
+    const validation = validateRequestBody(
+      BindingMoveSchema,
+      sanitizeObject(rawBody),
+    );
+    if (!validation.success) {
+      return ApiErrorHandler.createErrorResponse(
+        validation.error,
+        STATUS_CODES.UNPROCESSABLE_ENTITY,
+        requestId,
+      );
+    }
+
+    const result = await LibraryRestructureService.moveBinding(
+      userId,
+      bindingId,
+      validation.data.edition_id,
+    );
+
+    revalidatePath('/dashboard');
+
+    return ApiErrorHandler.createSuccessResponse(
+      result,
+      'Binding moved successfully',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    return handleRestructureError(error, requestId!);
+  }
+}
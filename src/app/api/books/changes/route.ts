@@ -0,0 +1,105 @@
+import { NextRequest } from 'next/server';
+
+import { MetadataRefreshService } from '@/lib/services/metadata-refresh.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+import {
+  BookChangesReadSchema,
+  validateRequestBody,
+} from '@/lib/validation/api-schemas';
+
+/**
+ * "What changed" feed: recent changes found by the metadata refresh job
+ */
+export async function GET(request: NextRequest) {
+  let requestId: string;
+
+  try {
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { searchParams } = request.nextUrl;
+    const limit = Math.min(
+      parseInt(searchParams.get('limit') || '20') || 20,
+      100,
+    );
+
+    const feed = await MetadataRefreshService.getChangeFeed(userId, {
+      limit,
+      unreadOnly: searchParams.get('unread') === 'true',
+    });
+
+    return ApiErrorHandler.createSuccessResponse(
+      feed,
+      'Book changes retrieved successfully',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message.includes('Authentication required')
+    ) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId!,
+      );
+    }
+
+    return ApiErrorHandler.createErrorResponse(
+      error,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      requestId!,
+    );
+  }
+}
+
+/**
+ * Dismiss changes from the feed; omit `ids` to dismiss all of them
+ */
+export async function POST(request: NextRequest) {
+  let requestId: string;
+
+  try {
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const validation = validateRequestBody(
+      BookChangesReadSchema,
+      await request.json().catch(() => ({})),
+    );
+    if (!validation.success) {
+      return ApiErrorHandler.createErrorResponse(
+        validation.error,
+        STATUS_CODES.UNPROCESSABLE_ENTITY,
+        requestId,
+      );
+    }
+
+    await MetadataRefreshService.markChangesRead(userId, validation.data.ids);
+
+    return ApiErrorHandler.createSuccessResponse(
+      { success: true },
+      'Changes marked as read',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message.includes('Authentication required')
+    ) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId!,
+      );
+    }
+
+    return ApiErrorHandler.createErrorResponse(
+      error,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      requestId!,
+    );
+  }
+}
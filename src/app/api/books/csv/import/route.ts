@@ -0,0 +1,66 @@
+import { revalidatePath } from 'next/cache';
+import { NextRequest } from 'next/server';
+
+import { CsvImportService } from '@/lib/services/csv-import.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+import {
+  CsvImportRequestSchema,
+  sanitizeObject,
+  validateRequestBody,
+} from '@/lib/validation/api-schemas';
+
+/**
+ * Import books from CSV rows that were already mapped to import fields client-side
+ */
+export async function POST(request: NextRequest) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const rawBody = await request.json();
+    const validation = validateRequestBody(
+      CsvImportRequestSchema,
+      sanitizeObject(rawBody),
+    );
+    if (!validation.success) {
+      return ApiErrorHandler.createErrorResponse(
+        validation.error,
+        STATUS_CODES.UNPROCESSABLE_ENTITY,
+        requestId,
+      );
+    }
+
+    const { rows, enrich } = validation.data;
+    const result = await CsvImportService.importRows(userId, rows, { enrich });
+
+    // Revalidate the dashboard page to show the imported books
+    revalidatePath('/dashboard');
+
+    return ApiErrorHandler.createSuccessResponse(
+      { result },
+      `Imported ${result.succeeded} of ${result.total} rows`,
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message.includes('Authentication required')
+    ) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId!,
+      );
+    }
+
+    return ApiErrorHandler.createErrorResponse(
+      error,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      requestId!,
+    );
+  }
+}
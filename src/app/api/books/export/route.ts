@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { BookService } from '@/lib/services/book.service';
+import { LibraryExportService } from '@/lib/services/library-export.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+
+/**
+ * Full library export as a downloadable file.
+ * ?format=csv (default) gives one row per binding; ?format=json gives the
+ * nested Book tree, which can be restored via /api/books/json/import.
+ */
+export async function GET(request: NextRequest) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') || 'csv';
+
+    if (format !== 'csv' && format !== 'json') {
+      return ApiErrorHandler.createErrorResponse(
+        new Error('Format must be csv or json'),
+        STATUS_CODES.BAD_REQUEST,
+        requestId,
+      );
+    }
+
+    const books = await ApiErrorHandler.handleAsync(
+      () => BookService.getUserBooks(userId),
+      'Failed to fetch books',
+    );
+
+    const date = new Date().toISOString().slice(0, 10);
+    const body =
+      format === 'csv'
+        ? LibraryExportService.toCsv(books)
+        : JSON.stringify(LibraryExportService.toJson(books), null, 2);
+
+    return new NextResponse(body, {
+      status: STATUS_CODES.OK,
+      headers: {
+        'Content-Type':
+          format === 'csv'
+            ? 'text/csv; charset=utf-8'
+            : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="authormagic-library-${date}.${format}"`,
+        'X-Request-ID': requestId,
+      },
+    });
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message.includes('Authentication required')
+    ) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId!,
+      );
+    }
+
+    return ApiErrorHandler.createErrorResponse(
+      error,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      requestId!,
+    );
+  }
+}
@@ -1,30 +1,57 @@
 import { NextRequest, NextResponse } from 'next/server';
 
 import { BookDataMergerService } from '@/lib/services/book-data-merger.service';
+import { EditionCorrectionService } from '@/lib/services/edition-correction.service';
 import { EditionDetectionService } from '@/lib/services/edition-detection.service';
 import { GoogleBooksService } from '@/lib/services/google-books.service';
 import { isbnDbService } from '@/lib/services/isbn-db.service';
 import { ISBNDBBookResponse } from '@/lib/types/api';
 import { convertISBNDBToUIBook, UIBook } from '@/lib/types/ui-book';
+import {
+  hyphenateIsbn,
+  suggestIsbnCorrections,
+  toISBN13,
+} from '@/lib/utils/isbn';
+
+// Typos usually have one or two plausible fixes; more is noise
+const MAX_ISBN_SUGGESTIONS = 3;
 
 export async function GET(
   _request: NextRequest,
   { params }: { params: Promise<{ isbn: string }> },
 ): Promise<NextResponse> {
-  const { isbn } = await params;
+  const { isbn: rawIsbn } = await params;
 
-  if (!isbn) {
+  if (!rawIsbn) {
     return NextResponse.json({ error: 'ISBN is required' }, { status: 400 });
   }
 
+  // Search by ISBN-13 so ISBN-10 and hyphenated input find the same book
+  const input = decodeParam(rawIsbn);
+  const isbn = toISBN13(input);
+  if (!isbn) {
+    return NextResponse.json(
+      {
+        error: 'Invalid ISBN',
+        suggestions: suggestIsbnCorrections(input)
+          .slice(0, MAX_ISBN_SUGGESTIONS)
+          .map(correction => ({
+            ...correction,
+            hyphenated: hyphenateIsbn(correction.isbn),
+          })),
+      },
+      { status: 400 },
+    );
+  }
+
   try {
     // Initialize Google Books service
     const googleBooksService = new GoogleBooksService();
 
     // Search both APIs in parallel for better coverage
     const [isbndbResult, googleBooksResult] = await Promise.allSettled([
-      searchISBNDB(isbn.trim()),
-      searchGoogleBooks(googleBooksService, isbn.trim()),
+      searchISBNDB(isbn),
+      searchGoogleBooks(googleBooksService, isbn),
     ]);
 
     // Extract successful results
@@ -53,8 +80,12 @@ export async function GET(
     }
 
     // Group books by edition for better organization
+    const corrections = await EditionCorrectionService.getRegistry(
+      mergedResults.books,
+    );
     const editionGroups = EditionDetectionService.groupByEdition(
       mergedResults.books,
+      { corrections },
     );
 
     return NextResponse.json({
@@ -62,6 +93,7 @@ export async function GET(
       editionGroups,
       sources: mergedResults.sources,
       isbn,
+      hyphenated: hyphenateIsbn(isbn),
     });
   } catch {
     return NextResponse.json(
@@ -71,6 +103,15 @@ export async function GET(
   }
 }
 
+// Tolerate stray % signs rather than failing the request
+function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
 // Helper function to search ISBNDB
 async function searchISBNDB(isbn: string): Promise<{
   success: boolean;
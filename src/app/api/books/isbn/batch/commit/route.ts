@@ -0,0 +1,77 @@
+import { revalidatePath } from 'next/cache';
+import { NextRequest } from 'next/server';
+
+import { IsbnBatchService } from '@/lib/services/isbn-batch.service';
+import { WorkService } from '@/lib/services/work.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+import {
+  IsbnBatchCommitSchema,
+  sanitizeObject,
+  validateRequestBody,
+} from '@/lib/validation/api-schemas';
+
+/**
+ * Add the books of a reviewed ISBN batch preview to the user's library
+ */
+export async function POST(request: NextRequest) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const rawBody = await request.json();
+    const validation = validateRequestBody(
+      IsbnBatchCommitSchema,
+      sanitizeObject(rawBody),
+    );
+    if (!validation.success) {
+      return ApiErrorHandler.createErrorResponse(
+        validation.error,
+        STATUS_CODES.UNPROCESSABLE_ENTITY,
+        requestId,
+      );
+    }
+
+    const result = await IsbnBatchService.commit(userId, validation.data.items);
+
+    // Clustering can be rerun from the works API, so a failure here doesn't
+    // fail the batch
+    if (result.succeeded > 0) {
+      await WorkService.clusterLibrary(userId).catch(error => {
+        if (process.env.NODE_ENV === 'development') {
+          // eslint-disable-next-line no-console
+          console.error('Failed to cluster works:', error);
+        }
+      });
+    }
+
+    // Revalidate the dashboard page to show the added books
+    revalidatePath('/dashboard');
+
+    return ApiErrorHandler.createSuccessResponse(
+      { result },
+      `Added ${result.succeeded} of ${result.total} books`,
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message.includes('Authentication required')
+    ) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId!,
+      );
+    }
+
+    return ApiErrorHandler.createErrorResponse(
+      error,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      requestId!,
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest } from 'next/server';
+
+import { IsbnBatchService } from '@/lib/services/isbn-batch.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+import {
+  IsbnBatchLookupSchema,
+  sanitizeObject,
+  validateRequestBody,
+} from '@/lib/validation/api-schemas';
+
+/**
+ * Look up a list of ISBNs and preview them as books with their edition
+ * groups. Nothing is saved; POST the items to ./commit to add them.
+ */
+export async function POST(request: NextRequest) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const rawBody = await request.json();
+    const validation = validateRequestBody(
+      IsbnBatchLookupSchema,
+      sanitizeObject(rawBody),
+    );
+    if (!validation.success) {
+      return ApiErrorHandler.createErrorResponse(
+        validation.error,
+        STATUS_CODES.UNPROCESSABLE_ENTITY,
+        requestId,
+      );
+    }
+
+    const preview = await IsbnBatchService.preview(validation.data.isbns);
+
+    return ApiErrorHandler.createSuccessResponse(
+      { preview },
+      `Found ${preview.items.length} books`,
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message.includes('Authentication required')
+    ) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId!,
+      );
+    }
+
+    return ApiErrorHandler.createErrorResponse(
+      error,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      requestId!,
+    );
+  }
+}
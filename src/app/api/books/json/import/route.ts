@@ -0,0 +1,74 @@
+import { revalidatePath } from 'next/cache';
+import { NextRequest } from 'next/server';
+
+import { LibraryExportService } from '@/lib/services/library-export.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+import {
+  LibraryImportSchema,
+  validateRequestBody,
+} from '@/lib/validation/api-schemas';
+
+/**
+ * Restore a library from a JSON export produced by /api/books/export?format=json
+ */
+export async function POST(request: NextRequest) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    let rawBody: unknown;
+    try {
+      rawBody = await request.json();
+    } catch {
+      return ApiErrorHandler.createErrorResponse(
+        new Error('File is not valid JSON'),
+        STATUS_CODES.BAD_REQUEST,
+        requestId,
+      );
+    }
+
+    const validation = validateRequestBody(LibraryImportSchema, rawBody);
+    if (!validation.success) {
+      return ApiErrorHandler.createErrorResponse(
+        validation.error,
+        STATUS_CODES.UNPROCESSABLE_ENTITY,
+        requestId,
+      );
+    }
+
+    const result = await LibraryExportService.restoreFromJson(
+      userId,
+      validation.data,
+    );
+
+    // Revalidate the dashboard page to show the restored books
+    revalidatePath('/dashboard');
+
+    return ApiErrorHandler.createSuccessResponse(
+      { result },
+      `Restored ${result.created + result.merged} of ${result.total} books`,
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message.includes('Authentication required')
+    ) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId!,
+      );
+    }
+
+    return ApiErrorHandler.createErrorResponse(
+      error,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      requestId!,
+    );
+  }
+}
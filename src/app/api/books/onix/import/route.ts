@@ -0,0 +1,102 @@
+import { revalidatePath } from 'next/cache';
+import { NextRequest } from 'next/server';
+
+import { OnixImportService } from '@/lib/services/onix-import.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+
+const MAX_FEED_SIZE = 10 * 1024 * 1024; // 10MB
+
+/**
+ * Read the ONIX feed from a multipart upload (field "file") or a raw XML body
+ */
+async function readFeed(request: NextRequest): Promise<string> {
+  const contentType = request.headers.get('content-type') || '';
+
+  if (contentType.includes('multipart/form-data')) {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!file || typeof file === 'string') {
+      throw new Error('Missing ONIX file upload');
+    }
+    if (file.size > MAX_FEED_SIZE) {
+      throw new Error('ONIX file is too large (maximum 10MB)');
+    }
+    return file.text();
+  }
+
+  const xml = await request.text();
+  if (xml.length > MAX_FEED_SIZE) {
+    throw new Error('ONIX file is too large (maximum 10MB)');
+  }
+  return xml;
+}
+
+/**
+ * Import an ONIX 3.0 feed.
+ * ?dry_run=true returns the create/merge/skip plan without writing anything.
+ */
+export async function POST(request: NextRequest) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { searchParams } = new URL(request.url);
+    const dryRun = searchParams.get('dry_run') === 'true';
+
+    let plan;
+    try {
+      const xml = await readFeed(request);
+      if (!xml.trim()) {
+        throw new Error('ONIX feed is empty');
+      }
+      plan = await OnixImportService.planImport(userId, xml);
+    } catch (error) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.BAD_REQUEST,
+        requestId,
+      );
+    }
+
+    if (dryRun) {
+      return ApiErrorHandler.createSuccessResponse(
+        { plan },
+        'ONIX import preview generated',
+        STATUS_CODES.OK,
+        requestId,
+      );
+    }
+
+    const result = await OnixImportService.executeImport(userId, plan);
+
+    // Revalidate the dashboard page to show the imported books
+    revalidatePath('/dashboard');
+
+    return ApiErrorHandler.createSuccessResponse(
+      { result },
+      `Imported ${result.created} new and ${result.merged} existing books`,
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message.includes('Authentication required')
+    ) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId!,
+      );
+    }
+
+    return ApiErrorHandler.createErrorResponse(
+      error,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      requestId!,
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { BookService } from '@/lib/services/book.service';
+import { OnixExportService } from '@/lib/services/onix-export.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+
+/**
+ * ONIX 3.0 export for the user's whole library.
+ * ?report=true returns the validation report as JSON instead of the feed.
+ */
+export async function GET(request: NextRequest) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { searchParams } = new URL(request.url);
+    const reportOnly = searchParams.get('report') === 'true';
+    const currencyCode = searchParams.get('currency') || undefined;
+
+    const books = await ApiErrorHandler.handleAsync(
+      () => BookService.getUserBooks(userId),
+      'Failed to fetch books',
+    );
+
+    const report = OnixExportService.validateBooks(books);
+
+    if (reportOnly) {
+      return ApiErrorHandler.createSuccessResponse(
+        { report },
+        'ONIX validation report generated',
+        STATUS_CODES.OK,
+        requestId,
+      );
+    }
+
+    const xml = OnixExportService.exportBooks(books, { currencyCode });
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(xml, {
+      status: STATUS_CODES.OK,
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Content-Disposition': `attachment; filename="onix-library-${date}.xml"`,
+        'X-Request-ID': requestId,
+        'X-ONIX-Products': String(report.totalProducts),
+        'X-ONIX-Products-With-Errors': String(report.productsWithErrors),
+      },
+    });
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message.includes('Authentication required')
+    ) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId!,
+      );
+    }
+
+    return ApiErrorHandler.createErrorResponse(
+      error,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      requestId!,
+    );
+  }
+}
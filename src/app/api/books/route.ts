@@ -2,7 +2,9 @@ import { revalidatePath } from 'next/cache';
 import { NextRequest } from 'next/server';
 
 import { BookService } from '@/lib/services/book.service';
+import { WorkService } from '@/lib/services/work.service';
 import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+import { getBookCredits, toAuthorString } from '@/lib/utils/contributors';
 import {
   BookCreateRequestSchema,
   validateRequestBody,
@@ -44,11 +46,14 @@ export async function POST(request: NextRequest) {
       })),
     }));
 
-    // Extract title and author from validated data
+    // Extract title, credits and author from validated data
     const title = bookData.title;
-    const author = Array.isArray(bookData.authors)
-      ? bookData.authors.join(', ')
-      : bookData.authors[0] || 'Unknown Author';
+    const contributors = getBookCredits(bookData);
+    const author =
+      toAuthorString(contributors) ||
+      (Array.isArray(bookData.authors)
+        ? bookData.authors.join(', ')
+        : bookData.authors[0] || 'Unknown Author');
 
     // Check if the book already exists
     const existingBook = await ApiErrorHandler.handleAsync(
@@ -76,12 +81,28 @@ export async function POST(request: NextRequest) {
       // Create new book (preserve structure)
       book = await ApiErrorHandler.handleAsync(
         () =>
-          BookService.createBook(userId, title, author, editionGroupsWithIds),
+          BookService.createBook(
+            userId,
+            title,
+            author,
+            editionGroupsWithIds,
+            undefined,
+            contributors,
+          ),
         'Failed to create new book',
       );
       message = 'Book added to collection successfully';
     }
 
+    // Link the book with other titles of the same work. Clustering can be
+    // rerun from the works API, so a failure here doesn't fail the add.
+    await WorkService.clusterLibrary(userId).catch(error => {
+      if (process.env.NODE_ENV === 'development') {
+        // eslint-disable-next-line no-console
+        console.error('Failed to cluster works:', error);
+      }
+    });
+
     // Revalidate the dashboard page to show the new book
     revalidatePath('/dashboard');
 
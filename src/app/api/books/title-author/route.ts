@@ -1,16 +1,24 @@
+import { auth } from '@clerk/nextjs/server';
 import { NextRequest, NextResponse } from 'next/server';
 
+import { AuthorAliasService } from '@/lib/services/author-alias.service';
 import { BookDataMergerService } from '@/lib/services/book-data-merger.service';
 import { BookEnrichmentService } from '@/lib/services/book-enrichment.service';
-import { EditionDetectionService } from '@/lib/services/edition-detection.service';
-import { GoogleBooksService } from '@/lib/services/google-books.service';
+import { EditionCorrectionService } from '@/lib/services/edition-correction.service';
+import {
+  EditionDetectionOptions,
+  EditionDetectionService,
+  EditionGroup,
+} from '@/lib/services/edition-detection.service';
 import { ImageEnhancementQueueService } from '@/lib/services/image-enhancement-queue.service';
-import { isbnDbService } from '@/lib/services/isbn-db.service';
-import { itunesSearchService } from '@/lib/services/itunes-search.service';
+import { MetadataProviderRegistry } from '@/lib/services/metadata-provider-registry';
 import { SmartEnhancementService } from '@/lib/services/smart-enhancement.service';
-import { ISBNDBBookResponse } from '@/lib/types/api';
-import { convertISBNDBToUIBook, UIBook } from '@/lib/types/ui-book';
+import { WaitlistService } from '@/lib/services/waitlist.service';
+import { EditionGroupingTrace } from '@/lib/types/edition-trace';
+import { UIBook } from '@/lib/types/ui-book';
+import { AuthorAliasRegistry } from '@/lib/utils/author-alias-registry';
 import { extractUniqueISBNs } from '@/lib/utils/isbn-extractor';
+import { filterBooksByTitleAuthor } from '@/lib/utils/title-author-filter';
 
 export async function GET(request: NextRequest) {
   const startTime = performance.now();
@@ -29,74 +37,50 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Load the caller's author aliases (plus global ones) for co-author matching
+    const { userId } = await auth();
+    const authorAliases = await AuthorAliasService.getRegistry(userId);
+
+    // Grouping traces expose the detection internals, so only admins get them
+    const includeTrace =
+      searchParams.get('trace') === 'true' &&
+      !!userId &&
+      (await new WaitlistService().isUserAdmin(userId));
+
     // Use new enriched flow if requested
     if (useEnriched) {
       return await handleEnrichedSearchFlow(
         request,
         title,
         author,
+        authorAliases,
+        includeTrace,
         timings,
         startTime,
       );
     }
 
-    // Initialize Google Books service
-    const googleBooksService = new GoogleBooksService();
-
-    // Search all three APIs in parallel for better coverage
+    // Search every enabled metadata provider in parallel for better coverage
     const apiSearchStart = performance.now();
-    const [isbndbResult, googleBooksResult, itunesResult] =
-      await Promise.allSettled([
-        searchISBNDB(title.trim(), author.trim()),
-        searchGoogleBooks(googleBooksService, title.trim(), author.trim()),
-        searchITunes(title.trim(), author.trim()),
-      ]);
+    const providerResults = await MetadataProviderRegistry.searchByTitleAuthor(
+      title.trim(),
+      author.trim(),
+    );
     timings.apiSearch = performance.now() - apiSearchStart;
 
-    // Extract successful results
-    const extractStart = performance.now();
-    const isbndbBooks =
-      isbndbResult.status === 'fulfilled' && isbndbResult.value.success
-        ? isbndbResult.value.books
-        : [];
-
-    const googleBooksBooks =
-      googleBooksResult.status === 'fulfilled' &&
-      googleBooksResult.value.success
-        ? googleBooksResult.value.data || []
-        : [];
-
-    const itunesBooks =
-      itunesResult.status === 'fulfilled' && itunesResult.value.success
-        ? itunesResult.value.data || []
-        : [];
-    timings.extraction = performance.now() - extractStart;
-
-    // Merge and deduplicate results (including iTunes)
+    // Merge and deduplicate results (ISBN-less results such as iTunes are kept as-is)
     const mergeStart = performance.now();
-    // First merge ISBNDB and Google Books using the existing service
-    const mergedResults = BookDataMergerService.mergeBookResults(
-      isbndbBooks,
-      googleBooksBooks,
-    );
-
-    // Then manually add iTunes books (they're already enriched and shouldn't be deduplicated)
-    const finalMergedResults = {
-      ...mergedResults,
-      books: [...mergedResults.books, ...itunesBooks],
-      sources: {
-        ...mergedResults.sources,
-        itunes: itunesBooks.length,
-      },
-    };
+    const finalMergedResults =
+      BookDataMergerService.mergeProviderResults(providerResults);
     timings.merging = performance.now() - mergeStart;
 
     // Apply final filtering to merged results
     const filterStart = performance.now();
-    const filteredBooks = filterBooksByTitleAuthorFixed(
+    const filteredBooks = filterBooksByTitleAuthor(
       finalMergedResults.books,
       title.trim(),
       author.trim(),
+      authorAliases,
     );
     timings.filtering = performance.now() - filterStart;
 
@@ -115,57 +99,27 @@ export async function GET(request: NextRequest) {
     });
     timings.corrections = performance.now() - correctionStart;
 
+    // Corrections users confirmed for these ISBNs take priority in grouping
+    const corrections =
+      await EditionCorrectionService.getRegistry(correctedBooks);
+
     // Group books by edition FIRST to identify primary books for enhancement
     // const preEditionStart = performance.now(); // Removed for devLog cleanup
-    const preliminaryEditionGroups =
-      EditionDetectionService.groupByEdition(correctedBooks);
+    const preliminaryEditionGroups = EditionDetectionService.groupByEdition(
+      correctedBooks,
+      { authorAliases, corrections },
+    );
 
     // Extract primary book from each edition group (hardcover priority, then latest edition)
     const primaryBooks: UIBook[] = [];
     const secondaryBooks: UIBook[] = [];
 
-    // Helper function to detect primary book within an edition group
-    const detectPrimaryBook = (books: UIBook[]): UIBook | null => {
-      if (!books || books.length === 0) return null;
-
-      // Priority order: hardcover → paperback → kindle → ebook → audiobook → others
-      const bindingPriority = [
-        'hardcover',
-        'paperback',
-        'kindle',
-        'ebook',
-        'audiobook',
-      ];
-
-      // Group books by normalized binding type
-      const bindingGroups: { [binding: string]: UIBook[] } = {};
-      books.forEach(book => {
-        const binding = EditionDetectionService.normalizeBindingType(
-          book.print_type || book.binding,
-        );
-        if (!bindingGroups[binding]) bindingGroups[binding] = [];
-        bindingGroups[binding].push(book);
-      });
-
-      // Find the first available binding type in priority order
-      for (const preferredBinding of bindingPriority) {
-        if (
-          bindingGroups[preferredBinding] &&
-          bindingGroups[preferredBinding].length > 0
-        ) {
-          // Return the first book of this binding type
-          return bindingGroups[preferredBinding][0];
-        }
-      }
-
-      // If no priority binding found, return the first book
-      return books[0];
-    };
-
     preliminaryEditionGroups.forEach(group => {
       if (group.books && group.books.length > 0) {
         // Get the primary book using binding hierarchy
-        const primaryBook = detectPrimaryBook(group.books);
+        const primaryBook = EditionDetectionService.selectPrimaryBinding(
+          group.books,
+        );
 
         if (primaryBook) {
           primaryBooks.push(primaryBook);
@@ -254,7 +208,10 @@ export async function GET(request: NextRequest) {
 
     // Group and consolidate editions/bindings using existing algorithm
     const editionStart = performance.now();
-    const editionGroups = EditionDetectionService.groupByEdition(finalBooks);
+    const { editionGroups, trace } = groupEditions(finalBooks, includeTrace, {
+      authorAliases,
+      corrections,
+    });
     timings.editionDetection = performance.now() - editionStart;
 
     // PHASE 2: Background Image Enhancement Queue Integration
@@ -296,6 +253,7 @@ export async function GET(request: NextRequest) {
       books: finalBooks, // Keep flat array for backward compatibility (now potentially validated)
       sources: finalMergedResults.sources, // Include source statistics
       total: finalBooks.length,
+      ...(trace && { trace }),
       validation: enableValidation
         ? {
             enabled: true,
@@ -314,7 +272,6 @@ export async function GET(request: NextRequest) {
       performance: {
         totalMs: parseFloat(timings.total.toFixed(2)),
         apiSearchMs: parseFloat(timings.apiSearch.toFixed(2)),
-        extractionMs: parseFloat(timings.extraction.toFixed(2)),
         mergingMs: parseFloat(timings.merging.toFixed(2)),
         filteringMs: parseFloat(timings.filtering.toFixed(2)),
         correctionsMs: parseFloat(timings.corrections.toFixed(2)),
@@ -334,163 +291,57 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// Helper function for ISBNDB search with optimized parallel strategy
-async function searchISBNDB(title: string, author?: string) {
-  // devLog(`🔍 ISBNDB: Starting search for "${title}" by "${author}"`); // Removed devLog
-
-  const allResults = new Map<string, ISBNDBBookResponse>(); // Use Map to deduplicate by ISBN
-
-  // Enhanced parallel strategy: run multiple search approaches simultaneously
-  const searchPromises = [];
-
-  // Strategy 1: Direct title searches (run in parallel)
-  const titleSearches = [
-    title, // "Startup Life"
-    `"${title}"`, // Quoted search
-    `${title} surviving`, // With common subtitle words
-    `${title} relationship`,
-    `${title} entrepreneur`,
-  ];
-
-  titleSearches.forEach(searchTerm => {
-    searchPromises.push(
-      isbnDbService
-        .searchBooksByTitle(searchTerm, 1, 30)
-        .catch(() => ({ success: false, data: [] })),
-    );
-  });
-
-  // Strategy 2: Author-specific searches (if we have author)
-  if (author) {
-    searchPromises.push(
-      isbnDbService
-        .searchTitleAuthor(title, author, 1, 50)
-        .catch(() => ({ success: false, data: [] })),
-      isbnDbService
-        .searchBooksByTitle(`"${title}" "${author}"`, 1, 30)
-        .catch(() => ({ success: false, data: [] })),
-      isbnDbService
-        .searchBooksByTitle(`${title} ${author}`, 1, 30)
-        .catch(() => ({ success: false, data: [] })),
-    );
-  }
-
-  // Execute all searches in parallel with race condition protection
-  const results = await Promise.allSettled(
-    searchPromises.map(promise =>
-      Promise.race([
-        promise,
-        new Promise(
-          (_, reject) =>
-            setTimeout(() => reject(new Error('Search timeout')), 8000), // 8 second total timeout
-        ),
-      ]),
-    ),
-  );
-  // Processing results (performance tracking removed)
-
-  results.forEach(result => {
-    if (
-      result.status === 'fulfilled' &&
-      result.value &&
-      typeof result.value === 'object' &&
-      'success' in result.value &&
-      result.value.success &&
-      'data' in result.value &&
-      Array.isArray(result.value.data)
-    ) {
-      result.value.data.forEach((book: ISBNDBBookResponse) => {
-        if (book.isbn) {
-          allResults.set(book.isbn, book);
-        }
-      });
-    }
-  });
-
-  const uniqueBooks = Array.from(allResults.values());
-
-  // devLog( // Removed devLog
-  //   `📊 ISBNDB Results: ${uniqueBooks.length} unique books from ${successfulResults}/${searchPromises.length} successful searches (${failedResults} failed) in ${totalTime.toFixed(2)}ms (${promiseTime.toFixed(2)}ms for parallel execution)`,
-  // );
-
-  if (uniqueBooks.length > 0) {
-    return {
-      success: true,
-      books: uniqueBooks.map(convertISBNDBToUIBook),
-    };
-  }
-
-  return {
-    success: false,
-    books: [],
-    error: 'No books found with any search strategy',
-  };
-}
-
 // NEW: Enriched search flow using filter-first optimization
 async function handleEnrichedSearchFlow(
   request: NextRequest,
   title: string,
   author: string,
+  authorAliases: AuthorAliasRegistry,
+  includeTrace: boolean,
   timings: { [step: string]: number },
   startTime: number,
 ) {
   try {
     // Phase 1: ISBN Discovery using existing search APIs (lightweight)
     const discoveryStart = performance.now();
-    const googleBooksService = new GoogleBooksService();
-
-    const [isbndbResult, googleBooksResult, itunesResult] =
-      await Promise.allSettled([
-        searchISBNDB(title.trim(), author.trim()),
-        searchGoogleBooks(googleBooksService, title.trim(), author.trim()),
-        searchITunes(title.trim(), author.trim()),
-      ]);
-
-    const isbndbBooks =
-      isbndbResult.status === 'fulfilled' && isbndbResult.value.success
-        ? isbndbResult.value.books
-        : [];
-    const googleBooksBooks =
-      googleBooksResult.status === 'fulfilled' &&
-      googleBooksResult.value.success
-        ? googleBooksResult.value.data || []
-        : [];
-    const itunesBooks =
-      itunesResult.status === 'fulfilled' && itunesResult.value.success
-        ? itunesResult.value.data || []
-        : [];
+    const providerResults = await MetadataProviderRegistry.searchByTitleAuthor(
+      title.trim(),
+      author.trim(),
+    );
 
     timings.isbnDiscovery = performance.now() - discoveryStart;
 
     // Phase 2: FILTER FIRST (NEW OPTIMIZATION) - before expensive enrichment
     const filterStart = performance.now();
-    const allDiscoveredBooks = [
-      ...isbndbBooks,
-      ...googleBooksBooks,
-      ...itunesBooks,
-    ];
+    const allDiscoveredBooks = providerResults.flatMap(result => result.data);
 
     // Phase 2: Filter-first optimization for efficiency
 
     // Apply lightweight filtering to discovered books BEFORE enrichment
-    const filteredBooks = filterBooksByTitleAuthorFixed(
+    const filteredBooks = filterBooksByTitleAuthor(
       allDiscoveredBooks,
       title.trim(),
       author.trim(),
+      authorAliases,
     );
 
     // Filter-first optimization applied successfully
 
     timings.filterFirst = performance.now() - filterStart;
 
-    // Phase 3: Separate pre-enriched books (iTunes) from books needing enrichment
+    // Phase 3: Separate pre-enriched books (ISBN-less sources such as iTunes)
+    // from books needing enrichment
     const separationStart = performance.now();
-    const preEnrichedBooks = filteredBooks.filter(
-      book => book.source === 'itunes',
+    const preEnrichedSources = new Set<string>(
+      providerResults
+        .filter(result => !result.providesIsbns)
+        .map(result => result.providerId),
+    );
+    const preEnrichedBooks = filteredBooks.filter(book =>
+      preEnrichedSources.has(book.source || ''),
     );
     const booksNeedingEnrichment = filteredBooks.filter(
-      book => book.source !== 'itunes',
+      book => !preEnrichedSources.has(book.source || ''),
     );
 
     // Extract ISBNs from books that need enrichment only
@@ -511,7 +362,13 @@ async function handleEnrichedSearchFlow(
 
     // Phase 5: Group by edition (much simpler now since we have fewer, relevant books)
     const processingStart = performance.now();
-    const editionGroups = EditionDetectionService.groupByEdition(enrichedBooks);
+    const corrections =
+      await EditionCorrectionService.getRegistry(enrichedBooks);
+    const { editionGroups, trace } = groupEditions(
+      enrichedBooks,
+      includeTrace,
+      { authorAliases, corrections },
+    );
 
     // IMPORTANT: Apply binding normalization to the final books for consistent API response
     // The groupByEdition function normalizes internally but we need normalized books in the response
@@ -537,11 +394,10 @@ async function handleEnrichedSearchFlow(
       editionGroups,
       books: normalizedEnrichedBooks,
       total: normalizedEnrichedBooks.length,
-      sources: {
-        isbndb: isbndbBooks.length,
-        googleBooks: googleBooksBooks.length,
-        itunes: itunesBooks.length,
-      },
+      ...(trace && { trace }),
+      sources: Object.fromEntries(
+        providerResults.map(result => [result.providerId, result.data.length]),
+      ),
       metadata: {
         totalDiscovered: allDiscoveredBooks.length,
         filteredBeforeEnrichment: filteredBooks.length,
@@ -572,154 +428,13 @@ async function handleEnrichedSearchFlow(
   }
 }
 
-// Helper function for Google Books search
-async function searchGoogleBooks(
-  service: GoogleBooksService,
-  title: string,
-  author: string,
-) {
-  // devLog(`📖 GOOGLE BOOKS: Starting search for "${title}" by "${author}"`); // Removed devLog
-
-  if (!service.isAvailable()) {
-    // devLog(`❌ GOOGLE BOOKS: Service not available`); // Removed devLog
-    return {
-      success: false,
-      data: [],
-      error: 'Google Books API not configured',
-    };
-  }
-
-  const result = await service.searchBooks(title, author);
-
-  return result;
-}
-
-// Helper function for iTunes Search
-async function searchITunes(title: string, author: string) {
-  if (!itunesSearchService.isAvailable()) {
-    return {
-      success: false,
-      data: [],
-      error: 'iTunes Search API not available',
-    };
-  }
-
-  try {
-    const result = await itunesSearchService.searchAudiobooks(title, author);
-    return result;
-  } catch (error) {
-    // Return empty result on error to not break the search flow
-    return {
-      success: true,
-      data: [],
-      error: error instanceof Error ? error.message : 'Unknown iTunes error',
-    };
-  }
-}
-
-// FIXED: More lenient filtering to preserve unique ISBNs
-function filterBooksByTitleAuthorFixed(
+// Final edition grouping, with a trace of each book's placement when asked for
+function groupEditions(
   books: UIBook[],
-  title: string,
-  author: string,
-) {
-  // Optimized filtering for better ISBN coverage
-  const normalize = (s: string) =>
-    s
-      .toLowerCase()
-      .replace(/[^a-z0-9\s]/g, '')
-      .trim();
-  const removeStopWords = (s: string) =>
-    s
-      .replace(/\b(the|a|an|and|or|but|in|on|at|to|for|of|with|by)\b/g, ' ')
-      .replace(/\s+/g, ' ')
-      .trim();
-
-  const inputTitle = normalize(removeStopWords(title));
-  const inputAuthor = normalize(author);
-
-  // Split input title into words for more flexible matching
-  const inputTitleWords = inputTitle
-    .split(/\s+/)
-    .filter(word => word.length > 2);
-
-  return books.filter(book => {
-    // Title matching - MUCH more lenient for books with different ISBNs
-    const bookTitle = normalize(removeStopWords(book.title || ''));
-
-    let titleMatch = false;
-
-    // Method 1: Direct substring match (original logic)
-    if (bookTitle.includes(inputTitle) || inputTitle.includes(bookTitle)) {
-      titleMatch = true;
-    }
-
-    // Method 2: Word-based matching with REDUCED threshold for unique ISBNs
-    if (!titleMatch && inputTitleWords.length > 0) {
-      const bookTitleWords = bookTitle
-        .split(/\s+/)
-        .filter(word => word.length > 2);
-
-      // Count matching words
-      const matchingWords = inputTitleWords.filter(inputWord =>
-        bookTitleWords.some(
-          bookWord =>
-            bookWord.includes(inputWord) || inputWord.includes(bookWord),
-        ),
-      );
-
-      // FIXED: Lower threshold from 80% to 50% for better coverage
-      const matchRatio = matchingWords.length / inputTitleWords.length;
-      if (matchRatio >= 0.5) {
-        titleMatch = true;
-      }
-    }
-
-    // Method 3: NEW - Core title matching (handles "New Builders" vs "The New Builders")
-    if (!titleMatch) {
-      // Extract core words from both titles
-      const coreInputWords = inputTitle.split(/\s+/).filter(w => w.length > 3);
-      const coreBookWords = bookTitle.split(/\s+/).filter(w => w.length > 3);
-
-      // If core words overlap significantly, consider it a match
-      const coreMatches = coreInputWords.filter(word =>
-        coreBookWords.some(
-          bookWord => bookWord.includes(word) || word.includes(bookWord),
-        ),
-      );
-
-      if (coreMatches.length >= Math.min(2, coreInputWords.length)) {
-        titleMatch = true;
-      }
-    }
-
-    if (!titleMatch) return false;
-
-    // Author matching - more lenient for co-authored works
-    const authorMatch = (book.authors || []).some((a: string) => {
-      const normA = normalize(a);
-      return normA.includes(inputAuthor) || inputAuthor.includes(normA);
-    });
-
-    // For co-authored works, also check if this is a known co-author combination
-    const isKnownCoAuthor =
-      !authorMatch &&
-      (book.authors || []).some((a: string) => {
-        const normA = normalize(a);
-        // Known co-author combinations for this project + general patterns
-        return (
-          (inputAuthor.includes('brad feld') &&
-            (normA.includes('sean wise') || normA.includes('amy batchelor'))) ||
-          (inputAuthor.includes('sean wise') && normA.includes('brad feld')) ||
-          (inputAuthor.includes('amy batchelor') &&
-            normA.includes('brad feld')) ||
-          (inputAuthor.includes('seth levine') &&
-            normA.includes('elizabeth macbride')) ||
-          (inputAuthor.includes('elizabeth macbride') &&
-            normA.includes('seth levine'))
-        );
-      });
-
-    return titleMatch && (authorMatch || isKnownCoAuthor);
-  });
+  includeTrace: boolean,
+  options: EditionDetectionOptions,
+): { editionGroups: EditionGroup[]; trace?: EditionGroupingTrace } {
+  return includeTrace
+    ? EditionDetectionService.groupByEditionWithTrace(books, options)
+    : { editionGroups: EditionDetectionService.groupByEdition(books, options) };
 }
@@ -0,0 +1,232 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+
+import { AuthorAliasService } from '@/lib/services/author-alias.service';
+import { BookDataMergerService } from '@/lib/services/book-data-merger.service';
+import { BookEnrichmentService } from '@/lib/services/book-enrichment.service';
+import { EditionCorrectionService } from '@/lib/services/edition-correction.service';
+import { EditionDetectionService } from '@/lib/services/edition-detection.service';
+import { ImageEnhancementQueueService } from '@/lib/services/image-enhancement-queue.service';
+import { MetadataProviderRegistry } from '@/lib/services/metadata-provider-registry';
+import { WaitlistService } from '@/lib/services/waitlist.service';
+import { MetadataProvider } from '@/lib/types/metadata-provider';
+import {
+  ProviderSearchState,
+  TitleAuthorStreamEvent,
+} from '@/lib/types/title-author-stream';
+import { UIBook } from '@/lib/types/ui-book';
+import { AuthorAliasRegistry } from '@/lib/utils/author-alias-registry';
+import { extractUniqueISBNs } from '@/lib/utils/isbn-extractor';
+import { filterBooksByTitleAuthor } from '@/lib/utils/title-author-filter';
+
+/**
+ * Title/author search as Server-Sent Events. Each provider's results are
+ * sent as soon as it settles; the enriched, validated grouping follows once
+ * everything is in. Events are TitleAuthorStreamEvent JSON in `data:` lines.
+ * A client that disconnects stops the search at the next stage.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const title = searchParams.get('title')?.trim();
+  const author = searchParams.get('author')?.trim();
+
+  if (!title || !author) {
+    return NextResponse.json(
+      { error: 'Both title and author parameters are required' },
+      { status: 400 },
+    );
+  }
+
+  const { userId } = await auth();
+  const authorAliases = await AuthorAliasService.getRegistry(userId);
+  // Grouping traces expose the detection internals, so only admins get them
+  const includeTrace =
+    searchParams.get('trace') === 'true' &&
+    !!userId &&
+    (await new WaitlistService().isUserAdmin(userId));
+
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  request.signal.addEventListener('abort', () => abortController.abort());
+  let isClosed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: TitleAuthorStreamEvent) => {
+        if (isClosed) return;
+        controller.enqueue(
+          encoder.encode(`data: ${JSON.stringify(event)}\n\n`),
+        );
+      };
+
+      try {
+        await streamSearch(
+          title,
+          author,
+          authorAliases,
+          includeTrace,
+          send,
+          abortController.signal,
+        );
+      } catch (error) {
+        if (abortController.signal.aborted) return;
+        send({
+          type: 'error',
+          error: error instanceof Error ? error.message : 'Search failed',
+        });
+      } finally {
+        if (!isClosed) {
+          isClosed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      // The dialog closed or started another search
+      isClosed = true;
+      abortController.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+async function streamSearch(
+  title: string,
+  author: string,
+  authorAliases: AuthorAliasRegistry,
+  includeTrace: boolean,
+  send: (event: TitleAuthorStreamEvent) => void,
+  signal: AbortSignal,
+): Promise<void> {
+  const providers = await MetadataProviderRegistry.getProviders(
+    'title-author-search',
+  );
+  send({
+    type: 'providers',
+    providers: providers.map(provider => toState(provider, 'pending')),
+  });
+
+  // Partial groupings skip enrichment and validation; they only need to be
+  // close enough to show while the slower providers finish
+  const matchedSoFar: UIBook[] = [];
+  const providerResults = await MetadataProviderRegistry.searchByTitleAuthor(
+    title,
+    author,
+    {
+      onResult: result => {
+        const provider = providers.find(p => p.id === result.providerId);
+        if (!provider) return;
+
+        const matched = filterBooksByTitleAuthor(
+          result.data,
+          title,
+          author,
+          authorAliases,
+        );
+        matchedSoFar.push(...matched);
+        send({
+          type: 'partial',
+          provider: result.success
+            ? { ...toState(provider, 'done'), count: matched.length }
+            : { ...toState(provider, 'failed'), error: result.error },
+          editionGroups: EditionDetectionService.groupByEdition(matchedSoFar, {
+            authorAliases,
+          }),
+        });
+      },
+    },
+  );
+
+  signal.throwIfAborted();
+
+  // The rest matches the enriched search the dialog used before streaming:
+  // filter first, then look up full details for the matching ISBNs in one
+  // bulk call. ISBN-less results such as iTunes audiobooks are complete as is.
+  const matched = filterBooksByTitleAuthor(
+    providerResults.flatMap(result => result.data),
+    title,
+    author,
+    authorAliases,
+  );
+  const preEnrichedSources = new Set<string>(
+    providerResults
+      .filter(result => !result.providesIsbns)
+      .map(result => result.providerId),
+  );
+  const preEnrichedBooks = matched.filter(book =>
+    preEnrichedSources.has(book.source || ''),
+  );
+  const enrichedBooks =
+    await new BookEnrichmentService().enrichBooksWithDetailedData(
+      extractUniqueISBNs(
+        matched.filter(book => !preEnrichedSources.has(book.source || '')),
+      ),
+    );
+  signal.throwIfAborted();
+
+  let books: UIBook[] = [...enrichedBooks, ...preEnrichedBooks].map(book => ({
+    ...book,
+    binding: EditionDetectionService.normalizeBindingType(
+      book.binding || book.print_type,
+    ),
+  }));
+
+  // Flag phantom listings: books Google Books can't confirm were published
+  try {
+    books = await BookDataMergerService.validateBooks(books, signal);
+  } catch (error) {
+    signal.throwIfAborted();
+    // eslint-disable-next-line no-console
+    console.error('Book validation failed:', error);
+  }
+
+  // Covers found in the background for earlier searches, and a queued
+  // search for the ones still missing
+  try {
+    books = await ImageEnhancementQueueService.applyEnhancedImages(books);
+    const missingImages = books.filter(book => !book.image && book.isbn);
+    if (missingImages.length > 0) {
+      await ImageEnhancementQueueService.enqueueBooks(missingImages, {
+        title,
+        author,
+      });
+    }
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error('Image enhancement queue failed:', error);
+  }
+  signal.throwIfAborted();
+
+  const corrections = await EditionCorrectionService.getRegistry(books);
+  const options = { authorAliases, corrections };
+  const { editionGroups, trace } = includeTrace
+    ? EditionDetectionService.groupByEditionWithTrace(books, options)
+    : {
+        editionGroups: EditionDetectionService.groupByEdition(books, options),
+        trace: undefined,
+      };
+
+  send({
+    type: 'final',
+    editionGroups,
+    books,
+    sources: Object.fromEntries(
+      providerResults.map(result => [result.providerId, result.data.length]),
+    ),
+    ...(trace && { trace }),
+  });
+}
+
+function toState(
+  provider: MetadataProvider,
+  status: ProviderSearchState['status'],
+): ProviderSearchState {
+  return { id: provider.id, name: provider.name, status };
+}
@@ -4,7 +4,7 @@ import { getCacheAnalytics } from '@/lib/utils/api-cache';
 
 export async function GET() {
   try {
-    const analytics = getCacheAnalytics();
+    const analytics = await getCacheAnalytics();
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,113 @@
+import { revalidatePath } from 'next/cache';
+import { NextRequest } from 'next/server';
+
+import { SeriesService } from '@/lib/services/series.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+import {
+  SeriesEntrySchema,
+  validateRequestBody,
+} from '@/lib/validation/api-schemas';
+
+function handleEntryError(error: unknown, requestId: string) {
+  if (error instanceof Error) {
+    if (error.message.includes('Authentication required')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId,
+      );
+    }
+
+    if (error.message.includes('or access denied')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.NOT_FOUND,
+        requestId,
+      );
+    }
+  }
+
+  return ApiErrorHandler.createErrorResponse(
+    error,
+    STATUS_CODES.INTERNAL_SERVER_ERROR,
+    requestId,
+  );
+}
+
+/**
+ * Add a book to the series, or change its series number / reading order
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ seriesId: string; bookId: string }> },
+) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { seriesId, bookId } = await params;
+
+    const validation = validateRequestBody(
+      SeriesEntrySchema,
+      await request.json(),
+    );
+    if (!validation.success) {
+      return ApiErrorHandler.createErrorResponse(
+        validation.error,
+        STATUS_CODES.UNPROCESSABLE_ENTITY,
+        requestId,
+      );
+    }
+
+    const entry = await SeriesService.setBookEntry(
+      seriesId,
+      bookId,
+      userId,
+      validation.data,
+    );
+
+    revalidatePath('/dashboard');
+
+    return ApiErrorHandler.createSuccessResponse(
+      { entry },
+      'Book added to series',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    return handleEntryError(error, requestId!);
+  }
+}
+
+/**
+ * Take the book out of the series
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ seriesId: string; bookId: string }> },
+) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { seriesId, bookId } = await params;
+    await SeriesService.removeBookEntry(seriesId, bookId, userId);
+
+    revalidatePath('/dashboard');
+
+    return ApiErrorHandler.createSuccessResponse(
+      { removed: true },
+      'Book removed from series',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    return handleEntryError(error, requestId!);
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest } from 'next/server';
+
+import { SeriesService } from '@/lib/services/series.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+import {
+  SeriesUpdateSchema,
+  sanitizeObject,
+  validateRequestBody,
+} from '@/lib/validation/api-schemas';
+
+function handleSeriesError(error: unknown, requestId: string) {
+  if (error instanceof Error) {
+    if (error.message.includes('Authentication required')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.UNAUTHORIZED,
+        requestId,
+      );
+    }
+
+    if (error.message.includes('not found or access denied')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.NOT_FOUND,
+        requestId,
+      );
+    }
+
+    if (error.message.includes('already exists')) {
+      return ApiErrorHandler.createErrorResponse(
+        error,
+        STATUS_CODES.CONFLICT,
+        requestId,
+      );
+    }
+  }
+
+  return ApiErrorHandler.createErrorResponse(
+    error,
+    STATUS_CODES.INTERNAL_SERVER_ERROR,
+    requestId,
+  );
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ seriesId: string }> },
+) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { seriesId } = await params;
+    const series = await SeriesService.getSeriesById(seriesId, userId);
+
+    if (!series) {
+      throw new Error('Series not found or access denied');
+    }
+
+    return ApiErrorHandler.createSuccessResponse(
+      { series },
+      'Series retrieved successfully',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    return handleSeriesError(error, requestId!);
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ seriesId: string }> },
+) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { seriesId } = await params;
+
+    const rawBody = await request.json();
+    const validation = validateRequestBody(
+      SeriesUpdateSchema,
+      sanitizeObject(rawBody),
+    );
+    if (!validation.success) {
+      return ApiErrorHandler.createErrorResponse(
+        validation.error,
+        STATUS_CODES.UNPROCESSABLE_ENTITY,
+        requestId,
+      );
+    }
+
+    const series = await SeriesService.updateSeries(
+      seriesId,
+      userId,
+      validation.data,
+    );
+
+    return ApiErrorHandler.createSuccessResponse(
+      { series },
+      'Series updated successfully',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    return handleSeriesError(error, requestId!);
+  }
+}
+
+/**
+ * Delete a series; its books stay in the library
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ seriesId: string }> },
+) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { seriesId } = await params;
+    await SeriesService.deleteSeries(seriesId, userId);
+
+    return ApiErrorHandler.createSuccessResponse(
+      { deleted: true },
+      'Series deleted successfully',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    return handleSeriesError(error, requestId!);
+  }
+}
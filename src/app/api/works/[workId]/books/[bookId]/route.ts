@@ -0,0 +1,57 @@
+import { revalidatePath } from 'next/cache';
+import { NextRequest } from 'next/server';
+
+import { WorkService } from '@/lib/services/work.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+
+/**
+ * Split the book out of the work; it won't be merged back automatically
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ workId: string; bookId: string }> },
+) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const { workId, bookId } = await params;
+    const work = await WorkService.splitBook(userId, workId, bookId);
+
+    revalidatePath('/dashboard');
+
+    return ApiErrorHandler.createSuccessResponse(
+      { work },
+      'Book split from work',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('Authentication required')) {
+        return ApiErrorHandler.createErrorResponse(
+          error,
+          STATUS_CODES.UNAUTHORIZED,
+          requestId!,
+        );
+      }
+
+      if (error.message.includes('or access denied')) {
+        return ApiErrorHandler.createErrorResponse(
+          error,
+          STATUS_CODES.NOT_FOUND,
+          requestId!,
+        );
+      }
+    }
+
+    return ApiErrorHandler.createErrorResponse(
+      error,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      requestId!,
+    );
+  }
+}
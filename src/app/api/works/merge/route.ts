@@ -0,0 +1,71 @@
+import { revalidatePath } from 'next/cache';
+import { NextRequest } from 'next/server';
+
+import { WorkService } from '@/lib/services/work.service';
+import { ApiErrorHandler, STATUS_CODES } from '@/lib/utils/api-error-handler';
+import {
+  WorkMergeSchema,
+  sanitizeObject,
+  validateRequestBody,
+} from '@/lib/validation/api-schemas';
+
+/**
+ * Merge library books into one work
+ */
+export async function POST(request: NextRequest) {
+  let requestId: string;
+
+  try {
+    // Validate authentication and get request ID
+    const { userId, requestId: id } = await ApiErrorHandler.validateAuth();
+    requestId = id;
+
+    const rawBody = await request.json();
+    const validation = validateRequestBody(
+      WorkMergeSchema,
+      sanitizeObject(rawBody),
+    );
+    if (!validation.success) {
+      return ApiErrorHandler.createErrorResponse(
+        validation.error,
+        STATUS_CODES.UNPROCESSABLE_ENTITY,
+        requestId,
+      );
+    }
+
+    const work = await WorkService.mergeBooks(userId, validation.data.book_ids);
+
+    revalidatePath('/dashboard');
+
+    return ApiErrorHandler.createSuccessResponse(
+      { work },
+      'Books merged into one work',
+      STATUS_CODES.OK,
+      requestId,
+    );
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('Authentication required')) {
+        return ApiErrorHandler.createErrorResponse(
+          error,
+          STATUS_CODES.UNAUTHORIZED,
+          requestId!,
+        );
+      }
+
+      if (error.message.includes('or access denied')) {
+        return ApiErrorHandler.createErrorResponse(
+          error,
+          STATUS_CODES.NOT_FOUND,
+          requestId!,
+        );
+      }
+    }
+
+    return ApiErrorHandler.createErrorResponse(
+      error,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      requestId!,
+    );
+  }
+}
@@ -461,6 +461,7 @@ export function AdminAuditLog() {
                       <SelectItem value="configuration">
                         Configuration
                       </SelectItem>
+                      <SelectItem value="library">Library</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -0,0 +1,275 @@
+'use client';
+
+import { Loader2, RotateCcw, Save } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  MetadataProviderCapability,
+  MetadataProviderId,
+  MetadataProviderStatus,
+} from '@/lib/types/metadata-provider';
+
+interface ProviderDraft {
+  enabled: boolean;
+  priority: string;
+  timeoutMs: string;
+}
+
+const CAPABILITY_LABELS: Record<MetadataProviderCapability, string> = {
+  'title-author-search': 'Search',
+  'isbn-lookup': 'ISBN lookup',
+};
+
+const toDraft = (provider: MetadataProviderStatus): ProviderDraft => ({
+  enabled: provider.enabled,
+  priority: String(provider.priority),
+  timeoutMs: String(provider.timeoutMs),
+});
+
+export function MetadataProviderSettings() {
+  const [providers, setProviders] = useState<MetadataProviderStatus[]>([]);
+  const [drafts, setDrafts] = useState<
+    Partial<Record<MetadataProviderId, ProviderDraft>>
+  >({});
+  const [savingId, setSavingId] = useState<MetadataProviderId | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProviders = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/metadata-providers');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to load providers');
+      }
+
+      const loaded: MetadataProviderStatus[] = data.data.providers;
+      setProviders(loaded);
+      setDrafts(
+        Object.fromEntries(
+          loaded.map(provider => [provider.id, toDraft(provider)]),
+        ),
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load providers');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProviders();
+  }, [loadProviders]);
+
+  const updateDraft = (
+    id: MetadataProviderId,
+    changes: Partial<ProviderDraft>,
+  ) => {
+    setDrafts(current => ({
+      ...current,
+      [id]: { ...current[id]!, ...changes },
+    }));
+  };
+
+  const handleSave = async (provider: MetadataProviderStatus) => {
+    const draft = drafts[provider.id];
+    if (!draft) return;
+
+    setSavingId(provider.id);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/admin/metadata-providers/${provider.id}`,
+        {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            enabled: draft.enabled,
+            priority: Number(draft.priority),
+            timeout_ms: Number(draft.timeoutMs),
+          }),
+        },
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error?.message || 'Failed to save provider');
+      }
+
+      await loadProviders();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save provider');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleReset = async (provider: MetadataProviderStatus) => {
+    setSavingId(provider.id);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/admin/metadata-providers/${provider.id}`,
+        { method: 'DELETE' },
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error?.message || 'Failed to reset provider');
+      }
+
+      await loadProviders();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset provider');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Metadata Providers</CardTitle>
+        <CardDescription>
+          Sources used by book search and enrichment. Lower priority numbers run
+          first and win when results are merged.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading providers...
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Provider</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead>Priority</TableHead>
+                <TableHead>Timeout (ms)</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {providers.map(provider => {
+                const draft = drafts[provider.id] || toDraft(provider);
+                const isSaving = savingId === provider.id;
+
+                return (
+                  <TableRow key={provider.id}>
+                    <TableCell>
+                      <div className="font-medium">{provider.name}</div>
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {provider.capabilities.map(capability => (
+                          <Badge key={capability} variant="secondary">
+                            {CAPABILITY_LABELS[capability]}
+                          </Badge>
+                        ))}
+                        {!provider.available && (
+                          <Badge className="bg-yellow-100 text-yellow-800">
+                            Not configured
+                          </Badge>
+                        )}
+                        {provider.overridden && (
+                          <Badge variant="outline">Customized</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <input
+                        type="checkbox"
+                        aria-label={`Enable ${provider.name}`}
+                        checked={draft.enabled}
+                        onChange={e =>
+                          updateDraft(provider.id, {
+                            enabled: e.target.checked,
+                          })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        className="w-24"
+                        value={draft.priority}
+                        onChange={e =>
+                          updateDraft(provider.id, {
+                            priority: e.target.value,
+                          })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={500}
+                        step={500}
+                        className="w-28"
+                        value={draft.timeoutMs}
+                        onChange={e =>
+                          updateDraft(provider.id, {
+                            timeoutMs: e.target.value,
+                          })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => handleSave(provider)}
+                          disabled={isSaving}
+                        >
+                          {isSaving ? (
+                            <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                          ) : (
+                            <Save className="mr-1 h-4 w-4" />
+                          )}
+                          Save
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleReset(provider)}
+                          disabled={isSaving || !provider.overridden}
+                          title={`Default: priority ${provider.defaults.priority}, ${provider.defaults.timeoutMs}ms`}
+                        >
+                          <RotateCcw className="mr-1 h-4 w-4" />
+                          Reset
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
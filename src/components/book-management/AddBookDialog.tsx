@@ -1,8 +1,8 @@
 'use client';
 
-import { Loader2 } from 'lucide-react';
+import { Loader2, ScanBarcode } from 'lucide-react';
 import Image from 'next/image';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -18,8 +18,17 @@ import {
   EditionDetectionService,
   EditionGroup,
 } from '@/lib/services/edition-detection.service';
+import { EditionGroupingTrace } from '@/lib/types/edition-trace';
+import {
+  ProviderSearchState,
+  TitleAuthorStreamEvent,
+} from '@/lib/types/title-author-stream';
 // Remove WaitlistService import - can't be used in client components
 import { UIBook } from '@/lib/types/ui-book';
+import { hyphenateIsbn } from '@/lib/utils/isbn';
+
+import { BarcodeScanner } from './BarcodeScanner';
+import { EditionGroupingTracePanel } from './EditionGroupingTracePanel';
 
 interface AddBookDialogProps {
   children: React.ReactNode;
@@ -31,6 +40,43 @@ interface AddBookDialogProps {
   lastName?: string;
 }
 
+type TitleAuthorFinalEvent = Extract<TitleAuthorStreamEvent, { type: 'final' }>;
+
+/**
+ * Run a title/author search over Server-Sent Events. Provider progress and
+ * partial groupings go to onProgress; resolves with the final grouping.
+ */
+function streamTitleAuthorSearch(
+  queryParams: URLSearchParams,
+  signal: AbortSignal,
+  onProgress: (event: TitleAuthorStreamEvent) => void,
+): Promise<TitleAuthorFinalEvent> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(
+      `/api/books/title-author/stream?${queryParams}`,
+    );
+    const fail = (message: string) => {
+      source.close();
+      reject(new Error(message));
+    };
+
+    signal.addEventListener('abort', () => fail('Search cancelled'));
+    source.onmessage = message => {
+      const event: TitleAuthorStreamEvent = JSON.parse(message.data);
+      if (event.type === 'final') {
+        source.close();
+        resolve(event);
+      } else if (event.type === 'error') {
+        fail(event.error);
+      } else {
+        onProgress(event);
+      }
+    };
+    // EventSource would reconnect and rerun the whole search, so stop instead
+    source.onerror = () => fail('Failed to search books');
+  });
+}
+
 export function AddBookDialog({
   children,
   isOpen,
@@ -44,17 +90,34 @@ export function AddBookDialog({
   const [editionGroups, setEditionGroups] = useState<EditionGroup[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [hasSearched, setHasSearched] = useState(false);
+  // Likely fixes for an ISBN that failed its check digit
+  const [isbnSuggestions, setIsbnSuggestions] = useState<string[]>([]);
+  const [isScanning, setIsScanning] = useState(false);
+  // Per-provider progress of a streaming title/author search
+  const [providerStates, setProviderStates] = useState<ProviderSearchState[]>(
+    [],
+  );
+  const [isStreaming, setIsStreaming] = useState(false);
+  // Cancels the search in flight when another starts or the dialog closes
+  const searchAbortRef = useRef<AbortController | null>(null);
 
   // Admin functionality state
   const [isAdmin, setIsAdmin] = useState(false);
   const [adminCheckLoading, setAdminCheckLoading] = useState(true);
   const [authorOverride, setAuthorOverride] = useState('');
+  const [groupingTrace, setGroupingTrace] =
+    useState<EditionGroupingTrace | null>(null);
 
   // Reset search state when dialog closes
   useEffect(() => {
     if (!isOpen) {
+      searchAbortRef.current?.abort();
       setHasSearched(false);
+      setProviderStates([]);
       setEditionGroups([]);
+      setGroupingTrace(null);
+      setIsbnSuggestions([]);
+      setIsScanning(false);
       setBookTitle('');
       // Don't reset authorOverride to maintain persistence
     }
@@ -106,29 +169,54 @@ export function AddBookDialog({
     }
   };
 
-  const handleUnifiedSearch = async () => {
-    if (!bookTitle.trim()) return;
+  const handleUnifiedSearch = async (query: string = bookTitle) => {
+    if (!query.trim()) return;
+    searchAbortRef.current?.abort();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+
     setIsLoading(true);
     setHasSearched(true);
     setEditionGroups([]); // Clear previous results immediately
+    setGroupingTrace(null);
+    setIsbnSuggestions([]);
+    setProviderStates([]);
     try {
       const isISBN =
         /^(?:ISBN(?:-1[03])?:?\s*)?(?=[0-9X]{10}$|(?=(?:[0-9]+[-\s])*[0-9X]$)(?:[0-9]{1,5}[-\s]?){1,7}[0-9X]$)/i.test(
-          bookTitle.trim(),
+          query.trim(),
         );
       if (isISBN) {
         const response = await fetch(
-          `/api/books/isbn/${encodeURIComponent(bookTitle.trim())}`,
+          `/api/books/isbn/${encodeURIComponent(query.trim())}`,
+          { signal: controller.signal },
         );
+        if (response.status === 400) {
+          const result: {
+            suggestions?: { isbn: string; hyphenated: string | null }[];
+          } = await response.json();
+          setIsbnSuggestions(
+            (result.suggestions || []).map(
+              suggestion => suggestion.hyphenated || suggestion.isbn,
+            ),
+          );
+          return;
+        }
         if (!response.ok) throw new Error('Failed to search by ISBN');
         const result = await response.json();
         // For ISBN search, group the results
         const books = result.books || [];
-        const groups = EditionDetectionService.groupByEdition(books);
-        setEditionGroups(groups);
+        if (isAdmin) {
+          const { editionGroups: groups, trace } =
+            EditionDetectionService.groupByEditionWithTrace(books);
+          setEditionGroups(groups);
+          setGroupingTrace(trace);
+        } else {
+          setEditionGroups(EditionDetectionService.groupByEdition(books));
+        }
       } else {
         const queryParams = new URLSearchParams();
-        if (bookTitle.trim()) queryParams.append('title', bookTitle.trim());
+        queryParams.append('title', query.trim());
 
         // Use author override if admin provided one, otherwise use default author
         const authorToUse =
@@ -140,30 +228,57 @@ export function AddBookDialog({
           queryParams.append('author', authorToUse);
         }
 
-        // Add validation parameters to filter out phantom books
-        queryParams.append('validate', 'true');
-        // Use new enriched flow for perfect image associations
-        queryParams.append('enriched', 'true');
-        const response = await fetch(`/api/books/title-author?${queryParams}`);
-        if (!response.ok) throw new Error('Failed to search books');
-        const result = await response.json();
-        // Use editionGroups directly from API response
-        setEditionGroups(result.editionGroups || []);
+        // Admins get a trace of how the results were grouped
+        if (isAdmin) queryParams.append('trace', 'true');
+
+        // Results show as each provider answers, then get replaced by the
+        // merged and enhanced grouping
+        setIsStreaming(true);
+        const result = await streamTitleAuthorSearch(
+          queryParams,
+          controller.signal,
+          event => {
+            if (event.type === 'providers') {
+              setProviderStates(event.providers);
+            } else if (event.type === 'partial') {
+              setProviderStates(states =>
+                states.map(state =>
+                  state.id === event.provider.id ? event.provider : state,
+                ),
+              );
+              setEditionGroups(event.editionGroups);
+            }
+          },
+        );
+        setEditionGroups(result.editionGroups);
+        setGroupingTrace(result.trace || null);
       }
     } catch {
       // Error handling removed - no state for error messages
     } finally {
-      setIsLoading(false);
+      // A newer search owns the loading state once this one is cancelled
+      if (searchAbortRef.current === controller) {
+        setIsLoading(false);
+        setIsStreaming(false);
+      }
     }
   };
 
+  // A scanned barcode is an ISBN-13, so it goes straight to the ISBN lookup
+  const handleBarcodeDetected = (isbn: string) => {
+    setIsScanning(false);
+    setBookTitle(isbn);
+    handleUnifiedSearch(isbn);
+  };
+
   const handleAddBook = async () => {
     if (!userId) return;
 
     setIsLoading(true);
     try {
       // Detect THE primary book across all edition groups
-      const primaryBook = detectGlobalPrimaryBook(editionGroups);
+      const primaryBook =
+        EditionDetectionService.selectPrimaryBook(editionGroups);
       if (!primaryBook) {
         throw new Error('No suitable primary book found');
       }
@@ -274,50 +389,6 @@ export function AddBookDialog({
     }
   };
 
-  // Helper to automatically detect THE primary book across ALL edition groups
-  const detectGlobalPrimaryBook = (
-    editionGroups: EditionGroup[],
-  ): UIBook | null => {
-    if (!editionGroups || editionGroups.length === 0) return null;
-
-    // Find the most recent edition (edition groups are already sorted newest first)
-    const mostRecentEdition = editionGroups[0];
-
-    // Within the most recent edition, find the best binding
-    return detectPrimaryBookInEdition(mostRecentEdition.books);
-  };
-
-  // Helper to detect primary book within a single edition (for display purposes)
-  const detectPrimaryBookInEdition = (books: UIBook[]): UIBook | null => {
-    if (!books || books.length === 0) return null;
-
-    // Priority order: hardcover → paperback → kindle → ebook → audiobook → others
-    const bindingPriority = [
-      'hardcover',
-      'paperback',
-      'kindle',
-      'ebook',
-      'audiobook',
-    ];
-
-    // Group books by binding type
-    const bindingGroups = groupBindings(books);
-
-    // Find the first available binding type in priority order
-    for (const preferredBinding of bindingPriority) {
-      if (
-        bindingGroups[preferredBinding] &&
-        bindingGroups[preferredBinding].length > 0
-      ) {
-        // Return the first book of this binding type
-        return bindingGroups[preferredBinding][0];
-      }
-    }
-
-    // If no priority binding found, return the first book
-    return books[0];
-  };
-
   // Helper to group books by normalized binding type within an edition
   const groupBindings = (books: UIBook[]) => {
     const bindingGroups: { [binding: string]: UIBook[] } = {};
@@ -422,11 +493,55 @@ export function AddBookDialog({
               aria-describedby={undefined} // Removed searchError
               className="flex-1"
             />
+            <Button
+              variant="outline"
+              type="button"
+              onClick={() => setIsScanning(scanning => !scanning)}
+              disabled={isLoading}
+            >
+              <ScanBarcode className="mr-2 h-4 w-4" />
+              Scan Barcode
+            </Button>
           </div>
+          {isScanning && (
+            <div className="mb-6">
+              <BarcodeScanner
+                onDetected={handleBarcodeDetected}
+                onCancel={() => setIsScanning(false)}
+              />
+            </div>
+          )}
           {/* Error Message */}
           {/* Removed searchError display */}
           {/* Loading Spinner */}
-          {isLoading && (
+          {providerStates.length > 0 && (
+            <div
+              className="mb-4 flex flex-wrap items-center gap-2"
+              aria-label="Search progress"
+            >
+              {providerStates.map(provider => (
+                <Badge
+                  key={provider.id}
+                  variant="outline"
+                  className={
+                    provider.status === 'failed'
+                      ? 'border-red-200 text-red-700'
+                      : undefined
+                  }
+                  title={provider.error}
+                >
+                  {provider.status === 'pending' && (
+                    <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                  )}
+                  {provider.name}
+                  {provider.status === 'done' && ` · ${provider.count ?? 0}`}
+                  {provider.status === 'failed' && ' · failed'}
+                </Badge>
+              ))}
+            </div>
+          )}
+          {/* Partial results replace the spinner while a search streams */}
+          {isLoading && !(isStreaming && editionGroups.length > 0) && (
             <div
               className="flex items-center justify-center py-8"
               role="status"
@@ -444,8 +559,28 @@ export function AddBookDialog({
               aria-live="polite"
             >
               <p className="text-muted-foreground text-base">
-                No books found for your search.
+                {isbnSuggestions.length > 0
+                  ? 'That ISBN is not valid. Did you mean:'
+                  : 'No books found for your search.'}
               </p>
+              {isbnSuggestions.length > 0 && (
+                <div className="mt-3 flex flex-wrap justify-center gap-2">
+                  {isbnSuggestions.map(suggestion => (
+                    <Button
+                      key={suggestion}
+                      variant="outline"
+                      size="sm"
+                      type="button"
+                      onClick={() => {
+                        setBookTitle(suggestion);
+                        handleUnifiedSearch(suggestion);
+                      }}
+                    >
+                      {suggestion}
+                    </Button>
+                  ))}
+                </div>
+              )}
             </div>
           )}
           {/* Book Results */}
@@ -524,7 +659,9 @@ export function AddBookDialog({
                         </div>
                         <div className="mt-1 text-sm">
                           <span className="font-medium">ISBN:</span>{' '}
-                          {displayBook?.isbn || '—'}
+                          {hyphenateIsbn(displayBook?.isbn) ||
+                            displayBook?.isbn ||
+                            '—'}
                         </div>
                         <div className="mt-1 text-sm">
                           <span className="font-medium">Page Count:</span>{' '}
@@ -542,7 +679,9 @@ export function AddBookDialog({
                           ([binding, books]) => {
                             // Check if this binding in this edition is THE global primary
                             const globalPrimary =
-                              detectGlobalPrimaryBook(editionGroups);
+                              EditionDetectionService.selectPrimaryBook(
+                                editionGroups,
+                              );
                             const isGlobalPrimary =
                               globalPrimary &&
                               edition.books.some(
@@ -584,7 +723,8 @@ export function AddBookDialog({
           {/* Global Primary Book Summary and Add Button */}
           {editionGroups.length > 0 &&
             (() => {
-              const globalPrimary = detectGlobalPrimaryBook(editionGroups);
+              const globalPrimary =
+                EditionDetectionService.selectPrimaryBook(editionGroups);
               const mostRecentEdition = editionGroups[0];
               const editionDisplay =
                 EditionDetectionService.getEditionDisplayName(
@@ -654,13 +794,21 @@ export function AddBookDialog({
                         size="lg"
                         className="px-8"
                       >
-                        {isLoading ? 'Adding...' : 'Add Book to Collection'}
+                        {isStreaming
+                          ? 'Finishing search...'
+                          : isLoading
+                            ? 'Adding...'
+                            : 'Add Book to Collection'}
                       </Button>
                     </div>
                   </div>
                 </div>
               );
             })()}
+          {/* Grouping trace for reporting edition detection bugs */}
+          {isAdmin && groupingTrace && !isLoading && (
+            <EditionGroupingTracePanel trace={groupingTrace} />
+          )}
         </div>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,258 @@
+'use client';
+
+import { Camera, Loader2, Upload, X } from 'lucide-react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { decodeEan13 } from '@/lib/utils/ean13-decoder';
+import { isValidISBN13 } from '@/lib/utils/isbn';
+
+interface BarcodeScannerProps {
+  onDetected: (isbn: string) => void;
+  onCancel: () => void;
+}
+
+// The Barcode Detection API (Chrome, Edge, Android) is missing from
+// TypeScript's DOM types
+interface NativeBarcodeDetector {
+  detect(source: CanvasImageSource): Promise<{ rawValue: string }[]>;
+}
+type NativeBarcodeDetectorClass = new (options: {
+  formats: string[];
+}) => NativeBarcodeDetector;
+
+const SCAN_INTERVAL_MS = 300;
+// Larger frames decode more reliably but block the page for longer
+const MAX_FRAME_SIZE = 800;
+const MAX_PHOTO_SIZE = 1600;
+
+function createNativeDetector(): NativeBarcodeDetector | null {
+  const Detector = (
+    globalThis as { BarcodeDetector?: NativeBarcodeDetectorClass }
+  ).BarcodeDetector;
+  try {
+    return Detector ? new Detector({ formats: ['ean_13'] }) : null;
+  } catch {
+    return null; // Present but without EAN-13 support
+  }
+}
+
+/**
+ * Find an EAN-13 in a video frame or photo, with the browser's detector
+ * when there is one and the built-in decoder otherwise
+ */
+async function detectBarcode(
+  source: HTMLVideoElement | ImageBitmap,
+  width: number,
+  height: number,
+  maxSize: number,
+  nativeDetector: NativeBarcodeDetector | null,
+): Promise<string | null> {
+  if (nativeDetector) {
+    try {
+      const [barcode] = await nativeDetector.detect(source);
+      return barcode?.rawValue || null;
+    } catch {
+      // Fall back to the built-in decoder
+    }
+  }
+
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return decodeEan13(context.getImageData(0, 0, canvas.width, canvas.height));
+}
+
+/**
+ * Reads the ISBN barcode off a book's back cover, from the device camera or
+ * an uploaded photo. Decoding happens in the browser; nothing is uploaded.
+ */
+export function BarcodeScanner({ onDetected, onCancel }: BarcodeScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isCameraOn, setIsCameraOn] = useState(false);
+  const [isDecoding, setIsDecoding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The camera loop outlives renders, so it reads the latest callback here
+  const onDetectedRef = useRef(onDetected);
+  useEffect(() => {
+    onDetectedRef.current = onDetected;
+  }, [onDetected]);
+
+  const handleCode = useCallback((code: string) => {
+    if (!isValidISBN13(code)) {
+      setError(
+        'That barcode is not an ISBN. Scan the one that starts with 978 or 979.',
+      );
+      return;
+    }
+    setIsCameraOn(false);
+    onDetectedRef.current(code);
+  }, []);
+
+  useEffect(() => {
+    if (!isCameraOn) return;
+
+    let stream: MediaStream | null = null;
+    let intervalId: ReturnType<typeof setInterval> | undefined;
+    let isCancelled = false;
+    let isBusy = false;
+    const nativeDetector = createNativeDetector();
+
+    const scanFrame = async () => {
+      const video = videoRef.current;
+      // A video without dimensions yet has no frame to draw
+      if (
+        isBusy ||
+        !video ||
+        video.readyState < video.HAVE_CURRENT_DATA ||
+        video.videoWidth === 0
+      ) {
+        return;
+      }
+      isBusy = true;
+      try {
+        const code = await detectBarcode(
+          video,
+          video.videoWidth,
+          video.videoHeight,
+          MAX_FRAME_SIZE,
+          nativeDetector,
+        );
+        if (code && !isCancelled) handleCode(code);
+      } catch {
+        // Skip a frame that couldn't be drawn or read; the next tick retries
+      } finally {
+        isBusy = false;
+      }
+    };
+
+    const startCamera = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment' },
+          audio: false,
+        });
+        if (isCancelled || !videoRef.current) return;
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        intervalId = setInterval(scanFrame, SCAN_INTERVAL_MS);
+      } catch {
+        if (isCancelled) return;
+        setError(
+          'Could not open the camera. Allow camera access, or upload a photo of the barcode instead.',
+        );
+        setIsCameraOn(false);
+      }
+    };
+
+    startCamera();
+
+    return () => {
+      isCancelled = true;
+      clearInterval(intervalId);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isCameraOn, handleCode]);
+
+  const handlePhoto = async (file?: File) => {
+    if (!file) return;
+    setError(null);
+    setIsDecoding(true);
+    try {
+      const bitmap = await createImageBitmap(file);
+      const code = await detectBarcode(
+        bitmap,
+        bitmap.width,
+        bitmap.height,
+        MAX_PHOTO_SIZE,
+        createNativeDetector(),
+      );
+      bitmap.close();
+      if (!code) {
+        setError(
+          'No barcode found in that photo. Try a sharper, closer shot of the back cover.',
+        );
+        return;
+      }
+      handleCode(code);
+    } catch {
+      setError('Could not read that image.');
+    } finally {
+      setIsDecoding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">
+          Scan the barcode on the back cover
+        </p>
+        <Button
+          variant="ghost"
+          size="sm"
+          type="button"
+          onClick={onCancel}
+          aria-label="Close barcode scanner"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {isCameraOn && (
+        <video
+          ref={videoRef}
+          className="mx-auto max-h-72 w-full max-w-md rounded bg-black object-cover"
+          playsInline
+          muted
+        />
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Button
+          variant="outline"
+          type="button"
+          onClick={() => {
+            setError(null);
+            setIsCameraOn(on => !on);
+          }}
+          disabled={isDecoding}
+        >
+          <Camera className="mr-2 h-4 w-4" />
+          {isCameraOn ? 'Stop Camera' : 'Use Camera'}
+        </Button>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <Upload className="h-4 w-4" />
+          <span>or upload a photo</span>
+          <Input
+            type="file"
+            accept="image/*"
+            className="max-w-xs"
+            disabled={isDecoding}
+            onChange={e => {
+              handlePhoto(e.target.files?.[0]);
+              e.target.value = ''; // Allow picking the same photo again
+            }}
+          />
+        </label>
+        {isDecoding && (
+          <Loader2 className="text-muted-foreground h-4 w-4 animate-spin" />
+        )}
+      </div>
+
+      {isCameraOn && (
+        <p className="text-xs text-gray-500">
+          Hold the barcode flat and fill most of the frame with it.
+        </p>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 'use client';
 
+import { formatDistanceToNow } from 'date-fns';
 import {
   MoreHorizontal,
   Edit,
@@ -8,6 +9,8 @@ import {
   FileText,
   Hash,
   Globe,
+  Info,
+  MoveRight,
 } from 'lucide-react';
 import Image from 'next/image';
 import { useState } from 'react';
@@ -20,17 +23,22 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { BookBinding, BookEdition } from '@/lib/types/book';
+import { Book, BookBinding, BookEdition } from '@/lib/types/book';
 import { getBindingCover } from '@/lib/utils/book-cover';
+import { formatContributors } from '@/lib/utils/contributors';
+import { summarizeProvenance } from '@/lib/utils/provenance';
 
 import { DeleteBindingDialog } from './DeleteBindingDialog';
 import { EditBindingDialog } from './EditBindingDialog';
+import { MoveBindingDialog } from './MoveBindingDialog';
 
 interface BindingCardProps {
   binding: BookBinding;
   edition: BookEdition;
   onBindingUpdated?: (updatedBinding: BookBinding) => void;
   onBindingDeleted?: (bindingId: string) => void;
+  moveTargets?: BookEdition[]; // Editions the binding can be moved to
+  onRestructured?: (book: Book) => void;
 }
 
 const BINDING_TYPE_LABELS: Record<string, string> = {
@@ -64,9 +72,12 @@ export function BindingCard({
   edition,
   onBindingUpdated,
   onBindingDeleted,
+  moveTargets = [],
+  onRestructured,
 }: BindingCardProps) {
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [moveDialogOpen, setMoveDialogOpen] = useState(false);
 
   const handleEditBinding = async (bindingData: {
     // Removed isbn since it's now read-only
@@ -120,9 +131,29 @@ export function BindingCard({
     }
   };
 
+  const handleMoveBinding = async (targetEditionId: string) => {
+    const response = await fetch(`/api/books/bindings/${binding.id}/move`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ edition_id: targetEditionId }),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to move binding');
+    }
+
+    if (onRestructured) {
+      onRestructured(data.data.book);
+    }
+  };
+
   const bindingTypeLabel =
     BINDING_TYPE_LABELS[binding.binding_type] || binding.binding_type;
   const languageLabel = LANGUAGE_LABELS[binding.language] || binding.language;
+  const provenance = summarizeProvenance(binding.provenance);
 
   return (
     <>
@@ -142,6 +173,12 @@ export function BindingCard({
                 <Edit className="mr-2 h-4 w-4" />
                 Edit Format
               </DropdownMenuItem>
+              {moveTargets.length > 0 && (
+                <DropdownMenuItem onClick={() => setMoveDialogOpen(true)}>
+                  <MoveRight className="mr-2 h-4 w-4" />
+                  Move to Edition
+                </DropdownMenuItem>
+              )}
               <DropdownMenuItem
                 onClick={() => setDeleteDialogOpen(true)}
                 className="text-red-600 focus:text-red-600"
@@ -176,6 +213,12 @@ export function BindingCard({
               </div>
             )}
 
+            {binding.contributors && binding.contributors.length > 0 && (
+              <p className="text-sm text-gray-600 first-letter:uppercase">
+                {formatContributors(binding.contributors)}
+              </p>
+            )}
+
             <div className="flex items-center text-sm text-gray-600">
               <Globe className="mr-2 h-4 w-4 flex-shrink-0" />
               <span>{languageLabel}</span>
@@ -231,6 +274,24 @@ export function BindingCard({
               </div>
             ) : null;
           })()}
+
+          {/* Data Sources */}
+          {provenance.length > 0 && (
+            <div className="flex items-start border-t border-gray-100 pt-2 text-xs text-gray-500">
+              <Info className="mt-0.5 mr-2 h-3 w-3 flex-shrink-0" />
+              <span>
+                {provenance.map((group, index) => (
+                  <span
+                    key={group.source}
+                    title={`Fetched ${formatDistanceToNow(new Date(group.fetchedAt), { addSuffix: true })}`}
+                  >
+                    {index > 0 ? ' · ' : 'Sources: '}
+                    {group.fields.join(', ')} from {group.source}
+                  </span>
+                ))}
+              </span>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -249,6 +310,15 @@ export function BindingCard({
         onConfirm={handleDeleteBinding}
         binding={binding}
       />
+
+      {/* Move Dialog */}
+      <MoveBindingDialog
+        isOpen={moveDialogOpen}
+        onOpenChange={setMoveDialogOpen}
+        onConfirm={handleMoveBinding}
+        bindingLabel={bindingTypeLabel}
+        editions={moveTargets}
+      />
     </>
   );
 }
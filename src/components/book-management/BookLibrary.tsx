@@ -1,11 +1,12 @@
 import { useUser } from '@clerk/nextjs';
-import { BookOpen, Filter, Grid, List, Search } from 'lucide-react';
+import { BookOpen, Filter, Grid, Layers, List, Search } from 'lucide-react';
 import React, { useMemo, useState } from 'react';
 
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { UIBook } from '@/lib/types/ui-book';
+import { groupBySeries } from '@/lib/utils/series';
 
 import { AddBookDialog } from './AddBookDialog';
 import { BookCard } from './BookCard';
@@ -61,10 +62,41 @@ export function BookLibrary({
     return filtered;
   }, [books, searchQuery, selectedCategory]);
 
+  // Books in a series are shown together in series order
+  const seriesGroups = useMemo(
+    () =>
+      groupBySeries(filteredBooks, book =>
+        book.series?.name
+          ? { name: book.series.name, number: book.series.number }
+          : null,
+      ),
+    [filteredBooks],
+  );
+
   const handleCategoryFilter = (category: string) => {
     setSelectedCategory(selectedCategory === category ? null : category);
   };
 
+  const renderBooks = (list: UIBook[]) => (
+    <div
+      className={
+        viewMode === 'grid'
+          ? 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6'
+          : 'space-y-4'
+      }
+    >
+      {list.map((book, index) => (
+        <BookCard
+          key={book.id || book.isbn || book.title || index}
+          book={book}
+          onView={onViewBook}
+          onEdit={onEditBook}
+          onDelete={onDeleteBook}
+        />
+      ))}
+    </div>
+  );
+
   if (books.length === 0) {
     return (
       <div className="text-center py-16">
@@ -182,24 +214,28 @@ export function BookLibrary({
         )}
       </div>
 
-      {/* Books Grid/List */}
+      {/* Books Grid/List, grouped by series */}
       {filteredBooks.length > 0 ? (
-        <div
-          className={
-            viewMode === 'grid'
-              ? 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6'
-              : 'space-y-4'
-          }
-        >
-          {filteredBooks.map((book, index) => (
-            <BookCard
-              key={book.id || book.isbn || book.title || index}
-              book={book}
-              onView={onViewBook}
-              onEdit={onEditBook}
-              onDelete={onDeleteBook}
-            />
+        <div className="space-y-8">
+          {seriesGroups.groups.map(group => (
+            <div key={group.name} className="space-y-3">
+              <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+                <Layers className="h-5 w-5 text-blue-600" />
+                {group.name}
+              </h3>
+              {renderBooks(group.books)}
+            </div>
           ))}
+          {seriesGroups.standalone.length > 0 && (
+            <div className="space-y-3">
+              {seriesGroups.groups.length > 0 && (
+                <h3 className="text-lg font-semibold text-gray-900">
+                  Other books
+                </h3>
+              )}
+              {renderBooks(seriesGroups.standalone)}
+            </div>
+          )}
         </div>
       ) : (
         <div className="text-center py-16">
@@ -0,0 +1,320 @@
+'use client';
+
+import { CheckCircle, FileSpreadsheet, Loader2, XCircle } from 'lucide-react';
+import { useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  CSV_IMPORT_FIELDS,
+  CsvColumnMapping,
+  CsvImportField,
+  CsvImportResult,
+  CsvImportRow,
+} from '@/lib/types/csv-import';
+import { parseCsvRecords } from '@/lib/utils/csv';
+
+interface CsvImportDialogProps {
+  children: React.ReactNode;
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported?: () => void;
+}
+
+const UNMAPPED = '__none__';
+
+/**
+ * Guess the column mapping from header names
+ */
+const guessMapping = (headers: string[]): CsvColumnMapping => {
+  const mapping: CsvColumnMapping = {};
+  CSV_IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const header = headers.find(h => aliases.includes(h.toLowerCase().trim()));
+    if (header) {
+      mapping[field] = header;
+    }
+  });
+  return mapping;
+};
+
+export function CsvImportDialog({
+  children,
+  isOpen,
+  onOpenChange,
+  onImported,
+}: CsvImportDialogProps) {
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [records, setRecords] = useState<Record<string, string>[]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [enrich, setEnrich] = useState(true);
+  const [result, setResult] = useState<CsvImportResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setHeaders([]);
+    setRecords([]);
+    setMapping({});
+    setResult(null);
+    setError(null);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      reset();
+    }
+    onOpenChange(open);
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    reset();
+    if (!file) return;
+
+    const { headers: csvHeaders, records: csvRecords } = parseCsvRecords(
+      await file.text(),
+    );
+    if (csvRecords.length === 0) {
+      setError('No rows found. The first row must contain column headers.');
+      return;
+    }
+
+    setHeaders(csvHeaders);
+    setRecords(csvRecords);
+    setMapping(guessMapping(csvHeaders));
+  };
+
+  // Apply the column mapping, leaving out empty cells
+  const mappedRows: CsvImportRow[] = records.map((record, index) => {
+    const row: CsvImportRow = { row_number: index + 1 };
+    (Object.keys(mapping) as CsvImportField[]).forEach(field => {
+      const header = mapping[field];
+      const value = header ? record[header]?.trim() : '';
+      if (value) {
+        row[field] = value;
+      }
+    });
+    return row;
+  });
+
+  const canImport =
+    records.length > 0 && !!(mapping.title || mapping.isbn) && !isLoading;
+
+  const handleImport = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/books/csv/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rows: mappedRows, enrich }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to import CSV');
+      }
+
+      setResult(data.data.result);
+      onImported?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import CSV');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            Import from CSV
+          </DialogTitle>
+          <DialogDescription>
+            Upload a spreadsheet exported as CSV and match its columns to book
+            fields. Rows with the same title and author become one book.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!result ? (
+          <div className="space-y-4">
+            <Input
+              type="file"
+              accept=".csv,text/csv"
+              disabled={isLoading}
+              onChange={e => handleFileChange(e.target.files?.[0])}
+            />
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            {headers.length > 0 && (
+              <>
+                {/* Column mapping */}
+                <div className="grid gap-3 sm:grid-cols-2">
+                  {CSV_IMPORT_FIELDS.map(({ field, label }) => (
+                    <div key={field} className="flex items-center gap-2">
+                      <span className="w-32 text-sm font-medium">{label}</span>
+                      <Select
+                        value={mapping[field] || UNMAPPED}
+                        onValueChange={value =>
+                          setMapping(current => ({
+                            ...current,
+                            [field]: value === UNMAPPED ? undefined : value,
+                          }))
+                        }
+                      >
+                        <SelectTrigger className="flex-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                          {headers
+                            .filter(header => header.length > 0)
+                            .map(header => (
+                              <SelectItem key={header} value={header}>
+                                {header}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={enrich}
+                    onChange={e => setEnrich(e.target.checked)}
+                  />
+                  Look up missing title and author by ISBN
+                </label>
+
+                {/* Preview of the first mapped rows */}
+                <div>
+                  <p className="mb-2 text-sm text-gray-600">
+                    {records.length} {records.length === 1 ? 'row' : 'rows'}{' '}
+                    found. Preview:
+                  </p>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>#</TableHead>
+                        <TableHead>Title</TableHead>
+                        <TableHead>Author</TableHead>
+                        <TableHead>ISBN</TableHead>
+                        <TableHead>Binding</TableHead>
+                        <TableHead>Edition</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {mappedRows.slice(0, 5).map(row => (
+                        <TableRow key={row.row_number}>
+                          <TableCell>{row.row_number}</TableCell>
+                          <TableCell>{row.title || '—'}</TableCell>
+                          <TableCell>{row.author || '—'}</TableCell>
+                          <TableCell>{row.isbn || '—'}</TableCell>
+                          <TableCell>{row.binding || '—'}</TableCell>
+                          <TableCell>{row.edition_number || '1'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{result.total} rows</Badge>
+              <Badge className="bg-green-100 text-green-800">
+                {result.succeeded} imported
+              </Badge>
+              {result.failed > 0 && (
+                <Badge className="bg-red-100 text-red-800">
+                  {result.failed} failed
+                </Badge>
+              )}
+            </div>
+
+            <div className="max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>#</TableHead>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.rows.map(row => (
+                    <TableRow key={row.row_number}>
+                      <TableCell>{row.row_number}</TableCell>
+                      <TableCell>{row.title || '—'}</TableCell>
+                      <TableCell>
+                        {row.status === 'error' ? (
+                          <span className="flex items-center gap-1 text-sm text-red-600">
+                            <XCircle className="h-4 w-4" />
+                            {row.error}
+                          </span>
+                        ) : (
+                          <span className="flex items-center gap-1 text-sm text-green-700">
+                            <CheckCircle className="h-4 w-4" />
+                            {row.status === 'created'
+                              ? 'Added'
+                              : 'Merged into existing book'}
+                            {row.enriched && ' (ISBN lookup)'}
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            {result ? 'Close' : 'Cancel'}
+          </Button>
+          {!result && (
+            <Button onClick={handleImport} disabled={!canImport}>
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Import {records.length} {records.length === 1 ? 'row' : 'rows'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { MoreHorizontal, Edit, Trash2 } from 'lucide-react';
+import { MoreHorizontal, Edit, Merge, Split, Trash2 } from 'lucide-react';
 import { useState } from 'react';
 
 import { Badge } from '@/components/ui/badge';
@@ -12,11 +12,14 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { BookEdition, BookBinding } from '@/lib/types/book';
+import { Book, BookEdition, BookBinding } from '@/lib/types/book';
+import { getLanguageName } from '@/lib/utils/languages';
 
 import { BindingCard } from './BindingCard';
 import { DeleteEditionDialog } from './DeleteEditionDialog';
 import { EditEditionDialog } from './EditEditionDialog';
+import { MergeEditionDialog } from './MergeEditionDialog';
+import { SplitEditionDialog } from './SplitEditionDialog';
 
 interface EditionCardProps {
   edition: BookEdition;
@@ -24,6 +27,8 @@ interface EditionCardProps {
   onEditionDeleted?: (editionId: string) => void;
   onBindingUpdated?: (editionId: string, updatedBinding: BookBinding) => void;
   onBindingDeleted?: (editionId: string, bindingId: string) => void;
+  otherEditions?: BookEdition[]; // The book's other editions, for merges and moves
+  onRestructured?: (book: Book) => void;
 }
 
 export function EditionCard({
@@ -32,9 +37,13 @@ export function EditionCard({
   onEditionDeleted,
   onBindingUpdated,
   onBindingDeleted,
+  otherEditions = [],
+  onRestructured,
 }: EditionCardProps) {
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [mergeDialogOpen, setMergeDialogOpen] = useState(false);
+  const [splitDialogOpen, setSplitDialogOpen] = useState(false);
 
   const handleEditEdition = async (
     editionNumber: number,
@@ -85,6 +94,29 @@ export function EditionCard({
     }
   };
 
+  // Merge and split both answer with the reloaded book
+  const restructure = async (action: 'merge' | 'split', body: object) => {
+    const response = await fetch(
+      `/api/books/editions/${edition.id}/${action}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      },
+    );
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || `Failed to ${action} edition`);
+    }
+
+    if (onRestructured) {
+      onRestructured(data.data.book);
+    }
+  };
+
   const getOrdinalSuffix = (num: number): string => {
     const lastDigit = num % 10;
     const lastTwoDigits = num % 100;
@@ -123,6 +155,18 @@ export function EditionCard({
                 <Edit className="mr-2 h-4 w-4" />
                 Edit Edition
               </DropdownMenuItem>
+              {otherEditions.length > 0 && (
+                <DropdownMenuItem onClick={() => setMergeDialogOpen(true)}>
+                  <Merge className="mr-2 h-4 w-4" />
+                  Merge Into…
+                </DropdownMenuItem>
+              )}
+              {edition.bindings.length > 1 && (
+                <DropdownMenuItem onClick={() => setSplitDialogOpen(true)}>
+                  <Split className="mr-2 h-4 w-4" />
+                  Split Edition
+                </DropdownMenuItem>
+              )}
               <DropdownMenuItem
                 onClick={() => setDeleteDialogOpen(true)}
                 className="text-red-600 focus:text-red-600"
@@ -141,9 +185,16 @@ export function EditionCard({
                 ? `${edition.edition_number}${getOrdinalSuffix(edition.edition_number)} Edition`
                 : 'Edition'}
             </span>
-            {edition.publication_year && (
-              <Badge variant="secondary">{edition.publication_year}</Badge>
-            )}
+            <span className="flex gap-2">
+              {edition.is_translation && (
+                <Badge variant="outline">
+                  {getLanguageName(edition.language)}
+                </Badge>
+              )}
+              {edition.publication_year && (
+                <Badge variant="secondary">{edition.publication_year}</Badge>
+              )}
+            </span>
           </CardTitle>
         </CardHeader>
 
@@ -169,6 +220,8 @@ export function EditionCard({
                         onBindingDeleted(edition.id, bindingId);
                       }
                     }}
+                    moveTargets={otherEditions}
+                    onRestructured={onRestructured}
                   />
                 ))}
               </div>
@@ -196,6 +249,27 @@ export function EditionCard({
         onConfirm={handleDeleteEdition}
         edition={edition}
       />
+
+      {/* Merge Dialog */}
+      <MergeEditionDialog
+        isOpen={mergeDialogOpen}
+        onOpenChange={setMergeDialogOpen}
+        onConfirm={targetEditionId =>
+          restructure('merge', { target_edition_id: targetEditionId })
+        }
+        edition={edition}
+        editions={otherEditions}
+      />
+
+      {/* Split Dialog */}
+      <SplitEditionDialog
+        isOpen={splitDialogOpen}
+        onOpenChange={setSplitDialogOpen}
+        onConfirm={bindingIds =>
+          restructure('split', { binding_ids: bindingIds })
+        }
+        edition={edition}
+      />
     </>
   );
 }
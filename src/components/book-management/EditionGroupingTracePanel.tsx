@@ -0,0 +1,134 @@
+'use client';
+
+import { Check, ChevronDown, ChevronRight, Copy } from 'lucide-react';
+import { useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  EditionGroupingTrace,
+  EditionTraceEvent,
+  EditionTraceOutcome,
+} from '@/lib/types/edition-trace';
+
+interface EditionGroupingTracePanelProps {
+  trace: EditionGroupingTrace;
+}
+
+const OUTCOME_VARIANTS: Record<
+  EditionTraceOutcome,
+  'default' | 'secondary' | 'destructive'
+> = {
+  grouped: 'default',
+  consolidated: 'secondary',
+  dropped: 'destructive',
+};
+
+function formatScores(scores: NonNullable<EditionTraceEvent['scores']>) {
+  return Object.entries(scores)
+    .map(([name, value]) => `${name}=${value}`)
+    .join(' · ');
+}
+
+/**
+ * Admin-only view of why edition detection grouped each search result.
+ * Copy the JSON into a bug report to show what the heuristics decided.
+ */
+export function EditionGroupingTracePanel({
+  trace,
+}: EditionGroupingTracePanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const counts = trace.books.reduce(
+    (totals, book) => ({ ...totals, [book.outcome]: totals[book.outcome] + 1 }),
+    { grouped: 0, consolidated: 0, dropped: 0 },
+  );
+
+  const copyTrace = async () => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(trace, null, 2));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard access can be blocked; the trace is still on screen
+    }
+  };
+
+  return (
+    <div className="mt-6 rounded-lg border border-dashed border-gray-300 p-3">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          type="button"
+          onClick={() => setIsOpen(open => !open)}
+          className="flex items-center gap-2 text-sm font-medium text-gray-700"
+          aria-expanded={isOpen}
+        >
+          {isOpen ? (
+            <ChevronDown className="h-4 w-4" />
+          ) : (
+            <ChevronRight className="h-4 w-4" />
+          )}
+          Grouping Trace (Admin only)
+          <span className="font-normal text-gray-500">
+            {trace.input_count} books → {trace.group_count} editions ·{' '}
+            {counts.consolidated} consolidated · {counts.dropped} dropped
+          </span>
+        </button>
+        {isOpen && (
+          <Button variant="ghost" size="sm" onClick={copyTrace} type="button">
+            {copied ? (
+              <Check className="mr-2 h-4 w-4" />
+            ) : (
+              <Copy className="mr-2 h-4 w-4" />
+            )}
+            Copy JSON
+          </Button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="mt-3 max-h-96 space-y-2 overflow-y-auto">
+          {trace.books.map(book => (
+            <div key={book.book_id} className="rounded border p-2 text-xs">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant={OUTCOME_VARIANTS[book.outcome]}>
+                  {book.outcome}
+                  {book.edition_number !== undefined &&
+                    ` · Edition ${book.edition_number}`}
+                </Badge>
+                <span className="font-medium text-gray-900">{book.title}</span>
+                <span className="text-gray-500">
+                  {[book.isbn, book.binding, book.source]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </span>
+              </div>
+              {book.consolidated_into && (
+                <p className="mt-1 text-gray-600">
+                  Merged into {book.consolidated_into}
+                </p>
+              )}
+              <ul className="mt-1 space-y-0.5 text-gray-600">
+                {book.events.map((event, index) => (
+                  <li key={index}>
+                    <span className="font-mono text-gray-800">
+                      {event.stage}/{event.rule}
+                    </span>{' '}
+                    {event.detail}
+                    {event.scores && (
+                      <span className="text-gray-400">
+                        {' '}
+                        ({formatScores(event.scores)})
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import { Loader2, Plus, Sparkles, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Book } from '@/lib/types/book';
+import { EditionSuggestion } from '@/lib/types/metadata-refresh';
+import { PROVENANCE_SOURCE_LABELS } from '@/lib/utils/provenance';
+
+interface EditionSuggestionsPanelProps {
+  bookId: string;
+  onBookUpdated: (book: Book) => void;
+}
+
+export function EditionSuggestionsPanel({
+  bookId,
+  onBookUpdated,
+}: EditionSuggestionsPanelProps) {
+  const [suggestions, setSuggestions] = useState<EditionSuggestion[]>([]);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSuggestions = async () => {
+      try {
+        const response = await fetch(`/api/books/${bookId}/suggestions`);
+        if (!response.ok) return;
+
+        const data = await response.json();
+        setSuggestions(data.data.suggestions);
+      } catch {
+        // Suggestions are optional; the book page works without them
+      }
+    };
+
+    fetchSuggestions();
+  }, [bookId]);
+
+  if (suggestions.length === 0) {
+    return null;
+  }
+
+  const resolveSuggestion = async (
+    suggestion: EditionSuggestion,
+    accept: boolean,
+  ) => {
+    setPendingId(suggestion.id);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/books/${bookId}/suggestions/${suggestion.id}`,
+        { method: accept ? 'POST' : 'DELETE' },
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to update suggestion');
+      }
+
+      setSuggestions(current =>
+        current.filter(item => item.id !== suggestion.id),
+      );
+      if (accept && data.data.book) {
+        onBookUpdated(data.data.book);
+      }
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to update suggestion',
+      );
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <Card className="border-blue-200">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="h-5 w-5 text-blue-500" />
+          New formats found
+          <Badge variant="secondary">{suggestions.length}</Badge>
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          These bindings turned up in a recent search for this book and are not
+          in your library yet.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {suggestions.map(suggestion => {
+          const { book_data: result } = suggestion;
+
+          return (
+            <div
+              key={suggestion.id}
+              className="flex items-start justify-between gap-3 rounded border p-2 text-sm"
+            >
+              <div className="min-w-0">
+                <p className="truncate font-medium text-gray-900">
+                  {result.binding || result.print_type || 'Unknown format'}
+                  {suggestion.is_new_edition && (
+                    <Badge variant="outline" className="ml-2">
+                      New edition
+                    </Badge>
+                  )}
+                </p>
+                <p className="truncate text-gray-600">
+                  ISBN {suggestion.isbn}
+                  {result.publisher && ` · ${result.publisher}`}
+                  {result.year && ` · ${result.year}`}
+                </p>
+                {suggestion.source && (
+                  <p className="text-xs text-gray-500">
+                    from{' '}
+                    {PROVENANCE_SOURCE_LABELS[suggestion.source] ||
+                      suggestion.source}
+                  </p>
+                )}
+              </div>
+              <div className="flex flex-shrink-0 gap-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!!pendingId}
+                  onClick={() => resolveSuggestion(suggestion, true)}
+                >
+                  {pendingId === suggestion.id ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Plus className="mr-2 h-4 w-4" />
+                  )}
+                  Add
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={!!pendingId}
+                  onClick={() => resolveSuggestion(suggestion, false)}
+                  aria-label="Dismiss suggestion"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,346 @@
+'use client';
+
+import { CheckCircle, ListPlus, Loader2, XCircle } from 'lucide-react';
+import { useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  IsbnBatchCommitResult,
+  IsbnBatchPreview,
+} from '@/lib/types/isbn-batch';
+import { hyphenateIsbn } from '@/lib/utils/isbn';
+
+interface IsbnBatchDialogProps {
+  children: React.ReactNode;
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAdded?: () => void;
+}
+
+// Matches what the lookup endpoint accepts in one request
+const MAX_ISBNS = 100;
+
+/**
+ * Pick the ISBN-like tokens out of pasted text, such as a publisher's email
+ * with titles and prices around the ISBNs
+ */
+const parseIsbnList = (text: string): string[] =>
+  Array.from(new Set(text.match(/\d[\dXx-]{8,15}[\dXx]/g) || []));
+
+export function IsbnBatchDialog({
+  children,
+  isOpen,
+  onOpenChange,
+  onAdded,
+}: IsbnBatchDialogProps) {
+  const [text, setText] = useState('');
+  const [preview, setPreview] = useState<IsbnBatchPreview | null>(null);
+  // Indexes of the preview items to add; all of them by default
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [result, setResult] = useState<IsbnBatchCommitResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isbns = parseIsbnList(text);
+
+  const reset = () => {
+    setText('');
+    setPreview(null);
+    setSelected(new Set());
+    setResult(null);
+    setError(null);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      reset();
+    }
+    onOpenChange(open);
+  };
+
+  const toggleItem = (index: number) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleLookup = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/books/isbn/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isbns }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to look up ISBNs');
+      }
+
+      const lookup: IsbnBatchPreview = data.data.preview;
+      setPreview(lookup);
+      setSelected(new Set(lookup.items.map((_, index) => index)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to look up ISBNs');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!preview) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const items = preview.items
+        .filter((_, index) => selected.has(index))
+        .map(({ book, editionGroups }) => ({ book, editionGroups }));
+      const response = await fetch('/api/books/isbn/batch/commit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ items }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to add books');
+      }
+
+      setResult(data.data.result);
+      onAdded?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add books');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectedItems = preview
+    ? preview.items.filter((_, index) => selected.has(index))
+    : [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListPlus className="h-5 w-5" />
+            Add Books from an ISBN List
+          </DialogTitle>
+          <DialogDescription>
+            Paste ISBNs, one per line or straight from an email. They are looked
+            up together and grouped into books and editions for you to review
+            before anything is added.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{result.total} books</Badge>
+              <Badge className="bg-green-100 text-green-800">
+                {result.succeeded} added
+              </Badge>
+              {result.failed > 0 && (
+                <Badge className="bg-red-100 text-red-800">
+                  {result.failed} failed
+                </Badge>
+              )}
+            </div>
+
+            <div className="max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.items.map(item => (
+                    <TableRow key={item.index}>
+                      <TableCell>
+                        {item.title || selectedItems[item.index]?.book.title}
+                      </TableCell>
+                      <TableCell>
+                        {item.status === 'error' ? (
+                          <span className="flex items-center gap-1 text-sm text-red-600">
+                            <XCircle className="h-4 w-4" />
+                            {item.error}
+                          </span>
+                        ) : (
+                          <span className="flex items-center gap-1 text-sm text-green-700">
+                            <CheckCircle className="h-4 w-4" />
+                            {item.status === 'created'
+                              ? 'Added'
+                              : 'Merged into existing book'}
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        ) : preview ? (
+          <div className="space-y-4">
+            {preview.items.length > 0 ? (
+              <div className="max-h-96 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-8" />
+                      <TableHead>Title</TableHead>
+                      <TableHead>Author</TableHead>
+                      <TableHead>Editions</TableHead>
+                      <TableHead>ISBNs</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.items.map((item, index) => (
+                      <TableRow key={`${item.book.id}-${index}`}>
+                        <TableCell>
+                          <input
+                            type="checkbox"
+                            checked={selected.has(index)}
+                            onChange={() => toggleItem(index)}
+                            aria-label={`Add ${item.book.title}`}
+                          />
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          {item.book.title}
+                        </TableCell>
+                        <TableCell>
+                          {item.book.authors?.join(', ') || '—'}
+                        </TableCell>
+                        <TableCell>{item.editionGroups.length}</TableCell>
+                        <TableCell className="font-mono text-xs">
+                          {item.isbns
+                            .map(isbn => hyphenateIsbn(isbn) || isbn)
+                            .join(', ')}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">
+                None of the ISBNs matched a book.
+              </p>
+            )}
+
+            {preview.not_found.length > 0 && (
+              <div className="text-sm">
+                <p className="font-medium">Not found</p>
+                <p className="font-mono text-xs text-gray-600">
+                  {preview.not_found
+                    .map(isbn => hyphenateIsbn(isbn) || isbn)
+                    .join(', ')}
+                </p>
+              </div>
+            )}
+
+            {preview.invalid.length > 0 && (
+              <div className="space-y-1 text-sm">
+                <p className="font-medium">Not valid ISBNs</p>
+                {preview.invalid.map(({ input, suggestions }) => (
+                  <p key={input} className="text-xs text-gray-600">
+                    <span className="font-mono">{input}</span>
+                    {suggestions.length > 0 &&
+                      ` — did you mean ${suggestions.join(' or ')}?`}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Textarea
+              value={text}
+              onChange={e => setText(e.target.value)}
+              placeholder={'978-0-306-40615-7\n9781250301697'}
+              rows={10}
+              disabled={isLoading}
+              className="font-mono"
+            />
+            <p className="text-sm text-gray-600">
+              {isbns.length} {isbns.length === 1 ? 'ISBN' : 'ISBNs'} found
+              {isbns.length > MAX_ISBNS &&
+                ` — only ${MAX_ISBNS} can be looked up at once`}
+            </p>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {preview && !result && (
+            <Button
+              variant="outline"
+              onClick={() => setPreview(null)}
+              disabled={isLoading}
+            >
+              Back
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            {result ? 'Close' : 'Cancel'}
+          </Button>
+          {!preview && (
+            <Button
+              onClick={handleLookup}
+              disabled={
+                isbns.length === 0 || isbns.length > MAX_ISBNS || isLoading
+              }
+            >
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Look Up {isbns.length} {isbns.length === 1 ? 'ISBN' : 'ISBNs'}
+            </Button>
+          )}
+          {preview && !result && (
+            <Button
+              onClick={handleAdd}
+              disabled={selectedItems.length === 0 || isLoading}
+            >
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add {selectedItems.length}{' '}
+              {selectedItems.length === 1 ? 'Book' : 'Books'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import { formatDistanceToNow } from 'date-fns';
+import { History, Loader2, Undo2 } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Book } from '@/lib/types/book';
+import { LibraryOperation } from '@/lib/types/library-operation';
+import { LIBRARY_OPERATION_LABELS } from '@/lib/utils/library-operations';
+
+interface LibraryChangesPanelProps {
+  book: Book;
+  onBookUpdated: (book: Book) => void;
+}
+
+export function LibraryChangesPanel({
+  book,
+  onBookUpdated,
+}: LibraryChangesPanelProps) {
+  const [operations, setOperations] = useState<LibraryOperation[]>([]);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload whenever the book changes, since that's when new moves land
+  useEffect(() => {
+    const fetchOperations = async () => {
+      try {
+        const response = await fetch(`/api/books/${book.id}/operations`);
+        if (!response.ok) return;
+
+        const data = await response.json();
+        setOperations(data.data.operations);
+      } catch {
+        // The history is optional; the book page works without it
+      }
+    };
+
+    fetchOperations();
+  }, [book]);
+
+  if (operations.length === 0) {
+    return null;
+  }
+
+  const undoOperation = async (operation: LibraryOperation) => {
+    setPendingId(operation.id);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/books/operations/${operation.id}/undo`,
+        { method: 'POST' },
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to undo change');
+      }
+
+      onBookUpdated(data.data.book);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to undo change');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  // Only the latest change to these books can be undone
+  const latestUndoable = operations.find(
+    operation =>
+      operation.status === 'completed' &&
+      operation.action_type !== 'library_undo',
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5 text-gray-500" />
+          Change History
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Moves, merges and splits made to this book. Undo puts the affected
+          books back the way they were.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {operations.map(operation => (
+          <div
+            key={operation.id}
+            className="flex items-center justify-between gap-3 rounded border p-2 text-sm"
+          >
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900">
+                {LIBRARY_OPERATION_LABELS[operation.action_type] ||
+                  operation.action_type}
+                {operation.status === 'undone' && (
+                  <Badge variant="outline" className="ml-2">
+                    Undone
+                  </Badge>
+                )}
+              </p>
+              <p className="truncate text-gray-600">
+                {operation.action_description} ·{' '}
+                {formatDistanceToNow(new Date(operation.created_at), {
+                  addSuffix: true,
+                })}
+              </p>
+            </div>
+            {operation.id === latestUndoable?.id && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => undoOperation(operation)}
+                disabled={pendingId !== null}
+              >
+                {pendingId === operation.id ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Undo2 className="mr-2 h-4 w-4" />
+                )}
+                Undo
+              </Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { ArchiveRestore, Loader2 } from 'lucide-react';
+import { useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { LibraryRestoreResult } from '@/lib/types/library-export';
+
+interface LibraryRestoreDialogProps {
+  children: React.ReactNode;
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored?: () => void;
+}
+
+export function LibraryRestoreDialog({
+  children,
+  isOpen,
+  onOpenChange,
+  onRestored,
+}: LibraryRestoreDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<LibraryRestoreResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setFile(null);
+      setResult(null);
+      setError(null);
+    }
+    onOpenChange(open);
+  };
+
+  const handleRestore = async () => {
+    if (!file) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/books/json/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: await file.text(),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to restore library');
+      }
+
+      setResult(data.data.result);
+      onRestored?.();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to restore library',
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArchiveRestore className="h-5 w-5" />
+            Restore from Backup
+          </DialogTitle>
+          <DialogDescription>
+            Upload a JSON backup exported from AuthorMagic. Books you already
+            have are merged, so restoring the same backup twice is safe.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Input
+            type="file"
+            accept=".json,application/json"
+            disabled={isLoading}
+            onChange={e => {
+              setFile(e.target.files?.[0] || null);
+              setResult(null);
+              setError(null);
+            }}
+          />
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {result && (
+            <div className="space-y-2 rounded-lg border p-4 text-sm">
+              <p>
+                Created <strong>{result.created}</strong> and merged{' '}
+                <strong>{result.merged}</strong> of {result.total} books.
+              </p>
+              {result.failed.length > 0 && (
+                <div className="text-red-600">
+                  <p>{result.failed.length} failed:</p>
+                  <ul className="list-inside list-disc">
+                    {result.failed.map(failure => (
+                      <li key={failure.title}>
+                        {failure.title}: {failure.error}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            {result ? 'Close' : 'Cancel'}
+          </Button>
+          {!result && (
+            <Button onClick={handleRestore} disabled={isLoading || !file}>
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Restore
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
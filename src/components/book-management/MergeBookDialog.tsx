@@ -0,0 +1,138 @@
+'use client';
+
+import { GitMerge } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Book } from '@/lib/types/book';
+
+interface MergeBookDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (targetBookId: string) => Promise<void>;
+  book: Book;
+}
+
+interface LibraryBook {
+  id: string;
+  title: string;
+  author: string;
+}
+
+export function MergeBookDialog({
+  isOpen,
+  onOpenChange,
+  onConfirm,
+  book,
+}: MergeBookDialogProps) {
+  const [libraryBooks, setLibraryBooks] = useState<LibraryBook[]>([]);
+  const [targetId, setTargetId] = useState('');
+  const [isMerging, setIsMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchLibrary = async () => {
+      try {
+        const response = await fetch('/api/books/user');
+        if (!response.ok) {
+          throw new Error('Failed to load your library');
+        }
+
+        const data = await response.json();
+        setLibraryBooks(data.books || []);
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : 'Failed to load your library',
+        );
+      }
+    };
+
+    fetchLibrary();
+  }, [isOpen]);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setTargetId('');
+      setError(null);
+    }
+    onOpenChange(open);
+  };
+
+  const handleConfirm = async () => {
+    setIsMerging(true);
+    setError(null);
+    try {
+      await onConfirm(targetId);
+      handleOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge books');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const targets = libraryBooks.filter(candidate => candidate.id !== book.id);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5" />
+            Merge Into Another Book
+          </DialogTitle>
+          <DialogDescription>
+            Move every edition of &ldquo;{book.title}&rdquo; into the book you
+            choose, then remove this book. Editions with the same number are
+            combined. You can undo this from the other book&apos;s change
+            history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Select value={targetId} onValueChange={setTargetId}>
+          <SelectTrigger>
+            <SelectValue placeholder="Merge into…" />
+          </SelectTrigger>
+          <SelectContent>
+            {targets.map(target => (
+              <SelectItem key={target.id} value={target.id}>
+                {target.title} · {target.author}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={isMerging}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!targetId || isMerging}>
+            {isMerging ? 'Merging...' : 'Merge Books'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { Merge } from 'lucide-react';
+import { useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { BookEdition } from '@/lib/types/book';
+import { formatEditionLabel } from '@/lib/utils/library-operations';
+
+interface MergeEditionDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (targetEditionId: string) => Promise<void>;
+  edition: BookEdition;
+  editions: BookEdition[]; // Editions this one can merge into
+}
+
+export function MergeEditionDialog({
+  isOpen,
+  onOpenChange,
+  onConfirm,
+  edition,
+  editions,
+}: MergeEditionDialogProps) {
+  const [targetId, setTargetId] = useState('');
+  const [isMerging, setIsMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setTargetId('');
+      setError(null);
+    }
+    onOpenChange(open);
+  };
+
+  const handleConfirm = async () => {
+    setIsMerging(true);
+    setError(null);
+    try {
+      await onConfirm(targetId);
+      handleOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge editions');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Merge className="h-5 w-5" />
+            Merge Edition
+          </DialogTitle>
+          <DialogDescription>
+            Move every format of the {formatEditionLabel(edition)} into another
+            edition and remove it. You can undo this from the book&apos;s change
+            history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Select value={targetId} onValueChange={setTargetId}>
+          <SelectTrigger>
+            <SelectValue placeholder="Merge into…" />
+          </SelectTrigger>
+          <SelectContent>
+            {editions.map(target => (
+              <SelectItem key={target.id} value={target.id}>
+                {formatEditionLabel(target)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={isMerging}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!targetId || isMerging}>
+            {isMerging ? 'Merging...' : 'Merge Edition'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,197 @@
+'use client';
+
+import { AlertTriangle, Check, Loader2, Lock, Unlock } from 'lucide-react';
+import { useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Book, BookBinding } from '@/lib/types/book';
+import {
+  CONFLICT_FIELDS,
+  ConflictField,
+  FieldCandidate,
+} from '@/lib/types/provenance';
+import { CONFLICT_COLUMNS } from '@/lib/utils/metadata-conflicts';
+import {
+  PROVENANCE_FIELD_LABELS,
+  PROVENANCE_SOURCE_LABELS,
+} from '@/lib/utils/provenance';
+
+interface MetadataConflictsPanelProps {
+  book: Book;
+  onBindingUpdated: (editionId: string, updatedBinding: BookBinding) => void;
+}
+
+const formatCandidate = (field: ConflictField, value: string | number) => {
+  if (field === 'pages') return `${value} pages`;
+  if (field === 'price') return `$${Number(value).toFixed(2)}`;
+  return String(value);
+};
+
+export function MetadataConflictsPanel({
+  book,
+  onBindingUpdated,
+}: MetadataConflictsPanelProps) {
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const conflicts = book.editions.flatMap(edition =>
+    edition.bindings.flatMap(binding =>
+      CONFLICT_FIELDS.filter(
+        field => (binding.metadata_conflicts?.[field]?.length || 0) > 1,
+      ).map(field => ({ edition, binding, field })),
+    ),
+  );
+
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  const updateConflict = async (
+    editionId: string,
+    binding: BookBinding,
+    field: ConflictField,
+    candidate?: FieldCandidate,
+  ) => {
+    setPendingKey(`${binding.id}:${field}:${candidate?.value ?? 'unlock'}`);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        candidate
+          ? `/api/books/bindings/${binding.id}/conflicts`
+          : `/api/books/bindings/${binding.id}/conflicts?field=${field}`,
+        candidate
+          ? {
+              method: 'PUT',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ field, value: candidate.value }),
+            }
+          : { method: 'DELETE' },
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to update field');
+      }
+
+      onBindingUpdated(editionId, data.data.binding);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update field');
+    } finally {
+      setPendingKey(null);
+    }
+  };
+
+  return (
+    <Card className="border-amber-200">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-amber-500" />
+          Conflicts
+          <Badge variant="secondary">{conflicts.length}</Badge>
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          These sources disagree. Pick the correct value and it will be kept
+          when the book&apos;s metadata is refreshed.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {conflicts.map(({ edition, binding, field }) => {
+          const currentValue = binding[CONFLICT_COLUMNS[field]];
+          const override = binding.user_overrides?.[field];
+
+          return (
+            <div
+              key={`${binding.id}:${field}`}
+              className="space-y-2 border-t border-gray-100 pt-3 first:border-t-0 first:pt-0"
+            >
+              <div className="flex items-center justify-between">
+                <div className="text-sm font-medium capitalize">
+                  {PROVENANCE_FIELD_LABELS[field]}
+                  <span className="ml-2 font-normal text-gray-500 normal-case">
+                    {binding.binding_type}
+                    {binding.isbn && ` · ${binding.isbn}`}
+                  </span>
+                </div>
+                {override && (
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="flex gap-1">
+                      <Lock className="h-3 w-3" />
+                      Your choice
+                    </Badge>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={!!pendingKey}
+                      onClick={() => updateConflict(edition.id, binding, field)}
+                    >
+                      <Unlock className="mr-1 h-4 w-4" />
+                      Unlock
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {binding.metadata_conflicts![field]!.map(candidate => {
+                const isCurrent =
+                  String(candidate.value) === String(currentValue);
+                const key = `${binding.id}:${field}:${candidate.value}`;
+
+                return (
+                  <div
+                    key={key}
+                    className={`flex items-start justify-between gap-3 rounded border p-2 text-sm ${
+                      isCurrent ? 'border-green-200 bg-green-50' : ''
+                    }`}
+                  >
+                    <div className="min-w-0">
+                      <p
+                        className={
+                          field === 'description'
+                            ? 'line-clamp-2 text-gray-700'
+                            : 'truncate text-gray-700'
+                        }
+                      >
+                        {formatCandidate(field, candidate.value)}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        from{' '}
+                        {PROVENANCE_SOURCE_LABELS[candidate.source] ||
+                          candidate.source}
+                      </p>
+                    </div>
+                    {isCurrent ? (
+                      <span className="flex flex-shrink-0 items-center gap-1 text-xs text-green-700">
+                        <Check className="h-4 w-4" />
+                        In use
+                      </span>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="flex-shrink-0"
+                        disabled={!!pendingKey}
+                        onClick={() =>
+                          updateConflict(edition.id, binding, field, candidate)
+                        }
+                      >
+                        {pendingKey === key && (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Use this
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { MoveRight } from 'lucide-react';
+import { useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { BookEdition } from '@/lib/types/book';
+import { formatEditionLabel } from '@/lib/utils/library-operations';
+
+interface MoveBindingDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (targetEditionId: string) => Promise<void>;
+  bindingLabel: string;
+  editions: BookEdition[]; // Editions the binding can move to
+}
+
+export function MoveBindingDialog({
+  isOpen,
+  onOpenChange,
+  onConfirm,
+  bindingLabel,
+  editions,
+}: MoveBindingDialogProps) {
+  const [targetId, setTargetId] = useState('');
+  const [isMoving, setIsMoving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setTargetId('');
+      setError(null);
+    }
+    onOpenChange(open);
+  };
+
+  const handleConfirm = async () => {
+    setIsMoving(true);
+    setError(null);
+    try {
+      await onConfirm(targetId);
+      handleOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to move format');
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MoveRight className="h-5 w-5" />
+            Move Format
+          </DialogTitle>
+          <DialogDescription>
+            Move the {bindingLabel} format to the edition it really belongs to.
+            An edition left without formats is removed. You can undo this from
+            the book&apos;s change history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Select value={targetId} onValueChange={setTargetId}>
+          <SelectTrigger>
+            <SelectValue placeholder="Choose an edition" />
+          </SelectTrigger>
+          <SelectContent>
+            {editions.map(edition => (
+              <SelectItem key={edition.id} value={edition.id}>
+                {formatEditionLabel(edition)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={isMoving}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!targetId || isMoving}>
+            {isMoving ? 'Moving...' : 'Move Format'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { FileUp, Loader2 } from 'lucide-react';
+import { useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import {
+  OnixImportAction,
+  OnixImportPlan,
+  OnixImportResult,
+} from '@/lib/types/onix';
+
+interface OnixImportDialogProps {
+  children: React.ReactNode;
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported?: () => void;
+}
+
+const ACTION_STYLES: Record<OnixImportAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  merge: 'bg-blue-100 text-blue-800',
+  skip: 'bg-gray-100 text-gray-600',
+};
+
+export function OnixImportDialog({
+  children,
+  isOpen,
+  onOpenChange,
+  onImported,
+}: OnixImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [plan, setPlan] = useState<OnixImportPlan | null>(null);
+  const [result, setResult] = useState<OnixImportResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setFile(null);
+    setPlan(null);
+    setResult(null);
+    setError(null);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      reset();
+    }
+    onOpenChange(open);
+  };
+
+  const submitFeed = async (dryRun: boolean) => {
+    if (!file) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch(
+        `/api/books/onix/import${dryRun ? '?dry_run=true' : ''}`,
+        { method: 'POST', body: formData },
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to process ONIX file');
+      }
+
+      if (dryRun) {
+        setPlan(data.data.plan);
+      } else {
+        setResult(data.data.result);
+        onImported?.();
+      }
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to process ONIX file',
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const pendingWorks = plan ? plan.summary.create + plan.summary.merge : 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="h-5 w-5" />
+            Import ONIX Feed
+          </DialogTitle>
+          <DialogDescription>
+            Upload an ONIX 3.0 file from your publisher. You&apos;ll see a
+            preview of what will be created, merged, or skipped before anything
+            is saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Input
+            type="file"
+            accept=".xml,.onix,application/xml,text/xml"
+            disabled={isLoading}
+            onChange={e => {
+              setFile(e.target.files?.[0] || null);
+              setPlan(null);
+              setResult(null);
+              setError(null);
+            }}
+          />
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {/* Dry-run preview */}
+          {plan && !result && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="secondary">{plan.totalProducts} products</Badge>
+                <Badge className={ACTION_STYLES.create}>
+                  {plan.summary.create} to create
+                </Badge>
+                <Badge className={ACTION_STYLES.merge}>
+                  {plan.summary.merge} to merge
+                </Badge>
+                <Badge className={ACTION_STYLES.skip}>
+                  {plan.summary.skip} skipped
+                </Badge>
+              </div>
+
+              <div className="max-h-80 space-y-2 overflow-y-auto">
+                {plan.works.map(work => (
+                  <div
+                    key={work.key}
+                    className="flex items-start justify-between rounded-lg border p-3"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate font-medium">{work.title}</p>
+                      {work.author && (
+                        <p className="text-sm text-gray-600">
+                          by {work.author}
+                        </p>
+                      )}
+                      <p className="text-xs text-gray-500">
+                        {work.action === 'skip'
+                          ? work.reason
+                          : work.editions
+                              .map(
+                                edition =>
+                                  `Edition ${edition.edition_number}: ${edition.products
+                                    .map(product => product.binding_type)
+                                    .join(', ')}`,
+                              )
+                              .join(' · ')}
+                      </p>
+                    </div>
+                    <Badge className={ACTION_STYLES[work.action]}>
+                      {work.action}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Import results */}
+          {result && (
+            <div className="space-y-2 rounded-lg border p-4 text-sm">
+              <p>
+                Created <strong>{result.created}</strong> and merged{' '}
+                <strong>{result.merged}</strong> books.
+              </p>
+              {result.failed.length > 0 && (
+                <div className="text-red-600">
+                  <p>{result.failed.length} failed:</p>
+                  <ul className="list-inside list-disc">
+                    {result.failed.map(failure => (
+                      <li key={failure.key}>
+                        {failure.title}: {failure.error}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            {result ? 'Close' : 'Cancel'}
+          </Button>
+          {!result &&
+            (plan ? (
+              <Button
+                onClick={() => submitFeed(false)}
+                disabled={isLoading || pendingWorks === 0}
+              >
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import {pendingWorks} {pendingWorks === 1 ? 'book' : 'books'}
+              </Button>
+            ) : (
+              <Button
+                onClick={() => submitFeed(true)}
+                disabled={isLoading || !file}
+              >
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Preview Import
+              </Button>
+            ))}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
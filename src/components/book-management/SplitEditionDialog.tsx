@@ -0,0 +1,122 @@
+'use client';
+
+import { Split } from 'lucide-react';
+import { useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { BookEdition } from '@/lib/types/book';
+import { formatEditionLabel } from '@/lib/utils/library-operations';
+
+interface SplitEditionDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (bindingIds: string[]) => Promise<void>;
+  edition: BookEdition;
+}
+
+export function SplitEditionDialog({
+  isOpen,
+  onOpenChange,
+  onConfirm,
+  edition,
+}: SplitEditionDialogProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isSplitting, setIsSplitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setSelected([]);
+      setError(null);
+    }
+    onOpenChange(open);
+  };
+
+  const toggleBinding = (bindingId: string) =>
+    setSelected(current =>
+      current.includes(bindingId)
+        ? current.filter(id => id !== bindingId)
+        : [...current, bindingId],
+    );
+
+  const handleConfirm = async () => {
+    setIsSplitting(true);
+    setError(null);
+    try {
+      await onConfirm(selected);
+      handleOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to split edition');
+    } finally {
+      setIsSplitting(false);
+    }
+  };
+
+  // At least one format has to stay behind
+  const canSplit =
+    selected.length > 0 && selected.length < edition.bindings.length;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Split className="h-5 w-5" />
+            Split Edition
+          </DialogTitle>
+          <DialogDescription>
+            Choose the formats that belong to a different edition than the{' '}
+            {formatEditionLabel(edition)}. They move to a new edition you can
+            then renumber. You can undo this from the book&apos;s change
+            history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {edition.bindings.map(binding => (
+            <label
+              key={binding.id}
+              className="flex cursor-pointer items-center gap-3 rounded border p-2 text-sm"
+            >
+              <input
+                type="checkbox"
+                checked={selected.includes(binding.id)}
+                onChange={() => toggleBinding(binding.id)}
+                disabled={isSplitting}
+              />
+              <span className="font-medium capitalize">
+                {binding.binding_type}
+              </span>
+              <span className="text-gray-500">
+                {binding.isbn || 'No ISBN'}
+                {binding.publisher && ` · ${binding.publisher}`}
+              </span>
+            </label>
+          ))}
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={isSplitting}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!canSplit || isSplitting}>
+            {isSplitting ? 'Splitting...' : 'Split Edition'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
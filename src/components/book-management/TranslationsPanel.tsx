@@ -0,0 +1,246 @@
+'use client';
+
+import { Edit, Languages, Loader2, Plus } from 'lucide-react';
+import { useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Book } from '@/lib/types/book';
+import { BookTranslation } from '@/lib/types/translation';
+import { getBookTranslations, getLanguageName } from '@/lib/utils/languages';
+
+interface TranslationsPanelProps {
+  book: Book;
+  onBookUpdated: (book: Book) => void;
+}
+
+interface TranslationForm {
+  isbn: string;
+  language: string;
+  translated_title: string;
+  territory: string;
+  translators: string;
+}
+
+const EMPTY_FORM: TranslationForm = {
+  isbn: '',
+  language: '',
+  translated_title: '',
+  territory: '',
+  translators: '',
+};
+
+const toForm = (translation: BookTranslation): TranslationForm => ({
+  isbn: '',
+  language: translation.language,
+  translated_title: translation.translated_title || '',
+  territory: translation.territory || '',
+  translators: translation.translators.join(', '),
+});
+
+export function TranslationsPanel({
+  book,
+  onBookUpdated,
+}: TranslationsPanelProps) {
+  const translations = getBookTranslations(book.editions);
+  // null: closed, 'new': adding, otherwise the edition being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<TranslationForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openForm = (translation?: BookTranslation) => {
+    setEditing(translation ? translation.edition_id : 'new');
+    setForm(translation ? toForm(translation) : EMPTY_FORM);
+    setError(null);
+  };
+
+  const saveTranslation = async () => {
+    setSaving(true);
+    setError(null);
+
+    const details = {
+      ...(form.language && { language: form.language.trim() }),
+      translated_title: form.translated_title.trim() || null,
+      territory: form.territory.trim() || null,
+      translators: form.translators
+        .split(',')
+        .map(name => name.trim())
+        .filter(Boolean),
+    };
+
+    try {
+      const response = await fetch(
+        editing === 'new'
+          ? `/api/books/${book.id}/translations`
+          : `/api/books/${book.id}/translations/${editing}`,
+        {
+          method: editing === 'new' ? 'POST' : 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(
+            editing === 'new'
+              ? { isbn: form.isbn.trim(), ...details }
+              : details,
+          ),
+        },
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to save translation');
+      }
+
+      // Reload the book so the editions list picks up the new edition
+      const bookResponse = await fetch(`/api/books/${book.id}`);
+      if (bookResponse.ok) {
+        const bookData = await bookResponse.json();
+        onBookUpdated(bookData.data.book);
+      }
+      setEditing(null);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to save translation',
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateField = (field: keyof TranslationForm, value: string) =>
+    setForm(current => ({ ...current, [field]: value }));
+
+  const renderForm = () => (
+    <div className="space-y-2 rounded border bg-gray-50 p-3">
+      <div className="grid gap-2 sm:grid-cols-2">
+        {editing === 'new' && (
+          <Input
+            placeholder="ISBN of the translation"
+            value={form.isbn}
+            onChange={e => updateField('isbn', e.target.value)}
+          />
+        )}
+        <Input
+          placeholder="Language code, e.g. de"
+          maxLength={2}
+          value={form.language}
+          onChange={e => updateField('language', e.target.value)}
+        />
+        <Input
+          placeholder="Translated title"
+          value={form.translated_title}
+          onChange={e => updateField('translated_title', e.target.value)}
+        />
+        <Input
+          placeholder="Territory, e.g. Germany, Austria"
+          value={form.territory}
+          onChange={e => updateField('territory', e.target.value)}
+        />
+        <Input
+          placeholder="Translators, comma separated"
+          value={form.translators}
+          onChange={e => updateField('translators', e.target.value)}
+        />
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={saveTranslation}
+          disabled={saving || (editing === 'new' && !form.isbn.trim())}
+        >
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {editing === 'new' ? 'Add translation' : 'Save'}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setEditing(null)}
+          disabled={saving}
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Languages className="h-5 w-5 text-gray-500" />
+            Translations
+            {translations.length > 0 && (
+              <Badge variant="secondary">{translations.length}</Badge>
+            )}
+          </CardTitle>
+          <p className="text-sm text-gray-600">
+            Foreign-language editions of this book, with the translator and
+            rights territory for each.
+          </p>
+        </div>
+        {editing !== 'new' && (
+          <Button variant="outline" size="sm" onClick={() => openForm()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {editing === 'new' && renderForm()}
+
+        {translations.length === 0 && editing !== 'new' && (
+          <p className="text-sm text-gray-500">
+            No translations yet. Add one by its ISBN.
+          </p>
+        )}
+
+        {translations.map(translation =>
+          editing === translation.edition_id ? (
+            <div key={translation.edition_id}>{renderForm()}</div>
+          ) : (
+            <div
+              key={translation.edition_id}
+              className="flex items-start justify-between gap-3 rounded border p-2 text-sm"
+            >
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900">
+                  {getLanguageName(translation.language)}
+                  {translation.translated_title && (
+                    <span className="font-normal text-gray-600">
+                      {' '}
+                      · {translation.translated_title}
+                    </span>
+                  )}
+                </p>
+                <p className="text-gray-600">
+                  {translation.translators.length > 0
+                    ? `Translated by ${translation.translators.join(', ')}`
+                    : 'Translator unknown'}
+                  {translation.territory && ` · ${translation.territory}`}
+                  {translation.publication_year &&
+                    ` · ${translation.publication_year}`}
+                </p>
+                <p className="truncate text-xs text-gray-500">
+                  {translation.binding_types.join(', ')}
+                  {translation.isbns.length > 0 &&
+                    ` · ISBN ${translation.isbns.join(', ')}`}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => openForm(translation)}
+                aria-label="Edit translation"
+              >
+                <Edit className="h-4 w-4" />
+              </Button>
+            </div>
+          ),
+        )}
+      </CardContent>
+    </Card>
+  );
+}
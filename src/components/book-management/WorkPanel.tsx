@@ -0,0 +1,219 @@
+'use client';
+
+import { Layers, Loader2, Scissors } from 'lucide-react';
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Book } from '@/lib/types/book';
+import { WorkMember, WorkWithBooks } from '@/lib/types/work';
+
+interface WorkPanelProps {
+  book: Book;
+  onBookUpdated: (book: Book) => void;
+}
+
+type LibraryBook = WorkMember & { work_id?: string | null };
+
+export function WorkPanel({ book, onBookUpdated }: WorkPanelProps) {
+  const [work, setWork] = useState<WorkWithBooks | null>(null);
+  const [libraryBooks, setLibraryBooks] = useState<LibraryBook[]>([]);
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchWork = async () => {
+      if (!book.work_id) {
+        setWork(null);
+        return;
+      }
+
+      try {
+        const response = await fetch(`/api/works/${book.work_id}`);
+        if (!response.ok) return;
+
+        const data = await response.json();
+        setWork(data.data.work);
+      } catch {
+        // The work is optional; the book page works without it
+      }
+    };
+
+    fetchWork();
+  }, [book.work_id]);
+
+  useEffect(() => {
+    const fetchLibrary = async () => {
+      try {
+        const response = await fetch('/api/books/user');
+        if (!response.ok) return;
+
+        const data = await response.json();
+        setLibraryBooks(data.books || []);
+      } catch {
+        // Without the library the merge picker just stays empty
+      }
+    };
+
+    fetchLibrary();
+  }, []);
+
+  const applyWork = (updated: WorkWithBooks | null) => {
+    const inWork = updated?.books.some(member => member.id === book.id);
+    setWork(inWork ? updated : null);
+    onBookUpdated({ ...book, work_id: inWork ? updated!.id : null });
+  };
+
+  const mergeBooks = async () => {
+    setPending('merge');
+    setError(null);
+
+    try {
+      const response = await fetch('/api/works/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ book_ids: [book.id, mergeTarget] }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to merge books');
+      }
+
+      applyWork(data.data.work);
+      setMergeTarget('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge books');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const splitBook = async (bookId: string) => {
+    if (!work) return;
+    setPending(bookId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/works/${work.id}/books/${bookId}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to split book');
+      }
+
+      applyWork(data.data.work);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to split book');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const otherTitles = work?.books.filter(member => member.id !== book.id) || [];
+  const mergeCandidates = libraryBooks.filter(
+    candidate =>
+      candidate.id !== book.id &&
+      !otherTitles.some(member => member.id === candidate.id),
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="h-5 w-5 text-gray-500" />
+          Work
+          {otherTitles.length > 0 && (
+            <Badge variant="secondary">{otherTitles.length + 1} titles</Badge>
+          )}
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Other books in your library that are the same work, such as a retitled
+          or revised edition.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {otherTitles.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Not linked to any other book yet.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {otherTitles.map(member => (
+              <div
+                key={member.id}
+                className="flex items-center justify-between gap-3 rounded border p-2 text-sm"
+              >
+                <Link
+                  href={`/books/${member.id}`}
+                  className="min-w-0 truncate font-medium text-gray-900 hover:underline"
+                >
+                  {member.title}
+                  <span className="font-normal text-gray-600">
+                    {' '}
+                    · {member.author}
+                  </span>
+                </Link>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => splitBook(member.id)}
+                  disabled={pending !== null}
+                >
+                  {pending === member.id ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Scissors className="mr-2 h-4 w-4" />
+                  )}
+                  Not the same work
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {mergeCandidates.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={mergeTarget} onValueChange={setMergeTarget}>
+              <SelectTrigger className="w-72">
+                <SelectValue placeholder="Same work as…" />
+              </SelectTrigger>
+              <SelectContent>
+                {mergeCandidates.map(candidate => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {candidate.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={mergeBooks}
+              disabled={!mergeTarget || pending !== null}
+            >
+              {pending === 'merge' && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Merge into one work
+            </Button>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
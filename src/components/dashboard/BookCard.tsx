@@ -15,6 +15,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { SimplifiedBook } from '@/lib/types/book';
+import { formatSeriesLabel } from '@/lib/utils/series';
 
 interface BookCardProps {
   book: SimplifiedBook;
@@ -118,6 +119,15 @@ export function BookCard({ book, onBookDeleted }: BookCardProps) {
                 </h3>
                 <p className="mb-3 text-base text-gray-600">by {book.author}</p>
 
+                {book.series && (
+                  <p className="mb-3 text-sm font-medium text-blue-700">
+                    {formatSeriesLabel(
+                      book.series.name,
+                      book.series.series_number,
+                    )}
+                  </p>
+                )}
+
                 {/* Edition Info */}
                 {primaryEdition && (
                   <p className="mb-3 text-sm text-gray-500">
@@ -1,14 +1,84 @@
 'use client';
 
 import { useUser } from '@clerk/nextjs';
+import { Layers } from 'lucide-react';
 import { useState } from 'react';
 
 import { AddBookDialog } from '@/components/book-management/AddBookDialog';
+import { CsvImportDialog } from '@/components/book-management/CsvImportDialog';
+import { IsbnBatchDialog } from '@/components/book-management/IsbnBatchDialog';
+import { LibraryExportMenu } from '@/components/book-management/LibraryExportMenu';
+import { LibraryRestoreDialog } from '@/components/book-management/LibraryRestoreDialog';
+import { OnixImportDialog } from '@/components/book-management/OnixImportDialog';
 import { Button } from '@/components/ui/button';
 import { SimplifiedBook } from '@/lib/types/book';
+import { groupBySeries } from '@/lib/utils/series';
 
 import { BookCard } from './BookCard';
 
+/**
+ * Books grouped under their series, followed by books not in a series
+ */
+function SeriesGroupedBooks({
+  books,
+  onBookDeleted,
+}: {
+  books: SimplifiedBook[];
+  onBookDeleted?: () => void;
+}) {
+  const { groups, standalone } = groupBySeries(books, book =>
+    book.series
+      ? {
+          name: book.series.name,
+          number: book.series.series_number,
+          order: book.series.reading_order,
+        }
+      : null,
+  );
+
+  return (
+    <div className="space-y-8">
+      {groups.map(group => (
+        <section key={group.name} className="space-y-3">
+          <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <Layers className="h-5 w-5 text-blue-600" />
+            {group.name}
+            <span className="text-sm font-normal text-gray-500">
+              {group.books.length} {group.books.length === 1 ? 'book' : 'books'}
+            </span>
+          </h3>
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            {group.books.map(book => (
+              <BookCard
+                key={book.id}
+                book={book}
+                onBookDeleted={onBookDeleted}
+              />
+            ))}
+          </div>
+        </section>
+      ))}
+
+      {standalone.length > 0 && (
+        <section className="space-y-3">
+          {groups.length > 0 && (
+            <h3 className="text-lg font-semibold text-gray-900">Other books</h3>
+          )}
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            {standalone.map(book => (
+              <BookCard
+                key={book.id}
+                book={book}
+                onBookDeleted={onBookDeleted}
+              />
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
+
 interface BookLibraryGridProps {
   books: SimplifiedBook[];
   isLoading?: boolean;
@@ -22,6 +92,10 @@ function BookLibraryGridContent({
   onRefresh,
 }: BookLibraryGridProps) {
   const [addDialogOpen, setAddDialogOpen] = useState(false);
+  const [onixDialogOpen, setOnixDialogOpen] = useState(false);
+  const [csvDialogOpen, setCsvDialogOpen] = useState(false);
+  const [isbnBatchDialogOpen, setIsbnBatchDialogOpen] = useState(false);
+  const [restoreDialogOpen, setRestoreDialogOpen] = useState(false);
   const { user } = useUser();
 
   const handleBookAdded = () => {
@@ -87,6 +161,36 @@ function BookLibraryGridContent({
               Add Your First Book
             </Button>
           </AddBookDialog>
+          <div className="mt-2 flex gap-2">
+            <IsbnBatchDialog
+              isOpen={isbnBatchDialogOpen}
+              onOpenChange={setIsbnBatchDialogOpen}
+              onAdded={handleBookAdded}
+            >
+              <Button variant="link">Paste a list of ISBNs</Button>
+            </IsbnBatchDialog>
+            <CsvImportDialog
+              isOpen={csvDialogOpen}
+              onOpenChange={setCsvDialogOpen}
+              onImported={handleBookAdded}
+            >
+              <Button variant="link">Import from CSV</Button>
+            </CsvImportDialog>
+            <OnixImportDialog
+              isOpen={onixDialogOpen}
+              onOpenChange={setOnixDialogOpen}
+              onImported={handleBookAdded}
+            >
+              <Button variant="link">Import ONIX file</Button>
+            </OnixImportDialog>
+            <LibraryRestoreDialog
+              isOpen={restoreDialogOpen}
+              onOpenChange={setRestoreDialogOpen}
+              onRestored={handleBookAdded}
+            >
+              <Button variant="link">Restore from backup</Button>
+            </LibraryRestoreDialog>
+          </div>
         </div>
       </div>
     );
@@ -99,23 +203,50 @@ function BookLibraryGridContent({
         <div className="text-sm text-gray-500">
           {books.length} {books.length === 1 ? 'book' : 'books'}
         </div>
-        <AddBookDialog
-          isOpen={addDialogOpen}
-          onOpenChange={setAddDialogOpen}
-          onBookAdded={handleBookAdded}
-          userId={user?.id}
-          firstName={user?.firstName ?? undefined}
-          lastName={user?.lastName ?? undefined}
-        >
-          <Button onClick={() => setAddDialogOpen(true)}>Add Book</Button>
-        </AddBookDialog>
+        <div className="flex gap-2">
+          <IsbnBatchDialog
+            isOpen={isbnBatchDialogOpen}
+            onOpenChange={setIsbnBatchDialogOpen}
+            onAdded={handleBookAdded}
+          >
+            <Button variant="outline">Paste ISBNs</Button>
+          </IsbnBatchDialog>
+          <CsvImportDialog
+            isOpen={csvDialogOpen}
+            onOpenChange={setCsvDialogOpen}
+            onImported={handleBookAdded}
+          >
+            <Button variant="outline">Import CSV</Button>
+          </CsvImportDialog>
+          <OnixImportDialog
+            isOpen={onixDialogOpen}
+            onOpenChange={setOnixDialogOpen}
+            onImported={handleBookAdded}
+          >
+            <Button variant="outline">Import ONIX</Button>
+          </OnixImportDialog>
+          <LibraryRestoreDialog
+            isOpen={restoreDialogOpen}
+            onOpenChange={setRestoreDialogOpen}
+            onRestored={handleBookAdded}
+          >
+            <Button variant="outline">Restore</Button>
+          </LibraryRestoreDialog>
+          <LibraryExportMenu />
+          <AddBookDialog
+            isOpen={addDialogOpen}
+            onOpenChange={setAddDialogOpen}
+            onBookAdded={handleBookAdded}
+            userId={user?.id}
+            firstName={user?.firstName ?? undefined}
+            lastName={user?.lastName ?? undefined}
+          >
+            <Button onClick={() => setAddDialogOpen(true)}>Add Book</Button>
+          </AddBookDialog>
+        </div>
       </div>
 
-      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
-        {books.map(book => (
-          <BookCard key={book.id} book={book} onBookDeleted={onRefresh} />
-        ))}
-      </div>
+      <SeriesGroupedBooks books={books} onBookDeleted={onRefresh} />
     </div>
   );
 }
@@ -188,11 +319,7 @@ export function BookLibraryGrid({
           <Button disabled>Add Book</Button>
         </div>
 
-        <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
-          {books.map(book => (
-            <BookCard key={book.id} book={book} />
-          ))}
-        </div>
+        <SeriesGroupedBooks books={books} />
       </div>
     );
   }
@@ -0,0 +1,142 @@
+'use client';
+
+import { formatDistanceToNow } from 'date-fns';
+import { BellDot, CheckCheck } from 'lucide-react';
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  BookChangeEvent,
+  DiscoveredBinding,
+} from '@/lib/types/metadata-refresh';
+import { PROVENANCE_SOURCE_LABELS } from '@/lib/utils/provenance';
+
+const formatValue = (field: string | null | undefined, value: unknown) => {
+  if (value === null || value === undefined || value === '') return 'none';
+  if (field === 'price') return `$${Number(value).toFixed(2)}`;
+  if (field === 'description') return 'a new description';
+  return String(value);
+};
+
+/**
+ * One-line summary of a change, e.g. "pages changed from 240 to 256"
+ */
+const describeChange = (change: BookChangeEvent): string => {
+  const discovered = change.new_value as DiscoveredBinding | null;
+
+  switch (change.change_type) {
+    case 'cover_changed':
+      return 'New cover image';
+    case 'price_changed':
+      return `Price changed from ${formatValue('price', change.old_value)} to ${formatValue('price', change.new_value)}`;
+    case 'binding_discovered':
+      return `New format found: ${discovered?.binding || 'unknown format'} (ISBN ${discovered?.isbn})`;
+    case 'edition_discovered':
+      return `New edition found: edition ${discovered?.edition_number}${discovered?.year ? ` (${discovered.year})` : ''}, ISBN ${discovered?.isbn}`;
+    default:
+      return change.field === 'description'
+        ? 'Description updated'
+        : `${change.field} changed from ${formatValue(change.field, change.old_value)} to ${formatValue(change.field, change.new_value)}`;
+  }
+};
+
+export function WhatChangedFeed() {
+  const [changes, setChanges] = useState<BookChangeEvent[]>([]);
+  const [unread, setUnread] = useState(0);
+
+  useEffect(() => {
+    const fetchChanges = async () => {
+      try {
+        const response = await fetch('/api/books/changes?limit=10');
+        if (!response.ok) return;
+
+        const data = await response.json();
+        setChanges(data.data.changes);
+        setUnread(data.data.unread);
+      } catch {
+        // The feed is optional; the dashboard works without it
+      }
+    };
+
+    fetchChanges();
+  }, []);
+
+  const handleMarkAllRead = async () => {
+    const response = await fetch('/api/books/changes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({}),
+    });
+
+    if (response.ok) {
+      const readAt = new Date().toISOString();
+      setChanges(current =>
+        current.map(change => ({
+          ...change,
+          read_at: change.read_at || readAt,
+        })),
+      );
+      setUnread(0);
+    }
+  };
+
+  if (changes.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <BellDot className="h-5 w-5" />
+          What changed
+          {unread > 0 && <Badge variant="secondary">{unread} new</Badge>}
+        </CardTitle>
+        {unread > 0 && (
+          <Button variant="ghost" size="sm" onClick={handleMarkAllRead}>
+            <CheckCheck className="mr-2 h-4 w-4" />
+            Mark all read
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y divide-gray-100">
+          {changes.map(change => (
+            <li
+              key={change.id}
+              className={`flex items-start justify-between gap-4 py-2 text-sm ${
+                change.read_at ? 'text-gray-500' : 'text-gray-900'
+              }`}
+            >
+              <div className="min-w-0">
+                <Link
+                  href={`/books/${change.book_id}`}
+                  className="font-medium hover:underline"
+                >
+                  {change.book?.title || 'Book'}
+                </Link>
+                <p className="truncate">{describeChange(change)}</p>
+              </div>
+              <div className="flex-shrink-0 text-right text-xs text-gray-500">
+                <p>
+                  {formatDistanceToNow(new Date(change.created_at), {
+                    addSuffix: true,
+                  })}
+                </p>
+                {change.source && (
+                  <p>
+                    via{' '}
+                    {PROVENANCE_SOURCE_LABELS[change.source] || change.source}
+                  </p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,259 @@
+'use client';
+
+import { Edit, Globe, Loader2, Plus, Trash2, Users } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AuthorAlias, AuthorAliasScope } from '@/lib/types/author-alias';
+
+const parseAuthorList = (value: string) =>
+  value
+    .split(';')
+    .map(name => name.trim())
+    .filter(Boolean);
+
+export function AuthorAliasManager() {
+  const [aliases, setAliases] = useState<AuthorAlias[]>([]);
+  const [canManageGlobal, setCanManageGlobal] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [alias, setAlias] = useState('');
+  const [canonicalAuthors, setCanonicalAuthors] = useState('');
+  const [scope, setScope] = useState<AuthorAliasScope>('user');
+
+  const loadAliases = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/author-aliases');
+      if (!response.ok) {
+        throw new Error('Failed to load author aliases');
+      }
+      const data = await response.json();
+      setAliases(data.data.aliases);
+      setCanManageGlobal(data.data.canManageGlobal);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load aliases');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAliases();
+  }, [loadAliases]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setAlias('');
+    setCanonicalAuthors('');
+    setScope('user');
+  };
+
+  const handleEdit = (entry: AuthorAlias) => {
+    setEditingId(entry.id);
+    setAlias(entry.alias);
+    setCanonicalAuthors(entry.canonical_authors.join('; '));
+    setScope(entry.user_id === null ? 'global' : 'user');
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    const authors = parseAuthorList(canonicalAuthors);
+    if (!alias.trim() || authors.length === 0) {
+      setError('Enter an alias and at least one canonical author');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        editingId ? `/api/author-aliases/${editingId}` : '/api/author-aliases',
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            alias: alias.trim(),
+            canonical_authors: authors,
+            ...(!editingId && { scope }),
+          }),
+        },
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error?.message || 'Failed to save alias');
+      }
+
+      resetForm();
+      await loadAliases();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save alias');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (aliasId: string) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/author-aliases/${aliasId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error?.message || 'Failed to delete alias');
+      }
+
+      if (editingId === aliasId) {
+        resetForm();
+      }
+      await loadAliases();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete alias');
+    }
+  };
+
+  const canModify = (entry: AuthorAlias) =>
+    entry.user_id !== null || canManageGlobal;
+
+  return (
+    <div className="space-y-4">
+      {/* Add / edit form */}
+      <div className="grid gap-3 md:grid-cols-[1fr_1fr_auto_auto]">
+        <Input
+          value={alias}
+          onChange={e => setAlias(e.target.value)}
+          placeholder='Variant, e.g. "Amy Batchelor Brad Feld"'
+          disabled={isSaving}
+          maxLength={500}
+        />
+        <Input
+          value={canonicalAuthors}
+          onChange={e => setCanonicalAuthors(e.target.value)}
+          placeholder="Authors, separated by ;"
+          disabled={isSaving}
+        />
+        {canManageGlobal && !editingId ? (
+          <Select
+            value={scope}
+            onValueChange={value => setScope(value as AuthorAliasScope)}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="user">Just me</SelectItem>
+              <SelectItem value="global">Global</SelectItem>
+            </SelectContent>
+          </Select>
+        ) : (
+          <div />
+        )}
+        <div className="flex gap-2">
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Plus className="mr-2 h-4 w-4" />
+            )}
+            {editingId ? 'Save' : 'Add Alias'}
+          </Button>
+          {editingId && (
+            <Button variant="outline" onClick={resetForm} disabled={isSaving}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {/* Alias list */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6 text-gray-600">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          Loading aliases...
+        </div>
+      ) : aliases.length === 0 ? (
+        <p className="py-6 text-center text-gray-600">
+          No author aliases yet. Add one when search results list co-authors as
+          a single name.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Variant</TableHead>
+              <TableHead>Canonical Authors</TableHead>
+              <TableHead>Scope</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {aliases.map(entry => (
+              <TableRow key={entry.id}>
+                <TableCell className="font-medium">{entry.alias}</TableCell>
+                <TableCell>{entry.canonical_authors.join(', ')}</TableCell>
+                <TableCell>
+                  {entry.user_id === null ? (
+                    <Badge variant="secondary" className="gap-1">
+                      <Globe className="h-3 w-3" />
+                      Global
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline" className="gap-1">
+                      <Users className="h-3 w-3" />
+                      Personal
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  {canModify(entry) && (
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleEdit(entry)}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(entry.id)}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import {
   BarChart3,
   Shield,
   Activity,
+  Database,
 } from 'lucide-react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
@@ -92,6 +93,12 @@ const navigationItems: NavigationItem[] = [
         icon: Activity,
         adminOnly: true,
       },
+      {
+        name: 'Metadata Providers',
+        href: '/admin/providers',
+        icon: Database,
+        adminOnly: true,
+      },
       {
         name: 'Activity Log',
         href: '/admin/activity',
@@ -23,6 +23,8 @@ export const API_CONFIG = {
     RETRY_DELAY: 500, // Reduced from 1000ms
     TIMEOUT: 4000, // Reduced from 10000ms (4 seconds)
     TIMEOUT_FALLBACK: 8000, // Longer timeout for fallback operations
+    BULK_MAX_ISBNS: 100, // ISBNs per POST /books request on the basic plan
+    BULK_TIMEOUT: 20000, // Per POST /books request, rate-limiter wait included
   },
 
   GOOGLE_BOOKS: {
@@ -61,8 +63,55 @@ export const API_CONFIG = {
     TIMEOUT: 3500, // 3.5 seconds
     TIMEOUT_FALLBACK: 7000,
   },
+
+  OPEN_LIBRARY: {
+    BASE_URL: 'https://openlibrary.org',
+    COVERS_URL: 'https://covers.openlibrary.org',
+    ENDPOINTS: {
+      SEARCH: '/search.json',
+    },
+    RATE_LIMIT: {
+      requestsPerMinute: 60, // Volunteer-run service, keep request volume modest
+      requestsPerDay: 20000,
+      burstLimit: 10,
+    },
+    CACHE_TTL: 60 * 60 * 24, // 24 hours (catalog records change rarely)
+    RETRY_ATTEMPTS: 1,
+    RETRY_DELAY: 400,
+    TIMEOUT: 4000,
+    TIMEOUT_FALLBACK: 8000,
+  },
 } as const;
 
+// Default metadata provider registry settings (admins can override these).
+// Priority: lower runs first and wins when results are merged.
+export const METADATA_PROVIDER_DEFAULTS = {
+  'isbn-db': {
+    enabled: true,
+    priority: 10,
+    timeoutMs: API_CONFIG.ISBN_DB.TIMEOUT_FALLBACK,
+  },
+  'google-books': {
+    enabled: true,
+    priority: 20,
+    timeoutMs: API_CONFIG.GOOGLE_BOOKS.TIMEOUT_FALLBACK,
+  },
+  'open-library': {
+    enabled: true,
+    priority: 30,
+    timeoutMs: API_CONFIG.OPEN_LIBRARY.TIMEOUT_FALLBACK,
+  },
+  itunes: {
+    enabled: true,
+    priority: 40,
+    timeoutMs: API_CONFIG.ITUNES_SEARCH.TIMEOUT_FALLBACK,
+  },
+} as const;
+
+// Per-ISBN lookups in flight at once for providers without a bulk endpoint,
+// so a batch of ISBNs doesn't turn into a burst of parallel requests
+export const ISBN_LOOKUP_CONCURRENCY = 5;
+
 // Common HTTP status codes
 export const HTTP_STATUS = {
   OK: 200,
@@ -122,6 +171,8 @@ export const CACHE_KEYS = {
   GOOGLE_BOOKS_SEARCH: 'google_books:search:',
   ITUNES_SEARCH: 'itunes:search:',
   ITUNES_LOOKUP: 'itunes:lookup:',
+  OPEN_LIBRARY_SEARCH: 'open_library:search:',
+  OPEN_LIBRARY_ISBN: 'open_library:isbn:',
   BOOK_HIERARCHY: 'book_hierarchy:',
   AUTHOR_BOOKS: 'author_books:',
 } as const;
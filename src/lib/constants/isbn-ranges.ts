@@ -0,0 +1,244 @@
+// ISBN Range Constants
+// Taken from the ISBN International range message (RangeMessage.xml).
+// Every range is [from, to, length] over the seven digits that follow the
+// element before it, padded with zeros when fewer than seven remain.
+// Registrant ranges cover the groups most books in this app come from;
+// other groups still resolve to an agency but are not hyphenated.
+
+export type IsbnRange = [from: string, to: string, length: number];
+
+export interface IsbnRegistrationGroup {
+  agency: string; // Country, region or language area the group serves
+  language?: string; // ISO 639-1 code, for groups tied to one language
+  registrants?: IsbnRange[];
+}
+
+// Length of the registration group element after each EAN prefix
+export const ISBN_GROUP_RANGES: Record<string, IsbnRange[]> = {
+  '978': [
+    ['0000000', '5999999', 1],
+    ['6000000', '6499999', 3],
+    ['6500000', '6599999', 2],
+    ['7000000', '7999999', 1],
+    ['8000000', '9499999', 2],
+    ['9500000', '9899999', 3],
+    ['9900000', '9989999', 4],
+    ['9990000', '9999999', 5],
+  ],
+  '979': [
+    ['1000000', '1399999', 2],
+    ['8000000', '8999999', 1],
+  ],
+};
+
+// Keyed by "<prefix>-<group>"
+export const ISBN_REGISTRATION_GROUPS: Record<string, IsbnRegistrationGroup> = {
+  '978-0': {
+    agency: 'English language',
+    language: 'en',
+    registrants: [
+      ['0000000', '1999999', 2],
+      ['2000000', '2279999', 3],
+      ['2280000', '2289999', 4],
+      ['2290000', '6479999', 3],
+      ['6480000', '6489999', 7],
+      ['6490000', '6999999', 3],
+      ['7000000', '8499999', 4],
+      ['8500000', '8999999', 5],
+      ['9000000', '9499999', 6],
+      ['9500000', '9999999', 7],
+    ],
+  },
+  '978-1': {
+    agency: 'English language',
+    language: 'en',
+    registrants: [
+      ['0000000', '0999999', 2],
+      ['1000000', '3999999', 3],
+      ['4000000', '5499999', 4],
+      ['5500000', '8697999', 5],
+      ['8698000', '9729999', 6],
+      ['9730000', '9877999', 4],
+      ['9878000', '9989999', 6],
+      ['9990000', '9999999', 7],
+    ],
+  },
+  '978-2': {
+    agency: 'French language',
+    language: 'fr',
+    registrants: [
+      ['0000000', '1999999', 2],
+      ['2000000', '3499999', 3],
+      ['3500000', '3999999', 5],
+      ['4000000', '6999999', 3],
+      ['7000000', '8399999', 4],
+      ['8400000', '8999999', 5],
+      ['9000000', '9197999', 6],
+      ['9198000', '9198099', 5],
+      ['9198100', '9199429', 6],
+      ['9199430', '9199689', 7],
+      ['9199690', '9199999', 6],
+      ['9200000', '9499999', 5],
+      ['9500000', '9999999', 6],
+    ],
+  },
+  '978-3': {
+    agency: 'German language',
+    language: 'de',
+    registrants: [
+      ['0000000', '0299999', 2],
+      ['0300000', '0339999', 3],
+      ['0340000', '0369999', 4],
+      ['0370000', '0399999', 5],
+      ['0400000', '1999999', 2],
+      ['2000000', '6999999', 3],
+      ['7000000', '8499999', 4],
+      ['8500000', '8999999', 5],
+      ['9000000', '9499999', 6],
+      ['9500000', '9539999', 7],
+      ['9540000', '9699999', 5],
+      ['9700000', '9849999', 7],
+      ['9850000', '9999999', 5],
+    ],
+  },
+  '978-4': {
+    agency: 'Japan',
+    language: 'ja',
+    registrants: [
+      ['0000000', '1999999', 2],
+      ['2000000', '6999999', 3],
+      ['7000000', '8499999', 4],
+      ['8500000', '8999999', 5],
+      ['9000000', '9499999', 6],
+      ['9500000', '9999999', 7],
+    ],
+  },
+  '978-5': { agency: 'former U.S.S.R', language: 'ru' },
+  '978-7': {
+    agency: 'China, People’s Republic',
+    language: 'zh',
+    registrants: [
+      ['0000000', '0999999', 2],
+      ['1000000', '4999999', 3],
+      ['5000000', '7999999', 4],
+      ['8000000', '8999999', 5],
+      ['9000000', '9999999', 6],
+    ],
+  },
+  '978-65': { agency: 'Brazil', language: 'pt' },
+  '978-80': { agency: 'former Czechoslovakia' },
+  '978-81': { agency: 'India' },
+  '978-82': { agency: 'Norway', language: 'no' },
+  '978-83': { agency: 'Poland', language: 'pl' },
+  '978-84': { agency: 'Spain', language: 'es' },
+  '978-85': { agency: 'Brazil', language: 'pt' },
+  '978-86': { agency: 'former Yugoslavia' },
+  '978-87': { agency: 'Denmark', language: 'da' },
+  '978-88': { agency: 'Italy', language: 'it' },
+  '978-89': { agency: 'Korea, Republic', language: 'ko' },
+  '978-90': { agency: 'Netherlands', language: 'nl' },
+  '978-91': { agency: 'Sweden', language: 'sv' },
+  '978-92': { agency: 'International NGO Publishers and EU Organizations' },
+  '978-93': { agency: 'India' },
+  '978-94': { agency: 'Netherlands', language: 'nl' },
+  '978-600': { agency: 'Iran' },
+  '978-601': { agency: 'Kazakhstan' },
+  '978-602': { agency: 'Indonesia' },
+  '978-603': { agency: 'Saudi Arabia' },
+  '978-604': { agency: 'Vietnam' },
+  '978-605': { agency: 'Turkey', language: 'tr' },
+  '978-606': { agency: 'Romania', language: 'ro' },
+  '978-607': { agency: 'Mexico', language: 'es' },
+  '978-608': { agency: 'North Macedonia' },
+  '978-609': { agency: 'Lithuania' },
+  '978-611': { agency: 'Thailand' },
+  '978-612': { agency: 'Peru', language: 'es' },
+  '978-613': { agency: 'Mauritius' },
+  '978-614': { agency: 'Lebanon' },
+  '978-615': { agency: 'Hungary', language: 'hu' },
+  '978-616': { agency: 'Thailand' },
+  '978-617': { agency: 'Ukraine' },
+  '978-618': { agency: 'Greece', language: 'el' },
+  '978-619': { agency: 'Bulgaria' },
+  '978-620': { agency: 'Mauritius' },
+  '978-621': { agency: 'Philippines' },
+  '978-622': { agency: 'Iran' },
+  '978-623': { agency: 'Indonesia' },
+  '978-624': { agency: 'Sri Lanka' },
+  '978-625': { agency: 'Turkey', language: 'tr' },
+  '978-626': { agency: 'Taiwan' },
+  '978-950': { agency: 'Argentina', language: 'es' },
+  '978-951': { agency: 'Finland' },
+  '978-952': { agency: 'Finland' },
+  '978-953': { agency: 'Croatia' },
+  '978-954': { agency: 'Bulgaria' },
+  '978-955': { agency: 'Sri Lanka' },
+  '978-956': { agency: 'Chile', language: 'es' },
+  '978-957': { agency: 'Taiwan' },
+  '978-958': { agency: 'Colombia', language: 'es' },
+  '978-959': { agency: 'Cuba', language: 'es' },
+  '978-960': { agency: 'Greece', language: 'el' },
+  '978-961': { agency: 'Slovenia' },
+  '978-962': { agency: 'Hong Kong, China' },
+  '978-963': { agency: 'Hungary', language: 'hu' },
+  '978-964': { agency: 'Iran' },
+  '978-965': { agency: 'Israel' },
+  '978-966': { agency: 'Ukraine' },
+  '978-967': { agency: 'Malaysia' },
+  '978-968': { agency: 'Mexico', language: 'es' },
+  '978-969': { agency: 'Pakistan' },
+  '978-970': { agency: 'Mexico', language: 'es' },
+  '978-971': { agency: 'Philippines' },
+  '978-972': { agency: 'Portugal', language: 'pt' },
+  '978-973': { agency: 'Romania', language: 'ro' },
+  '978-974': { agency: 'Thailand' },
+  '978-975': { agency: 'Turkey', language: 'tr' },
+  '978-976': { agency: 'Caribbean Community' },
+  '978-977': { agency: 'Egypt' },
+  '978-978': { agency: 'Nigeria' },
+  '978-979': { agency: 'Indonesia' },
+  '978-980': { agency: 'Venezuela', language: 'es' },
+  '978-981': { agency: 'Singapore' },
+  '978-982': { agency: 'South Pacific' },
+  '978-983': { agency: 'Malaysia' },
+  '978-984': { agency: 'Bangladesh' },
+  '978-985': { agency: 'Belarus' },
+  '978-986': { agency: 'Taiwan' },
+  '978-987': { agency: 'Argentina', language: 'es' },
+  '978-988': { agency: 'Hong Kong, China' },
+  '978-989': { agency: 'Portugal', language: 'pt' },
+  '979-8': {
+    agency: 'United States',
+    language: 'en',
+    registrants: [
+      ['2000000', '2299999', 3],
+      ['3500000', '8849999', 4],
+      ['8850000', '8999999', 5],
+      ['9850000', '9899999', 7],
+    ],
+  },
+  '979-10': {
+    agency: 'France',
+    language: 'fr',
+    registrants: [
+      ['0000000', '1999999', 2],
+      ['2000000', '6999999', 3],
+      ['7000000', '8999999', 4],
+      ['9000000', '9759999', 5],
+      ['9760000', '9999999', 6],
+    ],
+  },
+  '979-11': {
+    agency: 'Korea, Republic',
+    language: 'ko',
+    registrants: [
+      ['0000000', '2499999', 2],
+      ['2500000', '5499999', 3],
+      ['5500000', '8499999', 4],
+      ['8500000', '9499999', 5],
+      ['9500000', '9999999', 6],
+    ],
+  },
+  '979-12': { agency: 'Italy', language: 'it' },
+  '979-13': { agency: 'Spain', language: 'es' },
+};
@@ -4,7 +4,12 @@ import { createClient } from '@/lib/supabase/server';
 export interface AuditLogEntry {
   id?: string;
   action_type: string;
-  action_category: 'user_management' | 'system' | 'security' | 'configuration';
+  action_category:
+    | 'user_management'
+    | 'system'
+    | 'security'
+    | 'configuration'
+    | 'library';
   action_description: string;
   performed_by_user_id: string;
   performed_by_email?: string;
@@ -0,0 +1,185 @@
+/**
+ * Author Alias Service
+ * Manages the per-user and global author alias registry
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import {
+  AuthorAlias,
+  CreateAuthorAliasRequest,
+  UpdateAuthorAliasRequest,
+} from '@/lib/types/author-alias';
+import {
+  AuthorAliasRegistry,
+  normalizeAliasKey,
+} from '@/lib/utils/author-alias-registry';
+
+export class AuthorAliasService {
+  private static _supabase: ReturnType<typeof createServiceClient> | null =
+    null;
+
+  private static getSupabase() {
+    if (!this._supabase) {
+      this._supabase = createServiceClient();
+    }
+    return this._supabase;
+  }
+
+  /**
+   * Get a user's own aliases followed by global aliases
+   */
+  static async getAliasesForUser(userId: string): Promise<AuthorAlias[]> {
+    const { data, error } = await this.getSupabase()
+      .from('author_aliases')
+      .select('*')
+      .or(`user_id.eq.${userId},user_id.is.null`)
+      .order('alias', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch author aliases: ${error.message}`);
+    }
+
+    const aliases = (data || []) as AuthorAlias[];
+
+    // User entries first so they override globals with the same alias
+    return [
+      ...aliases.filter(alias => alias.user_id !== null),
+      ...aliases.filter(alias => alias.user_id === null),
+    ];
+  }
+
+  /**
+   * Get only the global aliases
+   */
+  static async getGlobalAliases(): Promise<AuthorAlias[]> {
+    const { data, error } = await this.getSupabase()
+      .from('author_aliases')
+      .select('*')
+      .is('user_id', null)
+      .order('alias', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch author aliases: ${error.message}`);
+    }
+
+    return (data || []) as AuthorAlias[];
+  }
+
+  /**
+   * Build a registry for the search pipeline.
+   * Falls back to global aliases for anonymous callers and never throws,
+   * so a registry outage degrades to plain author matching.
+   */
+  static async getRegistry(
+    userId?: string | null,
+  ): Promise<AuthorAliasRegistry> {
+    try {
+      const aliases = userId
+        ? await this.getAliasesForUser(userId)
+        : await this.getGlobalAliases();
+      return new AuthorAliasRegistry(aliases);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Failed to load author alias registry:', error);
+      return AuthorAliasRegistry.empty();
+    }
+  }
+
+  /**
+   * Create an alias. Pass userId null to create a global alias.
+   */
+  static async createAlias(
+    userId: string | null,
+    createdBy: string,
+    request: CreateAuthorAliasRequest,
+  ): Promise<AuthorAlias> {
+    const { data, error } = await this.getSupabase()
+      .from('author_aliases')
+      .insert({
+        user_id: userId,
+        alias: request.alias.trim(),
+        alias_normalized: normalizeAliasKey(request.alias),
+        canonical_authors: request.canonical_authors.map(name => name.trim()),
+        notes: request.notes || null,
+        created_by: createdBy,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('An alias with this name already exists');
+      }
+      throw new Error(`Failed to create author alias: ${error.message}`);
+    }
+
+    return data as AuthorAlias;
+  }
+
+  /**
+   * Get a single alias by ID
+   */
+  static async getAliasById(aliasId: string): Promise<AuthorAlias | null> {
+    const { data, error } = await this.getSupabase()
+      .from('author_aliases')
+      .select('*')
+      .eq('id', aliasId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      throw new Error(`Failed to fetch author alias: ${error.message}`);
+    }
+
+    return data as AuthorAlias;
+  }
+
+  /**
+   * Update an alias
+   */
+  static async updateAlias(
+    aliasId: string,
+    updates: UpdateAuthorAliasRequest,
+  ): Promise<AuthorAlias> {
+    const { data, error } = await this.getSupabase()
+      .from('author_aliases')
+      .update({
+        ...(updates.alias !== undefined && {
+          alias: updates.alias.trim(),
+          alias_normalized: normalizeAliasKey(updates.alias),
+        }),
+        ...(updates.canonical_authors !== undefined && {
+          canonical_authors: updates.canonical_authors.map(name => name.trim()),
+        }),
+        ...(updates.notes !== undefined && { notes: updates.notes }),
+      })
+      .eq('id', aliasId)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('An alias with this name already exists');
+      }
+      throw new Error(`Failed to update author alias: ${error.message}`);
+    }
+
+    return data as AuthorAlias;
+  }
+
+  /**
+   * Delete an alias
+   */
+  static async deleteAlias(aliasId: string): Promise<void> {
+    const { error } = await this.getSupabase()
+      .from('author_aliases')
+      .delete()
+      .eq('id', aliasId);
+
+    if (error) {
+      throw new Error(`Failed to delete author alias: ${error.message}`);
+    }
+  }
+}
@@ -1,7 +1,12 @@
 // Book Data Merger Service
 // Intelligently combines and deduplicates results from multiple book APIs
 
+import { MetadataProviderResult } from '../types/metadata-provider';
 import { UIBook } from '../types/ui-book';
+import { normalizeIsbn } from '../utils/isbn';
+import { collectConflicts } from '../utils/metadata-conflicts';
+import { mergeProvenance } from '../utils/provenance';
+import { detectSeries } from '../utils/series';
 
 import { GoogleBooksValidationService } from './google-books-validation.service';
 
@@ -10,20 +15,65 @@ export interface BookSearchResults {
   sources: {
     isbndb: number;
     googleBooks: number;
+    openLibrary: number;
+    total: number;
+    duplicatesRemoved: number;
+  };
+}
+
+export interface ProviderMergeResults {
+  books: UIBook[];
+  // Result count per provider ID, plus totals
+  sources: Record<string, number> & {
     total: number;
     duplicatesRemoved: number;
   };
 }
 
 export class BookDataMergerService {
+  /**
+   * Merge results from the metadata provider registry. Results arrive in
+   * priority order, so higher-priority providers are merged first.
+   * Results without ISBNs (e.g. iTunes audiobooks) are already complete and
+   * are appended as-is rather than deduplicated.
+   */
+  static mergeProviderResults(
+    results: MetadataProviderResult<UIBook[]>[],
+  ): ProviderMergeResults {
+    const mergeableBooks = results
+      .filter(result => result.providesIsbns)
+      .flatMap(result => result.data);
+    const isbnlessBooks = results
+      .filter(result => !result.providesIsbns)
+      .flatMap(result => result.data);
+
+    const deduplicatedBooks = this.deduplicateBooks(mergeableBooks);
+    const books = [
+      ...this.sortByRelevance(deduplicatedBooks),
+      ...isbnlessBooks,
+    ];
+
+    return {
+      books,
+      sources: {
+        ...Object.fromEntries(
+          results.map(result => [result.providerId, result.data.length]),
+        ),
+        total: books.length,
+        duplicatesRemoved: mergeableBooks.length - deduplicatedBooks.length,
+      },
+    };
+  }
+
   /**
    * Merge and deduplicate books from multiple sources
    */
   static mergeBookResults(
     isbndbBooks: UIBook[],
     googleBooksBooks: UIBook[],
+    openLibraryBooks: UIBook[] = [],
   ): BookSearchResults {
-    const allBooks = [...isbndbBooks, ...googleBooksBooks];
+    const allBooks = [...isbndbBooks, ...googleBooksBooks, ...openLibraryBooks];
     const initialCount = allBooks.length;
 
     // Deduplicate books using intelligent matching
@@ -38,6 +88,7 @@ export class BookDataMergerService {
       sources: {
         isbndb: isbndbBooks.length,
         googleBooks: googleBooksBooks.length,
+        openLibrary: openLibraryBooks.length,
         total: sortedBooks.length,
         duplicatesRemoved,
       },
@@ -71,7 +122,7 @@ export class BookDataMergerService {
   private static generateBookKey(book: UIBook): string {
     // Strategy 1: Use ISBN if available (most reliable)
     if (book.isbn) {
-      return `isbn:${this.normalizeIsbn(book.isbn)}`;
+      return `isbn:${normalizeIsbn(book.isbn)}`;
     }
 
     // Strategy 2: Use title + first author (normalized)
@@ -83,13 +134,6 @@ export class BookDataMergerService {
     return `title-author:${normalizedTitle}:${firstAuthor}`;
   }
 
-  /**
-   * Normalize ISBN for comparison (remove dashes, spaces)
-   */
-  private static normalizeIsbn(isbn: string): string {
-    return isbn.replace(/[-\s]/g, '').toLowerCase();
-  }
-
   /**
    * Normalize title for comparison
    */
@@ -186,16 +230,17 @@ export class BookDataMergerService {
       // Language: prefer non-empty
       language: book1.language || book2.language,
 
-      // Images: prefer Google Books images (typically better quality)
+      // Images: prefer non-ISBNDB images (typically better quality), but
+      // never drop a cover just because the preferred source has none
       image: !isBook1FromIsbndb
-        ? book1.image
+        ? book1.image || book2.image
         : !isBook2FromIsbndb
-          ? book2.image
+          ? book2.image || book1.image
           : book1.image || book2.image,
       thumbnail: !isBook1FromIsbndb
-        ? book1.thumbnail
+        ? book1.thumbnail || book2.thumbnail
         : !isBook2FromIsbndb
-          ? book2.thumbnail
+          ? book2.thumbnail || book1.thumbnail
           : book1.thumbnail || book2.thumbnail,
 
       // Binding: prefer ISBNDB (more specific)
@@ -205,10 +250,23 @@ export class BookDataMergerService {
           ? book2.binding || book1.binding
           : book1.binding || book2.binding,
 
+      // Series: Google Books has the number, titles often have the name
+      series: detectSeries([book1, book2]),
+
+      // Contributors: only iTunes has roles today, so keep whichever has them
+      contributors: book1.contributors || book2.contributors,
+
+      // Other editions of the same work: keep every one either source knows
+      related_isbns: this.mergeArrays(book1.related_isbns, book2.related_isbns),
+      other_isbns: this.mergeArrays(book1.other_isbns, book2.other_isbns),
+
       // Source tracking: keep both
       source: 'isbn-db', // Default to ISBNDB as primary
       data_source: book1.data_source || book2.data_source,
       googleBooksId: book1.googleBooksId || book2.googleBooksId,
+      openLibraryWorkId: book1.openLibraryWorkId || book2.openLibraryWorkId,
+      openLibraryEditionId:
+        book1.openLibraryEditionId || book2.openLibraryEditionId,
       external_id: book1.external_id || book2.external_id,
 
       // Timestamps: use most recent
@@ -216,7 +274,13 @@ export class BookDataMergerService {
       updated_at: book1.updated_at || book2.updated_at,
     };
 
-    return merged;
+    return {
+      ...merged,
+      // Record which book each chosen value came from, and keep the values
+      // that lost so the user can pick a different one later
+      provenance: mergeProvenance(merged, [book1, book2]),
+      conflicts: collectConflicts([book1, book2]),
+    };
   }
 
   /**
@@ -314,12 +378,17 @@ export class BookDataMergerService {
   }
 
   /**
-   * Validate books using Google Books API
+   * Validate books using Google Books API. Stops with the signal's reason
+   * once it aborts.
    */
-  static async validateBooks(books: UIBook[]): Promise<UIBook[]> {
+  static async validateBooks(
+    books: UIBook[],
+    signal?: AbortSignal,
+  ): Promise<UIBook[]> {
     const validatedBooks: UIBook[] = [];
 
     for (const book of books) {
+      signal?.throwIfAborted();
       try {
         const validation =
           await GoogleBooksValidationService.validateBookPublication(
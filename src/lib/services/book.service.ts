@@ -12,13 +12,42 @@ import {
   BookEditionInsert,
   BookBindingInsert,
 } from '@/lib/types/book';
+import { ContributorCredit } from '@/lib/types/contributor';
+import { ConflictField } from '@/lib/types/provenance';
 import { UIBook } from '@/lib/types/ui-book';
 import { getBookPrimaryCover } from '@/lib/utils/book-cover';
-
+import {
+  BINDING_ROLES,
+  getBookCredits,
+  splitAuthorString,
+  toAuthorString,
+} from '@/lib/utils/contributors';
+import { normalizeIsbn } from '@/lib/utils/isbn';
+import {
+  getOriginalLanguage,
+  normalizeLanguageCode,
+} from '@/lib/utils/languages';
+import {
+  CONFLICT_COLUMNS,
+  getRefreshUpdate,
+  keepMatchingOverrides,
+  toBindingValue,
+} from '@/lib/utils/metadata-conflicts';
+import { getBindingProvenance, markEditedFields } from '@/lib/utils/provenance';
+import { detectSeries } from '@/lib/utils/series';
+import { getRelatedIsbns } from '@/lib/utils/work-clustering';
+
+import { AuthorAliasService } from './author-alias.service';
+import {
+  BOOK_CONTRIBUTORS_SELECT,
+  ContributorService,
+} from './contributor.service';
+import { EditionCorrectionService } from './edition-correction.service';
 import {
   EditionDetectionService,
   EditionGroup,
 } from './edition-detection.service';
+import { SeriesService } from './series.service';
 
 export class BookService {
   private static _supabase: ReturnType<typeof createServiceClient> | null =
@@ -41,16 +70,24 @@ export class BookService {
     author: string,
     editionGroups: EditionGroup[],
     selectedEditionNumber?: number,
+    contributors: ContributorCredit[] = splitAuthorString(author),
   ): Promise<Book> {
     // Use the pre-grouped edition structure directly (no re-detection)
     // This preserves the exact search results that the user saw
 
+    // Pre-fill the series from provider data or titles like "(Book 3)"
+    const seriesFields = await SeriesService.resolveSeriesFields(
+      userId,
+      detectSeries(editionGroups.flatMap(group => group.books)),
+    );
+
     // Create book record
     const bookData: BookInsert = {
       user_id: userId,
       title,
       author,
       selected_edition_id: undefined, // Will be set after creating editions
+      ...seriesFields,
     };
 
     const { data: book, error: bookError } = await this.getSupabase()
@@ -63,6 +100,12 @@ export class BookService {
       throw new Error(`Failed to create book: ${bookError.message}`);
     }
 
+    // Book-level credits; narrators are saved on their bindings
+    const bookCredits = contributors.filter(
+      credit => !BINDING_ROLES.includes(credit.role),
+    );
+    await ContributorService.setBookContributors(book.id, bookCredits);
+
     // Create editions and bindings using the preserved structure
     const editions = await this.createEditionsWithBindings(
       book.id,
@@ -200,10 +243,60 @@ export class BookService {
       throw new Error(`Failed to update book: ${error.message}`);
     }
 
+    if (author.trim() !== book.author) {
+      await ContributorService.syncAuthorCredits(bookId, author.trim());
+    }
+
     // Return the updated book with full details
     return this.getBookWithDetails(bookId, userId) as Promise<Book>;
   }
 
+  /**
+   * Replace a book's credits, or one binding's. Book-level author credits
+   * also update the author string.
+   */
+  static async updateContributors(
+    bookId: string,
+    userId: string,
+    contributors: ContributorCredit[],
+    bindingId?: string,
+  ): Promise<Book> {
+    const book = await this.getBookById(bookId, userId);
+    if (!book) {
+      throw new Error('Book not found or access denied');
+    }
+
+    if (bindingId) {
+      const ownsBinding = book.editions.some(edition =>
+        edition.bindings.some(binding => binding.id === bindingId),
+      );
+      if (!ownsBinding) {
+        throw new Error('Binding not found or access denied');
+      }
+    }
+
+    await ContributorService.setBookContributors(
+      bookId,
+      contributors,
+      bindingId ?? null,
+    );
+
+    const author = toAuthorString(contributors);
+    if (!bindingId && author && author !== book.author) {
+      const { error } = await this.getSupabase()
+        .from('books')
+        .update({ author, updated_at: new Date().toISOString() })
+        .eq('id', bookId)
+        .eq('user_id', userId);
+
+      if (error) {
+        throw new Error(`Failed to update book author: ${error.message}`);
+      }
+    }
+
+    return this.getBookWithDetails(bookId, userId) as Promise<Book>;
+  }
+
   /**
    * Get user's books with editions and bindings
    */
@@ -213,6 +306,9 @@ export class BookService {
       .select(
         `
         *,
+        series:series!books_series_id_fkey (id, name),
+        work:works!books_work_id_fkey (id, title),
+        ${BOOK_CONTRIBUTORS_SELECT},
         editions:book_editions!book_editions_book_id_fkey (
           *,
           bindings:book_bindings!book_bindings_book_edition_id_fkey (*)
@@ -226,13 +322,7 @@ export class BookService {
       throw new Error(`Failed to fetch books: ${error.message}`);
     }
 
-    return books.map(book => ({
-      ...book,
-      editions: book.editions.map((edition: BookEdition) => ({
-        ...edition,
-        bindings: edition.bindings,
-      })),
-    }));
+    return books.map(book => ContributorService.attachToBook<Book>(book));
   }
 
   /**
@@ -248,6 +338,11 @@ export class BookService {
         author,
         created_at,
         selected_edition_id,
+        series_number,
+        reading_order,
+        work_id,
+        series:series!books_series_id_fkey (id, name),
+        ${BOOK_CONTRIBUTORS_SELECT},
         editions:book_editions!book_editions_book_id_fkey (
           id,
           edition_number,
@@ -289,6 +384,7 @@ export class BookService {
         title: book.title,
         author: book.author,
         created_at: book.created_at,
+        work_id: book.work_id,
         total_editions: totalEditions,
         total_books: totalBooks,
         primary_edition: primaryEdition
@@ -298,6 +394,13 @@ export class BookService {
             }
           : null,
         cover_image: coverImage || null,
+        series: book.series
+          ? {
+              ...book.series,
+              series_number: book.series_number,
+              reading_order: book.reading_order,
+            }
+          : null,
       };
     });
   }
@@ -411,6 +514,7 @@ export class BookService {
       .select(
         `
         *,
+        series:series!books_series_id_fkey (id, name),
         editions:book_editions!book_editions_book_id_fkey (
           *,
           bindings:book_bindings!book_bindings_book_edition_id_fkey (*)
@@ -428,13 +532,7 @@ export class BookService {
       throw new Error(`Failed to fetch book details: ${error.message}`);
     }
 
-    return {
-      ...book,
-      editions: book.editions.map((edition: BookEdition) => ({
-        ...edition,
-        bindings: edition.bindings || [],
-      })),
-    };
+    return ContributorService.attachToBook<Book>(book);
   }
 
   /**
@@ -478,7 +576,8 @@ export class BookService {
   }
 
   /**
-   * Add new editions to an existing primary book
+   * Add new editions, and new bindings of existing editions, to a primary
+   * book
    */
   static async addEditionsToBook(
     bookId: string,
@@ -492,18 +591,33 @@ export class BookService {
     }
 
     // Group new books by edition
-    const editionGroups = EditionDetectionService.groupByEdition(newBooks);
+    const [authorAliases, corrections] = await Promise.all([
+      AuthorAliasService.getRegistry(userId),
+      EditionCorrectionService.getRegistry(newBooks),
+    ]);
+    const editionGroups = EditionDetectionService.groupByEdition(newBooks, {
+      authorAliases,
+      corrections,
+    });
 
-    // Filter out editions that already exist
-    const existingEditionNumbers = existingBook.editions.map(
-      (e: BookEdition) => e.edition_number,
-    );
-    const newEditionGroups = editionGroups.filter(
-      group => !existingEditionNumbers.includes(group.edition_number),
+    // Filter out bindings that already exist; groups for an existing
+    // edition are attached to it by createEditionsWithBindings
+    const existingIsbns = new Set(
+      existingBook.editions.flatMap((e: BookEdition) =>
+        e.bindings.map(binding => normalizeIsbn(binding.isbn)),
+      ),
     );
+    const newEditionGroups = editionGroups
+      .map(group => ({
+        ...group,
+        books: group.books.filter(
+          book => !existingIsbns.has(normalizeIsbn(book.isbn13 || book.isbn)),
+        ),
+      }))
+      .filter(group => group.books.length > 0);
 
     if (newEditionGroups.length === 0) {
-      return []; // No new editions to add
+      return []; // Nothing new to add
     }
 
     // Create new editions
@@ -511,20 +625,68 @@ export class BookService {
   }
 
   /**
-   * Private method to create editions with their bindings
+   * The book's original language, judged from its saved editions together
+   * with the ones about to be added
+   */
+  private static async getOriginalLanguage(
+    bookId: string,
+    editionGroups: EditionGroup[],
+  ): Promise<string> {
+    const { data: savedEditions } = await this.getSupabase()
+      .from('book_editions')
+      .select('language, is_translation, publication_year, edition_number')
+      .eq('book_id', bookId);
+
+    return getOriginalLanguage([
+      ...((savedEditions || []) as Pick<
+        BookEdition,
+        'language' | 'is_translation' | 'publication_year' | 'edition_number'
+      >[]),
+      ...editionGroups.map(group => ({
+        language: group.translation?.language || this.getGroupLanguage(group),
+        is_translation: !!group.translation,
+        publication_year: group.publication_year,
+        edition_number: group.edition_number,
+      })),
+    ]);
+  }
+
+  private static getGroupLanguage(group: EditionGroup): string | undefined {
+    return (
+      group.books
+        .map(book => normalizeLanguageCode(book.language))
+        .find((language): language is string => !!language) || undefined
+    );
+  }
+
+  /**
+   * Create editions with their bindings, attaching bindings to an existing
+   * edition with the same language and number
    */
-  private static async createEditionsWithBindings(
+  static async createEditionsWithBindings(
     bookId: string,
     editionGroups: EditionGroup[],
   ): Promise<BookEdition[]> {
     const editions: BookEdition[] = [];
+    const originalLanguage = await this.getOriginalLanguage(
+      bookId,
+      editionGroups,
+    );
 
     for (const group of editionGroups) {
       // Create edition record
+      const language =
+        group.translation?.language ||
+        this.getGroupLanguage(group) ||
+        originalLanguage;
       const editionData: BookEditionInsert = {
         book_id: bookId,
         edition_number: group.edition_number,
         publication_year: group.publication_year,
+        language,
+        is_translation: language !== originalLanguage,
+        translated_title: group.translation?.translated_title,
+        territory: group.translation?.territory,
       };
 
       // Try to insert edition, but handle duplicates gracefully
@@ -544,6 +706,7 @@ export class BookService {
               .from('book_editions')
               .select('*')
               .eq('book_id', bookId)
+              .eq('language', editionData.language)
               .eq('edition_number', group.edition_number)
               .single();
 
@@ -561,25 +724,15 @@ export class BookService {
       }
 
       // Create bindings for this edition
-      const bindingData: BookBindingInsert[] = group.books.map(book => ({
-        book_edition_id: edition.id,
-        isbn: book.isbn13 || book.isbn,
-        binding_type: EditionDetectionService.normalizeBindingType(
-          book.print_type || book.binding,
-        ),
-        price: book.msrp ? parseFloat(book.msrp.toString()) : undefined,
-        publisher: book.publisher,
-        cover_image_url: book.image,
-        description: book.synopsis,
-        pages: book.pages ? parseInt(book.pages.toString()) : undefined,
-        language: book.language || 'en',
-      }));
+      const bindingData: BookBindingInsert[] = group.books.map(book =>
+        this.toBindingInsert(book, edition.id),
+      );
 
       // Try to insert bindings, handling duplicates gracefully
       const bindings: BookBinding[] = [];
 
       // Insert bindings one by one to handle duplicates individually
-      for (const binding of bindingData) {
+      for (const [index, binding] of bindingData.entries()) {
         const { data: insertedBinding, error: bindingError } =
           await this.getSupabase()
             .from('book_bindings')
@@ -602,13 +755,31 @@ export class BookService {
                 `Failed to fetch existing binding: ${fetchError.message}`,
               );
             }
-            bindings.push(existingBinding);
+
+            // Same binding added again: refresh it with the new data,
+            // leaving user-chosen values alone
+            bindings.push(
+              existingBinding.book_edition_id === edition.id
+                ? await this.refreshBinding(existingBinding, binding)
+                : existingBinding,
+            );
           } else {
             throw new Error(
               `Failed to create binding: ${bindingError.message}`,
             );
           }
         } else {
+          // Narrators belong to this binding, not the whole book
+          const bindingCredits = getBookCredits(group.books[index]).filter(
+            credit => BINDING_ROLES.includes(credit.role),
+          );
+          if (bindingCredits.length > 0) {
+            await ContributorService.setBookContributors(
+              bookId,
+              bindingCredits,
+              insertedBinding.id,
+            );
+          }
           bindings.push(insertedBinding);
         }
       }
@@ -622,6 +793,93 @@ export class BookService {
     return editions;
   }
 
+  /**
+   * Map a search result to a binding row
+   */
+  static toBindingInsert(book: UIBook, editionId: string): BookBindingInsert {
+    const binding: BookBindingInsert = {
+      book_edition_id: editionId,
+      isbn: normalizeIsbn(book.isbn13 || book.isbn) || undefined,
+      binding_type: EditionDetectionService.normalizeBindingType(
+        book.print_type || book.binding,
+      ),
+      price: book.msrp ? parseFloat(book.msrp.toString()) : undefined,
+      publisher: book.publisher,
+      cover_image_url: book.image,
+      description: book.synopsis,
+      pages: book.pages ? parseInt(book.pages.toString()) : undefined,
+      language: book.language || 'en',
+      // Work identifiers for clustering this book with others of the same work
+      open_library_work_id: book.openLibraryWorkId,
+      related_isbns: getRelatedIsbns(book),
+    };
+
+    // Keep the source of each stored field for auditing, and any values
+    // the providers disagreed on for the conflicts panel
+    return {
+      ...binding,
+      provenance: getBindingProvenance(book, binding),
+      metadata_conflicts: book.conflicts || {},
+      ...(book.overrides && { user_overrides: book.overrides }),
+    };
+  }
+
+  /**
+   * Apply freshly fetched data to a saved binding. Fields with a user
+   * override or a manual edit keep their value.
+   */
+  static async refreshBinding(
+    existing: BookBinding,
+    incoming: BookBindingInsert,
+  ): Promise<BookBinding> {
+    const update = {
+      ...getRefreshUpdate(existing, incoming),
+      ...this.getWorkIdentifierUpdate(existing, incoming),
+    };
+    if (Object.keys(update).length === 0) {
+      return existing;
+    }
+
+    const { data: refreshedBinding, error } = await this.getSupabase()
+      .from('book_bindings')
+      .update(update)
+      .eq('id', existing.id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to refresh binding: ${error.message}`);
+    }
+
+    return refreshedBinding;
+  }
+
+  /**
+   * Work identifiers a provider has supplied since the binding was saved.
+   * These are not user-editable, so fresh values simply fill the gaps.
+   */
+  private static getWorkIdentifierUpdate(
+    existing: BookBinding,
+    incoming: BookBindingInsert,
+  ): Partial<BookBindingInsert> {
+    const relatedIsbns = Array.from(
+      new Set([
+        ...(existing.related_isbns || []),
+        ...(incoming.related_isbns || []),
+      ]),
+    );
+
+    return {
+      ...(!existing.open_library_work_id &&
+        incoming.open_library_work_id && {
+          open_library_work_id: incoming.open_library_work_id,
+        }),
+      ...(relatedIsbns.length > (existing.related_isbns || []).length && {
+        related_isbns: relatedIsbns,
+      }),
+    };
+  }
+
   /**
    * Get edition display information
    */
@@ -854,18 +1112,30 @@ export class BookService {
       throw new Error('Binding not found or access denied');
     }
 
+    const changes = {
+      // isbn: excluded since it's read-only
+      binding_type: updateData.binding_type,
+      price: updateData.price || undefined,
+      publisher: updateData.publisher || undefined,
+      cover_image_url: updateData.cover_image_url || undefined,
+      description: updateData.description || undefined,
+      pages: updateData.pages || undefined,
+      language: updateData.language,
+    };
+
     // Update the binding (excluding ISBN since it's read-only)
     const { error } = await this.getSupabase()
       .from('book_bindings')
       .update({
-        // isbn: excluded since it's read-only
-        binding_type: updateData.binding_type,
-        price: updateData.price || null,
-        publisher: updateData.publisher || null,
-        cover_image_url: updateData.cover_image_url || null,
-        description: updateData.description || null,
-        pages: updateData.pages || null,
-        language: updateData.language,
+        ...changes,
+        price: changes.price ?? null,
+        publisher: changes.publisher ?? null,
+        cover_image_url: changes.cover_image_url ?? null,
+        description: changes.description ?? null,
+        pages: changes.pages ?? null,
+        // Edited fields are now sourced from the user
+        provenance: markEditedFields(binding, changes),
+        user_overrides: keepMatchingOverrides(binding.user_overrides, changes),
       })
       .eq('id', bindingId);
 
@@ -882,6 +1152,95 @@ export class BookService {
     return updatedBinding;
   }
 
+  /**
+   * Resolve a metadata conflict by picking one of the candidate values.
+   * The choice is stored as a user override so refreshes never replace it.
+   */
+  static async resolveBindingConflict(
+    bindingId: string,
+    userId: string,
+    field: ConflictField,
+    value: string | number,
+  ): Promise<BookBinding> {
+    const binding = await this.getBindingById(bindingId, userId);
+    if (!binding) {
+      throw new Error('Binding not found or access denied');
+    }
+
+    const candidate = binding.metadata_conflicts?.[field]?.find(
+      option => String(option.value) === String(value),
+    );
+    if (!candidate) {
+      throw new Error(`Value is not a candidate for ${field}`);
+    }
+
+    const { error } = await this.getSupabase()
+      .from('book_bindings')
+      .update({
+        [CONFLICT_COLUMNS[field]]: toBindingValue(field, candidate.value),
+        provenance: {
+          ...binding.provenance,
+          [field]: {
+            source: candidate.source,
+            fetched_at: candidate.fetched_at,
+          },
+        },
+        user_overrides: {
+          ...binding.user_overrides,
+          [field]: {
+            value: candidate.value,
+            source: candidate.source,
+            overridden_at: new Date().toISOString(),
+          },
+        },
+      })
+      .eq('id', bindingId);
+
+    if (error) {
+      throw new Error(`Failed to resolve conflict: ${error.message}`);
+    }
+
+    const updatedBinding = await this.getBindingById(bindingId, userId);
+    if (!updatedBinding) {
+      throw new Error('Failed to fetch updated binding');
+    }
+
+    return updatedBinding;
+  }
+
+  /**
+   * Remove a user override so the field follows provider data again
+   */
+  static async clearBindingOverride(
+    bindingId: string,
+    userId: string,
+    field: ConflictField,
+  ): Promise<BookBinding> {
+    const binding = await this.getBindingById(bindingId, userId);
+    if (!binding) {
+      throw new Error('Binding not found or access denied');
+    }
+
+    const userOverrides = { ...binding.user_overrides };
+    delete userOverrides[field];
+
+    const { error } = await this.getSupabase()
+      .from('book_bindings')
+      .update({ user_overrides: userOverrides })
+      .eq('id', bindingId);
+
+    if (error) {
+      throw new Error(`Failed to clear override: ${error.message}`);
+    }
+
+    const updatedBinding = await this.getBindingById(bindingId, userId);
+    if (!updatedBinding) {
+      throw new Error('Failed to fetch updated binding');
+    }
+
+    return updatedBinding;
+  }
+
   /**
    * Delete binding
    */
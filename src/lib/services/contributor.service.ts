@@ -0,0 +1,252 @@
+/**
+ * Contributor Service
+ * Manages the people credited on a book or binding and their roles
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import { Book, BookBinding, BookEdition } from '@/lib/types/book';
+import {
+  BookContributor,
+  ContributorCredit,
+  ContributorRole,
+} from '@/lib/types/contributor';
+import {
+  AUTHOR_ROLES,
+  normalizeContributorName,
+  splitAuthorString,
+} from '@/lib/utils/contributors';
+
+// Embedded select for book_contributors joined with the contributor name
+export const BOOK_CONTRIBUTORS_SELECT = `contributors:book_contributors!book_contributors_book_id_fkey (
+  id, contributor_id, binding_id, role, display_order,
+  contributor:contributors!book_contributors_contributor_id_fkey (name)
+)`;
+
+interface BookContributorRow {
+  id: string;
+  contributor_id: string;
+  binding_id: string | null;
+  role: ContributorRole;
+  display_order: number;
+  contributor: { name: string } | null;
+}
+
+export class ContributorService {
+  private static _supabase: ReturnType<typeof createServiceClient> | null =
+    null;
+
+  private static getSupabase() {
+    if (!this._supabase) {
+      this._supabase = createServiceClient();
+    }
+    return this._supabase;
+  }
+
+  /**
+   * Get a book's credits; book-level first, then per binding, each in
+   * display order
+   */
+  static async getBookContributors(bookId: string): Promise<BookContributor[]> {
+    const { data, error } = await this.getSupabase()
+      .from('book_contributors')
+      .select(
+        'id, contributor_id, binding_id, role, display_order, contributor:contributors!book_contributors_contributor_id_fkey (name)',
+      )
+      .eq('book_id', bookId);
+
+    if (error) {
+      throw new Error(`Failed to fetch contributors: ${error.message}`);
+    }
+
+    return this.toBookContributors(
+      (data || []) as unknown as BookContributorRow[],
+    );
+  }
+
+  /**
+   * Replace the credits on a book (bindingId null) or on one binding
+   */
+  static async setBookContributors(
+    bookId: string,
+    credits: ContributorCredit[],
+    bindingId: string | null = null,
+  ): Promise<void> {
+    const contributorIds = await this.findOrCreateContributors(
+      credits.map(credit => credit.name),
+    );
+
+    let deleteQuery = this.getSupabase()
+      .from('book_contributors')
+      .delete()
+      .eq('book_id', bookId);
+    deleteQuery = bindingId
+      ? deleteQuery.eq('binding_id', bindingId)
+      : deleteQuery.is('binding_id', null);
+
+    const { error: deleteError } = await deleteQuery;
+    if (deleteError) {
+      throw new Error(`Failed to clear contributors: ${deleteError.message}`);
+    }
+
+    if (credits.length === 0) {
+      return;
+    }
+
+    const seen = new Set<string>();
+    const rows = credits
+      .map((credit, index) => ({
+        book_id: bookId,
+        binding_id: bindingId,
+        contributor_id: contributorIds.get(
+          normalizeContributorName(credit.name),
+        )!,
+        role: credit.role,
+        display_order: index,
+      }))
+      .filter(row => {
+        const key = `${row.contributor_id}:${row.role}`;
+        if (!row.contributor_id || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+
+    const { error } = await this.getSupabase()
+      .from('book_contributors')
+      .insert(rows);
+
+    if (error) {
+      throw new Error(`Failed to save contributors: ${error.message}`);
+    }
+  }
+
+  /**
+   * Replace the author and co-author credits after the author string was
+   * edited, keeping editors, translators and illustrators
+   */
+  static async syncAuthorCredits(bookId: string, author: string) {
+    const existing = (await this.getBookContributors(bookId)).filter(
+      credit => !credit.binding_id,
+    );
+
+    await this.setBookContributors(bookId, [
+      ...splitAuthorString(author),
+      ...existing
+        .filter(credit => !AUTHOR_ROLES.includes(credit.role))
+        .map(({ name, role }) => ({ name, role })),
+    ]);
+  }
+
+  /**
+   * Replace the credits for one role on a binding, keeping its other roles
+   */
+  static async setBindingRoleCredits(
+    bookId: string,
+    bindingId: string,
+    role: ContributorRole,
+    names: string[],
+  ) {
+    const existing = (await this.getBookContributors(bookId)).filter(
+      credit => credit.binding_id === bindingId && credit.role !== role,
+    );
+
+    await this.setBookContributors(
+      bookId,
+      [
+        ...existing.map(({ name, role }) => ({ name, role })),
+        ...names.map(name => ({ name, role })),
+      ],
+      bindingId,
+    );
+  }
+
+  /**
+   * Move joined book_contributors rows onto the book (book-level credits)
+   * and onto each binding (binding-level credits)
+   */
+  static attachToBook<T extends Book>(book: T): T {
+    const credits = this.toBookContributors(
+      (book.contributors || []) as unknown as BookContributorRow[],
+    );
+
+    return {
+      ...book,
+      contributors: credits.filter(credit => !credit.binding_id),
+      editions: (book.editions || []).map((edition: BookEdition) => ({
+        ...edition,
+        bindings: (edition.bindings || []).map((binding: BookBinding) => ({
+          ...binding,
+          contributors: credits.filter(
+            credit => credit.binding_id === binding.id,
+          ),
+        })),
+      })),
+    };
+  }
+
+  /**
+   * Map names to contributor IDs, creating contributors that don't exist
+   * yet. Keyed by normalized name.
+   */
+  private static async findOrCreateContributors(
+    names: string[],
+  ): Promise<Map<string, string>> {
+    const byKey = new Map<string, string>();
+    names.forEach(name => {
+      const key = normalizeContributorName(name);
+      if (key && !byKey.has(key)) byKey.set(key, name.trim());
+    });
+
+    if (byKey.size === 0) {
+      return new Map();
+    }
+
+    const { error: upsertError } = await this.getSupabase()
+      .from('contributors')
+      .upsert(
+        Array.from(byKey, ([name_normalized, name]) => ({
+          name,
+          name_normalized,
+        })),
+        { onConflict: 'name_normalized', ignoreDuplicates: true },
+      );
+
+    if (upsertError) {
+      throw new Error(`Failed to save contributors: ${upsertError.message}`);
+    }
+
+    const { data, error } = await this.getSupabase()
+      .from('contributors')
+      .select('id, name_normalized')
+      .in('name_normalized', Array.from(byKey.keys()));
+
+    if (error) {
+      throw new Error(`Failed to fetch contributors: ${error.message}`);
+    }
+
+    return new Map(
+      (data || []).map(row => [
+        row.name_normalized as string,
+        row.id as string,
+      ]),
+    );
+  }
+
+  private static toBookContributors(
+    rows: BookContributorRow[],
+  ): BookContributor[] {
+    return rows
+      .map(row => ({
+        id: row.id,
+        contributor_id: row.contributor_id,
+        binding_id: row.binding_id,
+        name: row.contributor?.name || '',
+        role: row.role,
+        display_order: row.display_order,
+      }))
+      .sort(
+        (a, b) =>
+          Number(!!a.binding_id) - Number(!!b.binding_id) ||
+          a.display_order - b.display_order,
+      );
+  }
+}
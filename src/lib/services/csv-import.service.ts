@@ -0,0 +1,263 @@
+/**
+ * CSV Import Service
+ * Validates mapped spreadsheet rows and saves them as books, editions and bindings
+ */
+
+import { z } from 'zod';
+
+import { CsvImportResult, CsvImportRowResult } from '@/lib/types/csv-import';
+import { convertISBNDBToUIBook, UIBook } from '@/lib/types/ui-book';
+import { normalizeIsbn } from '@/lib/utils/isbn';
+import { stampProvenance } from '@/lib/utils/provenance';
+import {
+  CsvImportCompleteRowSchema,
+  CsvImportRowSchema,
+  formatValidationError,
+  validateRequestBody,
+} from '@/lib/validation/api-schemas';
+
+import { BookService } from './book.service';
+import { EditionGroup } from './edition-detection.service';
+import { isbnDbService } from './isbn-db.service';
+
+type ValidatedRow = z.infer<typeof CsvImportRowSchema>;
+
+interface PreparedRow {
+  row_number: number;
+  title: string;
+  author: string;
+  edition_number: number;
+  publication_year?: number;
+  book: UIBook;
+  enriched: boolean;
+}
+
+export class CsvImportService {
+  /**
+   * Import mapped CSV rows for a user, returning a result for every row
+   */
+  static async importRows(
+    userId: string,
+    rows: Record<string, unknown>[],
+    options: { enrich?: boolean } = {},
+  ): Promise<CsvImportResult> {
+    const results: CsvImportRowResult[] = [];
+    const prepared: PreparedRow[] = [];
+
+    // Step 1: Validate (and optionally enrich) each row independently
+    for (const [index, rawRow] of rows.entries()) {
+      const rowNumber =
+        typeof rawRow.row_number === 'number' ? rawRow.row_number : index + 1;
+
+      // safeParse rather than validateRequestBody: numeric cells are coerced,
+      // so the schema's input and output types differ
+      const validation = CsvImportRowSchema.safeParse({
+        ...rawRow,
+        row_number: rowNumber,
+      });
+      if (!validation.success) {
+        results.push({
+          row_number: rowNumber,
+          status: 'error',
+          title: typeof rawRow.title === 'string' ? rawRow.title : undefined,
+          error: formatValidationError(validation.error),
+        });
+        continue;
+      }
+
+      const row = await this.prepareRow(validation.data, !!options.enrich);
+      if ('status' in row) {
+        results.push(row);
+        continue;
+      }
+      prepared.push(row);
+    }
+
+    // Step 2: Group rows into books by title + author, then save each book
+    const bookGroups = new Map<string, PreparedRow[]>();
+    prepared.forEach(row => {
+      const key = `${row.title.toLowerCase()}|${row.author.toLowerCase()}`;
+      bookGroups.set(key, [...(bookGroups.get(key) || []), row]);
+    });
+
+    for (const groupRows of bookGroups.values()) {
+      const { title, author } = groupRows[0];
+
+      try {
+        const editionGroups = this.toEditionGroups(groupRows);
+        const existingBook = await BookService.findExistingBook(
+          userId,
+          title,
+          author,
+        );
+
+        const book = existingBook
+          ? await BookService.updateBookWithNewEditions(
+              existingBook.id,
+              editionGroups,
+            )
+          : await BookService.createBook(userId, title, author, editionGroups);
+
+        groupRows.forEach(row =>
+          results.push({
+            row_number: row.row_number,
+            status: existingBook ? 'merged' : 'created',
+            title,
+            book_id: book.id,
+            enriched: row.enriched,
+          }),
+        );
+      } catch (error) {
+        groupRows.forEach(row =>
+          results.push({
+            row_number: row.row_number,
+            status: 'error',
+            title,
+            enriched: row.enriched,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          }),
+        );
+      }
+    }
+
+    results.sort((a, b) => a.row_number - b.row_number);
+    const failed = results.filter(result => result.status === 'error').length;
+
+    return {
+      total: rows.length,
+      succeeded: results.length - failed,
+      failed,
+      rows: results,
+    };
+  }
+
+  /**
+   * Fill gaps from ISBNdb when requested and check the row is complete
+   */
+  private static async prepareRow(
+    row: ValidatedRow,
+    enrich: boolean,
+  ): Promise<PreparedRow | CsvImportRowResult> {
+    const isbn = normalizeIsbn(row.isbn) || undefined;
+    let enrichedBook: UIBook | null = null;
+
+    if (enrich && isbn && (!row.title || !row.author)) {
+      const response = await isbnDbService.getBookByISBN(isbn);
+      if (response.success && response.data) {
+        // The converter leaves the cover out, so carry it over here
+        enrichedBook = {
+          ...convertISBNDBToUIBook(response.data),
+          image: response.data.image || response.data.cover_image,
+        };
+      } else {
+        return {
+          row_number: row.row_number,
+          status: 'error',
+          error: `ISBN lookup failed: ${response.error || 'Book not found'}`,
+        };
+      }
+    }
+
+    // Values from the spreadsheet always win over enriched data
+    const title = row.title || enrichedBook?.title;
+    const authors = row.author
+      ? [row.author]
+      : enrichedBook?.authors?.filter(Boolean) || [];
+
+    const complete = validateRequestBody(CsvImportCompleteRowSchema, {
+      title,
+      authors,
+    });
+    if (!complete.success) {
+      return {
+        row_number: row.row_number,
+        status: 'error',
+        title,
+        error: isbn
+          ? formatValidationError(complete.error)
+          : `${formatValidationError(complete.error)} (add an ISBN and enable lookup to fill it in)`,
+      };
+    }
+
+    const publicationYear =
+      row.publication_year ||
+      this.parseYear(enrichedBook?.published_date) ||
+      undefined;
+
+    const book: UIBook = {
+      ...(enrichedBook || {}),
+      id: crypto.randomUUID(),
+      title: complete.data.title,
+      authors: complete.data.authors,
+      isbn,
+      isbn13: isbn?.length === 13 ? isbn : enrichedBook?.isbn13,
+      binding: row.binding || enrichedBook?.binding,
+      print_type: undefined,
+      publisher: row.publisher || enrichedBook?.publisher,
+      msrp: row.price,
+      pages: enrichedBook?.page_count,
+      synopsis: enrichedBook?.description,
+      year: publicationYear,
+      data_source: enrichedBook ? 'csv-import,isbndb' : 'csv-import',
+    };
+
+    // Credit spreadsheet values to the import and anything filled in by the
+    // lookup to ISBNdb
+    const rowProvenance = stampProvenance(
+      {
+        id: book.id,
+        title: row.title || '',
+        authors: row.author ? [row.author] : [],
+        binding: row.binding,
+        publisher: row.publisher,
+        msrp: row.price,
+        year: row.publication_year,
+      },
+      'csv-import',
+    ).provenance;
+    book.provenance = {
+      ...stampProvenance(book, enrichedBook ? 'isbn-db' : 'csv-import')
+        .provenance,
+      ...rowProvenance,
+    };
+
+    return {
+      row_number: row.row_number,
+      title: complete.data.title,
+      author: complete.data.authors.join(', '),
+      edition_number: row.edition_number || 1,
+      publication_year: publicationYear,
+      book,
+      enriched: !!enrichedBook,
+    };
+  }
+
+  private static toEditionGroups(rows: PreparedRow[]): EditionGroup[] {
+    const editions = new Map<number, PreparedRow[]>();
+    rows.forEach(row => {
+      editions.set(row.edition_number, [
+        ...(editions.get(row.edition_number) || []),
+        row,
+      ]);
+    });
+
+    return Array.from(editions.entries()).map(
+      ([editionNumber, editionRows]) => {
+        const years = editionRows
+          .map(row => row.publication_year)
+          .filter((year): year is number => !!year);
+
+        return {
+          edition_number: editionNumber,
+          publication_year: years.length > 0 ? Math.min(...years) : undefined,
+          books: editionRows.map(row => row.book),
+        };
+      },
+    );
+  }
+
+  private static parseYear(date?: string): number | null {
+    const year = parseInt((date || '').slice(0, 4), 10);
+    return year > 0 ? year : null;
+  }
+}
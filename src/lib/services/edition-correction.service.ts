@@ -0,0 +1,205 @@
+/**
+ * Edition Correction Service
+ * Stores the ISBN pairs users confirm while fixing edition grouping and
+ * hands them to edition detection, which applies them for every user
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import {
+  EditionCorrection,
+  EditionCorrectionChange,
+  EditionCorrectionPair,
+} from '@/lib/types/edition-correction';
+import { UIBook } from '@/lib/types/ui-book';
+import {
+  EditionCorrectionRegistry,
+  toCorrectionPairs,
+} from '@/lib/utils/edition-correction-registry';
+import { normalizeIsbn } from '@/lib/utils/isbn';
+
+export class EditionCorrectionService {
+  private static _supabase: ReturnType<typeof createServiceClient> | null =
+    null;
+
+  private static getSupabase() {
+    if (!this._supabase) {
+      this._supabase = createServiceClient();
+    }
+    return this._supabase;
+  }
+
+  /**
+   * Corrections where both ISBNs are in the given list
+   */
+  static async getCorrectionsForIsbns(
+    isbns: string[],
+  ): Promise<EditionCorrection[]> {
+    const normalized = Array.from(
+      new Set(
+        isbns.map(normalizeIsbn).filter((isbn): isbn is string => !!isbn),
+      ),
+    );
+    if (normalized.length < 2) return [];
+
+    const { data, error } = await this.getSupabase()
+      .from('edition_corrections')
+      .select('*')
+      .in('isbn_a', normalized)
+      .in('isbn_b', normalized);
+
+    if (error) {
+      throw new Error(`Failed to fetch edition corrections: ${error.message}`);
+    }
+
+    return (data || []) as EditionCorrection[];
+  }
+
+  /**
+   * Build a registry for a batch of search results.
+   * Never throws, so a lookup failure degrades to the plain heuristics.
+   */
+  static async getRegistry(
+    books: Pick<UIBook, 'isbn' | 'isbn13'>[],
+  ): Promise<EditionCorrectionRegistry> {
+    try {
+      const isbns = books.flatMap(book =>
+        [book.isbn13, book.isbn].filter((isbn): isbn is string => !!isbn),
+      );
+      return new EditionCorrectionRegistry(
+        await this.getCorrectionsForIsbns(isbns),
+      );
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Failed to load edition corrections:', error);
+      return EditionCorrectionRegistry.empty();
+    }
+  }
+
+  /**
+   * Record corrections from a user's fix. Never throws: the fix itself
+   * has already been applied and shouldn't fail because of this.
+   * Resolves to the recorded pairs with what each replaced, or nothing when
+   * recording failed.
+   */
+  static async recordCorrections(
+    userId: string,
+    corrections: EditionCorrectionPair[],
+  ): Promise<EditionCorrectionChange[]> {
+    if (corrections.length === 0) return [];
+
+    const { data, error } = await this.getSupabase().rpc(
+      'record_edition_corrections',
+      { p_user_id: userId, p_corrections: corrections },
+    );
+
+    if (error) {
+      if (process.env.NODE_ENV === 'development') {
+        // eslint-disable-next-line no-console
+        console.error('Failed to record edition corrections:', error);
+      }
+      return [];
+    }
+    return (data || []) as EditionCorrectionChange[];
+  }
+
+  /**
+   * Take back corrections recorded for a fix that was undone: one
+   * confirmation fewer per pair, or the relation the fix replaced, or gone
+   * when the fix created it. Never throws, like recordCorrections.
+   */
+  static async revertCorrections(
+    corrections: EditionCorrectionChange[],
+  ): Promise<void> {
+    if (corrections.length === 0) return;
+
+    const { error } = await this.getSupabase().rpc(
+      'revert_edition_corrections',
+      { p_corrections: corrections },
+    );
+
+    if (error && process.env.NODE_ENV === 'development') {
+      // eslint-disable-next-line no-console
+      console.error('Failed to revert edition corrections:', error);
+    }
+  }
+
+  /**
+   * Record that a book is a different work from each of the others, pair by
+   * pair across their bindings. Never throws, like recordCorrections.
+   */
+  static async recordDifferentWorks(
+    userId: string,
+    bookId: string,
+    otherBookIds: string[],
+  ): Promise<void> {
+    try {
+      const isbns = await this.getBookIsbns([bookId, ...otherBookIds]);
+      await this.recordCorrections(
+        userId,
+        otherBookIds.flatMap(otherId =>
+          toCorrectionPairs(
+            isbns.get(bookId) || [],
+            isbns.get(otherId) || [],
+            'different-work',
+          ),
+        ),
+      );
+    } catch (error) {
+      if (process.env.NODE_ENV === 'development') {
+        // eslint-disable-next-line no-console
+        console.error('Failed to record edition corrections:', error);
+      }
+    }
+  }
+
+  /**
+   * ISBNs of the bindings in each edition, keyed by edition ID
+   */
+  static async getEditionIsbns(
+    editionIds: string[],
+  ): Promise<Map<string, string[]>> {
+    const isbns = new Map<string, string[]>(editionIds.map(id => [id, []]));
+    if (editionIds.length === 0) return isbns;
+
+    const { data, error } = await this.getSupabase()
+      .from('book_bindings')
+      .select('id, book_edition_id, isbn')
+      .in('book_edition_id', editionIds);
+
+    if (error) {
+      throw new Error(`Failed to fetch binding ISBNs: ${error.message}`);
+    }
+
+    (data || []).forEach(binding => {
+      if (binding.isbn) {
+        isbns.get(binding.book_edition_id)?.push(binding.isbn);
+      }
+    });
+    return isbns;
+  }
+
+  /**
+   * ISBNs of every binding of each book, keyed by book ID
+   */
+  static async getBookIsbns(bookIds: string[]): Promise<Map<string, string[]>> {
+    const isbns = new Map<string, string[]>(bookIds.map(id => [id, []]));
+    if (bookIds.length === 0) return isbns;
+
+    const { data, error } = await this.getSupabase()
+      .from('book_editions')
+      .select('id, book_id')
+      .in('book_id', bookIds);
+
+    if (error) {
+      throw new Error(`Failed to fetch book editions: ${error.message}`);
+    }
+
+    const editionIsbns = await this.getEditionIsbns(
+      (data || []).map(edition => edition.id),
+    );
+    (data || []).forEach(edition => {
+      isbns.get(edition.book_id)?.push(...(editionIsbns.get(edition.id) || []));
+    });
+    return isbns;
+  }
+}
@@ -4,32 +4,150 @@
  */
 
 import { BookEdition, BookBinding } from '@/lib/types/book';
+import { EditionRelation } from '@/lib/types/edition-correction';
+import { EditionGroupingTrace } from '@/lib/types/edition-trace';
+import { TranslationDetails } from '@/lib/types/translation';
 import { UIBook } from '@/lib/types/ui-book';
+import { AuthorAliasRegistry } from '@/lib/utils/author-alias-registry';
+import { EditionCorrectionRegistry } from '@/lib/utils/edition-correction-registry';
+import { EditionGroupingTracer } from '@/lib/utils/edition-grouping-trace';
+import { normalizeIsbn } from '@/lib/utils/isbn';
+import {
+  isOriginalLanguage,
+  normalizeLanguageCode,
+} from '@/lib/utils/languages';
 
 export interface EditionGroup {
   edition_number: number;
   edition_type?: string; // For special editions like "unabridged", "revised", etc.
   publication_year?: number;
+  translation?: TranslationDetails; // Set on translated editions
   books: UIBook[];
 }
 
+export interface EditionDetectionOptions {
+  // Alias registry used to split concatenated co-author strings
+  authorAliases?: AuthorAliasRegistry;
+  // Group foreign-language results into translations instead of dropping them
+  includeTranslations?: boolean;
+  // ISBN pairs users have confirmed; consulted before the heuristics, so a
+  // confirmed pair is always grouped the way a person said
+  corrections?: EditionCorrectionRegistry;
+}
+
+const PRIMARY_BINDING_PRIORITY = [
+  'hardcover',
+  'paperback',
+  'kindle',
+  'ebook',
+  'audiobook',
+];
+
 export class EditionDetectionService {
   /**
    * Main entry point: Group books by edition using explicit edition number parsing
    */
-  static groupByEdition(books: UIBook[]): EditionGroup[] {
+  static groupByEdition(
+    books: UIBook[],
+    options: EditionDetectionOptions = {},
+  ): EditionGroup[] {
+    return this.runGrouping(books, options);
+  }
+
+  /**
+   * Group books exactly as groupByEdition does, and also return a trace of
+   * which rule placed, merged or dropped each book
+   */
+  static groupByEditionWithTrace(
+    books: UIBook[],
+    options: EditionDetectionOptions = {},
+  ): { editionGroups: EditionGroup[]; trace: EditionGroupingTrace } {
+    const tracer = new EditionGroupingTracer(books || []);
+    const editionGroups = this.runGrouping(books, options, tracer);
+    return { editionGroups, trace: tracer.finish(editionGroups) };
+  }
+
+  /**
+   * Split results for many different books (e.g. a batch ISBN lookup) into
+   * one set of edition groups per book. Books are told apart by title the
+   * same way groupByEdition's title step does.
+   */
+  static groupByBook(
+    books: UIBook[],
+    options: EditionDetectionOptions = {},
+  ): EditionGroup[][] {
     if (!books || books.length === 0) return [];
 
+    const titledBooks = books.filter(book => book.title);
+    const corrections =
+      options.corrections || EditionCorrectionRegistry.empty();
+    return this.separateConfirmedWorks(
+      Array.from(this.groupByNormalizedTitle(titledBooks).values()),
+      new Map(),
+      corrections,
+    )
+      .map(titleBooks => this.runGrouping(titleBooks, options))
+      .filter(editionGroups => editionGroups.length > 0);
+  }
+
+  /**
+   * The book that represents a whole set of edition groups when it is saved:
+   * the preferred binding of the newest edition
+   */
+  static selectPrimaryBook(editionGroups: EditionGroup[]): UIBook | null {
+    if (!editionGroups || editionGroups.length === 0) return null;
+
+    // Edition groups are sorted newest first
+    return this.selectPrimaryBinding(editionGroups[0].books);
+  }
+
+  /**
+   * The preferred binding among one edition's books: hardcover, paperback,
+   * kindle, ebook, audiobook, then whatever comes first
+   */
+  static selectPrimaryBinding(books: UIBook[]): UIBook | null {
+    if (!books || books.length === 0) return null;
+
+    for (const preferredBinding of PRIMARY_BINDING_PRIORITY) {
+      const book = books.find(
+        candidate =>
+          this.normalizeBindingType(
+            candidate.print_type || candidate.binding,
+          ) === preferredBinding,
+      );
+      if (book) return book;
+    }
+
+    return books[0];
+  }
+
+  private static runGrouping(
+    books: UIBook[],
+    options: EditionDetectionOptions,
+    trace?: EditionGroupingTracer,
+  ): EditionGroup[] {
+    if (!books || books.length === 0) return [];
+
+    const authorAliases = options.authorAliases || AuthorAliasRegistry.empty();
+
+    // Foreign-language results are translations, grouped by language below
+    const translatedBooks = options.includeTranslations
+      ? books.filter(book => !isOriginalLanguage(book.language))
+      : [];
+
     // Step 1: Filter and clean the book data
-    const cleanBooks = this.filterAndCleanBooks(books);
+    const cleanBooks = this.filterAndCleanBooks(books, trace);
 
     // Step 2: NORMALIZE AND CONSOLIDATE messy data (respecting unique ISBNs)
     // CRITICAL FIX: Skip normalization for iTunes books to preserve them through the pipeline
     // iTunes books were getting filtered out or consolidated during normalization
     const itunesBooks = cleanBooks.filter(b => b.source === 'itunes');
     const nonItunesBooks = cleanBooks.filter(b => b.source !== 'itunes');
-    const normalizedNonItunes =
-      this.normalizeAndConsolidateBooks(nonItunesBooks);
+    const normalizedNonItunes = this.normalizeAndConsolidateBooks(
+      nonItunesBooks,
+      authorAliases,
+      trace,
+    );
 
     // Apply basic binding normalization to iTunes books while preserving them
     const normalizedItunesBooks = itunesBooks.map(book => ({
@@ -39,19 +157,49 @@ export class EditionDetectionService {
 
     const normalizedBooks = [...normalizedNonItunes, ...normalizedItunesBooks];
 
-    // Step 3: Normalize and group books by title similarity
-    const titleGroups = this.groupByNormalizedTitle(normalizedBooks);
+    // Step 3: Consult human-confirmed pairs before the heuristics. Books
+    // confirmed as the same edition go through them as one.
+    const corrections =
+      options.corrections || EditionCorrectionRegistry.empty();
+    const confirmedSets = this.gatherConfirmedEditions(
+      normalizedBooks,
+      corrections,
+      trace,
+    );
+
+    // Step 4: Normalize and group books by title similarity, keeping books
+    // confirmed as different works apart
+    const titleGroups = this.separateConfirmedWorks(
+      Array.from(
+        this.groupByNormalizedTitle(
+          Array.from(confirmedSets.keys()),
+          trace,
+        ).values(),
+      ),
+      confirmedSets,
+      corrections,
+      trace,
+    );
 
     const editionGroups: EditionGroup[] = [];
 
-    // Step 4: For each title group, create edition groups using explicit edition parsing
-    for (const titleBooks of titleGroups.values()) {
-      const groups = this.createEditionGroupsByExplicitNumbers(titleBooks);
-      editionGroups.push(...groups);
+    // Step 5: For each title group, create edition groups using explicit
+    // edition parsing, keeping confirmed different editions apart
+    for (const titleBooks of titleGroups) {
+      const groups = this.createEditionGroupsByExplicitNumbers(
+        titleBooks,
+        trace,
+      );
+      editionGroups.push(
+        ...this.applyCorrections(groups, confirmedSets, corrections, trace),
+      );
     }
 
     // iTunes audiobooks should now be properly grouped with the skip-normalization fix above
 
+    // Step 6: Translations are grouped by language
+    editionGroups.push(...this.groupTranslations(translatedBooks, trace));
+
     // Step 7: Sort edition groups by edition number (newest first)
     const sortedGroups = editionGroups.sort((a, b) => {
       const editionA = a.edition_number || 0;
@@ -69,21 +217,78 @@ export class EditionDetectionService {
    * Handles: concatenated authors, missing metadata, duplicate records
    * PRINCIPLE: Never consolidate books with different ISBNs
    */
-  private static normalizeAndConsolidateBooks(books: UIBook[]): UIBook[] {
+  private static normalizeAndConsolidateBooks(
+    books: UIBook[],
+    authorAliases: AuthorAliasRegistry,
+    trace?: EditionGroupingTracer,
+  ): UIBook[] {
     // Step 1: Normalize individual book records
-    const normalizedBooks = books.map(book => this.normalizeBookRecord(book));
+    const normalizedBooks = books.map(book =>
+      this.normalizeBookRecord(book, authorAliases),
+    );
 
     // Step 2: Group potentially duplicate books (but preserve unique ISBNs)
     const bookGroups = this.groupDuplicateBooksRespectingISBNs(normalizedBooks);
 
+    if (trace) {
+      bookGroups
+        .filter(group => group.length > 1)
+        .forEach(group => this.traceConsolidation(group, trace));
+    }
+
     // Step 3: Consolidate each group into single authoritative record
     return bookGroups.map(group => this.consolidateBookGroup(group));
   }
 
+  /**
+   * Record which records a duplicate group was folded into, and why
+   */
+  private static traceConsolidation(
+    group: UIBook[],
+    trace: EditionGroupingTracer,
+  ): void {
+    const baseBook = this.selectMostCompleteBook(group);
+    trace.note(
+      baseBook,
+      'consolidation',
+      'most-complete-record',
+      `Kept as the record for ${group.length} duplicates (completeness ${this.calculateCompletenessScore(baseBook)})`,
+    );
+
+    group.forEach(book => {
+      if (book === baseBook) return;
+      if (book.isbn && baseBook.isbn && book.isbn === baseBook.isbn) {
+        trace.consolidate(
+          book,
+          baseBook,
+          'same-isbn',
+          `Same ISBN as ${baseBook.id}`,
+        );
+      } else if (!book.isbn || !baseBook.isbn) {
+        trace.consolidate(
+          book,
+          baseBook,
+          'missing-isbn',
+          `Merged into ${baseBook.id} because one of them has no ISBN`,
+        );
+      } else {
+        trace.consolidate(
+          book,
+          baseBook,
+          'similar-metadata',
+          `Title, authors, binding and year match ${baseBook.id}`,
+        );
+      }
+    });
+  }
+
   /**
    * Normalize a single book record
    */
-  private static normalizeBookRecord(book: UIBook): UIBook {
+  private static normalizeBookRecord(
+    book: UIBook,
+    authorAliases: AuthorAliasRegistry,
+  ): UIBook {
     // Apply ISBN-specific corrections first
     const correctedBook = this.applyISBNBindingCorrections(book);
 
@@ -95,7 +300,10 @@ export class EditionDetectionService {
     return {
       ...correctedBook,
       // Parse and normalize authors
-      authors: this.parseAndNormalizeAuthors(correctedBook.authors || []),
+      authors: this.parseAndNormalizeAuthors(
+        correctedBook.authors || [],
+        authorAliases,
+      ),
       // Normalize title (remove extra whitespace, etc.)
       title: correctedBook.title?.trim().replace(/\s+/g, ' ') || '',
       // Use the normalized binding
@@ -106,35 +314,34 @@ export class EditionDetectionService {
   /**
    * Parse concatenated author strings and normalize author names
    */
-  private static parseAndNormalizeAuthors(authors: string[]): string[] {
+  private static parseAndNormalizeAuthors(
+    authors: string[],
+    authorAliases: AuthorAliasRegistry,
+  ): string[] {
     const allAuthors: string[] = [];
 
     for (const authorField of authors) {
       if (!authorField || typeof authorField !== 'string') continue;
 
+      // Registered aliases take precedence over any splitting heuristics
+      const aliased = authorAliases.resolve(authorField);
+      if (aliased) {
+        allAuthors.push(...aliased);
+        continue;
+      }
+
       // Handle comma-separated authors first
       if (authorField.includes(',')) {
         const commaSplit = authorField.split(',').map(name => name.trim());
-        allAuthors.push(...commaSplit);
+        allAuthors.push(
+          ...commaSplit.flatMap(name => authorAliases.resolve(name) || [name]),
+        );
         continue;
       }
 
-      // Special handling for known problematic patterns
       const normalized = authorField.trim();
 
-      // Handle "Amy Batchelor Brad Feld" specifically
-      if (normalized === 'Amy Batchelor Brad Feld') {
-        allAuthors.push('Amy Batchelor', 'Brad Feld');
-        continue;
-      }
-
-      // Handle "Brad Feld Sean Wise" pattern
-      if (normalized === 'Brad Feld Sean Wise') {
-        allAuthors.push('Brad Feld', 'Sean Wise');
-        continue;
-      }
-
-      // More generic pattern: split if we have exactly 4 words that look like "First Last First Last"
+      // Generic pattern: split if we have exactly 4 words that look like "First Last First Last"
       const words = normalized.split(/\s+/);
       if (words.length === 4) {
         const potentialFirstAuthor = `${words[0]} ${words[1]}`;
@@ -151,23 +358,6 @@ export class EditionDetectionService {
         }
       }
 
-      // Handle 3 words - could be "First Middle Last" or "First Last First"
-      if (words.length === 3) {
-        // Check if it's "First Last Brad" (where Brad suggests another author)
-        if (
-          words[2].toLowerCase() === 'brad' ||
-          words[0].toLowerCase() === 'brad'
-        ) {
-          // Probably concatenated - try to split intelligently
-          if (words[2].toLowerCase() === 'brad') {
-            allAuthors.push(`${words[0]} ${words[1]}`, words[2]);
-          } else {
-            allAuthors.push(words[0], `${words[1]} ${words[2]}`);
-          }
-          continue;
-        }
-      }
-
       // If no special patterns matched, keep as single author
       allAuthors.push(normalized);
     }
@@ -660,13 +850,8 @@ export class EditionDetectionService {
       });
     });
 
-    // Sort authors for consistency (primary author first if Brad Feld is present)
-    const authorList = Array.from(allAuthors);
-    return authorList.sort((a, b) => {
-      if (a.toLowerCase().includes('brad feld')) return -1;
-      if (b.toLowerCase().includes('brad feld')) return 1;
-      return a.localeCompare(b);
-    });
+    // Keep first-seen order so the provider's (or alias registry's) author order is preserved
+    return Array.from(allAuthors);
   }
 
   /**
@@ -718,7 +903,10 @@ export class EditionDetectionService {
   /**
    * Filter books to remove non-English books and bad data
    */
-  private static filterAndCleanBooks(books: UIBook[]): UIBook[] {
+  private static filterAndCleanBooks(
+    books: UIBook[],
+    trace?: EditionGroupingTracer,
+  ): UIBook[] {
     const filtered = books.filter(book => {
       // Filter out non-English books
       if (
@@ -727,6 +915,12 @@ export class EditionDetectionService {
           book.language.toLowerCase(),
         )
       ) {
+        trace?.drop(
+          book,
+          'filter',
+          'non-english',
+          `Language "${book.language}" is not English`,
+        );
         return false;
       }
 
@@ -739,17 +933,35 @@ export class EditionDetectionService {
         title.includes('risikokapitalgeber') ||
         title.includes('german edition')
       ) {
+        trace?.drop(
+          book,
+          'filter',
+          'foreign-title',
+          'Title matches a known German edition pattern',
+        );
         return false;
       }
 
       // Filter out obviously bad publication years
       const year = this.extractPublicationYear(book);
       if (year && (year < 1990 || year > new Date().getFullYear() + 2)) {
+        trace?.drop(
+          book,
+          'filter',
+          'implausible-year',
+          `Publication year ${year} is out of range`,
+        );
         return false;
       }
 
       // Filter out books with suspicious ISBNs or titles
       if (book.title?.includes('[') || book.title?.includes('--by')) {
+        trace?.drop(
+          book,
+          'filter',
+          'suspicious-title',
+          'Title contains "[" or "--by"',
+        );
         return false;
       }
 
@@ -765,6 +977,7 @@ export class EditionDetectionService {
    */
   private static groupByNormalizedTitle(
     books: UIBook[],
+    trace?: EditionGroupingTracer,
   ): Map<string, UIBook[]> {
     const titleGroups = new Map<string, UIBook[]>();
 
@@ -821,6 +1034,19 @@ export class EditionDetectionService {
           (isItunesBook && normalizedTitle === existingTitle);
 
         if (shouldGroup) {
+          trace?.note(
+            book,
+            'title',
+            'joined-title-group',
+            `Joined the "${existingTitle}" title group`,
+            {
+              similarity: Number(similarity.toFixed(3)),
+              subset: isSubset,
+              sameCore: hasSameCore,
+              publisherConsistent,
+              problematicTitle: isProblematicTitle,
+            },
+          );
           existingBooks.push(book);
           foundSimilarGroup = true;
           break;
@@ -829,6 +1055,12 @@ export class EditionDetectionService {
 
       // If no similar group found, create new group
       if (!foundSimilarGroup) {
+        trace?.note(
+          book,
+          'title',
+          'new-title-group',
+          `Started the "${normalizedTitle}" title group`,
+        );
         titleGroups.set(normalizedTitle, [book]);
       }
     }
@@ -873,6 +1105,7 @@ export class EditionDetectionService {
    */
   private static createEditionGroupsByExplicitNumbers(
     books: UIBook[],
+    trace?: EditionGroupingTracer,
   ): EditionGroup[] {
     // Step 1: Parse explicit edition numbers from all books
     const booksWithEditions = books.map(book => ({
@@ -891,6 +1124,12 @@ export class EditionDetectionService {
       // Debug code removed
 
       if (bookData.editionNumber !== null) {
+        trace?.note(
+          bookData.book,
+          'edition',
+          'explicit-edition-number',
+          `Edition ${bookData.editionNumber} parsed from its title or metadata`,
+        );
         if (!editionMap.has(bookData.editionNumber)) {
           editionMap.set(bookData.editionNumber, []);
         }
@@ -923,6 +1162,17 @@ export class EditionDetectionService {
 
         if (edition1Books.length > 0) {
           editionMap.set(1, edition1Books);
+          edition1Books.forEach(bookData =>
+            trace?.note(
+              bookData.book,
+              'edition',
+              'earliest-year',
+              `No explicit edition; placed in Edition 1 with the earliest books (${earliestYear})`,
+              bookData.publicationYear
+                ? { yearDiff: bookData.publicationYear - earliestYear }
+                : undefined,
+            ),
+          );
 
           // Remove these books from unmapped list
           const edition1Isbns = new Set(edition1Books.map(b => b.book.isbn));
@@ -989,6 +1239,13 @@ export class EditionDetectionService {
 
         // Add audiobook to the closest edition if found
         if (closestEdition !== null) {
+          trace?.note(
+            audiobookData.book,
+            'edition',
+            'audiobook-closest-year',
+            `Audiobook attached to Edition ${closestEdition}, the closest by year`,
+            { yearDiff: closestYearDiff },
+          );
           editionMap.get(closestEdition)!.push(audiobookData);
           wasGrouped = true;
         }
@@ -996,6 +1253,12 @@ export class EditionDetectionService {
 
       // AGGRESSIVE iTunes fallback: If no date match, force group iTunes audiobooks
       if (!wasGrouped && audiobookData.book.source === 'itunes') {
+        trace?.note(
+          audiobookData.book,
+          'edition',
+          'itunes-fallback',
+          'iTunes audiobook with no year match, forced into the first edition',
+        );
         // Strategy 1: Group with Edition 1 if it exists and has books
         if (editionMap.has(1) && editionMap.get(1)!.length > 0) {
           editionMap.get(1)!.push(audiobookData);
@@ -1030,6 +1293,12 @@ export class EditionDetectionService {
     );
 
     for (const itunesBook of remainingItunesBooks) {
+      trace?.note(
+        itunesBook.book,
+        'edition',
+        'itunes-safety-net',
+        'Remaining iTunes book forced into Edition 1',
+      );
       // Force group any remaining iTunes books that somehow slipped through
       if (editionMap.has(1)) {
         editionMap.get(1)!.push(itunesBook);
@@ -1050,6 +1319,7 @@ export class EditionDetectionService {
       nonAudiobooks,
       editionTimeline,
       editionMap,
+      trace,
     );
 
     // Step 7: Convert to EditionGroup format
@@ -1232,14 +1502,242 @@ export class EditionDetectionService {
     return sorted[0];
   }
 
+  /**
+   * One edition group per translation language. Translations are numbered
+   * separately from the original, so an explicit number wins and otherwise
+   * the translation is its language's 1st edition.
+   */
+  private static groupTranslations(
+    books: UIBook[],
+    trace?: EditionGroupingTracer,
+  ): EditionGroup[] {
+    const byLanguage = new Map<string, UIBook[]>();
+    books.forEach(book => {
+      const language = normalizeLanguageCode(book.language);
+      if (!language) return;
+      trace?.note(
+        book,
+        'translation',
+        'language-group',
+        `Grouped as the ${language} translation`,
+      );
+      byLanguage.set(language, [...(byLanguage.get(language) || []), book]);
+    });
+
+    return Array.from(byLanguage, ([language, languageBooks]) => {
+      const normalizedBooks = languageBooks.map(book => ({
+        ...this.applyISBNBindingCorrections(book),
+        binding: this.normalizeBindingType(book.binding || book.print_type),
+        language,
+      }));
+      const years = normalizedBooks
+        .map(book => this.extractPublicationYear(book))
+        .filter((year): year is number => !!year);
+
+      return {
+        edition_number:
+          normalizedBooks
+            .map(book => this.parseExplicitEditionNumber(book))
+            .find((number): number is number => !!number) || 1,
+        publication_year: years.length > 0 ? Math.min(...years) : undefined,
+        translation: {
+          language,
+          translated_title: normalizedBooks[0].title,
+        },
+        books: normalizedBooks,
+      };
+    });
+  }
+
+  /**
+   * Sets of books users confirmed as the same edition, keyed by the first
+   * book of each set. Only that book goes through the heuristics; the rest
+   * of its set follows it into whichever edition it lands in.
+   */
+  private static gatherConfirmedEditions(
+    books: UIBook[],
+    corrections: EditionCorrectionRegistry,
+    trace?: EditionGroupingTracer,
+  ): Map<UIBook, UIBook[]> {
+    const leaders = books.map((_, index) => index);
+    const findLeader = (index: number): number =>
+      leaders[index] === index
+        ? index
+        : (leaders[index] = findLeader(leaders[index]));
+
+    if (corrections.size > 0) {
+      books.forEach((book, index) =>
+        books.slice(index + 1).forEach((other, offset) => {
+          if (corrections.relationBetween(book, other) !== 'same-edition') {
+            return;
+          }
+          const [first, second] = [
+            findLeader(index),
+            findLeader(index + 1 + offset),
+          ].sort((a, b) => a - b);
+          leaders[second] = first;
+        }),
+      );
+    }
+
+    const sets = new Map<UIBook, UIBook[]>();
+    books.forEach((book, index) => {
+      const leader = books[findLeader(index)];
+      sets.set(leader, [...(sets.get(leader) || []), book]);
+      if (leader !== book) {
+        trace?.note(
+          book,
+          'correction',
+          'confirmed-same-edition',
+          `Users confirmed it is the same edition as ${leader.id}`,
+        );
+      }
+    });
+    return sets;
+  }
+
+  /**
+   * Split title groups so books confirmed as different works never share
+   * one; each work then gets its own edition numbering
+   */
+  private static separateConfirmedWorks(
+    titleGroups: UIBook[][],
+    sets: Map<UIBook, UIBook[]>,
+    corrections: EditionCorrectionRegistry,
+    trace?: EditionGroupingTracer,
+  ): UIBook[][] {
+    if (corrections.size === 0) return titleGroups;
+
+    return titleGroups.flatMap(titleBooks => {
+      const works: UIBook[][] = [];
+      titleBooks.forEach(book => {
+        const work = works.find(members =>
+          members.every(
+            member =>
+              !this.isConfirmed(
+                sets,
+                corrections,
+                member,
+                book,
+                'different-work',
+              ),
+          ),
+        );
+        if (work) {
+          work.push(book);
+          return;
+        }
+        if (works.length > 0) {
+          trace?.note(
+            book,
+            'correction',
+            'confirmed-different-work',
+            'Users confirmed it is a different work from the rest of its title group',
+          );
+        }
+        works.push([book]);
+      });
+      return works;
+    });
+  }
+
+  /**
+   * Finish one work's heuristic edition groups: confirmed same-edition sets
+   * rejoin their first book, and books confirmed as a different edition are
+   * split off into editions numbered after the work's last one
+   */
+  private static applyCorrections(
+    groups: EditionGroup[],
+    sets: Map<UIBook, UIBook[]>,
+    corrections: EditionCorrectionRegistry,
+    trace?: EditionGroupingTracer,
+  ): EditionGroup[] {
+    const membersOf = (books: UIBook[]) =>
+      books.flatMap(book => sets.get(book) || [book]);
+    if (corrections.size === 0) {
+      return groups.map(group => ({ ...group, books: membersOf(group.books) }));
+    }
+
+    // Numbering after the last edition keeps saving from folding a split-off
+    // group back into the edition it was split from
+    let nextEditionNumber =
+      Math.max(0, ...groups.map(group => group.edition_number)) + 1;
+
+    return groups.flatMap(group => {
+      const buckets: UIBook[][] = [];
+      group.books.forEach(book => {
+        const bucket = buckets.find(members =>
+          members.every(
+            member =>
+              !this.isConfirmed(
+                sets,
+                corrections,
+                member,
+                book,
+                'different-edition',
+              ),
+          ),
+        );
+        if (bucket) {
+          bucket.push(book);
+          return;
+        }
+        if (buckets.length > 0) {
+          trace?.note(
+            book,
+            'correction',
+            'confirmed-different-edition',
+            'Users confirmed it is a different edition from the rest of its group',
+          );
+        }
+        buckets.push([book]);
+      });
+
+      const [kept, ...splitOff] = buckets.map(membersOf);
+      return [
+        { ...group, books: kept },
+        ...splitOff.map(bucketBooks => {
+          const years = bucketBooks
+            .map(book => this.extractPublicationYear(book))
+            .filter((year): year is number => !!year);
+          return {
+            edition_number: nextEditionNumber++,
+            publication_year: years.length > 0 ? Math.min(...years) : undefined,
+            books: bucketBooks,
+          };
+        }),
+      ];
+    });
+  }
+
+  /**
+   * Whether users confirmed the relation between any book of one
+   * same-edition set and any book of the other
+   */
+  private static isConfirmed(
+    sets: Map<UIBook, UIBook[]>,
+    corrections: EditionCorrectionRegistry,
+    book: UIBook,
+    other: UIBook,
+    relation: EditionRelation,
+  ): boolean {
+    const others = sets.get(other) || [other];
+    return (sets.get(book) || [book]).some(member =>
+      others.some(
+        otherMember =>
+          corrections.relationBetween(member, otherMember) === relation,
+      ),
+    );
+  }
+
   /**
    * Detect if an ISBN indicates an international/regional edition
    */
   private static isInternationalEdition(isbn?: string): boolean {
     if (!isbn) return false;
 
-    // Remove any hyphens/spaces and get first few digits
-    const cleanIsbn = isbn.replace(/[-\s]/g, '');
+    // Compare as ISBN-13 so ISBN-10s match the prefixes too
+    const cleanIsbn = normalizeIsbn(isbn);
 
     // Common international ISBN prefixes that often indicate regional reprints
     const internationalPrefixes = [
@@ -1301,9 +1799,18 @@ export class EditionDetectionService {
         publicationYear: number | undefined;
       }>
     >,
+    trace?: EditionGroupingTracer,
   ) {
     for (const bookData of unmappedBooks) {
-      if (!bookData.publicationYear) continue;
+      if (!bookData.publicationYear) {
+        trace?.note(
+          bookData.book,
+          'edition',
+          'no-year',
+          'No publication year to map it to an edition by date',
+        );
+        continue;
+      }
 
       const pubYear = bookData.publicationYear;
       let targetEdition: number | null = null;
@@ -1315,7 +1822,12 @@ export class EditionDetectionService {
       // Block ALL international editions from date-range assignment to prevent incorrect grouping
       // International editions should only be grouped if they have explicit edition numbers
       if (isInternational) {
-        // Debug logging removed
+        trace?.note(
+          bookData.book,
+          'edition',
+          'international-blocked',
+          'International ISBN without an explicit edition is never mapped by date',
+        );
         continue; // Skip to next book - international editions stay unmapped
       }
 
@@ -1338,6 +1850,16 @@ export class EditionDetectionService {
 
             // Domestic editions: require 0.5+ similarity (more lenient to capture legitimate bindings)
             if (titleSimilarity >= 0.5) {
+              trace?.note(
+                bookData.book,
+                'edition',
+                'date-range',
+                `Published within a year of Edition ${currentEdition.edition}`,
+                {
+                  yearDiff,
+                  titleSimilarity: Number(titleSimilarity.toFixed(3)),
+                },
+              );
               targetEdition = currentEdition.edition;
               break;
             }
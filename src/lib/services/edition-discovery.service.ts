@@ -0,0 +1,239 @@
+/**
+ * Edition Discovery Service
+ * Runs the title/author search pipeline for a saved book and suggests the
+ * bindings and editions the library does not have yet. Discovery runs as
+ * part of every metadata refresh job; accepted suggestions go through
+ * BookService.addEditionsToBook like a manual "add editions".
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import { Book, BookEdition } from '@/lib/types/book';
+import {
+  EditionSuggestion,
+  EditionSuggestionInsert,
+} from '@/lib/types/metadata-refresh';
+import { normalizeIsbn } from '@/lib/utils/isbn';
+
+import { AuthorAliasService } from './author-alias.service';
+import { BookDataMergerService } from './book-data-merger.service';
+import { BookService } from './book.service';
+import { EditionCorrectionService } from './edition-correction.service';
+import { EditionDetectionService } from './edition-detection.service';
+import { MetadataProviderRegistry } from './metadata-provider-registry';
+
+export class EditionDiscoveryService {
+  private static _supabase: ReturnType<typeof createServiceClient> | null =
+    null;
+
+  private static getSupabase() {
+    if (!this._supabase) {
+      this._supabase = createServiceClient();
+    }
+    return this._supabase;
+  }
+
+  /**
+   * Search for the book by title/author and store a suggestion for every
+   * result whose ISBN is neither saved nor suggested before. Returns only
+   * the new suggestions.
+   */
+  static async discoverForBook(book: Book): Promise<EditionSuggestion[]> {
+    const knownIsbns = new Set(
+      book.editions.flatMap(edition =>
+        edition.bindings
+          .map(binding => normalizeIsbn(binding.isbn))
+          .filter(Boolean),
+      ),
+    );
+
+    // Dismissed suggestions count as known so they are not offered again
+    const { data: suggested, error } = await this.getSupabase()
+      .from('book_edition_suggestions')
+      .select('isbn')
+      .eq('book_id', book.id);
+
+    if (error) {
+      throw new Error(`Failed to fetch edition suggestions: ${error.message}`);
+    }
+    (suggested || []).forEach(row => knownIsbns.add(normalizeIsbn(row.isbn)));
+
+    const results = await MetadataProviderRegistry.searchByTitleAuthor(
+      book.title,
+      book.author,
+    );
+    const { books } = BookDataMergerService.mergeProviderResults(results);
+
+    const mainTitle = this.normalizeMainTitle(book.title);
+    const candidates = books.filter(
+      result =>
+        result.isbn &&
+        !knownIsbns.has(normalizeIsbn(result.isbn)) &&
+        this.normalizeMainTitle(result.title) === mainTitle,
+    );
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    // Same edition matching as addEditionsToBook
+    const [authorAliases, corrections] = await Promise.all([
+      AuthorAliasService.getRegistry(book.user_id),
+      EditionCorrectionService.getRegistry(candidates),
+    ]);
+    const existingEditionNumbers = book.editions.map(
+      edition => edition.edition_number,
+    );
+
+    const rows: EditionSuggestionInsert[] =
+      EditionDetectionService.groupByEdition(candidates, {
+        authorAliases,
+        corrections,
+      }).flatMap(group =>
+        group.books
+          .filter(
+            result =>
+              result.isbn && !knownIsbns.has(normalizeIsbn(result.isbn)),
+          )
+          .map(result => ({
+            user_id: book.user_id,
+            book_id: book.id,
+            isbn: normalizeIsbn(result.isbn),
+            edition_number: group.edition_number,
+            is_new_edition: !existingEditionNumbers.includes(
+              group.edition_number,
+            ),
+            book_data: {
+              ...result,
+              year: result.year || group.publication_year,
+            },
+            source: result.provenance?.title?.source || result.source || null,
+          })),
+      );
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const { data: inserted, error: insertError } = await this.getSupabase()
+      .from('book_edition_suggestions')
+      .upsert(rows, { onConflict: 'book_id,isbn', ignoreDuplicates: true })
+      .select();
+
+    if (insertError) {
+      throw new Error(
+        `Failed to save edition suggestions: ${insertError.message}`,
+      );
+    }
+
+    return (inserted || []) as EditionSuggestion[];
+  }
+
+  /**
+   * Pending suggestions for a book, new editions first
+   */
+  static async getSuggestions(
+    bookId: string,
+    userId: string,
+  ): Promise<EditionSuggestion[]> {
+    const { data, error } = await this.getSupabase()
+      .from('book_edition_suggestions')
+      .select('*')
+      .eq('book_id', bookId)
+      .eq('user_id', userId)
+      .eq('status', 'pending')
+      .order('is_new_edition', { ascending: false })
+      .order('edition_number', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch edition suggestions: ${error.message}`);
+    }
+
+    return (data || []) as EditionSuggestion[];
+  }
+
+  /**
+   * Add a suggested binding to the book. Returns the editions that were
+   * created or extended.
+   */
+  static async acceptSuggestion(
+    bookId: string,
+    suggestionId: string,
+    userId: string,
+  ): Promise<BookEdition[]> {
+    const suggestion = await this.getPendingSuggestion(
+      bookId,
+      suggestionId,
+      userId,
+    );
+
+    const editions = await BookService.addEditionsToBook(
+      suggestion.book_id,
+      userId,
+      [suggestion.book_data],
+    );
+
+    await this.resolveSuggestion(suggestion.id, 'accepted');
+    return editions;
+  }
+
+  /**
+   * Hide a suggestion; the ISBN will not be suggested again
+   */
+  static async dismissSuggestion(
+    bookId: string,
+    suggestionId: string,
+    userId: string,
+  ): Promise<void> {
+    const suggestion = await this.getPendingSuggestion(
+      bookId,
+      suggestionId,
+      userId,
+    );
+    await this.resolveSuggestion(suggestion.id, 'dismissed');
+  }
+
+  private static async getPendingSuggestion(
+    bookId: string,
+    suggestionId: string,
+    userId: string,
+  ): Promise<EditionSuggestion> {
+    const { data, error } = await this.getSupabase()
+      .from('book_edition_suggestions')
+      .select('*')
+      .eq('id', suggestionId)
+      .eq('book_id', bookId)
+      .eq('user_id', userId)
+      .eq('status', 'pending')
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new Error('Suggestion not found or access denied');
+      }
+      throw new Error(`Failed to fetch edition suggestion: ${error.message}`);
+    }
+
+    return data as EditionSuggestion;
+  }
+
+  private static async resolveSuggestion(
+    suggestionId: string,
+    status: 'accepted' | 'dismissed',
+  ): Promise<void> {
+    const { error } = await this.getSupabase()
+      .from('book_edition_suggestions')
+      .update({ status, resolved_at: new Date().toISOString() })
+      .eq('id', suggestionId);
+
+    if (error) {
+      throw new Error(`Failed to update edition suggestion: ${error.message}`);
+    }
+  }
+
+  private static normalizeMainTitle(title: string): string {
+    return title
+      .split(':')[0]
+      .toLowerCase()
+      .replace(/[^\w\s]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
@@ -1,3 +1,5 @@
+import { cleanIsbn } from '@/lib/utils/isbn';
+
 interface GoogleBooksValidationResult {
   isReallyPublished: boolean;
   confidence: number;
@@ -79,8 +81,7 @@ export class GoogleBooksValidationService {
   private static async searchByISBN(isbn: string): Promise<unknown> {
     if (!isbn || !this.GOOGLE_BOOKS_API_KEY) return null;
 
-    const cleanISBN = isbn.replace(/[-\s]/g, '');
-    const url = `${this.BASE_URL}?q=isbn:${cleanISBN}&key=${this.GOOGLE_BOOKS_API_KEY}`;
+    const url = `${this.BASE_URL}?q=isbn:${cleanIsbn(isbn)}&key=${this.GOOGLE_BOOKS_API_KEY}`;
 
     const response = await fetch(url);
     const data = await response.json();
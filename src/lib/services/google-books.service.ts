@@ -5,7 +5,9 @@ import { API_CONFIG, CACHE_KEYS, SEARCH_PARAMS } from '../constants/api-config';
 import { ApiResponse } from '../types/api';
 import { UIBook } from '../types/ui-book';
 import { cacheWrapper, buildCacheKey } from '../utils/api-cache';
+import { providerFetch } from '../utils/provider-transport';
 import { createRateLimiter, ExponentialBackoff } from '../utils/rate-limiter';
+import { parseSeriesFromTitle } from '../utils/series';
 
 // Google Books API Types
 interface GoogleBooksVolume {
@@ -31,6 +33,10 @@ interface GoogleBooksVolume {
       large?: string;
     };
     description?: string;
+    seriesInfo?: {
+      bookDisplayNumber?: string; // e.g. "3"; the series name is not included
+      volumeSeries?: Array<{ seriesId: string; orderNumber?: number }>;
+    };
   };
   saleInfo?: {
     country?: string;
@@ -152,7 +158,7 @@ export class GoogleBooksService {
     try {
       await this.rateLimiter.checkLimit('google-books-search');
 
-      const response = await fetch(url.toString(), {
+      const response = await providerFetch('google-books', url.toString(), {
         headers: {
           Accept: 'application/json',
         },
@@ -206,7 +212,7 @@ export class GoogleBooksService {
     try {
       await this.rateLimiter.checkLimit('google-books-fetch');
 
-      const response = await fetch(url.toString(), {
+      const response = await providerFetch('google-books', url.toString(), {
         headers: {
           Accept: 'application/json',
         },
@@ -306,6 +312,16 @@ export class GoogleBooksService {
 
     const imageUrl = getImageUrl(volumeInfo.imageLinks);
 
+    // seriesInfo carries the number but not the name; the title may have both
+    const seriesNumber =
+      parseFloat(volumeInfo.seriesInfo?.bookDisplayNumber || '') ||
+      volumeInfo.seriesInfo?.volumeSeries?.[0]?.orderNumber;
+    const titleSeries = parseSeriesFromTitle(volumeInfo.title);
+    const series =
+      seriesNumber || titleSeries
+        ? { ...titleSeries, number: seriesNumber || titleSeries?.number }
+        : undefined;
+
     return {
       id: volume.id, // Use Google Books volume ID as the primary ID
       isbn,
@@ -321,6 +337,7 @@ export class GoogleBooksService {
       description: volumeInfo.description || '',
       language: volumeInfo.language || 'en',
       subjects: volumeInfo.categories || [],
+      series,
       // Google Books specific metadata
       googleBooksId: volume.id,
       source: 'google-books' as const,
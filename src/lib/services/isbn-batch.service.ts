@@ -0,0 +1,196 @@
+/**
+ * ISBN Batch Service
+ * Looks up a pasted list of ISBNs, previews them as books with their edition
+ * groups, and saves a reviewed preview in one go
+ */
+
+import {
+  IsbnBatchCommitItemResult,
+  IsbnBatchCommitResult,
+  IsbnBatchInvalidIsbn,
+  IsbnBatchPreview,
+  IsbnBatchPreviewItem,
+} from '@/lib/types/isbn-batch';
+import { getBookCredits, toAuthorString } from '@/lib/utils/contributors';
+import {
+  hyphenateIsbn,
+  normalizeIsbn,
+  suggestIsbnCorrections,
+  toISBN13,
+} from '@/lib/utils/isbn';
+import { normalizeLanguageCode } from '@/lib/utils/languages';
+import {
+  BookCreateRequestSchema,
+  formatValidationError,
+  validateRequestBody,
+} from '@/lib/validation/api-schemas';
+
+import { BookEnrichmentService } from './book-enrichment.service';
+import { BookService } from './book.service';
+import { EditionCorrectionService } from './edition-correction.service';
+import {
+  EditionDetectionService,
+  EditionGroup,
+} from './edition-detection.service';
+
+// Per invalid ISBN, as in the single ISBN lookup
+const MAX_ISBN_SUGGESTIONS = 3;
+
+export class IsbnBatchService {
+  /**
+   * Resolve ISBNs to books grouped into editions. Nothing is saved; the
+   * items are what commit() takes once the user has reviewed them.
+   */
+  static async preview(inputs: string[]): Promise<IsbnBatchPreview> {
+    const isbns = new Set<string>();
+    const invalid: IsbnBatchInvalidIsbn[] = [];
+
+    inputs.forEach(input => {
+      const isbn = toISBN13(input);
+      if (isbn) {
+        isbns.add(isbn);
+      } else if (input.trim()) {
+        invalid.push({
+          input: input.trim(),
+          suggestions: suggestIsbnCorrections(input)
+            .slice(0, MAX_ISBN_SUGGESTIONS)
+            .map(
+              correction => hyphenateIsbn(correction.isbn) || correction.isbn,
+            ),
+        });
+      }
+    });
+
+    const enrichmentService = new BookEnrichmentService();
+    const books = await enrichmentService.enrichBooksWithDetailedData(
+      Array.from(isbns),
+    );
+
+    const corrections = await EditionCorrectionService.getRegistry(books);
+    const items: IsbnBatchPreviewItem[] = [];
+
+    EditionDetectionService.groupByBook(books, { corrections }).forEach(
+      groups => {
+        // Languages are saved as 2-letter codes
+        const editionGroups = groups.map(group => ({
+          ...group,
+          books: group.books.map(book => ({
+            ...book,
+            language: normalizeLanguageCode(book.language) || undefined,
+          })),
+        }));
+        const book = EditionDetectionService.selectPrimaryBook(editionGroups);
+        if (!book) return;
+
+        items.push({
+          book,
+          editionGroups,
+          isbns: this.getBookIsbns(editionGroups).filter(isbn =>
+            isbns.has(isbn),
+          ),
+        });
+      },
+    );
+
+    const found = new Set(items.flatMap(item => item.isbns));
+
+    return {
+      items,
+      invalid,
+      not_found: Array.from(isbns).filter(isbn => !found.has(isbn)),
+    };
+  }
+
+  /**
+   * Save previewed items for a user, each the way POST /api/books saves a
+   * single book: merged into a book with the same title and author, or
+   * created. Items are validated and saved independently, so one bad item
+   * doesn't stop the rest.
+   */
+  static async commit(
+    userId: string,
+    items: Record<string, unknown>[],
+  ): Promise<IsbnBatchCommitResult> {
+    const results: IsbnBatchCommitItemResult[] = [];
+
+    // Sequential, so a later item can merge into a book an earlier one created
+    for (const [index, item] of items.entries()) {
+      const validation = validateRequestBody(BookCreateRequestSchema, item);
+      if (!validation.success) {
+        results.push({
+          index,
+          status: 'error',
+          error: formatValidationError(validation.error),
+        });
+        continue;
+      }
+
+      const { book: bookData, editionGroups } = validation.data;
+      const title = bookData.title;
+
+      try {
+        const contributors = getBookCredits(bookData);
+        const author =
+          toAuthorString(contributors) || bookData.authors.join(', ');
+        const editionGroupsWithIds = editionGroups.map(editionGroup => ({
+          ...editionGroup,
+          books: editionGroup.books.map(book => ({
+            ...book,
+            id: crypto.randomUUID(),
+          })),
+        }));
+
+        const existingBook = await BookService.findExistingBook(
+          userId,
+          title,
+          author,
+        );
+        const book = existingBook
+          ? await BookService.updateBookWithNewEditions(
+              existingBook.id,
+              editionGroupsWithIds,
+            )
+          : await BookService.createBook(
+              userId,
+              title,
+              author,
+              editionGroupsWithIds,
+              undefined,
+              contributors,
+            );
+
+        results.push({
+          index,
+          status: existingBook ? 'merged' : 'created',
+          title,
+          book_id: book.id,
+        });
+      } catch (error) {
+        results.push({
+          index,
+          status: 'error',
+          title,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    const failed = results.filter(result => result.status === 'error').length;
+
+    return {
+      total: items.length,
+      succeeded: results.length - failed,
+      failed,
+      items: results,
+    };
+  }
+
+  private static getBookIsbns(editionGroups: EditionGroup[]): string[] {
+    const isbns = editionGroups
+      .flatMap(group => group.books)
+      .flatMap(book => [book.isbn, book.isbn13])
+      .filter((isbn): isbn is string => !!isbn)
+      .map(normalizeIsbn);
+    return Array.from(new Set(isbns));
+  }
+}
@@ -12,7 +12,14 @@ import {
   ISBNDBBookResponse,
   ApiResponse,
 } from '../types/api';
-import { cacheWrapper, buildCacheKey } from '../utils/api-cache';
+import {
+  cacheWrapper,
+  buildCacheKey,
+  getCachedData,
+  setCachedData,
+} from '../utils/api-cache';
+import { normalizeIsbn } from '../utils/isbn';
+import { providerFetch } from '../utils/provider-transport';
 import {
   createRateLimiter,
   ExponentialBackoff,
@@ -66,6 +73,44 @@ export class ISBNDBService {
     }
   }
 
+  // Get many books by ISBN with ISBNdb's bulk endpoint, one request per
+  // BULK_MAX_ISBNS. ISBNs getBookByISBN already cached are not requested
+  // again, and each book fetched is cached for getBookByISBN in turn.
+  // ISBNs ISBNdb doesn't have are simply missing from the result.
+  async getBooksByISBNs(
+    isbns: string[],
+  ): Promise<ApiResponse<ISBNDBBookResponse[]>> {
+    const books: ISBNDBBookResponse[] = [];
+    const uncached: string[] = [];
+
+    try {
+      const cached = await Promise.all(
+        isbns.map(isbn =>
+          getCachedData<ApiResponse<ISBNDBBookResponse>>(
+            buildCacheKey(CACHE_KEYS.ISBN_DB_BOOK, { isbn }),
+          ),
+        ),
+      );
+      cached.forEach((response, index) => {
+        if (!response) {
+          uncached.push(isbns[index]);
+        } else if (response.success && response.data) {
+          books.push(response.data);
+        }
+      });
+
+      const batchSize = API_CONFIG.ISBN_DB.BULK_MAX_ISBNS;
+      for (let start = 0; start < uncached.length; start += batchSize) {
+        books.push(
+          ...(await this.fetchBooks(uncached.slice(start, start + batchSize))),
+        );
+      }
+      return { success: true, data: books };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
   // Search books by title only (use /search/books?text={title})
   async searchBooksByTitle(
     title: string,
@@ -85,7 +130,7 @@ export class ISBNDBService {
         cacheKey,
         async () => {
           const url = `${this.baseUrl}/search/books?text=${encodeURIComponent(title)}&page=${page}&pageSize=${pageSize}`;
-          const res = await fetch(url, {
+          const res = await providerFetch('isbn-db', url, {
             headers: { Authorization: this.apiKey },
           });
           if (!res.ok) throw new Error(`ISBNDB API error: ${res.status}`);
@@ -577,6 +622,40 @@ export class ISBNDBService {
     });
   }
 
+  private async fetchBooks(isbns: string[]): Promise<ISBNDBBookResponse[]> {
+    const canMakeRequest = await this.rateLimiter.checkLimit('isbn-db');
+
+    if (!canMakeRequest) {
+      await this.rateLimiter.waitForSlot('isbn-db');
+    }
+
+    return this.backoff.execute(async () => {
+      const url = `${this.baseUrl}${API_CONFIG.ISBN_DB.ENDPOINTS.BOOKS}`;
+      // ISBNdb takes the list as a form-style body, not JSON
+      const response = await this.makeRequest(url, {
+        method: 'POST',
+        body: `isbns=${isbns.join(',')}`,
+      });
+      const books = response.data || [];
+
+      const requested = new Map(isbns.map(isbn => [normalizeIsbn(isbn), isbn]));
+      await Promise.all(
+        books.map(book => {
+          const isbn = requested.get(normalizeIsbn(book.isbn13 || book.isbn));
+          return isbn
+            ? setCachedData(
+                buildCacheKey(CACHE_KEYS.ISBN_DB_BOOK, { isbn }),
+                { success: true, data: book },
+                API_CONFIG.ISBN_DB.CACHE_TTL,
+              )
+            : undefined;
+        }),
+      );
+
+      return books;
+    });
+  }
+
   private async performSearch(params: {
     title?: string;
     author?: string;
@@ -699,7 +778,7 @@ export class ISBNDBService {
     );
 
     try {
-      const response = await fetch(url, {
+      const response = await providerFetch('isbn-db', url, {
         method: 'GET',
         headers: {
           Authorization: this.apiKey,
@@ -725,6 +804,7 @@ export class ISBNDBService {
   // Original request method with longer timeout for fallback operations
   private async makeRequest(
     url: string,
+    options: { method?: 'GET' | 'POST'; body?: string } = {},
   ): Promise<ISBNDBApiResponse<ISBNDBBookResponse>> {
     const controller = new AbortController();
     const timeoutId = setTimeout(
@@ -733,12 +813,13 @@ export class ISBNDBService {
     );
 
     try {
-      const response = await fetch(url, {
-        method: 'GET',
+      const response = await providerFetch('isbn-db', url, {
+        method: options.method || 'GET',
         headers: {
           Authorization: this.apiKey,
           'Content-Type': 'application/json',
         },
+        body: options.body,
         signal: controller.signal,
       });
 
@@ -10,6 +10,7 @@ import {
 } from '../types/api';
 import { UIBook, convertITunesToUIBook } from '../types/ui-book';
 import { cacheWrapper, buildCacheKey } from '../utils/api-cache';
+import { providerFetch } from '../utils/provider-transport';
 import { createRateLimiter, ExponentialBackoff } from '../utils/rate-limiter';
 
 export class ITunesSearchService {
@@ -186,7 +187,7 @@ export class ITunesSearchService {
         API_CONFIG.ITUNES_SEARCH.TIMEOUT,
       );
 
-      const response = await fetch(url.toString(), {
+      const response = await providerFetch('itunes', url.toString(), {
         method: 'GET',
         headers: {
           Accept: 'application/json',
@@ -259,7 +260,7 @@ export class ITunesSearchService {
         API_CONFIG.ITUNES_SEARCH.TIMEOUT,
       );
 
-      const response = await fetch(url.toString(), {
+      const response = await providerFetch('itunes', url.toString(), {
         method: 'GET',
         headers: {
           Accept: 'application/json',
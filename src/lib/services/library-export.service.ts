@@ -0,0 +1,295 @@
+/**
+ * Library Export Service
+ * Dumps a user's Book → BookEdition → BookBinding tree as flat CSV or nested JSON,
+ * and restores a JSON export back into a library
+ */
+
+import { z } from 'zod';
+
+import { Book } from '@/lib/types/book';
+import { ContributorCredit } from '@/lib/types/contributor';
+import {
+  LIBRARY_EXPORT_FORMAT,
+  LIBRARY_EXPORT_VERSION,
+  LibraryExport,
+  LibraryRestoreResult,
+} from '@/lib/types/library-export';
+import { UIBook } from '@/lib/types/ui-book';
+import { CONTRIBUTOR_ROLE_LABELS } from '@/lib/utils/contributors';
+import { toCsv } from '@/lib/utils/csv';
+import { toISBN13 } from '@/lib/utils/isbn';
+import { LibraryImportSchema } from '@/lib/validation/api-schemas';
+
+import { BookService } from './book.service';
+import { EditionGroup } from './edition-detection.service';
+import { SeriesService } from './series.service';
+import { WorkService } from './work.service';
+
+type LibraryImportBook = z.infer<typeof LibraryImportSchema>['books'][number];
+
+// One row per binding; book and edition columns repeat on every row
+export const LIBRARY_CSV_COLUMNS = [
+  'book_id',
+  'book_title',
+  'book_author',
+  'book_contributors',
+  'book_created_at',
+  'edition_id',
+  'edition_number',
+  'publication_year',
+  'edition_language',
+  'is_translation',
+  'translated_title',
+  'territory',
+  'is_selected_edition',
+  'binding_id',
+  'isbn',
+  'binding_type',
+  'publisher',
+  'price',
+  'pages',
+  'language',
+  'binding_contributors',
+  'cover_image_url',
+  'description',
+];
+
+export class LibraryExportService {
+  /**
+   * Flat CSV with one row per binding. Books without bindings still get a row
+   * per edition so nothing silently drops out of the spreadsheet.
+   */
+  static toCsv(books: Book[]): string {
+    const rows: Array<Record<string, string | number | undefined>> = [];
+
+    books.forEach(book => {
+      const editions = [...book.editions].sort(
+        (a, b) => a.edition_number - b.edition_number,
+      );
+
+      editions.forEach(edition => {
+        const editionColumns = {
+          book_id: book.id,
+          book_title: book.title,
+          book_author: book.author,
+          book_contributors: this.formatCredits(book.contributors),
+          book_created_at: book.created_at,
+          edition_id: edition.id,
+          edition_number: edition.edition_number,
+          publication_year: edition.publication_year,
+          edition_language: edition.language,
+          is_translation: edition.is_translation ? 'yes' : 'no',
+          translated_title: edition.translated_title ?? undefined,
+          territory: edition.territory ?? undefined,
+          is_selected_edition:
+            book.selected_edition_id === edition.id ? 'yes' : 'no',
+        };
+
+        if (edition.bindings.length === 0) {
+          rows.push(editionColumns);
+          return;
+        }
+
+        edition.bindings.forEach(binding =>
+          rows.push({
+            ...editionColumns,
+            binding_id: binding.id,
+            isbn: binding.isbn,
+            binding_type: binding.binding_type,
+            publisher: binding.publisher,
+            price: binding.price,
+            pages: binding.pages,
+            language: binding.language,
+            binding_contributors: this.formatCredits(binding.contributors),
+            cover_image_url: binding.cover_image_url,
+            description: binding.description,
+          }),
+        );
+      });
+    });
+
+    // BOM so Excel opens the file as UTF-8
+    return `\uFEFF${toCsv(LIBRARY_CSV_COLUMNS, rows)}`;
+  }
+
+  /**
+   * "Name (Role); Name (Role)" for a CSV cell
+   */
+  private static formatCredits(credits?: ContributorCredit[]) {
+    return credits
+      ?.map(({ name, role }) => `${name} (${CONTRIBUTOR_ROLE_LABELS[role]})`)
+      .join('; ');
+  }
+
+  /**
+   * Nested JSON mirroring the Book type, suitable for restoreFromJson
+   */
+  static toJson(books: Book[]): LibraryExport {
+    return {
+      format: LIBRARY_EXPORT_FORMAT,
+      version: LIBRARY_EXPORT_VERSION,
+      exported_at: new Date().toISOString(),
+      books,
+    };
+  }
+
+  /**
+   * Restore a JSON export into a user's library. Books that already exist
+   * (same title and author) are merged; bindings already present are kept,
+   * and so is the existing book's series. Books that shared a work are put
+   * back into one work once every book is in.
+   */
+  static async restoreFromJson(
+    userId: string,
+    payload: z.infer<typeof LibraryImportSchema>,
+  ): Promise<LibraryRestoreResult> {
+    const result: LibraryRestoreResult = {
+      total: payload.books.length,
+      created: 0,
+      merged: 0,
+      failed: [],
+    };
+    // Restored book IDs by the work ID they had in the export
+    const works = new Map<string, { title?: string; bookIds: string[] }>();
+
+    for (const book of payload.books) {
+      try {
+        const editionGroups = this.toEditionGroups(book);
+        const existingBook = await BookService.findExistingBook(
+          userId,
+          book.title,
+          book.author,
+        );
+
+        let bookId: string;
+        if (existingBook) {
+          await BookService.updateBookWithNewEditions(
+            existingBook.id,
+            editionGroups,
+          );
+          bookId = existingBook.id;
+          result.merged++;
+        } else {
+          const selectedEdition = book.editions.find(
+            edition => edition.id && edition.id === book.selected_edition_id,
+          );
+          const createdBook = await BookService.createBook(
+            userId,
+            book.title,
+            book.author,
+            editionGroups,
+            selectedEdition?.edition_number,
+            book.contributors,
+          );
+          await this.restoreSeries(userId, createdBook, book);
+          bookId = createdBook.id;
+          result.created++;
+        }
+
+        if (book.work_id) {
+          const work = works.get(book.work_id) || {
+            title: book.work?.title,
+            bookIds: [],
+          };
+          work.bookIds.push(bookId);
+          works.set(book.work_id, work);
+        }
+      } catch (error) {
+        result.failed.push({
+          title: book.title,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    for (const { title, bookIds } of works.values()) {
+      if (bookIds.length < 2) continue;
+      try {
+        const work = await WorkService.mergeBooks(userId, bookIds);
+        if (title) {
+          await WorkService.updateWork(work.id, userId, { title });
+        }
+      } catch (error) {
+        result.failed.push({
+          title: title || 'Work',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Put a restored book back in its series. An export that says the book
+   * had no series also undoes the series createBook detected from titles;
+   * older exports without series data leave the detected one alone.
+   */
+  private static async restoreSeries(
+    userId: string,
+    createdBook: Book,
+    book: LibraryImportBook,
+  ): Promise<void> {
+    if (book.series) {
+      const { series_id } = await SeriesService.resolveSeriesFields(userId, {
+        name: book.series.name,
+      });
+      if (series_id) {
+        await SeriesService.setBookEntry(series_id, createdBook.id, userId, {
+          series_number: book.series_number,
+          reading_order: book.reading_order,
+        });
+      }
+    } else if (book.series === null && createdBook.series_id) {
+      await SeriesService.removeBookEntry(
+        createdBook.series_id,
+        createdBook.id,
+        userId,
+      );
+    }
+  }
+
+  /**
+   * Convert exported editions back into the EditionGroup shape BookService saves.
+   * Field mapping is the inverse of BookService.createEditionsWithBindings.
+   */
+  private static toEditionGroups(book: LibraryImportBook): EditionGroup[] {
+    const editions = [...book.editions].sort(
+      (a, b) => b.edition_number - a.edition_number,
+    );
+
+    return editions.map(edition => ({
+      edition_number: edition.edition_number,
+      publication_year: edition.publication_year ?? undefined,
+      translation:
+        edition.is_translation && edition.language
+          ? {
+              language: edition.language,
+              translated_title: edition.translated_title,
+              territory: edition.territory,
+            }
+          : undefined,
+      books: edition.bindings.map(
+        (binding): UIBook => ({
+          id: crypto.randomUUID(),
+          title: book.title,
+          authors: [book.author],
+          isbn: binding.isbn ?? undefined,
+          isbn13: toISBN13(binding.isbn) || undefined,
+          binding: binding.binding_type,
+          msrp: binding.price ?? undefined,
+          publisher: binding.publisher ?? undefined,
+          image: binding.cover_image_url ?? undefined,
+          synopsis: binding.description ?? undefined,
+          pages: binding.pages ?? undefined,
+          language: binding.language ?? undefined,
+          provenance: binding.provenance ?? undefined,
+          conflicts: binding.metadata_conflicts ?? undefined,
+          overrides: binding.user_overrides ?? undefined,
+          contributors: binding.contributors,
+          data_source: 'library-import',
+        }),
+      ),
+    }));
+  }
+}
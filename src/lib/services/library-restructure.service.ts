@@ -0,0 +1,355 @@
+/**
+ * Library Restructure Service
+ * Manual fixes for edition detection: move bindings, merge editions or
+ * books, split editions, and undo any of them. The work happens in
+ * database functions so each change is a single transaction and lands in
+ * the audit log with a snapshot to undo from. Each fix is also recorded
+ * as edition corrections so future grouping gets it right, and undoing the
+ * fix takes them back.
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import {
+  EditionCorrectionChange,
+  EditionCorrectionPair,
+} from '@/lib/types/edition-correction';
+import {
+  LibraryOperation,
+  LibraryOperationResult,
+} from '@/lib/types/library-operation';
+import { toCorrectionPairs } from '@/lib/utils/edition-correction-registry';
+
+import { BookService } from './book.service';
+import { EditionCorrectionService } from './edition-correction.service';
+
+interface OperationResponse {
+  operation_id: string;
+  book_id: string;
+}
+
+export class LibraryRestructureService {
+  private static _supabase: ReturnType<typeof createServiceClient> | null =
+    null;
+
+  private static getSupabase() {
+    if (!this._supabase) {
+      this._supabase = createServiceClient();
+    }
+    return this._supabase;
+  }
+
+  /**
+   * Move a binding into another edition. An edition left without bindings
+   * is removed.
+   */
+  static async moveBinding(
+    userId: string,
+    bindingId: string,
+    targetEditionId: string,
+  ): Promise<LibraryOperationResult> {
+    const binding = await this.getBindingBeforeChange(bindingId);
+    const result = await this.run(userId, 'move binding', 'move_binding', {
+      p_binding_id: bindingId,
+      p_target_edition_id: targetEditionId,
+    });
+
+    // Same edition as its new siblings, a different one from its old ones
+    if (binding) {
+      await this.recordCorrections(userId, result.operation_id, [
+        ...toCorrectionPairs(
+          [binding.isbn],
+          this.getResultIsbns(result, targetEditionId, [bindingId]),
+          'same-edition',
+        ),
+        ...toCorrectionPairs(
+          [binding.isbn],
+          binding.siblingIsbns,
+          'different-edition',
+        ),
+      ]);
+    }
+    return result;
+  }
+
+  /**
+   * Move all bindings of the source edition into the target edition
+   */
+  static async mergeEditions(
+    userId: string,
+    sourceEditionId: string,
+    targetEditionId: string,
+  ): Promise<LibraryOperationResult> {
+    const isbns = await this.getEditionIsbnsBeforeChange([
+      sourceEditionId,
+      targetEditionId,
+    ]);
+    const result = await this.run(userId, 'merge editions', 'merge_editions', {
+      p_source_edition_id: sourceEditionId,
+      p_target_edition_id: targetEditionId,
+    });
+
+    await this.recordCorrections(
+      userId,
+      result.operation_id,
+      toCorrectionPairs(
+        isbns.get(sourceEditionId) || [],
+        isbns.get(targetEditionId) || [],
+        'same-edition',
+      ),
+    );
+    return result;
+  }
+
+  /**
+   * Merge the source book into the target book and remove the source
+   */
+  static async mergeBooks(
+    userId: string,
+    sourceBookId: string,
+    targetBookId: string,
+  ): Promise<LibraryOperationResult> {
+    const sourceIsbns = new Set(
+      await this.getBookIsbnsBeforeChange(sourceBookId),
+    );
+    const result = await this.run(userId, 'merge books', 'merge_books', {
+      p_source_book_id: sourceBookId,
+      p_target_book_id: targetBookId,
+    });
+
+    // One work now: the source's bindings are the same edition as the target
+    // bindings they were combined with, and a different one from the rest
+    const editions = result.book.editions.map(edition =>
+      edition.bindings
+        .map(binding => binding.isbn)
+        .filter((isbn): isbn is string => !!isbn),
+    );
+    const fromTarget = (isbns: string[]) =>
+      isbns.filter(isbn => !sourceIsbns.has(isbn));
+    await this.recordCorrections(
+      userId,
+      result.operation_id,
+      editions.flatMap((isbns, index) => {
+        const moved = isbns.filter(isbn => sourceIsbns.has(isbn));
+        return [
+          ...toCorrectionPairs(moved, fromTarget(isbns), 'same-edition'),
+          ...toCorrectionPairs(
+            moved,
+            fromTarget(editions.filter((_, other) => other !== index).flat()),
+            'different-edition',
+          ),
+        ];
+      }),
+    );
+    return result;
+  }
+
+  /**
+   * Move the given bindings out of an edition into a new edition
+   */
+  static async splitEdition(
+    userId: string,
+    editionId: string,
+    bindingIds: string[],
+  ): Promise<LibraryOperationResult> {
+    const result = await this.run(userId, 'split edition', 'split_edition', {
+      p_edition_id: editionId,
+      p_binding_ids: bindingIds,
+    });
+
+    // The split-off bindings are a different edition from those left behind
+    const splitIsbns = result.book.editions
+      .flatMap(edition => edition.bindings)
+      .filter(binding => bindingIds.includes(binding.id))
+      .map(binding => binding.isbn);
+    await this.recordCorrections(
+      userId,
+      result.operation_id,
+      toCorrectionPairs(
+        splitIsbns,
+        this.getResultIsbns(result, editionId),
+        'different-edition',
+      ),
+    );
+    return result;
+  }
+
+  /**
+   * Put the books touched by an operation back the way they were, and take
+   * back the edition corrections the operation recorded
+   */
+  static async undoOperation(
+    userId: string,
+    operationId: string,
+  ): Promise<LibraryOperationResult> {
+    const corrections = await this.getOperationCorrections(operationId);
+    const result = await this.run(
+      userId,
+      'undo change',
+      'undo_library_operation',
+      { p_operation_id: operationId },
+    );
+
+    await EditionCorrectionService.revertCorrections(corrections);
+    return result;
+  }
+
+  /**
+   * Recent restructuring of a book, newest first
+   */
+  static async getBookOperations(
+    userId: string,
+    bookId: string,
+    limit = 20,
+  ): Promise<LibraryOperation[]> {
+    const { data, error } = await this.getSupabase()
+      .from('audit_logs')
+      .select(
+        'id, action_type, action_description, status, metadata, created_at',
+      )
+      .eq('performed_by_user_id', userId)
+      .eq('action_category', 'library')
+      .contains('metadata', { book_ids: [bookId] })
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch library changes: ${error.message}`);
+    }
+
+    return (data || []).map(({ metadata, ...operation }) => ({
+      ...operation,
+      book_ids: metadata?.book_ids || [],
+    }));
+  }
+
+  /**
+   * The binding's ISBN and those of the bindings it shares an edition with.
+   * Only feeds corrections, so a failed lookup just skips them.
+   */
+  private static async getBindingBeforeChange(
+    bindingId: string,
+  ): Promise<{ isbn: string; siblingIsbns: string[] } | null> {
+    const { data, error } = await this.getSupabase()
+      .from('book_bindings')
+      .select('isbn, book_edition_id')
+      .eq('id', bindingId)
+      .single();
+
+    if (error || !data?.isbn) return null;
+
+    const isbns = await this.getEditionIsbnsBeforeChange([
+      data.book_edition_id,
+    ]);
+    return {
+      isbn: data.isbn,
+      siblingIsbns: (isbns.get(data.book_edition_id) || []).filter(
+        isbn => isbn !== data.isbn,
+      ),
+    };
+  }
+
+  private static async getBookIsbnsBeforeChange(
+    bookId: string,
+  ): Promise<string[]> {
+    try {
+      return (
+        (await EditionCorrectionService.getBookIsbns([bookId])).get(bookId) ||
+        []
+      );
+    } catch {
+      return [];
+    }
+  }
+
+  private static async getEditionIsbnsBeforeChange(
+    editionIds: string[],
+  ): Promise<Map<string, string[]>> {
+    try {
+      return await EditionCorrectionService.getEditionIsbns(editionIds);
+    } catch {
+      return new Map();
+    }
+  }
+
+  /**
+   * Record an operation's corrections and keep them, with what each
+   * replaced, in its audit log metadata, so undoing the operation can put
+   * the pairs back the way they were
+   */
+  private static async recordCorrections(
+    userId: string,
+    operationId: string,
+    corrections: EditionCorrectionPair[],
+  ): Promise<void> {
+    const changes = await EditionCorrectionService.recordCorrections(
+      userId,
+      corrections,
+    );
+    if (changes.length === 0) return;
+
+    const supabase = this.getSupabase();
+    const { data } = await supabase
+      .from('audit_logs')
+      .select('metadata')
+      .eq('id', operationId)
+      .single();
+    const { error } = await supabase
+      .from('audit_logs')
+      .update({
+        metadata: { ...data?.metadata, edition_corrections: changes },
+      })
+      .eq('id', operationId);
+
+    if (error && process.env.NODE_ENV === 'development') {
+      // eslint-disable-next-line no-console
+      console.error('Failed to save corrections with the operation:', error);
+    }
+  }
+
+  private static async getOperationCorrections(
+    operationId: string,
+  ): Promise<EditionCorrectionChange[]> {
+    const { data } = await this.getSupabase()
+      .from('audit_logs')
+      .select('metadata')
+      .eq('id', operationId)
+      .single();
+
+    return data?.metadata?.edition_corrections || [];
+  }
+
+  private static getResultIsbns(
+    result: LibraryOperationResult,
+    editionId: string,
+    excludeBindingIds: string[] = [],
+  ): (string | undefined)[] {
+    const edition = result.book.editions.find(({ id }) => id === editionId);
+    return (edition?.bindings || [])
+      .filter(binding => !excludeBindingIds.includes(binding.id))
+      .map(binding => binding.isbn);
+  }
+
+  private static async run(
+    userId: string,
+    action: string,
+    fn: string,
+    args: Record<string, unknown>,
+  ): Promise<LibraryOperationResult> {
+    const { data, error } = await this.getSupabase().rpc(fn, {
+      p_user_id: userId,
+      ...args,
+    });
+
+    if (error) {
+      throw new Error(`Failed to ${action}: ${error.message}`);
+    }
+
+    const { operation_id, book_id } = data as OperationResponse;
+    const book = await BookService.getBookWithDetails(book_id, userId);
+    if (!book) {
+      throw new Error('Book not found or access denied');
+    }
+
+    return { operation_id, book };
+  }
+}
@@ -0,0 +1,341 @@
+/**
+ * Metadata Provider Registry
+ * Single place the search pipeline asks "which sources, in what order, with
+ * what timeout". Defaults come from METADATA_PROVIDER_DEFAULTS and can be
+ * overridden per provider by admins.
+ */
+
+import {
+  ISBN_LOOKUP_CONCURRENCY,
+  METADATA_PROVIDER_DEFAULTS,
+} from '@/lib/constants/api-config';
+import {
+  MetadataProvider,
+  MetadataProviderCapability,
+  MetadataProviderId,
+  MetadataProviderResult,
+  MetadataProviderSettings,
+  MetadataProviderSettingsRow,
+  MetadataProviderStatus,
+} from '@/lib/types/metadata-provider';
+import { UIBook } from '@/lib/types/ui-book';
+import { normalizeIsbn } from '@/lib/utils/isbn';
+import { stampProvenance } from '@/lib/utils/provenance';
+
+import { MetadataProviderSettingsService } from './metadata-provider-settings.service';
+import { BUILT_IN_METADATA_PROVIDERS } from './metadata-providers';
+
+// Admin overrides are re-read at most this often per server instance
+const SETTINGS_TTL_MS = 60 * 1000;
+
+export class MetadataProviderRegistry {
+  private static providers = new Map<MetadataProviderId, MetadataProvider>(
+    BUILT_IN_METADATA_PROVIDERS.map(provider => [provider.id, provider]),
+  );
+  private static overrides = new Map<
+    MetadataProviderId,
+    MetadataProviderSettingsRow
+  >();
+  private static overridesLoadedAt = 0;
+
+  /**
+   * Register (or replace) a provider
+   */
+  static register(provider: MetadataProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  /**
+   * Effective settings: admin override, then API_CONFIG default
+   */
+  static getSettings(id: MetadataProviderId): MetadataProviderSettings {
+    const defaults = this.getDefaults(id);
+    const override = this.overrides.get(id);
+
+    return {
+      enabled: override?.enabled ?? defaults.enabled,
+      priority: override?.priority ?? defaults.priority,
+      timeoutMs: override?.timeout_ms ?? defaults.timeoutMs,
+    };
+  }
+
+  /**
+   * Enabled, available providers with a capability, in priority order
+   */
+  static async getProviders(
+    capability: MetadataProviderCapability,
+  ): Promise<MetadataProvider[]> {
+    await this.loadSettings();
+
+    return Array.from(this.providers.values())
+      .filter(
+        provider =>
+          this.hasCapability(provider, capability) &&
+          this.getSettings(provider.id).enabled &&
+          provider.isAvailable(),
+      )
+      .sort(
+        (a, b) =>
+          this.getSettings(a.id).priority - this.getSettings(b.id).priority,
+      );
+  }
+
+  /**
+   * Run a title/author search against every enabled provider in parallel.
+   * Results come back in priority order; a failing or slow provider yields
+   * an unsuccessful result instead of rejecting. Every book is stamped with
+   * the provider as the provenance of its populated fields. `onResult` sees
+   * each result as soon as its provider settles, for streaming searches.
+   */
+  static async searchByTitleAuthor(
+    title: string,
+    author: string,
+    options: {
+      onResult?: (result: MetadataProviderResult<UIBook[]>) => void;
+    } = {},
+  ): Promise<MetadataProviderResult<UIBook[]>[]> {
+    const providers = await this.getProviders('title-author-search');
+
+    return Promise.all(
+      providers.map(async provider => {
+        const result = await this.runWithTimeout(
+          provider,
+          () => provider.searchByTitleAuthor!(title, author),
+          [] as UIBook[],
+        );
+        const fetchedAt = new Date().toISOString();
+
+        const stamped = {
+          ...result,
+          data: result.data.map(book =>
+            stampProvenance(book, provider.id, fetchedAt),
+          ),
+        };
+        options.onResult?.(stamped);
+        return stamped;
+      }),
+    );
+  }
+
+  /**
+   * Look up an ISBN one provider at a time, in priority order, stopping at the
+   * first hit. Providers in `exclude` are skipped (e.g. the book's own source).
+   */
+  static async lookupByISBN(
+    isbn: string,
+    options: { exclude?: MetadataProviderId[] } = {},
+  ): Promise<MetadataProviderResult<UIBook | null> | null> {
+    const providers = (await this.getProviders('isbn-lookup')).filter(
+      provider => !options.exclude?.includes(provider.id),
+    );
+
+    for (const provider of providers) {
+      const result = await this.runWithTimeout(
+        provider,
+        () => provider.lookupByISBN!(isbn),
+        null,
+      );
+      if (result.success && result.data) {
+        return { ...result, data: stampProvenance(result.data, provider.id) };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Look up many ISBNs in the same provider order as lookupByISBN: each
+   * provider is only asked for the ISBNs no earlier provider had. Providers
+   * with a bulk lookup get one call per batch, each with the bulk timeout;
+   * the rest one call per ISBN, a few at a time. Books are keyed by the
+   * normalized ISBN they were found for.
+   */
+  static async lookupByISBNs(isbns: string[]): Promise<Map<string, UIBook>> {
+    const found = new Map<string, UIBook>();
+    let remaining = Array.from(new Set(isbns.map(normalizeIsbn)));
+
+    for (const provider of await this.getProviders('isbn-lookup')) {
+      if (remaining.length === 0) break;
+
+      if (provider.lookupByISBNs) {
+        const { maxIsbns = remaining.length, timeoutMs } =
+          provider.bulkLookup || {};
+        for (let start = 0; start < remaining.length; start += maxIsbns) {
+          const batch = remaining.slice(start, start + maxIsbns);
+          const result = await this.runWithTimeout(
+            provider,
+            () => provider.lookupByISBNs!(batch),
+            [] as UIBook[],
+            timeoutMs,
+          );
+          result.data.forEach(book => {
+            const isbn = normalizeIsbn(book.isbn);
+            if (batch.includes(isbn) && !found.has(isbn)) {
+              found.set(isbn, stampProvenance(book, provider.id));
+            }
+          });
+        }
+      } else {
+        const results = await mapWithConcurrency(
+          remaining,
+          ISBN_LOOKUP_CONCURRENCY,
+          isbn =>
+            this.runWithTimeout(
+              provider,
+              () => provider.lookupByISBN!(isbn),
+              null,
+            ),
+        );
+        results.forEach((result, index) => {
+          if (result.success && result.data) {
+            found.set(
+              remaining[index],
+              stampProvenance(result.data, provider.id),
+            );
+          }
+        });
+      }
+
+      remaining = remaining.filter(isbn => !found.has(isbn));
+    }
+
+    return found;
+  }
+
+  /**
+   * Status of every registered provider for the admin settings page
+   */
+  static async listStatus(): Promise<MetadataProviderStatus[]> {
+    await this.loadSettings({ force: true });
+
+    return Array.from(this.providers.values())
+      .map(provider => ({
+        id: provider.id,
+        name: provider.name,
+        available: provider.isAvailable(),
+        capabilities: (
+          ['title-author-search', 'isbn-lookup'] as MetadataProviderCapability[]
+        ).filter(capability => this.hasCapability(provider, capability)),
+        overridden: this.overrides.has(provider.id),
+        defaults: this.getDefaults(provider.id),
+        ...this.getSettings(provider.id),
+      }))
+      .sort((a, b) => a.priority - b.priority);
+  }
+
+  static isRegistered(id: string): id is MetadataProviderId {
+    return this.providers.has(id as MetadataProviderId);
+  }
+
+  /**
+   * Drop cached overrides so the next request re-reads them
+   */
+  static invalidateSettings(): void {
+    this.overridesLoadedAt = 0;
+  }
+
+  /**
+   * Load admin overrides. Never throws: if the settings table is unreachable
+   * the registry keeps its last known overrides (or the defaults).
+   */
+  private static async loadSettings(
+    options: { force?: boolean } = {},
+  ): Promise<void> {
+    if (
+      !options.force &&
+      Date.now() - this.overridesLoadedAt < SETTINGS_TTL_MS
+    ) {
+      return;
+    }
+
+    try {
+      const rows = await MetadataProviderSettingsService.getOverrides();
+      this.overrides = new Map(rows.map(row => [row.provider_id, row]));
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Failed to load metadata provider settings:', error);
+    }
+    this.overridesLoadedAt = Date.now();
+  }
+
+  private static getDefaults(id: MetadataProviderId): MetadataProviderSettings {
+    return { ...METADATA_PROVIDER_DEFAULTS[id] };
+  }
+
+  private static hasCapability(
+    provider: MetadataProvider,
+    capability: MetadataProviderCapability,
+  ): boolean {
+    return capability === 'title-author-search'
+      ? !!provider.searchByTitleAuthor
+      : !!provider.lookupByISBN;
+  }
+
+  // minTimeoutMs lets bulk calls outlast the provider's single-call timeout
+  private static async runWithTimeout<T>(
+    provider: MetadataProvider,
+    operation: () => Promise<{ success: boolean; data?: T; error?: string }>,
+    emptyValue: T,
+    minTimeoutMs = 0,
+  ): Promise<MetadataProviderResult<T>> {
+    const timeoutMs = Math.max(
+      this.getSettings(provider.id).timeoutMs,
+      minTimeoutMs,
+    );
+    const start = Date.now();
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const response = await Promise.race([
+        operation(),
+        new Promise<never>((_, reject) => {
+          timeoutId = setTimeout(
+            () => reject(new Error(`${provider.name} timed out`)),
+            timeoutMs,
+          );
+        }),
+      ]);
+
+      return {
+        providerId: provider.id,
+        providesIsbns: provider.providesIsbns,
+        success: response.success,
+        data: response.success ? (response.data ?? emptyValue) : emptyValue,
+        error: response.error,
+        durationMs: Date.now() - start,
+      };
+    } catch (error) {
+      return {
+        providerId: provider.id,
+        providesIsbns: provider.providesIsbns,
+        success: false,
+        data: emptyValue,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        durationMs: Date.now() - start,
+      };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+// Map items through fn with at most `limit` calls pending, keeping the order
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker),
+  );
+  return results;
+}
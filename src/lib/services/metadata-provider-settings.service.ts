@@ -0,0 +1,87 @@
+/**
+ * Metadata Provider Settings Service
+ * Persists admin overrides for the metadata provider registry
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import {
+  MetadataProviderId,
+  MetadataProviderSettingsRow,
+  UpdateMetadataProviderSettingsRequest,
+} from '@/lib/types/metadata-provider';
+
+export class MetadataProviderSettingsService {
+  private static _supabase: ReturnType<typeof createServiceClient> | null =
+    null;
+
+  private static getSupabase() {
+    if (!this._supabase) {
+      this._supabase = createServiceClient();
+    }
+    return this._supabase;
+  }
+
+  /**
+   * Get every stored override row
+   */
+  static async getOverrides(): Promise<MetadataProviderSettingsRow[]> {
+    const { data, error } = await this.getSupabase()
+      .from('metadata_provider_settings')
+      .select('*');
+
+    if (error) {
+      throw new Error(
+        `Failed to fetch metadata provider settings: ${error.message}`,
+      );
+    }
+
+    return (data || []) as MetadataProviderSettingsRow[];
+  }
+
+  /**
+   * Create or update the override row for a provider.
+   * Passing null for a column resets it to the default.
+   */
+  static async upsertOverride(
+    providerId: MetadataProviderId,
+    updatedBy: string,
+    request: UpdateMetadataProviderSettingsRequest,
+  ): Promise<MetadataProviderSettingsRow> {
+    const { data, error } = await this.getSupabase()
+      .from('metadata_provider_settings')
+      .upsert(
+        {
+          provider_id: providerId,
+          ...request,
+          updated_by: updatedBy,
+        },
+        { onConflict: 'provider_id' },
+      )
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(
+        `Failed to update metadata provider settings: ${error.message}`,
+      );
+    }
+
+    return data as MetadataProviderSettingsRow;
+  }
+
+  /**
+   * Remove all overrides for a provider
+   */
+  static async deleteOverride(providerId: MetadataProviderId): Promise<void> {
+    const { error } = await this.getSupabase()
+      .from('metadata_provider_settings')
+      .delete()
+      .eq('provider_id', providerId);
+
+    if (error) {
+      throw new Error(
+        `Failed to reset metadata provider settings: ${error.message}`,
+      );
+    }
+  }
+}
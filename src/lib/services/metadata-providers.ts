@@ -0,0 +1,272 @@
+// Built-in Metadata Providers
+// Adapters that expose each external book-data service through the
+// MetadataProvider interface used by MetadataProviderRegistry
+
+import { API_CONFIG } from '../constants/api-config';
+import { ISBNDBBookResponse } from '../types/api';
+import { MetadataProvider } from '../types/metadata-provider';
+import { convertISBNDBToUIBook, UIBook } from '../types/ui-book';
+import { isReplayingProviders } from '../utils/provider-transport';
+
+import { GoogleBooksService } from './google-books.service';
+import { isbnDbService } from './isbn-db.service';
+import { itunesSearchService } from './itunes-search.service';
+import { openLibraryService } from './open-library.service';
+
+const googleBooksService = new GoogleBooksService();
+
+export const isbnDbProvider: MetadataProvider = {
+  id: 'isbn-db',
+  name: 'ISBNdb',
+  providesIsbns: true,
+  isAvailable: () => !!process.env.ISBNDB_API_KEY || isReplayingProviders(),
+  searchByTitleAuthor: searchISBNDB,
+  async lookupByISBN(isbn) {
+    const result = await isbnDbService.getBookByISBN(isbn);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+    return {
+      success: true,
+      data: result.data
+        ? convertISBNDBDetailedToUIBook(result.data, isbn)
+        : null,
+    };
+  },
+  async lookupByISBNs(isbns) {
+    const result = await isbnDbService.getBooksByISBNs(isbns);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+    return {
+      success: true,
+      data: (result.data || [])
+        .map(book => convertISBNDBDetailedToUIBook(book, book.isbn13))
+        .filter((book): book is UIBook => !!book),
+    };
+  },
+  bulkLookup: {
+    maxIsbns: API_CONFIG.ISBN_DB.BULK_MAX_ISBNS,
+    timeoutMs: API_CONFIG.ISBN_DB.BULK_TIMEOUT,
+  },
+};
+
+export const googleBooksProvider: MetadataProvider = {
+  id: 'google-books',
+  name: 'Google Books',
+  providesIsbns: true,
+  isAvailable: () => googleBooksService.isAvailable(),
+  searchByTitleAuthor: (title, author) =>
+    googleBooksService.searchBooks(title, author),
+  async lookupByISBN(isbn) {
+    // A bare ISBN query ranks the matching volume first
+    const result = await googleBooksService.searchBooks(isbn);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data?.[0] || null };
+  },
+};
+
+export const openLibraryProvider: MetadataProvider = {
+  id: 'open-library',
+  name: 'Open Library',
+  providesIsbns: true,
+  isAvailable: () => openLibraryService.isAvailable(),
+  searchByTitleAuthor: (title, author) =>
+    openLibraryService.searchBooks(title, author),
+  lookupByISBN: isbn => openLibraryService.getBookByISBN(isbn),
+};
+
+export const itunesProvider: MetadataProvider = {
+  id: 'itunes',
+  name: 'iTunes (Audiobooks)',
+  // iTunes results are already complete but never carry ISBNs
+  providesIsbns: false,
+  isAvailable: () => itunesSearchService.isAvailable(),
+  searchByTitleAuthor: (title, author) =>
+    itunesSearchService.searchAudiobooks(title, author),
+};
+
+export const BUILT_IN_METADATA_PROVIDERS: MetadataProvider[] = [
+  isbnDbProvider,
+  googleBooksProvider,
+  openLibraryProvider,
+  itunesProvider,
+];
+
+/**
+ * ISBNdb title/author search with an optimized parallel strategy.
+ * ISBNdb's relevance ranking is weak, so several query shapes run at once
+ * and the union is deduplicated by ISBN.
+ */
+async function searchISBNDB(title: string, author?: string) {
+  const allResults = new Map<string, ISBNDBBookResponse>(); // Use Map to deduplicate by ISBN
+
+  // Enhanced parallel strategy: run multiple search approaches simultaneously
+  const searchPromises = [];
+
+  // Strategy 1: Direct title searches (run in parallel)
+  const titleSearches = [
+    title, // "Startup Life"
+    `"${title}"`, // Quoted search
+    `${title} surviving`, // With common subtitle words
+    `${title} relationship`,
+    `${title} entrepreneur`,
+  ];
+
+  titleSearches.forEach(searchTerm => {
+    searchPromises.push(
+      isbnDbService
+        .searchBooksByTitle(searchTerm, 1, 30)
+        .catch(() => ({ success: false, data: [] })),
+    );
+  });
+
+  // Strategy 2: Author-specific searches (if we have author)
+  if (author) {
+    searchPromises.push(
+      isbnDbService
+        .searchTitleAuthor(title, author, 1, 50)
+        .catch(() => ({ success: false, data: [] })),
+      isbnDbService
+        .searchBooksByTitle(`"${title}" "${author}"`, 1, 30)
+        .catch(() => ({ success: false, data: [] })),
+      isbnDbService
+        .searchBooksByTitle(`${title} ${author}`, 1, 30)
+        .catch(() => ({ success: false, data: [] })),
+    );
+  }
+
+  // Execute all searches in parallel with race condition protection
+  const results = await Promise.allSettled(
+    searchPromises.map(promise =>
+      Promise.race([
+        promise,
+        new Promise(
+          (_, reject) =>
+            setTimeout(() => reject(new Error('Search timeout')), 8000), // 8 second total timeout
+        ),
+      ]),
+    ),
+  );
+
+  results.forEach(result => {
+    if (
+      result.status === 'fulfilled' &&
+      result.value &&
+      typeof result.value === 'object' &&
+      'success' in result.value &&
+      result.value.success &&
+      'data' in result.value &&
+      Array.isArray(result.value.data)
+    ) {
+      result.value.data.forEach((book: ISBNDBBookResponse) => {
+        if (book.isbn) {
+          allResults.set(book.isbn, book);
+        }
+      });
+    }
+  });
+
+  const uniqueBooks = Array.from(allResults.values());
+
+  if (uniqueBooks.length > 0) {
+    return {
+      success: true,
+      data: uniqueBooks.map(convertISBNDBToUIBook),
+    };
+  }
+
+  return {
+    success: false,
+    data: [],
+    error: 'No books found with any search strategy',
+  };
+}
+
+/**
+ * Convert ISBNDB detailed book response to UIBook format
+ * Preserves the perfect image association from ISBNDB
+ */
+function convertISBNDBDetailedToUIBook(
+  bookData: ISBNDBBookResponse,
+  originalISBN: string,
+): UIBook | null {
+  if (!bookData.title) {
+    return null;
+  }
+
+  // Parse publication year from date
+  let year: number | undefined;
+  if (bookData.date_published) {
+    const parsedYear = new Date(bookData.date_published).getFullYear();
+    if (!isNaN(parsedYear)) {
+      year = parsedYear;
+    }
+  }
+
+  return {
+    id: bookData.isbn13 || bookData.isbn || originalISBN,
+    isbn: bookData.isbn13 || bookData.isbn || originalISBN,
+    title: bookData.title,
+    subtitle: bookData.title_long || '',
+    authors: bookData.authors || [],
+    publisher: bookData.publisher || '',
+    year,
+    pages: bookData.pages,
+    binding: normalizeBinding(bookData.binding || bookData.print_type),
+    // ✅ PERFECT IMAGE ASSOCIATION - This image is specifically for this ISBN
+    image: bookData.image || bookData.cover_image,
+    thumbnail: bookData.image || bookData.cover_image,
+    description:
+      bookData.overview || bookData.synopsis || bookData.excerpt || '',
+    language: bookData.language || 'en',
+    subjects: bookData.subjects || [],
+    // Enhanced metadata from detailed endpoint
+    edition: bookData.edition,
+    content_version: bookData.content_version,
+    dimensions: bookData.dimensions,
+    dewey_decimal: bookData.dewey_decimal,
+    // Source tracking
+    source: 'isbn-db' as const,
+    data_source: 'isbndb-detailed',
+  };
+}
+
+/**
+ * Normalize binding type to standard format
+ */
+function normalizeBinding(binding?: string): string {
+  if (!binding) return 'Unknown';
+
+  const normalized = binding.toLowerCase();
+
+  if (normalized.includes('hardcover') || normalized.includes('hardback')) {
+    return 'Hardcover';
+  }
+  if (normalized.includes('paperback') || normalized.includes('softcover')) {
+    return 'Paperback';
+  }
+  if (normalized.includes('mass market')) {
+    return 'Mass Market Paperback';
+  }
+  if (normalized.includes('board book')) {
+    return 'Board Book';
+  }
+  if (normalized.includes('spiral')) {
+    return 'Spiral-bound';
+  }
+  if (normalized.includes('library')) {
+    return 'Library Binding';
+  }
+  if (normalized.includes('kindle') || normalized.includes('ebook')) {
+    return 'Kindle Edition';
+  }
+  if (normalized.includes('audio')) {
+    return 'Audiobook';
+  }
+
+  // Return original if no normalization match
+  return binding;
+}
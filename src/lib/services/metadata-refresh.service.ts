@@ -0,0 +1,340 @@
+/**
+ * Metadata Refresh Service
+ * Re-queries metadata providers for saved books on a schedule, applies the
+ * fresh data to stored bindings and records what changed. Jobs live in
+ * metadata_refresh_queue (same lifecycle as the image enhancement queue);
+ * the worker runs whenever POST /api/admin/metadata-refresh is called.
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import { BookBinding } from '@/lib/types/book';
+import {
+  BookChangeEvent,
+  BookChangeEventInsert,
+  DiscoveredBinding,
+  EditionSuggestion,
+  MetadataRefreshJob,
+  MetadataRefreshRunResult,
+  MetadataRefreshStats,
+} from '@/lib/types/metadata-refresh';
+import { CONFLICT_FIELDS } from '@/lib/types/provenance';
+import { UIBook } from '@/lib/types/ui-book';
+import { CONFLICT_COLUMNS } from '@/lib/utils/metadata-conflicts';
+
+import { BookService } from './book.service';
+import { EditionDiscoveryService } from './edition-discovery.service';
+import { MetadataProviderRegistry } from './metadata-provider-registry';
+
+const DEFAULT_STALE_AFTER_DAYS = 7;
+const DEFAULT_BATCH_SIZE = 5;
+
+export class MetadataRefreshService {
+  private static _supabase: ReturnType<typeof createServiceClient> | null =
+    null;
+
+  private static getSupabase() {
+    if (!this._supabase) {
+      this._supabase = createServiceClient();
+    }
+    return this._supabase;
+  }
+
+  /**
+   * Queue stale books, then process one batch of jobs
+   */
+  static async run(
+    options: { staleAfterDays?: number; batchSize?: number } = {},
+  ): Promise<MetadataRefreshRunResult> {
+    const scheduled = await this.scheduleStaleBooks(
+      options.staleAfterDays ?? DEFAULT_STALE_AFTER_DAYS,
+    );
+    const processed = await this.processNextJobs(
+      options.batchSize ?? DEFAULT_BATCH_SIZE,
+    );
+
+    return { scheduled, ...processed };
+  }
+
+  /**
+   * Queue every book that has not been refreshed within the stale window
+   */
+  static async scheduleStaleBooks(staleAfterDays: number): Promise<number> {
+    const { data, error } = await this.getSupabase().rpc(
+      'schedule_metadata_refresh',
+      { p_stale_after_days: staleAfterDays },
+    );
+
+    if (error) {
+      throw new Error(`Failed to schedule metadata refresh: ${error.message}`);
+    }
+
+    return (data as number) || 0;
+  }
+
+  /**
+   * Claim and process the next pending jobs. A failing book is rescheduled
+   * by the queue and never stops the rest of the batch.
+   */
+  static async processNextJobs(
+    limit: number,
+  ): Promise<Omit<MetadataRefreshRunResult, 'scheduled'>> {
+    const result = { processed: 0, failed: 0, changes: 0 };
+
+    const { data: jobs, error } = await this.getSupabase().rpc(
+      'get_next_metadata_refresh_jobs',
+      { p_limit: limit },
+    );
+
+    if (error) {
+      throw new Error(`Failed to fetch refresh jobs: ${error.message}`);
+    }
+
+    for (const job of (jobs || []) as MetadataRefreshJob[]) {
+      try {
+        const changes = await this.refreshBook(job);
+        await this.getSupabase().rpc('complete_metadata_refresh_job', {
+          p_job_id: job.job_id,
+          p_changes_found: changes.length,
+        });
+        result.processed++;
+        result.changes += changes.length;
+      } catch (jobError) {
+        await this.getSupabase().rpc('fail_metadata_refresh_job', {
+          p_job_id: job.job_id,
+          p_error_message:
+            jobError instanceof Error ? jobError.message : 'Unknown error',
+        });
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Re-query providers for one book, update its bindings and record changes
+   */
+  static async refreshBook(
+    job: Pick<MetadataRefreshJob, 'job_id' | 'book_id' | 'user_id'>,
+  ): Promise<BookChangeEventInsert[]> {
+    const book = await BookService.getBookWithDetails(job.book_id, job.user_id);
+    if (!book) {
+      // Deleted since it was queued; nothing to refresh
+      return [];
+    }
+
+    const changes: BookChangeEventInsert[] = [];
+    const toEvent = (
+      event: Pick<
+        BookChangeEventInsert,
+        | 'change_type'
+        | 'binding_id'
+        | 'field'
+        | 'old_value'
+        | 'new_value'
+        | 'source'
+      >,
+    ): BookChangeEventInsert => ({
+      user_id: job.user_id,
+      book_id: book.id,
+      job_id: job.job_id,
+      ...event,
+    });
+
+    // Step 1: Re-query every saved ISBN and diff against the stored binding
+    for (const edition of book.editions) {
+      for (const binding of edition.bindings) {
+        if (!binding.isbn) continue;
+
+        const result = await MetadataProviderRegistry.lookupByISBN(
+          binding.isbn,
+        );
+        if (!result?.data) continue;
+
+        const refreshed = await BookService.refreshBinding(
+          binding,
+          BookService.toBindingInsert(
+            this.toSavedShape(result.data),
+            edition.id,
+          ),
+        );
+        changes.push(...this.diffBinding(binding, refreshed).map(toEvent));
+      }
+    }
+
+    // Step 2: Suggest bindings and editions the book does not have yet.
+    // Best effort: a failed search should not undo the binding refresh.
+    const suggestions = await EditionDiscoveryService.discoverForBook(
+      book,
+    ).catch(error => {
+      // eslint-disable-next-line no-console
+      console.error(`Edition discovery failed for book ${book.id}:`, error);
+      return [];
+    });
+    changes.push(
+      ...suggestions.map(suggestion =>
+        toEvent({
+          change_type: suggestion.is_new_edition
+            ? 'edition_discovered'
+            : 'binding_discovered',
+          binding_id: null,
+          field: null,
+          old_value: null,
+          new_value: this.toDiscoveredBinding(suggestion),
+          source: suggestion.source ?? null,
+        }),
+      ),
+    );
+
+    if (changes.length > 0) {
+      const { error } = await this.getSupabase()
+        .from('book_change_events')
+        .insert(changes);
+
+      if (error) {
+        throw new Error(`Failed to record book changes: ${error.message}`);
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Most recent changes across a user's books, newest first
+   */
+  static async getChangeFeed(
+    userId: string,
+    options: { limit?: number; unreadOnly?: boolean } = {},
+  ): Promise<{ changes: BookChangeEvent[]; unread: number }> {
+    let query = this.getSupabase()
+      .from('book_change_events')
+      .select('*, book:books!book_change_events_book_id_fkey (title, author)')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(options.limit ?? 20);
+
+    if (options.unreadOnly) {
+      query = query.is('read_at', null);
+    }
+
+    const [{ data, error }, { count, error: countError }] = await Promise.all([
+      query,
+      this.getSupabase()
+        .from('book_change_events')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('read_at', null),
+    ]);
+
+    if (error || countError) {
+      throw new Error(
+        `Failed to fetch change feed: ${(error || countError)!.message}`,
+      );
+    }
+
+    return { changes: (data || []) as BookChangeEvent[], unread: count || 0 };
+  }
+
+  /**
+   * Dismiss changes from the feed (all unread ones when no IDs are given)
+   */
+  static async markChangesRead(
+    userId: string,
+    changeIds?: string[],
+  ): Promise<void> {
+    let query = this.getSupabase()
+      .from('book_change_events')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (changeIds?.length) {
+      query = query.in('id', changeIds);
+    }
+
+    const { error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to mark changes as read: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get refresh queue statistics
+   */
+  static async getQueueStats(): Promise<MetadataRefreshStats | null> {
+    const { data, error } = await this.getSupabase()
+      .from('metadata_refresh_stats')
+      .select('*')
+      .single();
+
+    if (error) {
+      return null;
+    }
+
+    return data as MetadataRefreshStats;
+  }
+
+  /**
+   * Compare a binding before and after refresh
+   */
+  private static diffBinding(
+    before: BookBinding,
+    after: BookBinding,
+  ): Array<
+    Pick<
+      BookChangeEventInsert,
+      | 'change_type'
+      | 'binding_id'
+      | 'field'
+      | 'old_value'
+      | 'new_value'
+      | 'source'
+    >
+  > {
+    return CONFLICT_FIELDS.filter(
+      field =>
+        before[CONFLICT_COLUMNS[field]] !== after[CONFLICT_COLUMNS[field]],
+    ).map(field => ({
+      change_type:
+        field === 'cover'
+          ? 'cover_changed'
+          : field === 'price'
+            ? 'price_changed'
+            : 'metadata_changed',
+      binding_id: after.id,
+      field,
+      old_value: before[CONFLICT_COLUMNS[field]] ?? null,
+      new_value: after[CONFLICT_COLUMNS[field]] ?? null,
+      source: after.provenance?.[field]?.source ?? null,
+    }));
+  }
+
+  private static toDiscoveredBinding(
+    suggestion: EditionSuggestion,
+  ): DiscoveredBinding {
+    const { book_data: result } = suggestion;
+    return {
+      isbn: suggestion.isbn,
+      title: result.title,
+      binding: result.binding || result.print_type,
+      publisher: result.publisher,
+      year: result.year,
+      edition_number: suggestion.edition_number,
+    };
+  }
+
+  /**
+   * Fill the fields BookService reads when saving a binding from their
+   * provider-specific aliases
+   */
+  private static toSavedShape(book: UIBook): UIBook {
+    return {
+      ...book,
+      image: book.image || book.thumbnail,
+      synopsis: book.synopsis || book.description,
+      pages: book.pages || book.page_count,
+      msrp: book.msrp ?? book.price,
+    };
+  }
+}
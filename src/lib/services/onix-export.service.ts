@@ -0,0 +1,368 @@
+/**
+ * ONIX Export Service
+ * Serializes Book → BookEdition → BookBinding into ONIX 3.0 Product records
+ */
+
+import { Book, BookBinding, BookEdition } from '@/lib/types/book';
+import { ContributorCredit } from '@/lib/types/contributor';
+import {
+  OnixBindingValidation,
+  OnixExportOptions,
+  OnixValidationReport,
+} from '@/lib/types/onix';
+import { splitAuthorString } from '@/lib/utils/contributors';
+import { toISBN13 } from '@/lib/utils/isbn';
+import {
+  bindingToProductForm,
+  contributorRoleToOnix,
+  isAudioProductForm,
+  ONIX_NAMESPACE,
+  ONIX_PRODUCT_ID_TYPES,
+  toOnixLanguageCode,
+} from '@/lib/utils/onix-codes';
+
+const DEFAULT_OPTIONS: Required<OnixExportOptions> = {
+  senderName: 'AuthorMagic',
+  currencyCode: 'USD',
+};
+
+export class OnixExportService {
+  /**
+   * Export a single book (all editions and bindings) as an ONIX message
+   */
+  static exportBook(book: Book, options: OnixExportOptions = {}): string {
+    return this.exportBooks([book], options);
+  }
+
+  /**
+   * Export a set of books as a single ONIX message
+   */
+  static exportBooks(books: Book[], options: OnixExportOptions = {}): string {
+    const config = { ...DEFAULT_OPTIONS, ...options };
+
+    const products = books.flatMap(book =>
+      book.editions.flatMap(edition =>
+        edition.bindings.map(binding =>
+          this.buildProduct(book, edition, binding, config),
+        ),
+      ),
+    );
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<ONIXMessage release="3.0" xmlns="${ONIX_NAMESPACE}">`,
+      this.buildHeader(config),
+      ...products,
+      '</ONIXMessage>',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Report which ONIX fields are missing for each binding
+   */
+  static validateBooks(books: Book[]): OnixValidationReport {
+    const bindings: OnixBindingValidation[] = books.flatMap(book =>
+      book.editions.flatMap(edition =>
+        edition.bindings.map(binding =>
+          this.validateBinding(book, edition, binding),
+        ),
+      ),
+    );
+
+    const productsWithErrors = bindings.filter(
+      binding => binding.missingRequired.length > 0,
+    ).length;
+
+    return {
+      valid: productsWithErrors === 0,
+      totalProducts: bindings.length,
+      productsWithErrors,
+      bindings,
+    };
+  }
+
+  /**
+   * Validate a single binding against the fields ONIX recipients expect
+   */
+  static validateBinding(
+    book: Book,
+    edition: BookEdition,
+    binding: BookBinding,
+  ): OnixBindingValidation {
+    const missingRequired: string[] = [];
+    const missingRecommended: string[] = [];
+    const productForm = bindingToProductForm(binding.binding_type);
+
+    if (!toISBN13(binding.isbn)) {
+      missingRequired.push('ProductIdentifier (ISBN-13)');
+    }
+    if (!productForm) {
+      missingRequired.push('ProductForm');
+    }
+    if (!book.title?.trim()) {
+      missingRequired.push('TitleDetail');
+    }
+    if (this.getContributors(book, binding).length === 0) {
+      missingRequired.push('Contributor');
+    }
+    if (!binding.publisher?.trim()) {
+      missingRequired.push('Publisher');
+    }
+    if (!toOnixLanguageCode(binding.language)) {
+      missingRequired.push('Language');
+    }
+    if (binding.price === undefined || binding.price === null) {
+      missingRequired.push('Price');
+    }
+
+    if (!edition.publication_year) {
+      missingRecommended.push('PublishingDate');
+    }
+    if (!binding.cover_image_url) {
+      missingRecommended.push('SupportingResource (cover image)');
+    }
+    if (!binding.description) {
+      missingRecommended.push('TextContent (description)');
+    }
+    if (
+      !binding.pages &&
+      !(productForm && isAudioProductForm(productForm.productForm))
+    ) {
+      missingRecommended.push('Extent (page count)');
+    }
+
+    return {
+      binding_id: binding.id,
+      book_id: book.id,
+      edition_number: edition.edition_number,
+      binding_type: binding.binding_type,
+      isbn: binding.isbn,
+      missingRequired,
+      missingRecommended,
+    };
+  }
+
+  private static buildHeader(config: Required<OnixExportOptions>): string {
+    return [
+      '  <Header>',
+      '    <Sender>',
+      `      <SenderName>${this.escapeXml(config.senderName)}</SenderName>`,
+      '    </Sender>',
+      `    <SentDateTime>${this.formatSentDateTime(new Date())}</SentDateTime>`,
+      '  </Header>',
+    ].join('\n');
+  }
+
+  private static buildProduct(
+    book: Book,
+    edition: BookEdition,
+    binding: BookBinding,
+    config: Required<OnixExportOptions>,
+  ): string {
+    const lines: string[] = [];
+    const isbn13 = toISBN13(binding.isbn);
+    const productForm = bindingToProductForm(binding.binding_type);
+    const language = toOnixLanguageCode(binding.language);
+    const contributors = this.getContributors(book, binding);
+
+    lines.push('  <Product>');
+    lines.push(
+      `    <RecordReference>authormagic-${this.escapeXml(binding.id)}</RecordReference>`,
+    );
+    lines.push('    <NotificationType>03</NotificationType>');
+
+    if (isbn13) {
+      lines.push(
+        '    <ProductIdentifier>',
+        `      <ProductIDType>${ONIX_PRODUCT_ID_TYPES.ISBN_13}</ProductIDType>`,
+        `      <IDValue>${isbn13}</IDValue>`,
+        '    </ProductIdentifier>',
+      );
+    }
+
+    // Block 1: Product description
+    lines.push('    <DescriptiveDetail>');
+    lines.push('      <ProductComposition>00</ProductComposition>');
+    if (productForm) {
+      lines.push(`      <ProductForm>${productForm.productForm}</ProductForm>`);
+      if (productForm.productFormDetail) {
+        lines.push(
+          `      <ProductFormDetail>${productForm.productFormDetail}</ProductFormDetail>`,
+        );
+      }
+    }
+    lines.push(
+      '      <TitleDetail>',
+      '        <TitleType>01</TitleType>',
+      '        <TitleElement>',
+      '          <TitleElementLevel>01</TitleElementLevel>',
+      `          <TitleText>${this.escapeXml(book.title)}</TitleText>`,
+      '        </TitleElement>',
+      '      </TitleDetail>',
+    );
+    contributors.forEach(({ name, role }, index) => {
+      lines.push(
+        '      <Contributor>',
+        `        <SequenceNumber>${index + 1}</SequenceNumber>`,
+        `        <ContributorRole>${contributorRoleToOnix(role)}</ContributorRole>`,
+        `        <PersonName>${this.escapeXml(name)}</PersonName>`,
+        '      </Contributor>',
+      );
+    });
+    lines.push(
+      `      <EditionNumber>${edition.edition_number}</EditionNumber>`,
+    );
+    if (language) {
+      lines.push(
+        '      <Language>',
+        '        <LanguageRole>01</LanguageRole>',
+        `        <LanguageCode>${language}</LanguageCode>`,
+        '      </Language>',
+      );
+    }
+    if (binding.pages && binding.pages > 0) {
+      lines.push(
+        '      <Extent>',
+        '        <ExtentType>00</ExtentType>',
+        `        <ExtentValue>${binding.pages}</ExtentValue>`,
+        '        <ExtentUnit>03</ExtentUnit>',
+        '      </Extent>',
+      );
+    }
+    lines.push('    </DescriptiveDetail>');
+
+    // Block 2: Marketing collateral
+    if (binding.description || binding.cover_image_url) {
+      lines.push('    <CollateralDetail>');
+      if (binding.description) {
+        lines.push(
+          '      <TextContent>',
+          '        <TextType>03</TextType>',
+          '        <ContentAudience>00</ContentAudience>',
+          `        <Text>${this.escapeXml(binding.description)}</Text>`,
+          '      </TextContent>',
+        );
+      }
+      if (binding.cover_image_url) {
+        lines.push(
+          '      <SupportingResource>',
+          '        <ResourceContentType>01</ResourceContentType>',
+          '        <ContentAudience>00</ContentAudience>',
+          '        <ResourceMode>03</ResourceMode>',
+          '        <ResourceVersion>',
+          '          <ResourceForm>02</ResourceForm>',
+          `          <ResourceLink>${this.escapeXml(binding.cover_image_url)}</ResourceLink>`,
+          '        </ResourceVersion>',
+          '      </SupportingResource>',
+        );
+      }
+      lines.push('    </CollateralDetail>');
+    }
+
+    // Block 4: Publishing detail
+    lines.push('    <PublishingDetail>');
+    if (binding.publisher) {
+      lines.push(
+        '      <Publisher>',
+        '        <PublishingRole>01</PublishingRole>',
+        `        <PublisherName>${this.escapeXml(binding.publisher)}</PublisherName>`,
+        '      </Publisher>',
+      );
+    }
+    if (edition.publication_year) {
+      lines.push(
+        '      <PublishingDate>',
+        '        <PublishingDateRole>01</PublishingDateRole>',
+        `        <Date dateformat="05">${edition.publication_year}</Date>`,
+        '      </PublishingDate>',
+      );
+    }
+    lines.push('    </PublishingDetail>');
+
+    // Block 5: Related material - ties every format back to the same work
+    lines.push(
+      '    <RelatedMaterial>',
+      '      <RelatedWork>',
+      '        <WorkRelationCode>01</WorkRelationCode>',
+      '        <WorkIdentifier>',
+      '          <WorkIDType>01</WorkIDType>',
+      '          <IDTypeName>AuthorMagic Book ID</IDTypeName>',
+      `          <IDValue>${this.escapeXml(book.id)}</IDValue>`,
+      '        </WorkIdentifier>',
+      '      </RelatedWork>',
+    );
+    edition.bindings
+      .filter(other => other.id !== binding.id)
+      .map(other => toISBN13(other.isbn))
+      .filter((isbn): isbn is string => !!isbn && isbn !== isbn13)
+      .forEach(isbn => {
+        lines.push(
+          '      <RelatedProduct>',
+          '        <ProductRelationCode>06</ProductRelationCode>',
+          '        <ProductIdentifier>',
+          `          <ProductIDType>${ONIX_PRODUCT_ID_TYPES.ISBN_13}</ProductIDType>`,
+          `          <IDValue>${isbn}</IDValue>`,
+          '        </ProductIdentifier>',
+          '      </RelatedProduct>',
+        );
+      });
+    lines.push('    </RelatedMaterial>');
+
+    // Block 6: Product supply
+    if (binding.price !== undefined && binding.price !== null) {
+      lines.push(
+        '    <ProductSupply>',
+        '      <SupplyDetail>',
+        '        <Supplier>',
+        '          <SupplierRole>01</SupplierRole>',
+        `          <SupplierName>${this.escapeXml(binding.publisher || config.senderName)}</SupplierName>`,
+        '        </Supplier>',
+        '        <ProductAvailability>20</ProductAvailability>',
+        '        <Price>',
+        '          <PriceType>01</PriceType>',
+        `          <PriceAmount>${Number(binding.price).toFixed(2)}</PriceAmount>`,
+        `          <CurrencyCode>${this.escapeXml(config.currencyCode)}</CurrencyCode>`,
+        '        </Price>',
+        '      </SupplyDetail>',
+        '    </ProductSupply>',
+      );
+    }
+
+    lines.push('  </Product>');
+    return lines.join('\n');
+  }
+
+  /**
+   * Book-level credits followed by the binding's own (e.g. its narrator).
+   * Books saved before contributors existed fall back to the author string.
+   */
+  private static getContributors(
+    book: Book,
+    binding: BookBinding,
+  ): ContributorCredit[] {
+    const bookCredits = book.contributors?.length
+      ? book.contributors
+      : splitAuthorString(book.author);
+
+    return [...bookCredits, ...(binding.contributors || [])];
+  }
+
+  private static formatSentDateTime(date: Date): string {
+    // ONIX 3.0 format: YYYYMMDDThhmmZ
+    return date
+      .toISOString()
+      .replace(/[-:]/g, '')
+      .replace(/\.\d{3}Z$/, 'Z')
+      .replace(/(\d{4})\d{2}Z$/, '$1Z');
+  }
+
+  private static escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
@@ -0,0 +1,669 @@
+/**
+ * ONIX Import Service
+ * Parses ONIX 3.0 (reference tag) feeds into Book → BookEdition → BookBinding records
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+
+import { ContributorCredit } from '@/lib/types/contributor';
+import {
+  OnixImportEdition,
+  OnixImportPlan,
+  OnixImportProduct,
+  OnixImportResult,
+  OnixImportWork,
+  OnixSkippedProduct,
+} from '@/lib/types/onix';
+import { UIBook } from '@/lib/types/ui-book';
+import {
+  AUTHOR_ROLES,
+  getBookCredits,
+  splitAuthorString,
+} from '@/lib/utils/contributors';
+import { toISBN13 } from '@/lib/utils/isbn';
+import {
+  fromOnixLanguageCode,
+  ONIX_PRODUCT_ID_TYPES,
+  onixToContributorRole,
+  productFormToBinding,
+} from '@/lib/utils/onix-codes';
+
+import { BookService } from './book.service';
+import { EditionGroup } from './edition-detection.service';
+
+// Elements that may repeat within a Product and must always parse as arrays
+const REPEATABLE_ELEMENTS = new Set([
+  'Product',
+  'ProductIdentifier',
+  'ProductFormDetail',
+  'TitleDetail',
+  'TitleElement',
+  'Contributor',
+  'ContributorRole',
+  'Language',
+  'Extent',
+  'TextContent',
+  'SupportingResource',
+  'ResourceVersion',
+  'Publisher',
+  'PublishingDate',
+  'RelatedWork',
+  'WorkIdentifier',
+  'RelatedProduct',
+  'ProductSupply',
+  'SupplyDetail',
+  'Price',
+]);
+
+type OnixNode = Record<string, unknown>;
+
+export class OnixImportService {
+  /**
+   * Parse an ONIX 3.0 message into flattened products
+   */
+  static parseMessage(xml: string): {
+    products: OnixImportProduct[];
+    skipped: OnixSkippedProduct[];
+  } {
+    const parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      removeNSPrefix: true,
+      parseTagValue: false, // Keep ISBNs and codes as strings
+      trimValues: true,
+      stopNodes: ['*.Text'], // Descriptions may contain XHTML markup
+      isArray: name => REPEATABLE_ELEMENTS.has(name),
+    });
+
+    let document: OnixNode;
+    try {
+      document = parser.parse(xml) as OnixNode;
+    } catch (error) {
+      throw new Error(
+        `Invalid ONIX XML: ${error instanceof Error ? error.message : 'parse failed'}`,
+      );
+    }
+
+    if (document.ONIXmessage) {
+      throw new Error(
+        'Short-tag ONIX is not supported. Please export the feed using reference tags.',
+      );
+    }
+
+    const message = document.ONIXMessage as OnixNode | undefined;
+    if (!message) {
+      throw new Error('Invalid ONIX XML: missing ONIXMessage root element');
+    }
+
+    const release = this.attr(message, 'release');
+    if (release && !release.startsWith('3')) {
+      throw new Error(
+        `Unsupported ONIX release ${release}. Only ONIX 3.0 is supported.`,
+      );
+    }
+
+    const products: OnixImportProduct[] = [];
+    const skipped: OnixSkippedProduct[] = [];
+
+    this.list(message.Product).forEach((product, index) => {
+      const parsed = this.parseProduct(product, index);
+      if ('reason' in parsed) {
+        skipped.push(parsed);
+      } else {
+        products.push(parsed);
+      }
+    });
+
+    return { products, skipped };
+  }
+
+  /**
+   * Build a dry-run plan: what would be created, merged or skipped
+   */
+  static async planImport(
+    userId: string,
+    xml: string,
+  ): Promise<OnixImportPlan> {
+    const { products, skipped } = this.parseMessage(xml);
+    const skippedProducts = [...skipped];
+
+    // ISBNs already in the user's library are skipped individually
+    const existingBooks = await BookService.getUserBooks(userId);
+    const libraryIsbns = new Set(
+      existingBooks.flatMap(book =>
+        book.editions.flatMap(edition =>
+          edition.bindings
+            .map(binding => toISBN13(binding.isbn))
+            .filter((isbn): isbn is string => !!isbn),
+        ),
+      ),
+    );
+
+    const seenIsbns = new Set<string>();
+    const newProducts = products.filter(product => {
+      if (!product.isbn) return true;
+
+      if (libraryIsbns.has(product.isbn)) {
+        skippedProducts.push({
+          record_reference: product.record_reference,
+          isbn: product.isbn,
+          title: product.title,
+          reason: 'ISBN already in your library',
+        });
+        return false;
+      }
+
+      if (seenIsbns.has(product.isbn)) {
+        skippedProducts.push({
+          record_reference: product.record_reference,
+          isbn: product.isbn,
+          title: product.title,
+          reason: 'Duplicate ISBN in feed',
+        });
+        return false;
+      }
+
+      seenIsbns.add(product.isbn);
+      return true;
+    });
+
+    const works: OnixImportWork[] = [];
+    for (const [key, workProducts] of this.groupIntoWorks(newProducts)) {
+      const title = workProducts[0].title;
+      const author = this.buildAuthorString(workProducts);
+      const existingBook = await BookService.findExistingBook(
+        userId,
+        title,
+        author,
+      );
+
+      works.push({
+        key,
+        title,
+        author,
+        action: existingBook ? 'merge' : 'create',
+        existing_book_id: existingBook?.id,
+        editions: this.groupIntoEditions(workProducts),
+      });
+    }
+
+    // Works whose every product was skipped still show up in the preview
+    const plannedTitles = new Set(works.map(work => work.title.toLowerCase()));
+    const skippedWorkTitles = new Set<string>();
+    skippedProducts.forEach(product => {
+      const title = product.title?.trim();
+      if (
+        title &&
+        !plannedTitles.has(title.toLowerCase()) &&
+        !skippedWorkTitles.has(title.toLowerCase())
+      ) {
+        skippedWorkTitles.add(title.toLowerCase());
+        works.push({
+          key: `skip:${title.toLowerCase()}`,
+          title,
+          author: '',
+          action: 'skip',
+          reason: product.reason,
+          editions: [],
+        });
+      }
+    });
+
+    return {
+      totalProducts: products.length + skipped.length,
+      works,
+      skippedProducts,
+      summary: {
+        create: works.filter(work => work.action === 'create').length,
+        merge: works.filter(work => work.action === 'merge').length,
+        skip: works.filter(work => work.action === 'skip').length,
+      },
+    };
+  }
+
+  /**
+   * Execute an import plan through BookService
+   */
+  static async executeImport(
+    userId: string,
+    plan: OnixImportPlan,
+  ): Promise<OnixImportResult> {
+    let created = 0;
+    let merged = 0;
+    const failed: OnixImportResult['failed'] = [];
+
+    for (const work of plan.works) {
+      if (work.action === 'skip') continue;
+
+      const editionGroups = this.toEditionGroups(work);
+
+      try {
+        if (work.action === 'merge' && work.existing_book_id) {
+          await BookService.updateBookWithNewEditions(
+            work.existing_book_id,
+            editionGroups,
+          );
+          merged++;
+        } else {
+          await BookService.createBook(
+            userId,
+            work.title,
+            work.author,
+            editionGroups,
+            undefined,
+            this.getWorkCredits(work),
+          );
+          created++;
+        }
+      } catch (error) {
+        failed.push({
+          key: work.key,
+          title: work.title,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return { plan, created, merged, failed };
+  }
+
+  private static parseProduct(
+    product: OnixNode,
+    index: number,
+  ): OnixImportProduct | OnixSkippedProduct {
+    const recordReference =
+      this.text(product.RecordReference) || `product-${index + 1}`;
+    const descriptive = (product.DescriptiveDetail || {}) as OnixNode;
+    const title = this.getTitle(descriptive);
+    const isbn = this.getISBN(product);
+
+    // NotificationType 05 = delete
+    if (this.text(product.NotificationType) === '05') {
+      return {
+        record_reference: recordReference,
+        isbn,
+        title: title?.title,
+        reason: 'Delete notification',
+      };
+    }
+
+    if (!title) {
+      return {
+        record_reference: recordReference,
+        isbn,
+        reason: 'Missing title',
+      };
+    }
+
+    const productForm = this.text(descriptive.ProductForm);
+    const price = this.getPrice(product);
+    const credits = this.getCredits(descriptive);
+
+    return {
+      record_reference: recordReference,
+      isbn,
+      title: title.title,
+      subtitle: title.subtitle,
+      contributors: credits
+        .filter(credit => AUTHOR_ROLES.includes(credit.role))
+        .map(credit => credit.name),
+      credits,
+      work_id: this.getWorkId(product),
+      edition_number:
+        parseInt(this.text(descriptive.EditionNumber) || '', 10) || 1,
+      publication_year: this.getPublicationYear(product),
+      product_form: productForm,
+      binding_type: productFormToBinding(productForm) || 'unknown',
+      publisher: this.getPublisher(product),
+      pages: this.getPages(descriptive),
+      language: this.getLanguage(descriptive),
+      price: price?.amount,
+      currency_code: price?.currency,
+      cover_image_url: this.getCoverImage(product),
+      description: this.getDescription(product),
+    };
+  }
+
+  /**
+   * Group products into works by RelatedWork identifier, then title + first contributor
+   */
+  private static groupIntoWorks(
+    products: OnixImportProduct[],
+  ): Map<string, OnixImportProduct[]> {
+    const works = new Map<string, OnixImportProduct[]>();
+    const titleKeyToWorkKey = new Map<string, string>();
+    const getTitleKey = (product: OnixImportProduct) =>
+      `title:${this.normalizeKey(product.title)}|${this.normalizeKey(product.contributors[0] || '')}`;
+
+    // Work IDs first, so a product without one joins its work whatever
+    // order the feed lists them in
+    for (const product of products) {
+      const titleKey = getTitleKey(product);
+      if (product.work_id && !titleKeyToWorkKey.has(titleKey)) {
+        titleKeyToWorkKey.set(titleKey, `work:${product.work_id}`);
+      }
+    }
+
+    // Products without a work ID join a work with the same title + contributor
+    for (const product of products) {
+      const titleKey = getTitleKey(product);
+      const key = product.work_id
+        ? `work:${product.work_id}`
+        : titleKeyToWorkKey.get(titleKey) || titleKey;
+
+      const existing = works.get(key) || [];
+      existing.push(product);
+      works.set(key, existing);
+    }
+
+    return works;
+  }
+
+  /**
+   * Group a work's products into editions by EditionNumber (newest first)
+   */
+  private static groupIntoEditions(
+    products: OnixImportProduct[],
+  ): OnixImportEdition[] {
+    const editions = new Map<number, OnixImportProduct[]>();
+
+    products.forEach(product => {
+      const existing = editions.get(product.edition_number) || [];
+      existing.push(product);
+      editions.set(product.edition_number, existing);
+    });
+
+    return Array.from(editions.entries())
+      .map(([editionNumber, editionProducts]) => {
+        const years = editionProducts
+          .map(product => product.publication_year)
+          .filter((year): year is number => !!year);
+
+        return {
+          edition_number: editionNumber,
+          publication_year: years.length > 0 ? Math.min(...years) : undefined,
+          products: editionProducts,
+        };
+      })
+      .sort((a, b) => b.edition_number - a.edition_number);
+  }
+
+  /**
+   * Credits for the whole work: its authors, then the other roles found
+   * on any of its products
+   */
+  private static getWorkCredits(work: OnixImportWork): ContributorCredit[] {
+    return getBookCredits({
+      authors: splitAuthorString(work.author).map(credit => credit.name),
+      contributors: work.editions.flatMap(edition =>
+        edition.products.flatMap(product => product.credits),
+      ),
+    });
+  }
+
+  /**
+   * Convert a planned work into the EditionGroup shape BookService expects
+   */
+  private static toEditionGroups(work: OnixImportWork): EditionGroup[] {
+    return work.editions.map(edition => ({
+      edition_number: edition.edition_number,
+      publication_year: edition.publication_year,
+      books: edition.products.map(
+        (product): UIBook => ({
+          id: crypto.randomUUID(),
+          title: product.title,
+          subtitle: product.subtitle,
+          authors: product.contributors,
+          contributors: product.credits,
+          isbn: product.isbn,
+          isbn13: product.isbn,
+          binding: product.binding_type,
+          publisher: product.publisher,
+          pages: product.pages,
+          language: product.language,
+          msrp: product.price,
+          currency: product.currency_code,
+          image: product.cover_image_url,
+          synopsis: product.description,
+          year: product.publication_year,
+          data_source: 'onix-import',
+        }),
+      ),
+    }));
+  }
+
+  private static buildAuthorString(products: OnixImportProduct[]): string {
+    const contributors =
+      products.find(product => product.contributors.length > 0)?.contributors ||
+      [];
+    return contributors.length > 0 ? contributors.join(', ') : 'Unknown Author';
+  }
+
+  private static getISBN(product: OnixNode): string | undefined {
+    const identifiers = this.list(product.ProductIdentifier);
+    const preferredTypes: string[] = [
+      ONIX_PRODUCT_ID_TYPES.ISBN_13,
+      ONIX_PRODUCT_ID_TYPES.GTIN_13,
+      ONIX_PRODUCT_ID_TYPES.ISBN_10,
+    ];
+
+    for (const type of preferredTypes) {
+      const identifier = identifiers.find(
+        id => this.text(id.ProductIDType) === type,
+      );
+      const isbn = toISBN13(this.text(identifier?.IDValue));
+      if (isbn) return isbn;
+    }
+
+    return undefined;
+  }
+
+  private static getTitle(
+    descriptive: OnixNode,
+  ): { title: string; subtitle?: string } | undefined {
+    const titleDetails = this.list(descriptive.TitleDetail);
+    // TitleType 01 = distinctive title
+    const detail =
+      titleDetails.find(item => this.text(item.TitleType) === '01') ||
+      titleDetails[0];
+    if (!detail) return undefined;
+
+    const elements = this.list(detail.TitleElement);
+    // TitleElementLevel 01 = product level
+    const element =
+      elements.find(item => this.text(item.TitleElementLevel) === '01') ||
+      elements[0];
+    if (!element) return undefined;
+
+    const title =
+      this.text(element.TitleText) ||
+      [this.text(element.TitlePrefix), this.text(element.TitleWithoutPrefix)]
+        .filter(Boolean)
+        .join(' ');
+
+    if (!title) return undefined;
+
+    return {
+      title: title.trim(),
+      subtitle: this.text(element.Subtitle),
+    };
+  }
+
+  private static getCredits(descriptive: OnixNode): ContributorCredit[] {
+    return this.list(descriptive.Contributor)
+      .sort(
+        (a, b) =>
+          (parseInt(this.text(a.SequenceNumber) || '', 10) || 0) -
+          (parseInt(this.text(b.SequenceNumber) || '', 10) || 0),
+      )
+      .flatMap(contributor => {
+        const role = this.list(contributor.ContributorRole)
+          .map(code => onixToContributorRole(this.text(code)))
+          .find(Boolean);
+        const name = this.getContributorName(contributor);
+
+        // Roles we don't model (e.g. foreword by) are left out
+        return role && name ? [{ name, role }] : [];
+      });
+  }
+
+  private static getContributorName(contributor: OnixNode): string {
+    const personName = this.text(contributor.PersonName);
+    if (personName) return personName;
+
+    const inverted = this.text(contributor.PersonNameInverted);
+    if (inverted?.includes(',')) {
+      const [last, first] = inverted.split(',').map(part => part.trim());
+      return `${first} ${last}`.trim();
+    }
+
+    return (
+      [this.text(contributor.NamesBeforeKey), this.text(contributor.KeyNames)]
+        .filter(Boolean)
+        .join(' ') ||
+      inverted ||
+      this.text(contributor.CorporateName) ||
+      ''
+    );
+  }
+
+  private static getWorkId(product: OnixNode): string | undefined {
+    const related = (product.RelatedMaterial || {}) as OnixNode;
+    const work = this.list(related.RelatedWork).find(
+      // WorkRelationCode 01 = manifestation of
+      item => this.text(item.WorkRelationCode) === '01',
+    );
+    const identifier = this.list(work?.WorkIdentifier)[0];
+    const value = this.text(identifier?.IDValue);
+    if (!value) return undefined;
+
+    return `${this.text(identifier?.WorkIDType) || '00'}:${value}`;
+  }
+
+  private static getPublicationYear(product: OnixNode): number | undefined {
+    const publishing = (product.PublishingDetail || {}) as OnixNode;
+    const dates = this.list(publishing.PublishingDate);
+    // PublishingDateRole 01 = publication date
+    const date =
+      dates.find(item => this.text(item.PublishingDateRole) === '01') ||
+      dates[0];
+    const year = parseInt((this.text(date?.Date) || '').slice(0, 4), 10);
+    return year > 0 ? year : undefined;
+  }
+
+  private static getPublisher(product: OnixNode): string | undefined {
+    const publishing = (product.PublishingDetail || {}) as OnixNode;
+    const publishers = this.list(publishing.Publisher);
+    // PublishingRole 01 = publisher
+    const publisher =
+      publishers.find(item => this.text(item.PublishingRole) === '01') ||
+      publishers[0];
+    return this.text(publisher?.PublisherName);
+  }
+
+  private static getPages(descriptive: OnixNode): number | undefined {
+    const extents = this.list(descriptive.Extent).filter(
+      // ExtentUnit 03 = pages
+      extent => this.text(extent.ExtentUnit) === '03',
+    );
+    // Prefer main content page count (00), then total numbered pages (07/11)
+    const extent =
+      ['00', '11', '07']
+        .map(type => extents.find(item => this.text(item.ExtentType) === type))
+        .find(Boolean) || extents[0];
+    const pages = parseInt(this.text(extent?.ExtentValue) || '', 10);
+    return pages > 0 ? pages : undefined;
+  }
+
+  private static getLanguage(descriptive: OnixNode): string | undefined {
+    const languages = this.list(descriptive.Language);
+    // LanguageRole 01 = language of text
+    const language =
+      languages.find(item => this.text(item.LanguageRole) === '01') ||
+      languages[0];
+    return fromOnixLanguageCode(this.text(language?.LanguageCode)) || undefined;
+  }
+
+  private static getPrice(
+    product: OnixNode,
+  ): { amount: number; currency?: string } | undefined {
+    const prices = this.list(product.ProductSupply)
+      .flatMap(supply => this.list(supply.SupplyDetail))
+      .flatMap(detail => this.list(detail.Price));
+
+    // PriceType 01/02 = RRP excluding/including tax; prefer USD when several are listed
+    const rrpPrices = prices.filter(price =>
+      ['01', '02'].includes(this.text(price.PriceType) || ''),
+    );
+    const candidates = rrpPrices.length > 0 ? rrpPrices : prices;
+    const price =
+      candidates.find(item => this.text(item.CurrencyCode) === 'USD') ||
+      candidates[0];
+
+    const amount = parseFloat(this.text(price?.PriceAmount) || '');
+    if (isNaN(amount)) return undefined;
+
+    return { amount, currency: this.text(price?.CurrencyCode) };
+  }
+
+  private static getCoverImage(product: OnixNode): string | undefined {
+    const collateral = (product.CollateralDetail || {}) as OnixNode;
+    const resource = this.list(collateral.SupportingResource).find(
+      // ResourceContentType 01 = front cover
+      item => this.text(item.ResourceContentType) === '01',
+    );
+    const version = this.list(resource?.ResourceVersion).find(item =>
+      this.text(item.ResourceLink),
+    );
+    return this.text(version?.ResourceLink);
+  }
+
+  private static getDescription(product: OnixNode): string | undefined {
+    const collateral = (product.CollateralDetail || {}) as OnixNode;
+    const texts = this.list(collateral.TextContent);
+    // TextType 03 = description, 02 = short description
+    const text =
+      texts.find(item => this.text(item.TextType) === '03') ||
+      texts.find(item => this.text(item.TextType) === '02');
+    const value = this.text(text?.Text);
+    if (!value) return undefined;
+
+    // Text is kept raw, so decode escaped markup before stripping tags
+    return value
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&')
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private static normalizeKey(value: string): string {
+    return value
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private static list(value: unknown): OnixNode[] {
+    if (value === undefined || value === null) return [];
+    return (Array.isArray(value) ? value : [value]) as OnixNode[];
+  }
+
+  private static text(value: unknown): string | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (Array.isArray(value)) return this.text(value[0]);
+    if (typeof value === 'object') {
+      return this.text((value as OnixNode)['#text']);
+    }
+    const text = String(value).trim();
+    return text.length > 0 ? text : undefined;
+  }
+
+  private static attr(node: OnixNode, name: string): string | undefined {
+    return this.text(node[`@_${name}`]);
+  }
+}
@@ -0,0 +1,194 @@
+// Open Library API Service
+// Supplementary service for edition/work identifiers and covers of older titles
+
+import { API_CONFIG, CACHE_KEYS, SEARCH_PARAMS } from '../constants/api-config';
+import { ApiResponse, OpenLibrarySearchResponse } from '../types/api';
+import { UIBook, convertOpenLibraryToUIBook } from '../types/ui-book';
+import { cacheWrapper, buildCacheKey } from '../utils/api-cache';
+import { cleanIsbn } from '../utils/isbn';
+import { providerFetch } from '../utils/provider-transport';
+import { createRateLimiter } from '../utils/rate-limiter';
+
+// Work-level fields plus the best matching edition for each work
+const SEARCH_FIELDS = [
+  'key',
+  'title',
+  'subtitle',
+  'author_name',
+  'first_publish_year',
+  'publisher',
+  'isbn',
+  'language',
+  'cover_i',
+  'cover_edition_key',
+  'number_of_pages_median',
+  'subject',
+  'edition_count',
+  'editions',
+  'editions.key',
+  'editions.title',
+  'editions.isbn',
+  'editions.publisher',
+  'editions.publish_date',
+  'editions.language',
+  'editions.cover_i',
+  'editions.number_of_pages_median',
+].join(',');
+
+export class OpenLibraryService {
+  private baseUrl = API_CONFIG.OPEN_LIBRARY.BASE_URL;
+  private rateLimiter = createRateLimiter(
+    'open-library',
+    API_CONFIG.OPEN_LIBRARY.RATE_LIMIT,
+  );
+
+  // Check if Open Library API is available
+  isAvailable(): boolean {
+    return true; // Public API, no key required
+  }
+
+  // Search books by title and author
+  async searchBooks(
+    title: string,
+    author?: string,
+  ): Promise<ApiResponse<UIBook[]>> {
+    if (!title || title.length < SEARCH_PARAMS.MIN_QUERY_LENGTH) {
+      return {
+        success: false,
+        error: 'Title must be at least 2 characters long',
+      };
+    }
+
+    const cacheKey = buildCacheKey(CACHE_KEYS.OPEN_LIBRARY_SEARCH, {
+      title: title.toLowerCase(),
+      author: author?.toLowerCase() || '',
+    });
+
+    try {
+      return await cacheWrapper(
+        cacheKey,
+        () =>
+          this.fetchBooks({
+            title,
+            ...(author ? { author } : {}),
+            limit: SEARCH_PARAMS.MAX_RESULTS.toString(),
+          }),
+        API_CONFIG.OPEN_LIBRARY.CACHE_TTL,
+      );
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : 'Open Library search failed',
+      };
+    }
+  }
+
+  // Look up a single edition by ISBN
+  async getBookByISBN(isbn: string): Promise<ApiResponse<UIBook | null>> {
+    const cleanedIsbn = cleanIsbn(isbn);
+    if (!cleanedIsbn) {
+      return {
+        success: false,
+        error: 'ISBN is required',
+      };
+    }
+
+    const cacheKey = buildCacheKey(CACHE_KEYS.OPEN_LIBRARY_ISBN, {
+      isbn: cleanedIsbn,
+    });
+
+    try {
+      return await cacheWrapper(
+        cacheKey,
+        async () => {
+          const result = await this.fetchBooks({
+            isbn: cleanedIsbn,
+            limit: '1',
+          });
+          if (!result.success) {
+            return { success: false, error: result.error };
+          }
+          const book = result.data?.[0];
+          // The matched edition carries this ISBN; keep it as the primary one
+          return {
+            success: true,
+            data: book ? { ...book, isbn: cleanedIsbn } : null,
+          };
+        },
+        API_CONFIG.OPEN_LIBRARY.CACHE_TTL,
+      );
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : 'Open Library lookup failed',
+      };
+    }
+  }
+
+  private async fetchBooks(
+    params: Record<string, string>,
+  ): Promise<ApiResponse<UIBook[]>> {
+    const url = new URL(
+      `${this.baseUrl}${API_CONFIG.OPEN_LIBRARY.ENDPOINTS.SEARCH}`,
+    );
+    Object.entries(params).forEach(([key, value]) => {
+      url.searchParams.set(key, value);
+    });
+    url.searchParams.set('fields', SEARCH_FIELDS);
+
+    try {
+      // Check rate limit
+      const canMakeRequest = await this.rateLimiter.checkLimit('open-library');
+      if (!canMakeRequest) {
+        await this.rateLimiter.waitForSlot('open-library');
+      }
+
+      const response = await providerFetch('open-library', url.toString(), {
+        headers: {
+          Accept: 'application/json',
+          // Open Library asks API clients to identify themselves
+          'User-Agent': 'AuthorMagic/1.0',
+        },
+        signal: AbortSignal.timeout(API_CONFIG.OPEN_LIBRARY.TIMEOUT),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `Open Library API error: ${response.status} ${response.statusText}`,
+        );
+      }
+
+      const data: OpenLibrarySearchResponse = await response.json();
+
+      return {
+        success: true,
+        data: (data.docs || [])
+          .filter(doc => doc.title)
+          .map(convertOpenLibraryToUIBook),
+      };
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        (error.name === 'AbortError' || error.name === 'TimeoutError')
+      ) {
+        return {
+          success: false,
+          error: 'Open Library search request timed out',
+        };
+      }
+
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Unknown Open Library search error',
+      };
+    }
+  }
+}
+
+// Export a singleton instance
+export const openLibraryService = new OpenLibraryService();
@@ -0,0 +1,264 @@
+/**
+ * Series Service
+ * Manages a user's series and the position of each book within them
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import { BookRow } from '@/lib/types/book';
+import {
+  Series,
+  SeriesEntry,
+  SeriesInfo,
+  SeriesWithEntries,
+} from '@/lib/types/series';
+
+const ENTRY_COLUMNS = 'id, title, author, series_number, reading_order';
+
+export class SeriesService {
+  private static _supabase: ReturnType<typeof createServiceClient> | null =
+    null;
+
+  private static getSupabase() {
+    if (!this._supabase) {
+      this._supabase = createServiceClient();
+    }
+    return this._supabase;
+  }
+
+  /**
+   * Get a user's series with their books in reading order
+   */
+  static async getUserSeries(userId: string): Promise<SeriesWithEntries[]> {
+    const { data, error } = await this.getSupabase()
+      .from('series')
+      .select(`*, entries:books!books_series_id_fkey (${ENTRY_COLUMNS})`)
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch series: ${error.message}`);
+    }
+
+    return (data || []).map(series => ({
+      ...series,
+      entries: this.sortEntries(series.entries || []),
+    }));
+  }
+
+  /**
+   * Get a single series with its books, or null if the user has no such series
+   */
+  static async getSeriesById(
+    seriesId: string,
+    userId: string,
+  ): Promise<SeriesWithEntries | null> {
+    const { data, error } = await this.getSupabase()
+      .from('series')
+      .select(`*, entries:books!books_series_id_fkey (${ENTRY_COLUMNS})`)
+      .eq('id', seriesId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      throw new Error(`Failed to fetch series: ${error.message}`);
+    }
+
+    return { ...data, entries: this.sortEntries(data.entries || []) };
+  }
+
+  /**
+   * Create a series
+   */
+  static async createSeries(
+    userId: string,
+    name: string,
+    description?: string | null,
+  ): Promise<Series> {
+    const { data, error } = await this.getSupabase()
+      .from('series')
+      .insert({ user_id: userId, name: name.trim(), description })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('A series with this name already exists');
+      }
+      throw new Error(`Failed to create series: ${error.message}`);
+    }
+
+    return data as Series;
+  }
+
+  /**
+   * Update a series name or description
+   */
+  static async updateSeries(
+    seriesId: string,
+    userId: string,
+    updates: { name?: string; description?: string | null },
+  ): Promise<Series> {
+    const { data, error } = await this.getSupabase()
+      .from('series')
+      .update({
+        ...(updates.name !== undefined && { name: updates.name.trim() }),
+        ...(updates.description !== undefined && {
+          description: updates.description,
+        }),
+      })
+      .eq('id', seriesId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new Error('Series not found or access denied');
+      }
+      if (error.code === '23505') {
+        throw new Error('A series with this name already exists');
+      }
+      throw new Error(`Failed to update series: ${error.message}`);
+    }
+
+    return data as Series;
+  }
+
+  /**
+   * Delete a series; its books stay in the library without a series
+   */
+  static async deleteSeries(seriesId: string, userId: string): Promise<void> {
+    const series = await this.getSeriesById(seriesId, userId);
+    if (!series) {
+      throw new Error('Series not found or access denied');
+    }
+
+    // Clear positions too; the foreign key only clears series_id
+    const { error: clearError } = await this.getSupabase()
+      .from('books')
+      .update({ series_number: null, reading_order: null })
+      .eq('series_id', seriesId)
+      .eq('user_id', userId);
+
+    if (clearError) {
+      throw new Error(`Failed to clear series books: ${clearError.message}`);
+    }
+
+    const { error } = await this.getSupabase()
+      .from('series')
+      .delete()
+      .eq('id', seriesId)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to delete series: ${error.message}`);
+    }
+  }
+
+  /**
+   * Put a book in a series (moving it out of any other series)
+   */
+  static async setBookEntry(
+    seriesId: string,
+    bookId: string,
+    userId: string,
+    position: { series_number?: number | null; reading_order?: number | null },
+  ): Promise<SeriesEntry> {
+    const series = await this.getSeriesById(seriesId, userId);
+    if (!series) {
+      throw new Error('Series not found or access denied');
+    }
+
+    const { data, error } = await this.getSupabase()
+      .from('books')
+      .update({
+        series_id: seriesId,
+        series_number: position.series_number ?? null,
+        reading_order: position.reading_order ?? null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', bookId)
+      .eq('user_id', userId)
+      .select(ENTRY_COLUMNS)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new Error('Book not found or access denied');
+      }
+      throw new Error(`Failed to add book to series: ${error.message}`);
+    }
+
+    return data as SeriesEntry;
+  }
+
+  /**
+   * Take a book out of a series
+   */
+  static async removeBookEntry(
+    seriesId: string,
+    bookId: string,
+    userId: string,
+  ): Promise<void> {
+    const { data, error } = await this.getSupabase()
+      .from('books')
+      .update({
+        series_id: null,
+        series_number: null,
+        reading_order: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', bookId)
+      .eq('series_id', seriesId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to remove book from series: ${error.message}`);
+    }
+    if (!data?.length) {
+      throw new Error('Book not found in series or access denied');
+    }
+  }
+
+  /**
+   * Series columns for a new book, reusing the user's series with the same
+   * name or creating it. Returns nothing when no series name was detected.
+   */
+  static async resolveSeriesFields(
+    userId: string,
+    info: SeriesInfo | undefined,
+  ): Promise<Pick<BookRow, 'series_id' | 'series_number'>> {
+    if (!info?.name) {
+      return {};
+    }
+
+    const { data: existing, error } = await this.getSupabase()
+      .from('series')
+      .select('id')
+      .eq('user_id', userId)
+      .ilike('name', info.name.replace(/[\\%_]/g, '\\$&'))
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Failed to look up series: ${error.message}`);
+    }
+
+    const seriesId =
+      existing?.[0]?.id ?? (await this.createSeries(userId, info.name)).id;
+
+    return { series_id: seriesId, series_number: info.number ?? null };
+  }
+
+  private static sortEntries(entries: SeriesEntry[]): SeriesEntry[] {
+    const position = (entry: SeriesEntry) =>
+      entry.reading_order ?? entry.series_number ?? Number.MAX_SAFE_INTEGER;
+
+    return [...entries].sort(
+      (a, b) => position(a) - position(b) || a.title.localeCompare(b.title),
+    );
+  }
+}
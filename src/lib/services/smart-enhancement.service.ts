@@ -1,17 +1,18 @@
 import { UIBook } from '@/lib/types/ui-book';
+import { collectConflicts } from '@/lib/utils/metadata-conflicts';
+import { mergeProvenance } from '@/lib/utils/provenance';
 
-import { GoogleBooksService } from './google-books.service';
+import { MetadataProviderRegistry } from './metadata-provider-registry';
 
 /**
  * Smart Enhancement Service
  *
- * Enhances books with missing critical data using targeted
- * Google Books ISBN lookups. Focuses on books with missing
+ * Enhances books with missing critical data using targeted ISBN
+ * lookups against the metadata provider registry (skipping the
+ * provider the book came from). Focuses on books with missing
  * metadata to improve data completeness.
  */
 export class SmartEnhancementService {
-  private static googleBooksService = new GoogleBooksService();
-
   /**
    * Detect books that need enhancement based on missing critical data
    */
@@ -38,7 +39,7 @@ export class SmartEnhancementService {
   }
 
   /**
-   * Enhance books using Google Books ISBN lookup
+   * Enhance books using registry ISBN lookups
    * No hardcoded book injection - only enhances existing books
    */
   static async enhanceBooks(books: UIBook[]): Promise<UIBook[]> {
@@ -55,8 +56,8 @@ export class SmartEnhancementService {
       }
 
       try {
-        // Use Google Books ISBN lookup for missing data
-        const enhanced = await this.enhanceBookWithGoogleBooks(book);
+        // Use an ISBN lookup from another provider for missing data
+        const enhanced = await this.enhanceBookFromProviders(book);
         return enhanced || book;
       } catch {
         // If enhancement fails, continue with original book
@@ -80,53 +81,60 @@ export class SmartEnhancementService {
   }
 
   /**
-   * Enhance a single book using Google Books ISBN lookup
+   * Enhance a single book using the first provider that knows its ISBN
    */
-  private static async enhanceBookWithGoogleBooks(
+  private static async enhanceBookFromProviders(
     book: UIBook,
   ): Promise<UIBook | null> {
     if (!book.isbn) return null;
 
     try {
-      // Use the existing ISBN search functionality
-      const result = await this.googleBooksService.searchBooks(book.isbn);
-
-      if (!result.success || !result.data || result.data.length === 0) {
+      const result = await MetadataProviderRegistry.lookupByISBN(book.isbn, {
+        exclude:
+          book.source && MetadataProviderRegistry.isRegistered(book.source)
+            ? [book.source]
+            : [],
+      });
+
+      if (!result?.data) {
         return null;
       }
 
-      // Find the best match (first result is usually most relevant for ISBN search)
-      const googleBook = result.data[0];
+      const lookupBook = result.data;
 
       // Merge missing data strategically
       const enhanced: UIBook = {
         ...book,
         // Fill missing publication year
-        published_date: book.published_date || googleBook.published_date,
-        year: book.year || googleBook.year,
+        published_date: book.published_date || lookupBook.published_date,
+        year: book.year || lookupBook.year,
 
         // Fill missing image
-        image: book.image || googleBook.image,
-        thumbnail: book.thumbnail || googleBook.thumbnail,
+        image: book.image || lookupBook.image,
+        thumbnail: book.thumbnail || lookupBook.thumbnail,
 
         // Fill missing page count
         page_count:
-          book.page_count || googleBook.page_count || googleBook.pages,
-        pages: book.pages || googleBook.pages || googleBook.page_count,
+          book.page_count || lookupBook.page_count || lookupBook.pages,
+        pages: book.pages || lookupBook.pages || lookupBook.page_count,
 
         // Fill missing publisher
-        publisher: book.publisher || googleBook.publisher,
+        publisher: book.publisher || lookupBook.publisher,
 
         // Fill missing description
-        description: book.description || googleBook.description,
+        description: book.description || lookupBook.description,
 
         // Track enhancement source
         data_source: book.data_source
-          ? `${book.data_source},google-books-enhanced`
-          : 'google-books-enhanced',
+          ? `${book.data_source},${result.providerId}-enhanced`
+          : `${result.providerId}-enhanced`,
       };
 
-      return enhanced;
+      return {
+        ...enhanced,
+        provenance: mergeProvenance(enhanced, [book, lookupBook]),
+        conflicts: collectConflicts([book, lookupBook]),
+      };
     } catch {
       // Silently fail - return null to use original book
       return null;
@@ -144,7 +152,7 @@ export class SmartEnhancementService {
     const enhanced = enhancedBooks.filter((book, index) => {
       const original = originalBooks[index];
       return (
-        book.data_source?.includes('google-books-enhanced') &&
+        book.data_source?.includes('-enhanced') &&
         original.data_source !== book.data_source
       );
     });
@@ -0,0 +1,188 @@
+/**
+ * Translation Service
+ * Adds translated editions to a book and keeps their language, title,
+ * territory and translators up to date
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import { Book, BookEdition } from '@/lib/types/book';
+import { BookTranslation, TranslationDetails } from '@/lib/types/translation';
+import { getBookCredits } from '@/lib/utils/contributors';
+import { normalizeIsbn } from '@/lib/utils/isbn';
+import {
+  getBookTranslations,
+  getOriginalLanguage,
+  normalizeLanguageCode,
+} from '@/lib/utils/languages';
+
+import { BookService } from './book.service';
+import { ContributorService } from './contributor.service';
+import { EditionDetectionService } from './edition-detection.service';
+import { MetadataProviderRegistry } from './metadata-provider-registry';
+
+export class TranslationService {
+  private static _supabase: ReturnType<typeof createServiceClient> | null =
+    null;
+
+  private static getSupabase() {
+    if (!this._supabase) {
+      this._supabase = createServiceClient();
+    }
+    return this._supabase;
+  }
+
+  /**
+   * Every translated edition of a book
+   */
+  static async getTranslations(
+    bookId: string,
+    userId: string,
+  ): Promise<BookTranslation[]> {
+    const book = await this.getOwnedBook(bookId, userId);
+    return getBookTranslations(book.editions);
+  }
+
+  /**
+   * Look up a translation by ISBN and add it to the book. Bindings of a
+   * language that is already present join that language's edition.
+   */
+  static async addTranslation(
+    bookId: string,
+    userId: string,
+    input: { isbn: string } & Partial<TranslationDetails>,
+  ): Promise<BookEdition> {
+    const book = await this.getOwnedBook(bookId, userId);
+
+    const isbn = normalizeIsbn(input.isbn);
+    const saved = book.editions.some(edition =>
+      edition.bindings.some(binding => normalizeIsbn(binding.isbn) === isbn),
+    );
+    if (saved) {
+      throw new Error('A binding with this ISBN already exists in this book');
+    }
+
+    const result = await MetadataProviderRegistry.lookupByISBN(isbn);
+    if (!result?.data) {
+      throw new Error('No book found for this ISBN');
+    }
+
+    const language = normalizeLanguageCode(
+      input.language || result.data.language,
+    );
+    if (!language || language === getOriginalLanguage(book.editions)) {
+      throw new Error(
+        'Translation language is required and must differ from the original',
+      );
+    }
+
+    const [group] = EditionDetectionService.groupByEdition(
+      [{ ...result.data, isbn, isbn13: isbn, language }],
+      { includeTranslations: true },
+    );
+
+    const [edition] = await BookService.createEditionsWithBindings(bookId, [
+      {
+        ...group,
+        translation: {
+          language,
+          translated_title:
+            input.translated_title ?? group.translation?.translated_title,
+          territory: input.territory,
+        },
+      },
+    ]);
+
+    // Translators named by the provider unless the user supplied them
+    const translators =
+      input.translators ??
+      getBookCredits(result.data)
+        .filter(credit => credit.role === 'translator')
+        .map(credit => credit.name);
+
+    return this.updateTranslation(bookId, edition.id, userId, {
+      ...(input.territory !== undefined && { territory: input.territory }),
+      ...(input.translated_title !== undefined && {
+        translated_title: input.translated_title,
+      }),
+      translators,
+    });
+  }
+
+  /**
+   * Update a translated edition's details. Setting the original language
+   * turns the edition back into an original-language edition.
+   */
+  static async updateTranslation(
+    bookId: string,
+    editionId: string,
+    userId: string,
+    details: Partial<TranslationDetails>,
+  ): Promise<BookEdition> {
+    const book = await this.getOwnedBook(bookId, userId);
+    const edition = book.editions.find(item => item.id === editionId);
+    if (!edition) {
+      throw new Error('Edition not found or access denied');
+    }
+
+    const language = details.language
+      ? normalizeLanguageCode(details.language)
+      : undefined;
+    // Judged without this edition, which may itself be the original
+    const otherEditions = book.editions.filter(item => item.id !== editionId);
+
+    const update = {
+      ...(language && {
+        language,
+        is_translation:
+          otherEditions.length > 0 &&
+          language !== getOriginalLanguage(otherEditions),
+      }),
+      ...(details.translated_title !== undefined && {
+        translated_title: details.translated_title,
+      }),
+      ...(details.territory !== undefined && { territory: details.territory }),
+    };
+
+    if (Object.keys(update).length > 0) {
+      const { error } = await this.getSupabase()
+        .from('book_editions')
+        .update(update)
+        .eq('id', editionId)
+        .eq('book_id', bookId);
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error(
+            'An edition with this language and number already exists',
+          );
+        }
+        throw new Error(`Failed to update translation: ${error.message}`);
+      }
+    }
+
+    if (details.translators) {
+      for (const binding of edition.bindings) {
+        await ContributorService.setBindingRoleCredits(
+          bookId,
+          binding.id,
+          'translator',
+          details.translators,
+        );
+      }
+    }
+
+    const updated = await this.getOwnedBook(bookId, userId);
+    return updated.editions.find(item => item.id === editionId)!;
+  }
+
+  private static async getOwnedBook(
+    bookId: string,
+    userId: string,
+  ): Promise<Book> {
+    const book = await BookService.getBookWithDetails(bookId, userId);
+    if (!book) {
+      throw new Error('Book not found or access denied');
+    }
+    return book;
+  }
+}
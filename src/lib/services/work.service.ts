@@ -0,0 +1,351 @@
+/**
+ * Work Service
+ * Clusters a user's library books into works and applies their merge and
+ * split decisions
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import {
+  Work,
+  WorkClusterResult,
+  WorkDecision,
+  WorkMember,
+  WorkWithBooks,
+} from '@/lib/types/work';
+import { clusterWorks, toClusterableBook } from '@/lib/utils/work-clustering';
+
+import { BookService } from './book.service';
+import { EditionCorrectionService } from './edition-correction.service';
+
+const MEMBER_COLUMNS = 'id, title, author, created_at';
+
+export class WorkService {
+  private static _supabase: ReturnType<typeof createServiceClient> | null =
+    null;
+
+  private static getSupabase() {
+    if (!this._supabase) {
+      this._supabase = createServiceClient();
+    }
+    return this._supabase;
+  }
+
+  /**
+   * Get a user's works with their books, oldest book first
+   */
+  static async getUserWorks(userId: string): Promise<WorkWithBooks[]> {
+    const { data, error } = await this.getSupabase()
+      .from('works')
+      .select(`*, books:books!books_work_id_fkey (${MEMBER_COLUMNS})`)
+      .eq('user_id', userId)
+      .order('title', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch works: ${error.message}`);
+    }
+
+    return (data || []).map(work => this.toWorkWithBooks(work));
+  }
+
+  /**
+   * Get a single work with its books, or null if the user has no such work
+   */
+  static async getWorkById(
+    workId: string,
+    userId: string,
+  ): Promise<WorkWithBooks | null> {
+    const { data, error } = await this.getSupabase()
+      .from('works')
+      .select(`*, books:books!books_work_id_fkey (${MEMBER_COLUMNS})`)
+      .eq('id', workId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      throw new Error(`Failed to fetch work: ${error.message}`);
+    }
+
+    return this.toWorkWithBooks(data);
+  }
+
+  /**
+   * Rename a work
+   */
+  static async updateWork(
+    workId: string,
+    userId: string,
+    updates: { title: string },
+  ): Promise<Work> {
+    const { data, error } = await this.getSupabase()
+      .from('works')
+      .update({ title: updates.title.trim() })
+      .eq('id', workId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new Error('Work not found or access denied');
+      }
+      throw new Error(`Failed to update work: ${error.message}`);
+    }
+
+    return data as Work;
+  }
+
+  /**
+   * Recompute the works in a user's library from work identifiers and the
+   * user's decisions. Clusters keep their existing work where they can so
+   * renamed works survive a recluster.
+   */
+  static async clusterLibrary(userId: string): Promise<WorkClusterResult> {
+    const [books, decisions, works] = await Promise.all([
+      BookService.getUserBooks(userId),
+      this.getDecisions(userId),
+      this.getWorks(userId),
+    ]);
+
+    const clusters = clusterWorks(books.map(toClusterableBook), decisions);
+    const currentWork = new Map(books.map(book => [book.id, book.work_id]));
+    const titles = new Map(books.map(book => [book.id, book.title]));
+    const existingWorkIds = new Set(works.map(work => work.id));
+    const usedWorkIds = new Set<string>();
+    const assignments = new Map<string, string>();
+
+    for (const cluster of clusters) {
+      // Reuse the work most of the cluster already belongs to
+      const counts = new Map<string, number>();
+      cluster.bookIds.forEach(bookId => {
+        const workId = currentWork.get(bookId);
+        if (workId && existingWorkIds.has(workId) && !usedWorkIds.has(workId)) {
+          counts.set(workId, (counts.get(workId) || 0) + 1);
+        }
+      });
+      const [reused] = Array.from(counts).sort((a, b) => b[1] - a[1]);
+
+      const workId =
+        reused?.[0] ||
+        (await this.createWork(userId, titles.get(cluster.bookIds[0])!)).id;
+      usedWorkIds.add(workId);
+      cluster.bookIds.forEach(bookId => assignments.set(bookId, workId));
+    }
+
+    let booksLinked = 0;
+    for (const book of books) {
+      const workId = assignments.get(book.id) || null;
+      if ((book.work_id || null) === workId) continue;
+
+      const { error } = await this.getSupabase()
+        .from('books')
+        .update({ work_id: workId })
+        .eq('id', book.id)
+        .eq('user_id', userId);
+
+      if (error) {
+        throw new Error(`Failed to update book work: ${error.message}`);
+      }
+      if (workId) booksLinked++;
+    }
+
+    // Works left without books
+    const orphaned = works
+      .map(work => work.id)
+      .filter(workId => !usedWorkIds.has(workId));
+    if (orphaned.length > 0) {
+      const { error } = await this.getSupabase()
+        .from('works')
+        .delete()
+        .in('id', orphaned)
+        .eq('user_id', userId);
+
+      if (error) {
+        throw new Error(`Failed to delete empty works: ${error.message}`);
+      }
+    }
+
+    return {
+      works: clusters.length,
+      books_linked: booksLinked,
+      works_removed: orphaned.length,
+    };
+  }
+
+  /**
+   * Confirm that books are the same work and recluster. Returns the work
+   * they now share.
+   */
+  static async mergeBooks(
+    userId: string,
+    bookIds: string[],
+  ): Promise<WorkWithBooks> {
+    const ids = Array.from(new Set(bookIds));
+    if (ids.length < 2) {
+      throw new Error('Select at least two books to merge');
+    }
+    await this.assertOwnedBooks(userId, ids);
+
+    const decisions = ids.flatMap((bookId, index) =>
+      ids
+        .slice(index + 1)
+        .map(otherId => this.toDecision(bookId, otherId, true)),
+    );
+    await this.saveDecisions(userId, decisions);
+    await this.clusterLibrary(userId);
+
+    const work = await this.getWorkForBook(userId, ids[0]);
+    if (!work) {
+      throw new Error('Failed to merge books into a work');
+    }
+    return work;
+  }
+
+  /**
+   * Take a book out of a work it was wrongly merged into and recluster.
+   * The split is remembered, so identifier evidence won't merge it back,
+   * and recorded as edition corrections so searches keep the books apart.
+   */
+  static async splitBook(
+    userId: string,
+    workId: string,
+    bookId: string,
+  ): Promise<WorkWithBooks | null> {
+    const work = await this.getWorkById(workId, userId);
+    if (!work || !work.books.some(book => book.id === bookId)) {
+      throw new Error('Book not found in work or access denied');
+    }
+
+    const decisions = work.books
+      .filter(book => book.id !== bookId)
+      .map(book => this.toDecision(bookId, book.id, false));
+    await this.saveDecisions(userId, decisions);
+    await this.clusterLibrary(userId);
+    await EditionCorrectionService.recordDifferentWorks(
+      userId,
+      bookId,
+      work.books.filter(book => book.id !== bookId).map(book => book.id),
+    );
+
+    return this.getWorkById(workId, userId);
+  }
+
+  private static async getWorkForBook(
+    userId: string,
+    bookId: string,
+  ): Promise<WorkWithBooks | null> {
+    const { data, error } = await this.getSupabase()
+      .from('books')
+      .select('work_id')
+      .eq('id', bookId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to fetch book work: ${error.message}`);
+    }
+
+    return data.work_id ? this.getWorkById(data.work_id, userId) : null;
+  }
+
+  private static async getWorks(userId: string): Promise<Work[]> {
+    const { data, error } = await this.getSupabase()
+      .from('works')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to fetch works: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  private static async createWork(
+    userId: string,
+    title: string,
+  ): Promise<Work> {
+    const { data, error } = await this.getSupabase()
+      .from('works')
+      .insert({ user_id: userId, title })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create work: ${error.message}`);
+    }
+
+    return data as Work;
+  }
+
+  private static async getDecisions(userId: string): Promise<WorkDecision[]> {
+    const { data, error } = await this.getSupabase()
+      .from('work_decisions')
+      .select('book_id, other_book_id, same_work')
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to fetch work decisions: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  private static async saveDecisions(
+    userId: string,
+    decisions: WorkDecision[],
+  ): Promise<void> {
+    if (decisions.length === 0) return;
+
+    // A new decision replaces the previous one for the same pair
+    const { error } = await this.getSupabase()
+      .from('work_decisions')
+      .upsert(
+        decisions.map(decision => ({ ...decision, user_id: userId })),
+        { onConflict: 'book_id,other_book_id' },
+      );
+
+    if (error) {
+      throw new Error(`Failed to save work decisions: ${error.message}`);
+    }
+  }
+
+  private static async assertOwnedBooks(
+    userId: string,
+    bookIds: string[],
+  ): Promise<void> {
+    const { data, error } = await this.getSupabase()
+      .from('books')
+      .select('id')
+      .in('id', bookIds)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to fetch books: ${error.message}`);
+    }
+    if ((data || []).length !== bookIds.length) {
+      throw new Error('Book not found or access denied');
+    }
+  }
+
+  // Pairs are stored once, lowest ID first
+  private static toDecision(
+    bookId: string,
+    otherBookId: string,
+    sameWork: boolean,
+  ): WorkDecision {
+    const [first, second] = [bookId, otherBookId].sort();
+    return { book_id: first, other_book_id: second, same_work: sameWork };
+  }
+
+  private static toWorkWithBooks(
+    work: Work & { books?: (WorkMember & { created_at: string })[] },
+  ): WorkWithBooks {
+    const books = [...(work.books || [])]
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map(({ id, title, author }) => ({ id, title, author }));
+    return { ...work, books };
+  }
+}
@@ -48,6 +48,7 @@ export interface ISBNDBBookResponse {
   reviews?: Record<string, unknown>[];
   prices?: Record<string, unknown>[];
   related?: Record<string, unknown>[];
+  other_isbns?: Array<{ isbn: string; binding?: string }>; // Other bindings of the same work
   image?: string; // ISBNDB cover image URL
   cover_image?: string; // Alternative cover image field
 }
@@ -453,3 +454,42 @@ export interface iTunesLookupParams {
   limit?: number; // Number of results
   sort?: 'recent'; // Sort order
 }
+
+// Open Library Search API Types
+// Each doc is a work; the nested editions block holds the best matching edition
+export interface OpenLibraryEditionDoc {
+  key: string; // e.g. "/books/OL7353617M"
+  title?: string;
+  isbn?: string[];
+  publisher?: string[];
+  publish_date?: string[];
+  language?: string[]; // MARC codes, e.g. "eng"
+  cover_i?: number;
+  number_of_pages_median?: number;
+}
+
+export interface OpenLibrarySearchDoc {
+  key: string; // e.g. "/works/OL45804W"
+  title: string;
+  subtitle?: string;
+  author_name?: string[];
+  first_publish_year?: number;
+  publisher?: string[];
+  isbn?: string[];
+  language?: string[];
+  cover_i?: number;
+  cover_edition_key?: string;
+  number_of_pages_median?: number;
+  subject?: string[];
+  edition_count?: number;
+  editions?: {
+    numFound: number;
+    docs: OpenLibraryEditionDoc[];
+  };
+}
+
+export interface OpenLibrarySearchResponse {
+  numFound: number;
+  start: number;
+  docs: OpenLibrarySearchDoc[];
+}
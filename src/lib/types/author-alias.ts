@@ -0,0 +1,30 @@
+// Author alias registry types
+// Aliases map variant author strings (as returned by metadata providers) to
+// the canonical list of contributors they represent.
+
+export type AuthorAliasScope = 'user' | 'global';
+
+export interface AuthorAlias {
+  id: string;
+  user_id: string | null; // null for global aliases
+  alias: string;
+  alias_normalized: string;
+  canonical_authors: string[];
+  notes?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateAuthorAliasRequest {
+  alias: string;
+  canonical_authors: string[];
+  notes?: string;
+  scope?: AuthorAliasScope;
+}
+
+export interface UpdateAuthorAliasRequest {
+  alias?: string;
+  canonical_authors?: string[];
+  notes?: string | null;
+}
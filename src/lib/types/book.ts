@@ -3,6 +3,15 @@
  * 3-level structure: Book → BookEdition → BookBinding
  */
 
+import { BookContributor } from './contributor';
+import {
+  BookProvenance,
+  MetadataConflicts,
+  MetadataOverrides,
+} from './provenance';
+import { Series } from './series';
+import { Work } from './work';
+
 export interface BookBinding {
   id: string;
   book_edition_id: string;
@@ -14,6 +23,12 @@ export interface BookBinding {
   description?: string;
   pages?: number;
   language: string;
+  provenance?: BookProvenance; // Source of each field when the binding was saved
+  metadata_conflicts?: MetadataConflicts; // Values providers disagreed on
+  user_overrides?: MetadataOverrides; // Values the user picked; never refreshed
+  contributors?: BookContributor[]; // Binding-only credits, e.g. narrators
+  open_library_work_id?: string | null; // Work identifiers used for clustering
+  related_isbns?: string[];
   created_at: string;
 }
 
@@ -22,6 +37,10 @@ export interface BookEdition {
   book_id: string;
   edition_number: number;
   publication_year?: number;
+  language?: string; // ISO 639-1
+  is_translation?: boolean;
+  translated_title?: string | null; // Title in the translation's language
+  territory?: string | null; // Where the translation rights apply
   created_at: string;
   bindings: BookBinding[];
 }
@@ -32,6 +51,13 @@ export interface Book {
   title: string;
   author: string;
   selected_edition_id?: string;
+  series_id?: string | null;
+  series_number?: number | null; // Position in the series, e.g. 3
+  reading_order?: number | null; // When it differs from series_number
+  series?: Pick<Series, 'id' | 'name'> | null; // Joined for display
+  contributors?: BookContributor[]; // Book-level credits in display order
+  work_id?: string | null; // Work this book belongs to with other titles
+  work?: Pick<Work, 'id' | 'title'> | null; // Joined for export
   created_at: string;
   updated_at: string;
   editions: BookEdition[];
@@ -46,6 +72,10 @@ export interface BookRow {
   title: string;
   author: string;
   selected_edition_id?: string;
+  series_id?: string | null;
+  series_number?: number | null;
+  reading_order?: number | null;
+  work_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -69,6 +99,11 @@ export interface BookBindingRow {
   description?: string;
   pages?: number;
   language: string;
+  provenance?: BookProvenance;
+  metadata_conflicts?: MetadataConflicts;
+  user_overrides?: MetadataOverrides;
+  open_library_work_id?: string | null;
+  related_isbns?: string[];
   created_at: string;
 }
 
@@ -108,6 +143,9 @@ export interface BookInsert {
   title: string;
   author: string;
   selected_edition_id?: string;
+  series_id?: string | null;
+  series_number?: number | null;
+  reading_order?: number | null;
   created_at?: string;
   updated_at?: string;
 }
@@ -117,6 +155,10 @@ export interface BookEditionInsert {
   book_id: string;
   edition_number: number;
   publication_year?: number;
+  language?: string;
+  is_translation?: boolean;
+  translated_title?: string | null;
+  territory?: string | null;
   created_at?: string;
 }
 
@@ -131,6 +173,11 @@ export interface BookBindingInsert {
   description?: string;
   pages?: number;
   language: string;
+  provenance?: BookProvenance;
+  metadata_conflicts?: MetadataConflicts;
+  user_overrides?: MetadataOverrides;
+  open_library_work_id?: string | null;
+  related_isbns?: string[];
   created_at?: string;
 }
 
@@ -187,6 +234,12 @@ export interface SimplifiedBook {
     publication_year?: number;
   } | null;
   cover_image: string | null;
+  series: {
+    id: string;
+    name: string;
+    series_number?: number | null;
+    reading_order?: number | null;
+  } | null;
 }
 
 // Legacy type aliases for backwards compatibility during migration
@@ -0,0 +1,39 @@
+/**
+ * Contributor Types
+ * People credited on a book or a single binding, with their role
+ */
+
+export const CONTRIBUTOR_ROLES = [
+  'author',
+  'co-author',
+  'editor',
+  'narrator',
+  'translator',
+  'illustrator',
+] as const;
+
+export type ContributorRole = (typeof CONTRIBUTOR_ROLES)[number];
+
+export interface Contributor {
+  id: string;
+  name: string;
+  name_normalized: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// A contributor's credit on a book (binding_id null) or on one binding
+export interface BookContributor {
+  id: string;
+  contributor_id: string;
+  binding_id?: string | null;
+  name: string;
+  role: ContributorRole;
+  display_order: number;
+}
+
+// A credit before it is saved, e.g. from provider data
+export interface ContributorCredit {
+  name: string;
+  role: ContributorRole;
+}
@@ -0,0 +1,80 @@
+// CSV library import types
+// Shared by the CSV import dialog and the /api/books/csv/import endpoint
+
+export type CsvImportField =
+  | 'title'
+  | 'author'
+  | 'isbn'
+  | 'binding'
+  | 'publication_year'
+  | 'edition_number'
+  | 'publisher'
+  | 'price';
+
+export const CSV_IMPORT_FIELDS: Array<{
+  field: CsvImportField;
+  label: string;
+  aliases: string[]; // Header names auto-mapped to this field
+}> = [
+  { field: 'title', label: 'Title', aliases: ['title', 'book title', 'name'] },
+  {
+    field: 'author',
+    label: 'Author',
+    aliases: ['author', 'authors', 'contributor', 'by'],
+  },
+  {
+    field: 'isbn',
+    label: 'ISBN',
+    aliases: ['isbn', 'isbn13', 'isbn 13', 'isbn-13', 'isbn10', 'ean'],
+  },
+  {
+    field: 'binding',
+    label: 'Binding',
+    aliases: ['binding', 'format', 'binding type', 'product form'],
+  },
+  {
+    field: 'publication_year',
+    label: 'Year',
+    aliases: ['year', 'publication year', 'published', 'pub year'],
+  },
+  {
+    field: 'edition_number',
+    label: 'Edition Number',
+    aliases: ['edition', 'edition number', 'edition no'],
+  },
+  {
+    field: 'publisher',
+    label: 'Publisher',
+    aliases: ['publisher', 'imprint'],
+  },
+  {
+    field: 'price',
+    label: 'Price',
+    aliases: ['price', 'msrp', 'list price', 'rrp'],
+  },
+];
+
+// Maps each import field to the CSV header it should be read from
+export type CsvColumnMapping = Partial<Record<CsvImportField, string>>;
+
+export type CsvImportRow = { row_number: number } & Partial<
+  Record<CsvImportField, string>
+>;
+
+export type CsvImportRowStatus = 'created' | 'merged' | 'error';
+
+export interface CsvImportRowResult {
+  row_number: number;
+  status: CsvImportRowStatus;
+  title?: string;
+  book_id?: string;
+  enriched?: boolean;
+  error?: string;
+}
+
+export interface CsvImportResult {
+  total: number;
+  succeeded: number;
+  failed: number;
+  rows: CsvImportRowResult[];
+}
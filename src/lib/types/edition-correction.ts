@@ -0,0 +1,31 @@
+/**
+ * Edition Correction Types
+ * Labelled ISBN pairs collected when users fix edition grouping by hand
+ */
+
+export type EditionRelation =
+  | 'same-edition'
+  | 'different-edition'
+  | 'different-work';
+
+// A pair as recorded; isbn_a sorts before isbn_b
+export interface EditionCorrectionPair {
+  isbn_a: string;
+  isbn_b: string;
+  relation: EditionRelation;
+}
+
+// A pair as a fix recorded it, with the relation and confirmations it had
+// before (null when the fix created it), so undoing the fix can restore them
+export interface EditionCorrectionChange extends EditionCorrectionPair {
+  previous_relation: EditionRelation | null;
+  previous_confirmations: number | null;
+}
+
+export interface EditionCorrection extends EditionCorrectionPair {
+  id: string;
+  confirmations: number;
+  last_confirmed_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
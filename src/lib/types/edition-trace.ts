@@ -0,0 +1,40 @@
+/**
+ * Edition Trace Types
+ * A record of why edition detection grouped, merged or dropped each book,
+ * used to report grouping bugs with evidence
+ */
+
+export type EditionTraceStage =
+  | 'filter'
+  | 'consolidation'
+  | 'title'
+  | 'edition'
+  | 'correction'
+  | 'translation';
+
+export type EditionTraceOutcome = 'grouped' | 'consolidated' | 'dropped';
+
+export interface EditionTraceEvent {
+  stage: EditionTraceStage;
+  rule: string; // Short rule name, e.g. 'explicit-edition-number'
+  detail: string;
+  scores?: Record<string, number | boolean>;
+}
+
+export interface EditionBookTrace {
+  book_id: string;
+  isbn?: string;
+  title: string;
+  binding?: string;
+  source?: string;
+  outcome: EditionTraceOutcome;
+  edition_number?: number;
+  consolidated_into?: string; // book_id of the record it was merged into
+  events: EditionTraceEvent[];
+}
+
+export interface EditionGroupingTrace {
+  input_count: number;
+  group_count: number;
+  books: EditionBookTrace[];
+}
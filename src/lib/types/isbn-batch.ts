@@ -0,0 +1,41 @@
+// ISBN batch lookup types
+// Shared by the paste-a-list add flow and the /api/books/isbn/batch endpoints
+
+import { EditionGroup } from '@/lib/services/edition-detection.service';
+
+import { UIBook } from './ui-book';
+
+// One book of the preview, in the shape POST /api/books takes
+export interface IsbnBatchPreviewItem {
+  book: UIBook; // Primary book; its title and authors name the saved book
+  editionGroups: EditionGroup[];
+  isbns: string[]; // Requested ISBNs (as ISBN-13) that resolved to this book
+}
+
+export interface IsbnBatchInvalidIsbn {
+  input: string;
+  suggestions: string[]; // Hyphenated where the ISBN range is known
+}
+
+export interface IsbnBatchPreview {
+  items: IsbnBatchPreviewItem[];
+  invalid: IsbnBatchInvalidIsbn[];
+  not_found: string[];
+}
+
+export type IsbnBatchCommitStatus = 'created' | 'merged' | 'error';
+
+export interface IsbnBatchCommitItemResult {
+  index: number; // Position in the committed items
+  status: IsbnBatchCommitStatus;
+  title?: string;
+  book_id?: string;
+  error?: string;
+}
+
+export interface IsbnBatchCommitResult {
+  total: number;
+  succeeded: number;
+  failed: number;
+  items: IsbnBatchCommitItemResult[];
+}
@@ -0,0 +1,23 @@
+// Library export/restore types
+// The JSON export mirrors the Book type so it can be re-imported as-is
+
+import { Book } from './book';
+
+export const LIBRARY_EXPORT_FORMAT = 'authormagic-library';
+export const LIBRARY_EXPORT_VERSION = 1;
+
+export type LibraryExportFormat = 'csv' | 'json';
+
+export interface LibraryExport {
+  format: typeof LIBRARY_EXPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  books: Book[];
+}
+
+export interface LibraryRestoreResult {
+  total: number;
+  created: number;
+  merged: number;
+  failed: Array<{ title: string; error: string }>;
+}
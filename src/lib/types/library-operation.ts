@@ -0,0 +1,28 @@
+/**
+ * Library Operation Types
+ * Manual restructuring of a user's library (move, merge, split) and the
+ * audit log entries that let each one be undone
+ */
+
+import { Book } from './book';
+
+export type LibraryOperationType =
+  | 'library_move_binding'
+  | 'library_merge_editions'
+  | 'library_merge_books'
+  | 'library_split_edition'
+  | 'library_undo';
+
+export interface LibraryOperation {
+  id: string; // audit_logs.id
+  action_type: LibraryOperationType;
+  action_description: string;
+  status: 'completed' | 'undone';
+  book_ids: string[]; // Every book the operation touched
+  created_at: string;
+}
+
+export interface LibraryOperationResult {
+  operation_id: string;
+  book: Book; // The book the change ended up in, reloaded
+}
@@ -0,0 +1,75 @@
+// Metadata provider registry types
+// Every external book-data source (ISBNdb, Google Books, iTunes, Open Library)
+// implements MetadataProvider so the search pipeline can iterate over them.
+
+import { ApiResponse } from './api';
+import { UIBook } from './ui-book';
+
+export type MetadataProviderId =
+  | 'isbn-db'
+  | 'google-books'
+  | 'itunes'
+  | 'open-library';
+
+export type MetadataProviderCapability = 'title-author-search' | 'isbn-lookup';
+
+export interface MetadataProviderSettings {
+  enabled: boolean;
+  priority: number; // Lower runs (and wins merges) first
+  timeoutMs: number;
+}
+
+export interface MetadataProvider {
+  id: MetadataProviderId;
+  name: string;
+  // False for sources whose results carry no ISBNs (e.g. iTunes audiobooks);
+  // those results skip ISBN-based deduplication and enrichment
+  providesIsbns: boolean;
+  isAvailable(): boolean;
+  searchByTitleAuthor?(
+    title: string,
+    author: string,
+  ): Promise<ApiResponse<UIBook[]>>;
+  lookupByISBN?(isbn: string): Promise<ApiResponse<UIBook | null>>;
+  // Bulk form of lookupByISBN for sources with a batch endpoint; ISBNs the
+  // source doesn't have are left out of the result
+  lookupByISBNs?(isbns: string[]): Promise<ApiResponse<UIBook[]>>;
+  // ISBNs per lookupByISBNs call, and the time each call gets in place of
+  // the single-lookup timeout
+  bulkLookup?: { maxIsbns: number; timeoutMs: number };
+}
+
+export interface MetadataProviderResult<T> {
+  providerId: MetadataProviderId;
+  providesIsbns: boolean;
+  success: boolean;
+  data: T;
+  error?: string;
+  durationMs: number;
+}
+
+// Admin override row; null columns fall back to the API_CONFIG default
+export interface MetadataProviderSettingsRow {
+  provider_id: MetadataProviderId;
+  enabled: boolean | null;
+  priority: number | null;
+  timeout_ms: number | null;
+  updated_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MetadataProviderStatus extends MetadataProviderSettings {
+  id: MetadataProviderId;
+  name: string;
+  available: boolean;
+  capabilities: MetadataProviderCapability[];
+  overridden: boolean;
+  defaults: MetadataProviderSettings;
+}
+
+export interface UpdateMetadataProviderSettingsRequest {
+  enabled?: boolean | null;
+  priority?: number | null;
+  timeout_ms?: number | null;
+}
@@ -0,0 +1,91 @@
+/**
+ * Metadata Refresh Types
+ * Background re-querying of saved books, the resulting change feed and
+ * suggested bindings/editions
+ */
+
+import { UIBook } from './ui-book';
+
+export type BookChangeType =
+  | 'cover_changed'
+  | 'price_changed'
+  | 'metadata_changed'
+  | 'binding_discovered'
+  | 'edition_discovered';
+
+export interface BookChangeEvent {
+  id: string;
+  user_id: string;
+  book_id: string;
+  binding_id?: string | null;
+  job_id?: string | null;
+  change_type: BookChangeType;
+  field?: string | null;
+  old_value?: unknown;
+  new_value?: unknown;
+  source?: string | null;
+  read_at?: string | null;
+  created_at: string;
+  book?: { title: string; author: string } | null;
+}
+
+export type BookChangeEventInsert = Omit<
+  BookChangeEvent,
+  'id' | 'read_at' | 'created_at' | 'book'
+>;
+
+// Details stored in new_value for discovered bindings and editions
+export interface DiscoveredBinding {
+  isbn: string;
+  title: string;
+  binding?: string;
+  publisher?: string;
+  year?: number;
+  edition_number: number;
+}
+
+export interface MetadataRefreshJob {
+  job_id: string;
+  book_id: string;
+  user_id: string;
+  attempts: number;
+}
+
+export interface MetadataRefreshStats {
+  total_jobs: number;
+  pending_jobs: number;
+  processing_jobs: number;
+  completed_jobs: number;
+  failed_jobs: number;
+  changes_last_24h: number;
+  completed_last_24h: number;
+}
+
+export interface MetadataRefreshRunResult {
+  scheduled: number;
+  processed: number;
+  failed: number;
+  changes: number;
+}
+
+export type EditionSuggestionStatus = 'pending' | 'accepted' | 'dismissed';
+
+// A binding or edition found for a saved book that the user has not added yet
+export interface EditionSuggestion {
+  id: string;
+  user_id: string;
+  book_id: string;
+  isbn: string;
+  edition_number: number;
+  is_new_edition: boolean;
+  book_data: UIBook;
+  source?: string | null;
+  status: EditionSuggestionStatus;
+  resolved_at?: string | null;
+  created_at: string;
+}
+
+export type EditionSuggestionInsert = Omit<
+  EditionSuggestion,
+  'id' | 'status' | 'resolved_at' | 'created_at'
+>;
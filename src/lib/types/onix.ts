@@ -0,0 +1,87 @@
+// ONIX 3.0 feed types
+// Used by the ONIX export/import services and their API endpoints
+
+import { ContributorCredit } from './contributor';
+
+export interface OnixExportOptions {
+  senderName?: string;
+  currencyCode?: string; // ISO 4217, prices are stored without a currency
+}
+
+export interface OnixBindingValidation {
+  binding_id: string;
+  book_id: string;
+  edition_number: number;
+  binding_type: string;
+  isbn?: string;
+  missingRequired: string[]; // Product is rejected by most recipients without these
+  missingRecommended: string[];
+}
+
+export interface OnixValidationReport {
+  valid: boolean;
+  totalProducts: number;
+  productsWithErrors: number;
+  bindings: OnixBindingValidation[];
+}
+
+// A single ONIX Product flattened into the fields we store on a binding
+export interface OnixImportProduct {
+  record_reference: string;
+  isbn?: string;
+  title: string;
+  subtitle?: string;
+  contributors: string[]; // Author names, in sequence order
+  credits: ContributorCredit[]; // Every contributor we have a role for
+  work_id?: string; // RelatedWork identifier, when the feed provides one
+  edition_number: number;
+  publication_year?: number;
+  product_form?: string;
+  binding_type: string;
+  publisher?: string;
+  pages?: number;
+  language?: string;
+  price?: number;
+  currency_code?: string;
+  cover_image_url?: string;
+  description?: string;
+}
+
+export type OnixImportAction = 'create' | 'merge' | 'skip';
+
+export interface OnixImportEdition {
+  edition_number: number;
+  publication_year?: number;
+  products: OnixImportProduct[];
+}
+
+export interface OnixImportWork {
+  key: string;
+  title: string;
+  author: string;
+  action: OnixImportAction;
+  reason?: string;
+  existing_book_id?: string;
+  editions: OnixImportEdition[];
+}
+
+export interface OnixSkippedProduct {
+  record_reference: string;
+  isbn?: string;
+  title?: string;
+  reason: string;
+}
+
+export interface OnixImportPlan {
+  totalProducts: number;
+  works: OnixImportWork[];
+  skippedProducts: OnixSkippedProduct[];
+  summary: Record<OnixImportAction, number>;
+}
+
+export interface OnixImportResult {
+  plan: OnixImportPlan;
+  created: number;
+  merged: number;
+  failed: Array<{ key: string; title: string; error: string }>;
+}
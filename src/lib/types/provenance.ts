@@ -0,0 +1,59 @@
+/**
+ * Field-level provenance for book metadata
+ * Records which provider supplied each merged field, and when
+ */
+
+export const PROVENANCE_FIELDS = [
+  'title',
+  'authors',
+  'publisher',
+  'year',
+  'pages',
+  'cover',
+  'description',
+  'binding',
+  'language',
+  'price',
+] as const;
+
+export type ProvenanceField = (typeof PROVENANCE_FIELDS)[number];
+
+export interface FieldProvenance {
+  // Provider ID (e.g. 'isbn-db', 'google-books') or import/edit origin
+  // (e.g. 'csv-import', 'manual')
+  source: string;
+  fetched_at: string;
+}
+
+export type BookProvenance = Partial<Record<ProvenanceField, FieldProvenance>>;
+
+// Fields whose disagreeing values are kept for the user to resolve. These
+// are the fields stored on bindings, so a choice can be saved per binding.
+export const CONFLICT_FIELDS = [
+  'publisher',
+  'pages',
+  'cover',
+  'description',
+  'language',
+  'price',
+] as const satisfies readonly ProvenanceField[];
+
+export type ConflictField = (typeof CONFLICT_FIELDS)[number];
+
+export interface FieldCandidate extends FieldProvenance {
+  value: string | number;
+}
+
+// Every distinct value the providers offered, only for fields that disagree
+export type MetadataConflicts = Partial<
+  Record<ConflictField, FieldCandidate[]>
+>;
+
+// A value the user picked; re-enrichment never overwrites these fields
+export interface FieldOverride {
+  value: string | number;
+  source: string; // Source of the chosen candidate
+  overridden_at: string;
+}
+
+export type MetadataOverrides = Partial<Record<ConflictField, FieldOverride>>;
@@ -0,0 +1,38 @@
+/**
+ * Series Types
+ * A user's named series and the books in it
+ */
+
+export interface Series {
+  id: string;
+  user_id: string;
+  name: string;
+  description?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A book's place in its series
+export interface SeriesEntry {
+  id: string; // Book ID
+  title: string;
+  author: string;
+  series_number?: number | null;
+  reading_order?: number | null;
+}
+
+export interface SeriesWithEntries extends Series {
+  entries: SeriesEntry[]; // Sorted by reading order, then series number
+}
+
+export interface SeriesInsert {
+  user_id: string;
+  name: string;
+  description?: string | null;
+}
+
+// Series details found in provider data or a title like "Dune (Book 3)"
+export interface SeriesInfo {
+  name?: string;
+  number?: number;
+}
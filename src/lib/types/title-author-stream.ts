@@ -0,0 +1,37 @@
+// Streaming title/author search types
+// Events sent by /api/books/title-author/stream and read by AddBookDialog
+
+import { EditionGroup } from '@/lib/services/edition-detection.service';
+
+import { EditionGroupingTrace } from './edition-trace';
+import { MetadataProviderId } from './metadata-provider';
+import { UIBook } from './ui-book';
+
+export type ProviderSearchStatus = 'pending' | 'done' | 'failed';
+
+export interface ProviderSearchState {
+  id: MetadataProviderId;
+  name: string;
+  status: ProviderSearchStatus;
+  count?: number; // Matching books, once the provider is done
+  error?: string;
+}
+
+export type TitleAuthorStreamEvent =
+  // Sent first: every provider being searched, all pending
+  | { type: 'providers'; providers: ProviderSearchState[] }
+  // One per provider as it settles, with a rough grouping of the results so far
+  | {
+      type: 'partial';
+      provider: ProviderSearchState;
+      editionGroups: EditionGroup[];
+    }
+  // Sent last: the grouping after enrichment and validation
+  | {
+      type: 'final';
+      editionGroups: EditionGroup[];
+      books: UIBook[];
+      sources: Record<string, number>;
+      trace?: EditionGroupingTrace;
+    }
+  | { type: 'error'; error: string };
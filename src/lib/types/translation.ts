@@ -0,0 +1,30 @@
+/**
+ * Translation Types
+ * Translated editions of a book and the details we track for foreign rights
+ */
+
+// Details of a translated edition
+export interface TranslationDetails {
+  language: string; // ISO 639-1
+  translated_title?: string | null;
+  territory?: string | null;
+  translators?: string[];
+}
+
+// A translated edition as listed on the book page
+export interface BookTranslation extends TranslationDetails {
+  edition_id: string;
+  edition_number: number;
+  publication_year?: number;
+  translators: string[];
+  isbns: string[];
+  binding_types: string[];
+}
+
+// Editions and bindings per language, for the language filter
+export interface LanguageSummary {
+  language: string;
+  is_translation: boolean;
+  editions: number;
+  bindings: number;
+}
@@ -68,13 +68,31 @@ export interface UIBook {
   year?: number; // Publication year as number
 
   // Source tracking
-  source?: 'isbn-db' | 'google-books' | 'itunes' | 'manual';
+  source?: 'isbn-db' | 'google-books' | 'itunes' | 'open-library' | 'manual';
   googleBooksId?: string; // Google Books volume ID
   itunesId?: string; // iTunes collection ID
+  openLibraryWorkId?: string; // Open Library work ID, e.g. OL45804W
+  openLibraryEditionId?: string; // Open Library edition ID, e.g. OL7353617M
+  provenance?: BookProvenance; // Which source supplied each merged field
+  conflicts?: MetadataConflicts; // Candidate values when sources disagree
+  overrides?: MetadataOverrides; // Candidates the user picked, when restoring a backup
+  series?: SeriesInfo; // Series name/number from provider data or the title
+  contributors?: ContributorCredit[]; // Role-tagged credits when the provider has them
 }
 
 // Conversion utilities
-import { ISBNDBBookResponse, iTunesItem } from './api';
+import { API_CONFIG } from '../constants/api-config';
+import { extractCreditsFromDescription } from '../utils/contributors';
+import { fromOnixLanguageCode } from '../utils/onix-codes';
+
+import { ISBNDBBookResponse, iTunesItem, OpenLibrarySearchDoc } from './api';
+import { ContributorCredit } from './contributor';
+import {
+  BookProvenance,
+  MetadataConflicts,
+  MetadataOverrides,
+} from './provenance';
+import { SeriesInfo } from './series';
 // Legacy imports and functions removed - Book and CompleteBook no longer used
 
 export function convertISBNDBToUIBook(book: ISBNDBBookResponse): UIBook {
@@ -101,6 +119,8 @@ export function convertISBNDBToUIBook(book: ISBNDBBookResponse): UIBook {
     binding: book.binding || book.print_type || undefined, // <-- Added for grouping/UI
     edition: book.edition || undefined, // <-- Map edition field directly
     content_version: book.content_version || undefined, // <-- Keep content_version separate
+    related_isbns: getRelatedIsbns(book),
+    other_isbns: book.other_isbns?.map(other => other.isbn).filter(Boolean),
     // ISBNDB doesn't provide images, but we include the fields for consistency
     image: undefined,
     thumbnail: undefined,
@@ -109,6 +129,14 @@ export function convertISBNDBToUIBook(book: ISBNDBBookResponse): UIBook {
   };
 }
 
+// ISBNs of related editions, when ISBNDB lists them
+function getRelatedIsbns(book: ISBNDBBookResponse): string[] | undefined {
+  const isbns = (book.related || [])
+    .map(item => item.isbn13 || item.isbn)
+    .filter((isbn): isbn is string => typeof isbn === 'string');
+  return isbns.length > 0 ? isbns : undefined;
+}
+
 export function convertITunesToUIBook(item: iTunesItem): UIBook {
   // Convert iTunes format to our binding type
   const getBindingType = (item: iTunesItem): string => {
@@ -119,16 +147,30 @@ export function convertITunesToUIBook(item: iTunesItem): UIBook {
     return 'Audiobook';
   };
 
+  const authors = item.artistName
+    ? item.artistName
+        .split(/\s*[&,]\s*|\s+and\s+/i) // Split on &, comma, or "and"
+        .map(author => author.trim())
+        .filter(author => author.length > 0)
+    : [];
+
+  // Narrators and translators are only named in the description
+  const otherCredits = extractCreditsFromDescription(
+    item.description || item.longDescription,
+  );
+
   return {
     id: item.collectionId?.toString() || `itunes-${Date.now()}`,
     title: item.collectionName || item.trackName || '',
     subtitle: undefined, // iTunes doesn't separate subtitle
-    authors: item.artistName
-      ? item.artistName
-          .split(/\s*[&,]\s*|\s+and\s+/i) // Split on &, comma, or "and"
-          .map(author => author.trim())
-          .filter(author => author.length > 0)
-      : [],
+    authors,
+    contributors:
+      otherCredits.length > 0
+        ? [
+            ...authors.map(name => ({ name, role: 'author' as const })),
+            ...otherCredits,
+          ]
+        : undefined,
     publisher: undefined, // iTunes doesn't provide publisher in search results
     published_date: item.releaseDate || undefined,
     isbn: undefined, // iTunes Search API doesn't return ISBN for audiobooks
@@ -173,6 +215,60 @@ export function convertITunesToUIBook(item: iTunesItem): UIBook {
   };
 }
 
+export function convertOpenLibraryToUIBook(doc: OpenLibrarySearchDoc): UIBook {
+  // Prefer the matched edition's details, falling back to work-level data
+  const edition = doc.editions?.docs?.[0];
+  const isbns = edition?.isbn?.length ? edition.isbn : doc.isbn || [];
+  const isbn13 = isbns.find(isbn => isbn.length === 13);
+  const isbn = isbn13 || isbns[0];
+
+  const workId = doc.key.replace('/works/', '');
+  const editionId = edition?.key
+    ? edition.key.replace('/books/', '')
+    : doc.cover_edition_key;
+
+  const coverId = edition?.cover_i || doc.cover_i;
+  const coverUrl = (size: 'M' | 'L') =>
+    coverId
+      ? `${API_CONFIG.OPEN_LIBRARY.COVERS_URL}/b/id/${coverId}-${size}.jpg`
+      : undefined;
+
+  const publishDate = edition?.publish_date?.[0];
+  const parsedYear = publishDate ? parseInt(publishDate.slice(-4), 10) : NaN;
+
+  // Open Library uses three-letter MARC codes, the same set ONIX uses
+  const marcLanguage = (edition?.language || doc.language)?.[0];
+  const language = fromOnixLanguageCode(marcLanguage) || marcLanguage;
+
+  return {
+    id: editionId || workId,
+    title: edition?.title || doc.title,
+    subtitle: doc.subtitle,
+    authors: doc.author_name || [],
+    publisher: edition?.publisher?.[0] || doc.publisher?.[0] || undefined,
+    published_date: publishDate,
+    year: parsedYear > 0 ? parsedYear : doc.first_publish_year,
+    isbn,
+    isbn13,
+    categories: doc.subject?.slice(0, 10) || [],
+    page_count: edition?.number_of_pages_median || doc.number_of_pages_median,
+    language,
+    data_source: 'open_library',
+    external_id: editionId || workId,
+    binding: undefined, // Search results don't include physical format
+    image: coverUrl('L'),
+    thumbnail: coverUrl('M'),
+
+    // Source tracking
+    source: 'open-library',
+    openLibraryWorkId: workId,
+    openLibraryEditionId: editionId,
+
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+}
+
 // Sample data for development
 export const sampleUIBooks: UIBook[] = [
   {
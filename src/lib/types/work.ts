@@ -0,0 +1,50 @@
+/**
+ * Work Types
+ * The work layer above Book: several library books that are the same
+ * intellectual work (e.g. an original and its retitled 2nd edition)
+ */
+
+export interface Work {
+  id: string;
+  user_id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// A book as listed under its work
+export interface WorkMember {
+  id: string;
+  title: string;
+  author: string;
+}
+
+export interface WorkWithBooks extends Work {
+  books: WorkMember[];
+}
+
+// A user's merge (same_work) or split decision between two books
+export interface WorkDecision {
+  book_id: string;
+  other_book_id: string;
+  same_work: boolean;
+}
+
+// Why two books were clustered into one work
+export type WorkLinkReason = 'open-library-work' | 'related-isbn' | 'user';
+
+// A book's identifiers as seen by the clustering pass
+export interface ClusterableBook {
+  id: string;
+  title: string;
+  created_at: string;
+  isbns: string[];
+  related_isbns: string[];
+  open_library_work_ids: string[];
+}
+
+export interface WorkClusterResult {
+  works: number; // Works with two or more books after clustering
+  books_linked: number;
+  works_removed: number;
+}
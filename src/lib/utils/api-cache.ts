@@ -1,130 +1,111 @@
-// Enhanced in-memory cache with TTL support and disk persistence for API responses
-// Optimized for production with cache analytics and pre-warming
-
-import { promises as fs } from 'fs';
-import { join } from 'path';
-
-interface CacheItem<T> {
-  data: T;
-  timestamp: number;
-  ttl: number;
-  hits?: number;
-  lastAccess?: number;
-}
+// API response cache with TTL support and analytics
+// Entries live in a pluggable CacheStore (memory, file or Postgres; see
+// cache-store.ts), so the cache can be shared across server instances
+
+import {
+  CacheItem,
+  CacheStore,
+  CacheStoreType,
+  FileCacheStore,
+  MemoryCacheStore,
+  getCacheStoreType,
+  isExpired,
+} from './cache-store';
+import { PostgresCacheStore } from './postgres-cache-store';
 
 interface CacheStats {
+  store: CacheStoreType;
   size: number;
   hits: number;
   misses: number;
   hitRate: number;
   totalRequests: number;
   keys: string[];
-  persistedAt?: number;
-  restoredAt?: number;
 }
 
 interface CacheConfig {
+  store?: CacheStore;
   cleanupIntervalMs?: number;
-  persistToFile?: boolean;
-  cacheFilePath?: string;
   preWarmOnStart?: boolean;
   enableAnalytics?: boolean;
 }
 
+export function createCacheStore(
+  type: CacheStoreType = getCacheStoreType(),
+): CacheStore {
+  switch (type) {
+    case 'postgres':
+      return new PostgresCacheStore();
+    case 'file':
+      return new FileCacheStore();
+    default:
+      return new MemoryCacheStore();
+  }
+}
+
+// Hit and miss counts are per process; per-key hits are kept by the store
 class ApiCache {
-  private cache: Map<string, CacheItem<unknown>> = new Map();
+  private store: CacheStore;
   private cleanupInterval: NodeJS.Timeout | null = null;
-  private stats: CacheStats = {
-    size: 0,
+  private stats = {
     hits: 0,
     misses: 0,
     hitRate: 0,
     totalRequests: 0,
-    keys: [],
   };
 
-  private config: Required<CacheConfig> = {
+  private config: Required<Omit<CacheConfig, 'store'>> = {
     cleanupIntervalMs: 60000, // 1 minute
-    persistToFile: true,
-    cacheFilePath: join(process.cwd(), '.cache', 'api-cache.json'),
     preWarmOnStart: true,
     enableAnalytics: true,
   };
 
-  constructor(config: CacheConfig = {}) {
+  constructor({ store, ...config }: CacheConfig = {}) {
+    this.store = store || new MemoryCacheStore();
     this.config = { ...this.config, ...config };
 
     // Start cleanup interval
     this.cleanupInterval = setInterval(() => {
       this.cleanup();
     }, this.config.cleanupIntervalMs);
+    // Cleanup alone shouldn't keep the process (or a test run) alive
+    this.cleanupInterval.unref?.();
 
-    // Initialize cache with persistence and pre-warming
-    if (typeof window === 'undefined') {
+    // Initialize cache with pre-warming
+    if (typeof window === 'undefined' && this.config.preWarmOnStart) {
       // Server-side only
-      this.initializeCache();
-    }
-  }
-
-  private async initializeCache(): Promise<void> {
-    try {
-      // Restore cache from disk
-      if (this.config.persistToFile) {
-        await this.restoreFromDisk();
-      }
-
-      // Pre-warm with common searches
-      if (this.config.preWarmOnStart) {
-        await this.preWarmCache();
-      }
-    } catch {
-      // Cache initialization failed - continue without cache persistence
+      this.preWarmCache().catch(() => {
+        // Silent fail - pre-warming is not critical
+      });
     }
   }
 
-  set<T>(key: string, data: T, ttlSeconds: number = 3600): void {
+  async set<T>(key: string, data: T, ttlSeconds: number = 3600): Promise<void> {
     const now = Date.now();
-    const optimizedKey = this.optimizeKey(key);
-
-    this.cache.set(optimizedKey, {
-      data,
-      timestamp: now,
-      ttl: ttlSeconds * 1000,
-      hits: 0,
-      lastAccess: now,
-    });
 
-    this.updateStats();
-
-    // Persist to disk periodically (every 10 cache sets)
-    if (this.config.persistToFile && this.cache.size % 10 === 0) {
-      this.persistToDisk().catch(() => {
-        // Silent fail - disk persistence is not critical
+    try {
+      await this.store.set(this.optimizeKey(key), {
+        data,
+        timestamp: now,
+        ttl: ttlSeconds * 1000,
+        hits: 0,
+        lastAccess: now,
       });
+    } catch {
+      // Silent fail - the response is still returned, just not cached
     }
   }
 
-  get<T>(key: string): T | null {
+  async get<T>(key: string): Promise<T | null> {
     const optimizedKey = this.optimizeKey(key);
-    const item = this.cache.get(optimizedKey);
 
     if (this.config.enableAnalytics) {
       this.stats.totalRequests++;
     }
 
-    if (!item) {
-      if (this.config.enableAnalytics) {
-        this.stats.misses++;
-        this.updateHitRate();
-      }
-      return null;
-    }
+    const item = await this.getLiveItem(optimizedKey);
 
-    const now = Date.now();
-    const isExpired = now - item.timestamp > item.ttl;
-
-    if (isExpired) {
-      this.cache.delete(optimizedKey);
+    if (!item) {
       if (this.config.enableAnalytics) {
         this.stats.misses++;
         this.updateHitRate();
@@ -134,55 +115,61 @@ class ApiCache {
 
     // Update access statistics
     if (this.config.enableAnalytics) {
-      item.hits = (item.hits || 0) + 1;
-      item.lastAccess = now;
       this.stats.hits++;
       this.updateHitRate();
+      // Not awaited - a slow hit counter shouldn't slow the cache hit
+      this.store.recordHit(optimizedKey, Date.now()).catch(() => {
+        // Silent fail - per-key analytics are not critical
+      });
     }
 
     return item.data as T;
   }
 
-  has(key: string): boolean {
-    const optimizedKey = this.optimizeKey(key);
-    const item = this.cache.get(optimizedKey);
-
-    if (!item) {
-      return false;
-    }
-
-    const now = Date.now();
-    const isExpired = now - item.timestamp > item.ttl;
+  async has(key: string): Promise<boolean> {
+    return (await this.getLiveItem(this.optimizeKey(key))) !== null;
+  }
 
-    if (isExpired) {
-      this.cache.delete(optimizedKey);
+  async delete(key: string): Promise<boolean> {
+    try {
+      return await this.store.delete(this.optimizeKey(key));
+    } catch {
       return false;
     }
-
-    return true;
   }
 
-  delete(key: string): boolean {
-    const optimizedKey = this.optimizeKey(key);
-    const deleted = this.cache.delete(optimizedKey);
-    if (deleted) {
-      this.updateStats();
-    }
-    return deleted;
+  async clear(): Promise<void> {
+    await this.store.clear();
   }
 
-  clear(): void {
-    this.cache.clear();
-    this.stats.size = 0;
-    this.stats.keys = [];
+  async size(): Promise<number> {
+    return (await this.store.keys()).length;
   }
 
-  size(): number {
-    return this.cache.size;
+  async keys(): Promise<string[]> {
+    return this.store.keys();
   }
 
-  keys(): string[] {
-    return Array.from(this.cache.keys());
+  // An unexpired entry, or null. A store that can't be read counts as a miss
+  // so lookups fall through to the provider instead of failing.
+  private async getLiveItem(
+    optimizedKey: string,
+  ): Promise<CacheItem<unknown> | null> {
+    try {
+      const item = await this.store.get(optimizedKey);
+      if (!item) {
+        return null;
+      }
+
+      if (isExpired(item, Date.now())) {
+        await this.store.delete(optimizedKey);
+        return null;
+      }
+
+      return item;
+    } catch {
+      return null;
+    }
   }
 
   // Enhanced cache key optimization for better hit rates
@@ -199,11 +186,6 @@ class ApiCache {
     return key.toLowerCase().replace(/\s+/g, '');
   }
 
-  private updateStats(): void {
-    this.stats.size = this.cache.size;
-    this.stats.keys = Array.from(this.cache.keys());
-  }
-
   private updateHitRate(): void {
     this.stats.hitRate =
       this.stats.totalRequests > 0
@@ -211,67 +193,6 @@ class ApiCache {
         : 0;
   }
 
-  // Disk persistence for server restarts
-  private async persistToDisk(): Promise<void> {
-    if (!this.config.persistToFile || typeof window !== 'undefined') {
-      return;
-    }
-
-    try {
-      // Ensure cache directory exists
-      const cacheDir = join(process.cwd(), '.cache');
-      await fs.mkdir(cacheDir, { recursive: true });
-
-      // Convert cache to serializable format
-      const cacheData = {
-        cache: Array.from(this.cache.entries()),
-        stats: { ...this.stats, persistedAt: Date.now() },
-        timestamp: Date.now(),
-      };
-
-      await fs.writeFile(
-        this.config.cacheFilePath,
-        JSON.stringify(cacheData),
-        'utf-8',
-      );
-    } catch {
-      // Silent fail - disk persistence is not critical
-    }
-  }
-
-  private async restoreFromDisk(): Promise<void> {
-    if (!this.config.persistToFile || typeof window !== 'undefined') {
-      return;
-    }
-
-    try {
-      const cacheData = await fs.readFile(this.config.cacheFilePath, 'utf-8');
-      const parsed = JSON.parse(cacheData);
-
-      // Restore cache entries, filtering out expired ones
-      const now = Date.now();
-
-      for (const [key, item] of parsed.cache) {
-        const isExpired = now - item.timestamp > item.ttl;
-        if (!isExpired) {
-          this.cache.set(key, item);
-        }
-      }
-
-      // Restore stats
-      this.stats = {
-        ...parsed.stats,
-        restoredAt: now,
-        size: this.cache.size,
-        keys: Array.from(this.cache.keys()),
-      };
-
-      // Silent fail - disk persistence is not critical
-    } catch {
-      // Silent fail - disk persistence is not critical
-    }
-  }
-
   // Pre-warm cache with common searches to improve first-time performance
   private async preWarmCache(): Promise<void> {
     const commonSearches = [
@@ -286,7 +207,7 @@ class ApiCache {
     for (const search of commonSearches) {
       // Only pre-warm if not already cached
       const cacheKey = this.buildTitleAuthorKey(search.title, search.author);
-      if (!this.has(cacheKey)) {
+      if (!(await this.has(cacheKey))) {
         // Pre-warm by making actual API calls in background
         // This will be done by the services that use this cache
         // Silent fail - pre-warming is not critical
@@ -299,86 +220,60 @@ class ApiCache {
   }
 
   private cleanup(): void {
-    const now = Date.now();
-    const keysToDelete: string[] = [];
-
-    for (const [key, item] of this.cache.entries()) {
-      const isExpired = now - item.timestamp > item.ttl;
-      if (isExpired) {
-        keysToDelete.push(key);
-      }
-    }
-
-    keysToDelete.forEach(key => this.cache.delete(key));
-
-    if (keysToDelete.length > 0) {
-      this.updateStats();
+    this.store.deleteExpired(Date.now()).catch(() => {
       // Silent fail - cache cleanup is not critical
-    }
+    });
   }
 
-  destroy(): void {
+  async destroy(): Promise<void> {
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval);
       this.cleanupInterval = null;
     }
 
-    // Persist final state before shutdown
-    if (this.config.persistToFile) {
-      this.persistToDisk().catch(() => {
-        // Silent fail - disk persistence is not critical
-      });
-    }
-
-    this.clear();
+    // Flush anything the store buffers before shutdown
+    await this.store.close().catch(() => {
+      // Silent fail - persistence is not critical
+    });
   }
 
   // Enhanced analytics
-  getStats(): CacheStats {
+  async getStats(): Promise<CacheStats> {
+    const keys = await this.store.keys().catch(() => []);
     return {
       ...this.stats,
-      size: this.cache.size,
-      keys: Array.from(this.cache.keys()),
+      store: this.store.type,
+      size: keys.length,
+      keys,
     };
   }
 
   // Get detailed analytics for monitoring
-  getDetailedAnalytics() {
-    const hotKeys = Array.from(this.cache.entries())
-      .map(([key, item]) => ({
-        key,
-        hits: item.hits || 0,
-        lastAccess: item.lastAccess,
-      }))
-      .sort((a, b) => (b.hits || 0) - (a.hits || 0))
-      .slice(0, 10);
+  async getDetailedAnalytics() {
+    const [stats, usage] = await Promise.all([
+      this.getStats(),
+      this.store.getUsage(10).catch(() => null),
+    ]);
 
     return {
-      ...this.getStats(),
-      hotKeys,
+      ...stats,
+      hotKeys: usage?.hotKeys || [],
       averageHitsPerKey:
-        this.cache.size > 0
-          ? Array.from(this.cache.values()).reduce(
-              (sum, item) => sum + (item.hits || 0),
-              0,
-            ) / this.cache.size
-          : 0,
+        usage && usage.size > 0 ? usage.totalHits / usage.size : 0,
     };
   }
 }
 
 // Global cache instance with enhanced configuration
 const globalCache = new ApiCache({
+  store: createCacheStore(),
   cleanupIntervalMs: 60000, // 1 minute cleanup
-  persistToFile:
-    process.env.NODE_ENV === 'production' ||
-    process.env.NODE_ENV === 'development',
   preWarmOnStart: true,
   enableAnalytics: true,
 });
 
 // Enhanced cache utilities
-export function getCachedData<T>(key: string): T | null {
+export function getCachedData<T>(key: string): Promise<T | null> {
   return globalCache.get<T>(key);
 }
 
@@ -386,27 +281,27 @@ export function setCachedData<T>(
   key: string,
   data: T,
   ttlSeconds?: number,
-): void {
-  globalCache.set(key, data, ttlSeconds);
+): Promise<void> {
+  return globalCache.set(key, data, ttlSeconds);
 }
 
-export function hasCachedData(key: string): boolean {
+export function hasCachedData(key: string): Promise<boolean> {
   return globalCache.has(key);
 }
 
-export function deleteCachedData(key: string): boolean {
+export function deleteCachedData(key: string): Promise<boolean> {
   return globalCache.delete(key);
 }
 
-export function clearCache(): void {
-  globalCache.clear();
+export function clearCache(): Promise<void> {
+  return globalCache.clear();
 }
 
-export function getCacheSize(): number {
+export function getCacheSize(): Promise<number> {
   return globalCache.size();
 }
 
-export function getCacheKeys(): string[] {
+export function getCacheKeys(): Promise<string[]> {
   return globalCache.keys();
 }
 
@@ -436,14 +331,14 @@ export async function cacheWrapper<T>(
   ttlSeconds: number = 3600,
 ): Promise<T> {
   // Check cache first
-  const cached = getCachedData<T>(key);
+  const cached = await getCachedData<T>(key);
   if (cached !== null) {
     return cached;
   }
 
   // Execute function and cache result
   const result = await fn();
-  setCachedData(key, result, ttlSeconds);
+  await setCachedData(key, result, ttlSeconds);
 
   return result;
 }
@@ -456,25 +351,25 @@ export async function cacheWithFallback<T>(
   ttlSeconds: number = 3600,
 ): Promise<T> {
   // Check cache first
-  const cached = getCachedData<T>(key);
+  const cached = await getCachedData<T>(key);
   if (cached !== null) {
     return cached;
   }
 
   try {
     const result = await primary();
-    setCachedData(key, result, ttlSeconds);
+    await setCachedData(key, result, ttlSeconds);
     return result;
   } catch {
     // Try fallback
     const fallbackResult = await fallback();
-    setCachedData(key, fallbackResult, ttlSeconds);
+    await setCachedData(key, fallbackResult, ttlSeconds);
     return fallbackResult;
   }
 }
 
 // Enhanced cache statistics
-export function getCacheStats(): CacheStats {
+export function getCacheStats(): Promise<CacheStats> {
   return globalCache.getStats();
 }
 
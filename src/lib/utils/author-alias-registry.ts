@@ -0,0 +1,70 @@
+import { AuthorAlias } from '@/lib/types/author-alias';
+
+/**
+ * Normalize an author string for alias lookups
+ */
+export function normalizeAliasKey(value: string): string {
+  return value.toLowerCase().replace(/[.,;]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * In-memory view of the author alias registry.
+ * Safe to use on both client and server - it holds no database handles.
+ */
+export class AuthorAliasRegistry {
+  private aliasMap = new Map<string, string[]>();
+  private coAuthorGroups: string[][] = [];
+
+  constructor(aliases: Pick<AuthorAlias, 'alias' | 'canonical_authors'>[]) {
+    for (const entry of aliases) {
+      const key = normalizeAliasKey(entry.alias);
+      const authors = entry.canonical_authors
+        .map(name => name.trim())
+        .filter(Boolean);
+      if (!key || authors.length === 0) continue;
+
+      // First entry wins, so callers pass user aliases ahead of global ones
+      if (!this.aliasMap.has(key)) {
+        this.aliasMap.set(key, authors);
+      }
+
+      if (authors.length > 1) {
+        this.coAuthorGroups.push(authors.map(normalizeAliasKey));
+      }
+    }
+  }
+
+  static empty(): AuthorAliasRegistry {
+    return new AuthorAliasRegistry([]);
+  }
+
+  get size(): number {
+    return this.aliasMap.size;
+  }
+
+  /**
+   * Resolve a raw author string to its canonical contributors, or null if unknown
+   */
+  resolve(authorField: string): string[] | null {
+    const authors = this.aliasMap.get(normalizeAliasKey(authorField));
+    return authors ? [...authors] : null;
+  }
+
+  /**
+   * Whether bookAuthor appears alongside searchAuthor in any registered contributor list
+   */
+  isKnownCoAuthor(searchAuthor: string, bookAuthor: string): boolean {
+    const search = normalizeAliasKey(searchAuthor);
+    const resolvedBookAuthors = (this.resolve(bookAuthor) || [bookAuthor]).map(
+      normalizeAliasKey,
+    );
+
+    return this.coAuthorGroups.some(
+      group =>
+        group.some(name => search.includes(name)) &&
+        resolvedBookAuthors.some(bookName =>
+          group.some(name => !search.includes(name) && bookName.includes(name)),
+        ),
+    );
+  }
+}
@@ -0,0 +1,249 @@
+// Cache Stores
+// Where ApiCache keeps its entries. API_CACHE_STORE selects the store:
+//   memory   - per-process Map, gone on restart
+//   file     - Map persisted to .cache/api-cache.json (default outside tests)
+//   postgres - api_cache table, shared by every instance (postgres-cache-store)
+// Stores only hold entries; TTL checks, key normalization and hit/miss
+// analytics stay in ApiCache so they behave the same on every store.
+
+import { promises as fs } from 'fs';
+import { dirname, join } from 'path';
+
+export type CacheStoreType = 'memory' | 'file' | 'postgres';
+
+export interface CacheItem<T> {
+  data: T;
+  timestamp: number;
+  ttl: number;
+  hits?: number;
+  lastAccess?: number;
+}
+
+export interface CacheKeyUsage {
+  key: string;
+  hits: number;
+  lastAccess?: number;
+}
+
+export interface CacheStoreUsage {
+  size: number;
+  totalHits: number;
+  hotKeys: CacheKeyUsage[]; // Most hit first
+}
+
+export interface CacheStore {
+  readonly type: CacheStoreType;
+  get(key: string): Promise<CacheItem<unknown> | null>;
+  set(key: string, item: CacheItem<unknown>): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  clear(): Promise<void>;
+  keys(): Promise<string[]>;
+  recordHit(key: string, accessedAt: number): Promise<void>;
+  deleteExpired(now: number): Promise<number>;
+  getUsage(hotKeyLimit: number): Promise<CacheStoreUsage>;
+  // Flush anything buffered before the process stops
+  close(): Promise<void>;
+}
+
+export function getCacheStoreType(): CacheStoreType {
+  const type = process.env.API_CACHE_STORE?.toLowerCase();
+  if (type === 'memory' || type === 'file' || type === 'postgres') {
+    return type;
+  }
+  // Matches the old behavior: persisted in development and production only
+  return process.env.NODE_ENV === 'production' ||
+    process.env.NODE_ENV === 'development'
+    ? 'file'
+    : 'memory';
+}
+
+export const isExpired = (item: CacheItem<unknown>, now: number): boolean =>
+  now - item.timestamp > item.ttl;
+
+export class MemoryCacheStore implements CacheStore {
+  readonly type: CacheStoreType = 'memory';
+  protected entries: Map<string, CacheItem<unknown>> = new Map();
+
+  async get(key: string): Promise<CacheItem<unknown> | null> {
+    return this.entries.get(key) || null;
+  }
+
+  async set(key: string, item: CacheItem<unknown>): Promise<void> {
+    this.entries.set(key, item);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.entries.keys());
+  }
+
+  async recordHit(key: string, accessedAt: number): Promise<void> {
+    const item = this.entries.get(key);
+    if (item) {
+      item.hits = (item.hits || 0) + 1;
+      item.lastAccess = accessedAt;
+    }
+  }
+
+  async deleteExpired(now: number): Promise<number> {
+    let deleted = 0;
+    for (const [key, item] of this.entries.entries()) {
+      if (isExpired(item, now)) {
+        this.entries.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async getUsage(hotKeyLimit: number): Promise<CacheStoreUsage> {
+    const usage = Array.from(this.entries.entries()).map(([key, item]) => ({
+      key,
+      hits: item.hits || 0,
+      lastAccess: item.lastAccess,
+    }));
+
+    return {
+      size: usage.length,
+      totalHits: usage.reduce((sum, entry) => sum + entry.hits, 0),
+      hotKeys: usage.sort((a, b) => b.hits - a.hits).slice(0, hotKeyLimit),
+    };
+  }
+
+  async close(): Promise<void> {}
+}
+
+// How many sets between writes to disk
+const FILE_PERSIST_INTERVAL = 10;
+
+/**
+ * Memory store backed by a JSON file, so entries survive a restart of a
+ * single long-running server. The file is read on first use and rewritten
+ * after deletes, every FILE_PERSIST_INTERVAL sets and on close.
+ */
+export class FileCacheStore extends MemoryCacheStore {
+  readonly type: CacheStoreType = 'file';
+  private restored: Promise<void> | null = null;
+  private setsSincePersist = 0;
+
+  constructor(
+    private filePath: string = join(process.cwd(), '.cache', 'api-cache.json'),
+  ) {
+    super();
+  }
+
+  async get(key: string): Promise<CacheItem<unknown> | null> {
+    await this.restore();
+    return super.get(key);
+  }
+
+  async set(key: string, item: CacheItem<unknown>): Promise<void> {
+    await this.restore();
+    await super.set(key, item);
+
+    this.setsSincePersist++;
+    if (this.setsSincePersist >= FILE_PERSIST_INTERVAL) {
+      this.setsSincePersist = 0;
+      await this.persist();
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    await this.restore();
+    const deleted = await super.delete(key);
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  async clear(): Promise<void> {
+    // Restored first, so entries still on disk can't come back afterwards
+    await this.restore();
+    await super.clear();
+    await this.persist();
+  }
+
+  async keys(): Promise<string[]> {
+    await this.restore();
+    return super.keys();
+  }
+
+  // Hit counts are written with the next persist, like sets
+  async recordHit(key: string, accessedAt: number): Promise<void> {
+    await this.restore();
+    return super.recordHit(key, accessedAt);
+  }
+
+  async deleteExpired(now: number): Promise<number> {
+    await this.restore();
+    const deleted = await super.deleteExpired(now);
+    if (deleted > 0) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  async getUsage(hotKeyLimit: number): Promise<CacheStoreUsage> {
+    await this.restore();
+    return super.getUsage(hotKeyLimit);
+  }
+
+  async close(): Promise<void> {
+    // Never used, so nothing changed - writing now would wipe the file
+    if (!this.restored) {
+      return;
+    }
+    await this.restored;
+    await this.persist();
+  }
+
+  private restore(): Promise<void> {
+    if (!this.restored) {
+      this.restored = this.readFile();
+    }
+    return this.restored;
+  }
+
+  private async readFile(): Promise<void> {
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+      const now = Date.now();
+
+      // Same file format as before stores existed; expired entries are dropped
+      for (const [key, item] of parsed.cache as [
+        string,
+        CacheItem<unknown>,
+      ][]) {
+        if (!isExpired(item, now) && !this.entries.has(key)) {
+          this.entries.set(key, item);
+        }
+      }
+    } catch {
+      // No cache file yet, or an unreadable one - start empty
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await fs.mkdir(dirname(this.filePath), { recursive: true });
+      await fs.writeFile(
+        this.filePath,
+        JSON.stringify({
+          cache: Array.from(this.entries.entries()),
+          timestamp: Date.now(),
+        }),
+        'utf-8',
+      );
+    } catch {
+      // Silent fail - disk persistence is not critical
+    }
+  }
+}
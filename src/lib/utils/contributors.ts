@@ -0,0 +1,183 @@
+import {
+  BookContributor,
+  ContributorCredit,
+  ContributorRole,
+} from '@/lib/types/contributor';
+import { UIBook } from '@/lib/types/ui-book';
+
+import { normalizeAliasKey } from './author-alias-registry';
+
+/**
+ * Contributor Utilities
+ * Turn provider author lists and stored author strings into role-tagged
+ * credits, and format credits for display
+ */
+
+export const CONTRIBUTOR_ROLE_LABELS: Record<ContributorRole, string> = {
+  author: 'Author',
+  'co-author': 'Co-author',
+  editor: 'Editor',
+  narrator: 'Narrator',
+  translator: 'Translator',
+  illustrator: 'Illustrator',
+};
+
+// Roles credited to the work itself; the rest can differ per binding
+export const AUTHOR_ROLES: ContributorRole[] = ['author', 'co-author'];
+
+// Roles that belong to one binding rather than the whole book
+export const BINDING_ROLES: ContributorRole[] = ['narrator'];
+
+const ROLE_PATTERNS: Array<[RegExp, ContributorRole]> = [
+  [/^(?:narrator|narrated by|read by|reader)$/i, 'narrator'],
+  [/^(?:translator|translated by|trans\.?)$/i, 'translator'],
+  [/^(?:editor|edited by|ed\.?|eds\.?)$/i, 'editor'],
+  [/^(?:illustrator|illustrated by|illus\.?)$/i, 'illustrator'],
+  [/^(?:co-?author|with)$/i, 'co-author'],
+  [/^(?:author|writer)$/i, 'author'],
+];
+
+const toRole = (label: string): ContributorRole | undefined =>
+  ROLE_PATTERNS.find(([pattern]) => pattern.test(label.trim()))?.[1];
+
+export const normalizeContributorName = normalizeAliasKey;
+
+/**
+ * Parse a provider author entry such as "Jane Doe (Narrator)" or
+ * "Translated by John Roe". Plain names get `defaultRole`.
+ */
+export function parseContributorName(
+  raw: string,
+  defaultRole: ContributorRole = 'author',
+): ContributorCredit {
+  const suffix = raw.match(/^(.+?)\s*[([]([^)\]]+)[)\]]\s*$/);
+  if (suffix && toRole(suffix[2])) {
+    return { name: suffix[1].trim(), role: toRole(suffix[2])! };
+  }
+
+  const prefix = raw.match(
+    /^(narrated by|read by|translated by|edited by|illustrated by)\s+(.+)$/i,
+  );
+  if (prefix) {
+    return { name: prefix[2].trim(), role: toRole(prefix[1])! };
+  }
+
+  return { name: raw.trim(), role: defaultRole };
+}
+
+/**
+ * Narrator and translator credits from a store description, e.g.
+ * "Narrated by Jane Doe and John Roe" (iTunes puts these in the blurb)
+ */
+export function extractCreditsFromDescription(
+  description?: string | null,
+): ContributorCredit[] {
+  if (!description) return [];
+
+  const text = description.replace(/<[^>]+>/g, ' ');
+  const patterns: Array<[RegExp, ContributorRole]> = [
+    [/\b(?:narrated|read) by:?\s+([^.;\n<]+)/gi, 'narrator'],
+    [/\btranslated(?: from [A-Z][a-z]+)? by:?\s+([^.;\n<]+)/gi, 'translator'],
+  ];
+
+  return patterns.flatMap(([pattern, role]) =>
+    Array.from(text.matchAll(pattern)).flatMap(match =>
+      match[1]
+        .split(/,|&|\band\b/)
+        .map(name => name.trim())
+        .filter(name => /^[A-Z][\p{L}.'\- ]{1,60}$/u.test(name))
+        .map(name => ({ name, role })),
+    ),
+  );
+}
+
+/**
+ * Split a stored author string ("A, B" or "A & B") into author credits
+ */
+export function splitAuthorString(author?: string | null): ContributorCredit[] {
+  if (!author) return [];
+  return author
+    .split(/,|&|\band\b/)
+    .map(name => name.trim())
+    .filter(name => name.length > 0)
+    .map((name, index) => ({
+      name,
+      role: index === 0 ? 'author' : 'co-author',
+    }));
+}
+
+/**
+ * Role-tagged credits for a search result: its author list plus any
+ * structured contributors the provider supplied. The first author is the
+ * author and the others co-authors. Duplicates are dropped.
+ */
+export function getBookCredits(
+  book: Pick<UIBook, 'authors' | 'contributors'>,
+): ContributorCredit[] {
+  const seen = new Set<string>();
+  let authorCount = 0;
+
+  return [
+    ...(book.authors || []).map(name => parseContributorName(name)),
+    ...(book.contributors || []),
+  ]
+    .filter(credit => credit.name.trim().length > 0)
+    .filter(credit => {
+      const role = AUTHOR_ROLES.includes(credit.role) ? 'author' : credit.role;
+      const key = `${normalizeContributorName(credit.name)}:${role}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(credit =>
+      AUTHOR_ROLES.includes(credit.role)
+        ? { ...credit, role: authorCount++ === 0 ? 'author' : 'co-author' }
+        : credit,
+    );
+}
+
+/**
+ * Comma-joined author names, as stored in books.author
+ */
+export function toAuthorString(credits: ContributorCredit[]): string {
+  return credits
+    .filter(credit => AUTHOR_ROLES.includes(credit.role))
+    .map(credit => credit.name)
+    .join(', ');
+}
+
+const joinNames = (names: string[]) =>
+  names.length <= 1
+    ? names.join('')
+    : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+
+const ROLE_PHRASES: Partial<Record<ContributorRole, string>> = {
+  editor: 'edited by',
+  narrator: 'narrated by',
+  translator: 'translated by',
+  illustrator: 'illustrated by',
+};
+
+/**
+ * Display line, e.g. "Brad Feld and Jason Mendelson; translated by Ana Gómez"
+ */
+export function formatContributors(
+  credits: Array<Pick<BookContributor, 'name' | 'role'>>,
+): string {
+  const authors = credits
+    .filter(credit => AUTHOR_ROLES.includes(credit.role))
+    .map(credit => credit.name);
+
+  const others = (Object.keys(ROLE_PHRASES) as ContributorRole[])
+    .map(role => {
+      const names = credits
+        .filter(credit => credit.role === role)
+        .map(credit => credit.name);
+      return names.length > 0
+        ? `${ROLE_PHRASES[role]} ${joinNames(names)}`
+        : null;
+    })
+    .filter(Boolean);
+
+  return [joinNames(authors), ...others].filter(Boolean).join('; ');
+}
@@ -0,0 +1,99 @@
+/**
+ * Minimal RFC 4180 CSV helpers
+ * Handles quoted fields, escaped quotes, embedded newlines and CRLF line endings
+ */
+
+/**
+ * Parse CSV text into rows of string cells
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 BOM left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(cells => cells.some(cell => cell.trim().length > 0));
+}
+
+/**
+ * Parse CSV text into header-keyed records
+ */
+export function parseCsvRecords(text: string): {
+  headers: string[];
+  records: Record<string, string>[];
+} {
+  const [headerRow, ...dataRows] = parseCsv(text);
+  if (!headerRow) {
+    return { headers: [], records: [] };
+  }
+
+  const headers = headerRow.map(header => header.trim());
+  const records = dataRows.map(cells =>
+    Object.fromEntries(
+      headers.map((header, index) => [header, (cells[index] || '').trim()]),
+    ),
+  );
+
+  return { headers, records };
+}
+
+/**
+ * Serialize rows to CSV, quoting cells only when needed
+ */
+export function toCsv(
+  headers: string[],
+  rows: Array<Record<string, string | number | null | undefined>>,
+): string {
+  const escape = (value: string | number | null | undefined) => {
+    if (value === null || value === undefined) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [
+    headers.map(escape).join(','),
+    ...rows.map(row => headers.map(header => escape(row[header])).join(',')),
+  ].join('\r\n');
+}
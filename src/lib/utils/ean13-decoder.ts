@@ -0,0 +1,207 @@
+/**
+ * EAN-13 Decoder
+ * Reads the EAN-13 barcode printed on a book's back cover from raw pixels,
+ * for browsers without the BarcodeDetector API. Scans rows and columns of
+ * the image, in both directions, so upright, upside-down and sideways
+ * barcodes all decode. It takes canvas ImageData but touches no DOM APIs.
+ */
+
+export interface PixelImage {
+  data: Uint8ClampedArray; // RGBA, as in ImageData
+  width: number;
+  height: number;
+}
+
+interface Run {
+  dark: boolean;
+  width: number;
+}
+
+// Module widths of each digit's four runs, for the L code; R codes have the
+// same widths and G codes are L reversed
+const L_WIDTHS = [
+  [3, 2, 1, 1],
+  [2, 2, 2, 1],
+  [2, 1, 2, 2],
+  [1, 4, 1, 1],
+  [1, 1, 3, 2],
+  [1, 2, 3, 1],
+  [1, 1, 1, 4],
+  [1, 3, 1, 2],
+  [1, 2, 1, 3],
+  [3, 1, 1, 2],
+];
+const G_WIDTHS = L_WIDTHS.map(widths => [...widths].reverse());
+
+// The L/G pattern of the left half encodes the first digit
+const FIRST_DIGIT_PARITY = [
+  'LLLLLL',
+  'LLGLGG',
+  'LLGGLG',
+  'LLGGGL',
+  'LGLLGG',
+  'LGGLLG',
+  'LGGGLG',
+  'LGLGLG',
+  'LGLGGL',
+  'LGGLGL',
+];
+
+// Runs from the first bar of the start guard to the last of the end guard
+const BARCODE_RUNS = 3 + 6 * 4 + 5 + 6 * 4 + 3;
+const MAX_DIGIT_ERROR = 1.6; // Summed module-width error allowed per digit
+const SCANLINES = 24; // Per direction
+
+function toRuns(line: number[]): Run[] {
+  const min = Math.min(...line);
+  const max = Math.max(...line);
+  // Too little contrast to hold a barcode
+  if (max - min < 48) return [];
+
+  const threshold = (min + max) / 2;
+  const runs: Run[] = [];
+  line.forEach(value => {
+    const dark = value < threshold;
+    const last = runs[runs.length - 1];
+    if (last && last.dark === dark) {
+      last.width++;
+    } else {
+      runs.push({ dark, width: 1 });
+    }
+  });
+  return runs;
+}
+
+function matchDigit(
+  runs: Run[],
+  patterns: number[][],
+): { digit: number; error: number } | null {
+  const total = runs.reduce((sum, run) => sum + run.width, 0);
+  let best: { digit: number; error: number } | null = null;
+
+  for (let digit = 0; digit < patterns.length; digit++) {
+    const error = runs.reduce(
+      (sum, run, index) =>
+        sum + Math.abs((run.width * 7) / total - patterns[digit][index]),
+      0,
+    );
+    if (!best || error < best.error) best = { digit, error };
+  }
+
+  return best && best.error <= MAX_DIGIT_ERROR ? best : null;
+}
+
+function isGuard(runs: Run[], moduleWidth: number): boolean {
+  return runs.every(
+    run => run.width > moduleWidth * 0.4 && run.width < moduleWidth * 2,
+  );
+}
+
+function isValidEan13(code: string): boolean {
+  if (!/^\d{13}$/.test(code)) return false;
+  const sum = code
+    .slice(0, 12)
+    .split('')
+    .reduce(
+      (total, digit, index) => total + Number(digit) * (index % 2 ? 3 : 1),
+      0,
+    );
+  return (10 - (sum % 10)) % 10 === Number(code[12]);
+}
+
+// Try to read a barcode starting at runs[start], which must be a bar
+function decodeAt(runs: Run[], start: number): string | null {
+  const startGuard = runs.slice(start, start + 3);
+  const moduleWidth = startGuard.reduce((sum, run) => sum + run.width, 0) / 3;
+  if (!isGuard(startGuard, moduleWidth)) return null;
+
+  // A barcode needs a quiet zone in front of it
+  const quietZone = runs[start - 1];
+  if (quietZone && quietZone.width < moduleWidth * 3) return null;
+
+  let index = start + 3;
+  let parity = '';
+  const digits: number[] = [];
+
+  for (let i = 0; i < 6; i++) {
+    const digitRuns = runs.slice(index, index + 4);
+    const l = matchDigit(digitRuns, L_WIDTHS);
+    const g = matchDigit(digitRuns, G_WIDTHS);
+    const useG = g && (!l || g.error < l.error);
+    const match = useG ? g : l;
+    if (!match) return null;
+    digits.push(match.digit);
+    parity += useG ? 'G' : 'L';
+    index += 4;
+  }
+
+  if (!isGuard(runs.slice(index, index + 5), moduleWidth)) return null;
+  index += 5;
+
+  for (let i = 0; i < 6; i++) {
+    const match = matchDigit(runs.slice(index, index + 4), L_WIDTHS);
+    if (!match) return null;
+    digits.push(match.digit);
+    index += 4;
+  }
+
+  if (!isGuard(runs.slice(index, index + 3), moduleWidth)) return null;
+
+  const firstDigit = FIRST_DIGIT_PARITY.indexOf(parity);
+  if (firstDigit < 0) return null;
+
+  const code = `${firstDigit}${digits.join('')}`;
+  return isValidEan13(code) ? code : null;
+}
+
+function decodeLine(line: number[]): string | null {
+  for (const values of [line, [...line].reverse()]) {
+    const runs = toRuns(values);
+    for (let start = 0; start + BARCODE_RUNS <= runs.length; start++) {
+      if (!runs[start].dark) continue;
+      const code = decodeAt(runs, start);
+      if (code) return code;
+    }
+  }
+  return null;
+}
+
+function luminance(image: PixelImage, x: number, y: number): number {
+  const offset = (y * image.width + x) * 4;
+  const { data } = image;
+  return (
+    data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114
+  );
+}
+
+/**
+ * Decode the EAN-13 barcode in an image, or null if none could be read.
+ * When scanlines disagree the code read most often wins.
+ */
+export function decodeEan13(image: PixelImage): string | null {
+  const { width, height } = image;
+  const reads = new Map<string, number>();
+
+  const record = (line: number[]) => {
+    const code = decodeLine(line);
+    if (code) reads.set(code, (reads.get(code) || 0) + 1);
+  };
+
+  for (let i = 1; i <= SCANLINES; i++) {
+    const y = Math.floor((height * i) / (SCANLINES + 1));
+    record(Array.from({ length: width }, (_, x) => luminance(image, x, y)));
+  }
+  // Sideways barcodes, e.g. a portrait photo of a landscape cover
+  if (reads.size === 0) {
+    for (let i = 1; i <= SCANLINES; i++) {
+      const x = Math.floor((width * i) / (SCANLINES + 1));
+      record(Array.from({ length: height }, (_, y) => luminance(image, x, y)));
+    }
+  }
+
+  let best: string | null = null;
+  for (const [code, count] of reads) {
+    if (!best || count > reads.get(best)!) best = code;
+  }
+  return best;
+}
@@ -0,0 +1,87 @@
+import {
+  EditionCorrectionPair,
+  EditionRelation,
+} from '@/lib/types/edition-correction';
+import { UIBook } from '@/lib/types/ui-book';
+import { normalizeIsbn } from '@/lib/utils/isbn';
+
+/**
+ * Every pair between two ISBN lists, labelled with the same relation
+ */
+export function toCorrectionPairs(
+  isbns: (string | null | undefined)[],
+  otherIsbns: (string | null | undefined)[],
+  relation: EditionRelation,
+): EditionCorrectionPair[] {
+  const normalize = (list: (string | null | undefined)[]) =>
+    Array.from(
+      new Set(list.map(normalizeIsbn).filter((isbn): isbn is string => !!isbn)),
+    );
+  const others = normalize(otherIsbns);
+
+  return normalize(isbns).flatMap(isbn =>
+    others
+      .filter(other => other !== isbn)
+      .map(other => {
+        const [isbn_a, isbn_b] = [isbn, other].sort();
+        return { isbn_a, isbn_b, relation };
+      }),
+  );
+}
+
+/**
+ * In-memory view of the edition corrections that apply to a set of books.
+ * Safe to use on both client and server - it holds no database handles.
+ */
+export class EditionCorrectionRegistry {
+  private relations = new Map<string, EditionRelation>();
+
+  constructor(corrections: EditionCorrectionPair[]) {
+    for (const correction of corrections) {
+      const a = normalizeIsbn(correction.isbn_a);
+      const b = normalizeIsbn(correction.isbn_b);
+      if (!a || !b || a === b) continue;
+      this.relations.set(this.key(a, b), correction.relation);
+    }
+  }
+
+  static empty(): EditionCorrectionRegistry {
+    return new EditionCorrectionRegistry([]);
+  }
+
+  get size(): number {
+    return this.relations.size;
+  }
+
+  /**
+   * The confirmed relation between two books, or null if nobody has said
+   */
+  relationBetween(
+    book: Pick<UIBook, 'isbn' | 'isbn13'>,
+    otherBook: Pick<UIBook, 'isbn' | 'isbn13'>,
+  ): EditionRelation | null {
+    const otherIsbns = this.getIsbns(otherBook);
+    for (const isbn of this.getIsbns(book)) {
+      for (const otherIsbn of otherIsbns) {
+        if (isbn === otherIsbn) continue;
+        const relation = this.relations.get(this.key(isbn, otherIsbn));
+        if (relation) return relation;
+      }
+    }
+    return null;
+  }
+
+  private getIsbns(book: Pick<UIBook, 'isbn' | 'isbn13'>): string[] {
+    return Array.from(
+      new Set(
+        [book.isbn13, book.isbn]
+          .map(normalizeIsbn)
+          .filter((isbn): isbn is string => !!isbn),
+      ),
+    );
+  }
+
+  private key(isbn: string, otherIsbn: string): string {
+    return [isbn, otherIsbn].sort().join('|');
+  }
+}
@@ -0,0 +1,79 @@
+import { UIBook } from '@/lib/types/ui-book';
+
+export interface EditionGroupingScore {
+  precision: number;
+  recall: number;
+  missing: string[]; // Expected books that ended up in no group
+  unwanted: string[]; // Excluded books that ended up in a group
+}
+
+/**
+ * The key a book is known by in expected groupings: its ISBN, or its
+ * provider id for ISBN-less results such as iTunes audiobooks
+ */
+export function getGroupingKey(book: UIBook): string {
+  return book.isbn13 || book.isbn || book.id;
+}
+
+/**
+ * Score a predicted grouping against the expected one with B-cubed
+ * precision and recall. Each book scores the share of its predicted group
+ * that belongs to its expected group (precision) and the share of its
+ * expected group that it was grouped with (recall). A missing book has zero
+ * recall; an excluded book that shows up has zero precision and dilutes the
+ * group it lands in. Books in neither list are not judged.
+ */
+export function scoreEditionGrouping(
+  predicted: string[][],
+  expected: string[][],
+  excluded: string[] = [],
+): EditionGroupingScore {
+  const expectedGroup = new Map<string, number>();
+  expected.forEach((keys, index) =>
+    keys.forEach(key => expectedGroup.set(key, index)),
+  );
+  const excludedKeys = new Set(excluded);
+  const isJudged = (key: string) =>
+    expectedGroup.has(key) || excludedKeys.has(key);
+
+  // A book listed in two predicted groups counts in the first one only
+  const predictedGroup = new Map<string, string[]>();
+  predicted
+    .map(keys => Array.from(new Set(keys.filter(isJudged))))
+    .forEach(keys =>
+      keys.forEach(key => {
+        if (!predictedGroup.has(key)) predictedGroup.set(key, keys);
+      }),
+    );
+
+  const matches = (key: string, group: string[]) =>
+    group.filter(
+      other =>
+        expectedGroup.has(other) &&
+        expectedGroup.get(other) === expectedGroup.get(key),
+    ).length;
+
+  const precisions = Array.from(predictedGroup, ([key, group]) =>
+    excludedKeys.has(key) ? 0 : matches(key, group) / group.length,
+  );
+  const recalls = Array.from(expectedGroup.keys()).map(key => {
+    const group = predictedGroup.get(key);
+    return group
+      ? matches(key, group) / expected[expectedGroup.get(key)!].length
+      : 0;
+  });
+
+  const average = (values: number[]) =>
+    values.length === 0
+      ? 1
+      : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  return {
+    precision: average(precisions),
+    recall: average(recalls),
+    missing: Array.from(expectedGroup.keys()).filter(
+      key => !predictedGroup.has(key),
+    ),
+    unwanted: excluded.filter(key => predictedGroup.has(key)),
+  };
+}
@@ -0,0 +1,107 @@
+import {
+  EditionBookTrace,
+  EditionGroupingTrace,
+  EditionTraceEvent,
+  EditionTraceStage,
+} from '@/lib/types/edition-trace';
+import { UIBook } from '@/lib/types/ui-book';
+
+/**
+ * Collects the decisions edition detection makes about each book.
+ * Books are tracked by id, which survives normalization and consolidation.
+ */
+export class EditionGroupingTracer {
+  private traces = new Map<string, EditionBookTrace>();
+
+  constructor(books: UIBook[]) {
+    books.forEach(book => {
+      if (this.traces.has(book.id)) return;
+      this.traces.set(book.id, {
+        book_id: book.id,
+        isbn: book.isbn13 || book.isbn,
+        title: book.title,
+        binding: book.binding || book.print_type,
+        source: book.source,
+        outcome: 'grouped',
+        events: [],
+      });
+    });
+  }
+
+  note(
+    book: UIBook,
+    stage: EditionTraceStage,
+    rule: string,
+    detail: string,
+    scores?: EditionTraceEvent['scores'],
+  ): void {
+    this.traces
+      .get(book.id)
+      ?.events.push({ stage, rule, detail, ...(scores && { scores }) });
+  }
+
+  drop(
+    book: UIBook,
+    stage: EditionTraceStage,
+    rule: string,
+    detail: string,
+  ): void {
+    const trace = this.traces.get(book.id);
+    if (!trace) return;
+    trace.outcome = 'dropped';
+    trace.events.push({ stage, rule, detail });
+  }
+
+  consolidate(book: UIBook, into: UIBook, rule: string, detail: string): void {
+    const trace = this.traces.get(book.id);
+    if (!trace || book.id === into.id) return;
+    trace.outcome = 'consolidated';
+    trace.consolidated_into = into.id;
+    trace.events.push({ stage: 'consolidation', rule, detail });
+  }
+
+  /**
+   * Settle each book's outcome against the final groups. Anything that is
+   * neither in a group nor already accounted for fell through every rule.
+   */
+  finish(
+    groups: { edition_number: number; books: UIBook[] }[],
+  ): EditionGroupingTrace {
+    const placed = new Map<string, number>();
+    groups.forEach(group =>
+      group.books.forEach(book => placed.set(book.id, group.edition_number)),
+    );
+
+    const books = Array.from(this.traces.values()).map(trace => {
+      const editionNumber = placed.get(trace.book_id);
+      if (editionNumber !== undefined) {
+        return {
+          ...trace,
+          outcome: 'grouped' as const,
+          edition_number: editionNumber,
+        };
+      }
+      if (trace.outcome === 'grouped') {
+        return {
+          ...trace,
+          outcome: 'dropped' as const,
+          events: [
+            ...trace.events,
+            {
+              stage: 'edition' as const,
+              rule: 'unmapped',
+              detail: 'No edition rule matched, so it was left out',
+            },
+          ],
+        };
+      }
+      return trace;
+    });
+
+    return {
+      input_count: books.length,
+      group_count: groups.length,
+      books,
+    };
+  }
+}
@@ -0,0 +1,276 @@
+import {
+  ISBN_GROUP_RANGES,
+  ISBN_REGISTRATION_GROUPS,
+  IsbnRange,
+} from '@/lib/constants/isbn-ranges';
+
+export interface ParsedIsbn {
+  isbn13: string;
+  isbn10?: string; // Only 978 ISBNs have an ISBN-10 form
+  prefix: string; // EAN prefix, 978 or 979
+  group?: string;
+  registrant?: string;
+  publication?: string;
+  checkDigit: string;
+  hyphenated?: string; // ISBN-13 with hyphens, when the ranges are known
+  publisherPrefix?: string; // e.g. 978-0-306, shared by one publisher's books
+  agency?: string; // Country, region or language area of the group
+  language?: string;
+}
+
+export interface IsbnCorrection {
+  isbn: string;
+  reason: 'transposition' | 'check-digit' | 'substitution';
+  position: number; // Index of the (first) changed character
+}
+
+/**
+ * Strip an ISBN down to its digits and check character, dropping hyphens,
+ * spaces and an "ISBN" label
+ */
+export function cleanIsbn(value?: string | null): string {
+  return (value || '')
+    .toUpperCase()
+    .replace(/^\s*ISBN(?:-1[03])?:?/, '')
+    .replace(/[^0-9X]/g, '');
+}
+
+function isbn10CheckDigit(body: string): string {
+  const sum = body
+    .split('')
+    .reduce((total, digit, index) => total + Number(digit) * (10 - index), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? 'X' : check.toString();
+}
+
+function isbn13CheckDigit(body: string): string {
+  const sum = body
+    .split('')
+    .reduce(
+      (total, digit, index) => total + Number(digit) * (index % 2 ? 3 : 1),
+      0,
+    );
+  return ((10 - (sum % 10)) % 10).toString();
+}
+
+export function isValidISBN10(value: string): boolean {
+  const isbn = cleanIsbn(value);
+  return (
+    /^\d{9}[\dX]$/.test(isbn) && isbn10CheckDigit(isbn.slice(0, 9)) === isbn[9]
+  );
+}
+
+export function isValidISBN13(value: string): boolean {
+  const isbn = cleanIsbn(value);
+  return (
+    /^97[89]\d{10}$/.test(isbn) &&
+    isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12]
+  );
+}
+
+export function isValidISBN(value: string): boolean {
+  return isValidISBN13(value) || isValidISBN10(value);
+}
+
+/**
+ * Convert an ISBN-10 to ISBN-13: add the 978 prefix and recalculate the
+ * check digit. Returns null for anything that is not a valid ISBN-10.
+ */
+export function convertISBN10to13(value: string): string | null {
+  if (!isValidISBN10(value)) return null;
+  const body = `978${cleanIsbn(value).slice(0, 9)}`;
+  return body + isbn13CheckDigit(body);
+}
+
+/**
+ * Convert an ISBN-13 back to ISBN-10. Only 978 ISBNs have one.
+ */
+export function convertISBN13to10(value: string): string | null {
+  const isbn = cleanIsbn(value);
+  if (!isValidISBN13(isbn) || !isbn.startsWith('978')) return null;
+  const body = isbn.slice(3, 12);
+  return body + isbn10CheckDigit(body);
+}
+
+/**
+ * The ISBN-13 for any valid ISBN-10 or ISBN-13, or null
+ */
+export function toISBN13(value?: string | null): string | null {
+  const isbn = cleanIsbn(value);
+  if (isValidISBN13(isbn)) return isbn;
+  return convertISBN10to13(isbn);
+}
+
+/**
+ * The one form an ISBN is stored and compared in: ISBN-13 digits when the
+ * ISBN is valid, otherwise its cleaned characters so a malformed value
+ * still matches itself.
+ */
+export function normalizeIsbn(value?: string | null): string {
+  return toISBN13(value) || cleanIsbn(value);
+}
+
+function findRangeLength(
+  ranges: IsbnRange[] | undefined,
+  digits: string,
+): number | undefined {
+  const key = digits.slice(0, 7).padEnd(7, '0');
+  return ranges?.find(([from, to]) => key >= from && key <= to)?.[2];
+}
+
+/**
+ * Split a valid ISBN into its elements using the ISBN range table, and
+ * look up which country or language area its registration group serves
+ */
+export function parseIsbn(value?: string | null): ParsedIsbn | null {
+  const isbn13 = toISBN13(value);
+  if (!isbn13) return null;
+
+  const prefix = isbn13.slice(0, 3);
+  const checkDigit = isbn13[12];
+  const parsed: ParsedIsbn = {
+    isbn13,
+    isbn10: convertISBN13to10(isbn13) || undefined,
+    prefix,
+    checkDigit,
+  };
+
+  const afterPrefix = isbn13.slice(3, 12);
+  const groupLength = findRangeLength(ISBN_GROUP_RANGES[prefix], afterPrefix);
+  if (!groupLength) return parsed;
+
+  const group = afterPrefix.slice(0, groupLength);
+  const registration = ISBN_REGISTRATION_GROUPS[`${prefix}-${group}`];
+  parsed.group = group;
+  parsed.agency = registration?.agency;
+  parsed.language = registration?.language;
+
+  const afterGroup = afterPrefix.slice(groupLength);
+  const registrantLength = findRangeLength(
+    registration?.registrants,
+    afterGroup,
+  );
+  // A registrant must leave at least one digit for the publication
+  if (!registrantLength || registrantLength >= afterGroup.length) {
+    return parsed;
+  }
+
+  parsed.registrant = afterGroup.slice(0, registrantLength);
+  parsed.publication = afterGroup.slice(registrantLength);
+  parsed.publisherPrefix = [prefix, group, parsed.registrant].join('-');
+  parsed.hyphenated = [
+    parsed.publisherPrefix,
+    parsed.publication,
+    checkDigit,
+  ].join('-');
+  return parsed;
+}
+
+/**
+ * Hyphenate an ISBN in the form it was given (ISBN-10 stays ISBN-10).
+ * Returns null when the ISBN is invalid or its range is not in the table.
+ */
+export function hyphenateIsbn(value?: string | null): string | null {
+  const parsed = parseIsbn(value);
+  if (!parsed?.hyphenated) return null;
+  if (cleanIsbn(value).length === 13) return parsed.hyphenated;
+
+  const { group, registrant, publication, isbn10 } = parsed;
+  return [group, registrant, publication, isbn10!.slice(-1)].join('-');
+}
+
+/**
+ * The ISBN-13 prefix that identifies a publisher, e.g. 978-0-306
+ */
+export function getPublisherPrefix(value?: string | null): string | null {
+  return parseIsbn(value)?.publisherPrefix || null;
+}
+
+function isValidCandidate(candidate: string): boolean {
+  return candidate.length === 13
+    ? isValidISBN13(candidate)
+    : isValidISBN10(candidate);
+}
+
+/**
+ * Suggest the ISBNs a mistyped one was probably meant to be: two swapped
+ * neighbouring digits or one wrong digit. Transpositions come first since
+ * they change the least, then a wrong check digit, then other single-digit
+ * slips; within each, ISBNs whose publisher range is known rank higher.
+ * A valid or wrongly sized ISBN gets no suggestions.
+ */
+export function suggestIsbnCorrections(
+  value?: string | null,
+): IsbnCorrection[] {
+  const isbn = cleanIsbn(value);
+  if (![10, 13].includes(isbn.length) || isValidCandidate(isbn)) return [];
+  // X is only ever the last character of an ISBN-10
+  if (
+    isbn.slice(0, -1).includes('X') ||
+    (isbn.length === 13 && isbn[12] === 'X')
+  ) {
+    return [];
+  }
+
+  const corrections: IsbnCorrection[] = [];
+  const checkIndex = isbn.length - 1;
+
+  for (let index = 0; index < checkIndex; index++) {
+    if (isbn[index] === isbn[index + 1]) continue;
+    const candidate =
+      isbn.slice(0, index) +
+      isbn[index + 1] +
+      isbn[index] +
+      isbn.slice(index + 2);
+    if (isValidCandidate(candidate)) {
+      corrections.push({
+        isbn: candidate,
+        reason: 'transposition',
+        position: index,
+      });
+    }
+  }
+
+  const body = isbn.slice(0, checkIndex);
+  const recalculated =
+    body +
+    (isbn.length === 13 ? isbn13CheckDigit(body) : isbn10CheckDigit(body));
+  if (isValidCandidate(recalculated)) {
+    corrections.push({
+      isbn: recalculated,
+      reason: 'check-digit',
+      position: checkIndex,
+    });
+  }
+
+  for (let index = 0; index < checkIndex; index++) {
+    for (const digit of '0123456789') {
+      if (digit === isbn[index]) continue;
+      const candidate = isbn.slice(0, index) + digit + isbn.slice(index + 1);
+      if (isValidCandidate(candidate)) {
+        corrections.push({
+          isbn: candidate,
+          reason: 'substitution',
+          position: index,
+        });
+      }
+    }
+  }
+
+  const seen = new Set<string>();
+  const reasonRank = { transposition: 0, 'check-digit': 1, substitution: 2 };
+  const knownRange = (candidate: string) =>
+    parseIsbn(candidate)?.hyphenated ? 0 : 1;
+
+  return corrections
+    .filter(correction => {
+      if (seen.has(correction.isbn)) return false;
+      seen.add(correction.isbn);
+      return true;
+    })
+    .sort(
+      (a, b) =>
+        reasonRank[a.reason] - reasonRank[b.reason] ||
+        knownRange(a.isbn) - knownRange(b.isbn),
+    );
+}
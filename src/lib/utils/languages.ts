@@ -0,0 +1,154 @@
+import { BookEdition } from '@/lib/types/book';
+import { BookTranslation, LanguageSummary } from '@/lib/types/translation';
+
+import { fromOnixLanguageCode } from './onix-codes';
+
+/**
+ * Language Utilities
+ * Normalize provider language values and summarize a book's languages
+ */
+
+// Assumed for editions and results that don't give a language
+export const DEFAULT_LANGUAGE = 'en';
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  english: 'en',
+  german: 'de',
+  french: 'fr',
+  spanish: 'es',
+  italian: 'it',
+  portuguese: 'pt',
+  japanese: 'ja',
+  chinese: 'zh',
+  korean: 'ko',
+  russian: 'ru',
+};
+
+/**
+ * ISO 639-1 code for values like "en", "en-US", "ger" or "German"
+ */
+export function normalizeLanguageCode(language?: string | null): string | null {
+  if (!language) return null;
+  const value = language.toLowerCase().trim();
+  if (!value) return null;
+
+  const base = value.split(/[-_]/)[0];
+  if (base.length === 2) return base;
+  if (base.length === 3) return fromOnixLanguageCode(base);
+  return LANGUAGE_NAMES[value] || null;
+}
+
+/**
+ * Whether a result is in the original language. Missing or unknown
+ * languages count as original so they are never split off.
+ */
+export function isOriginalLanguage(
+  language?: string | null,
+  originalLanguage: string = DEFAULT_LANGUAGE,
+): boolean {
+  const code = normalizeLanguageCode(language);
+  return !code || code === originalLanguage;
+}
+
+/**
+ * The language a book was written in: that of its earliest edition not
+ * marked as a translation, or of its earliest edition if all are.
+ * DEFAULT_LANGUAGE when no edition has a language.
+ */
+export function getOriginalLanguage(
+  editions: Pick<
+    BookEdition,
+    'language' | 'is_translation' | 'publication_year' | 'edition_number'
+  >[],
+): string {
+  const candidates = editions
+    .filter(edition => normalizeLanguageCode(edition.language))
+    .sort(
+      (a, b) =>
+        Number(!!a.is_translation) - Number(!!b.is_translation) ||
+        (a.publication_year ?? Infinity) - (b.publication_year ?? Infinity) ||
+        a.edition_number - b.edition_number,
+    );
+
+  return normalizeLanguageCode(candidates[0]?.language) || DEFAULT_LANGUAGE;
+}
+
+/**
+ * Display name for a language code, e.g. "de" → "German"
+ */
+export function getLanguageName(language?: string | null): string {
+  const code = normalizeLanguageCode(language);
+  if (!code) return language || 'Unknown';
+
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) || code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * Editions and bindings per language, original first
+ */
+export function summarizeLanguages(editions: BookEdition[]): LanguageSummary[] {
+  const summaries = new Map<string, LanguageSummary>();
+
+  editions.forEach(edition => {
+    const language = edition.language || DEFAULT_LANGUAGE;
+    const summary = summaries.get(language) || {
+      language,
+      is_translation: !!edition.is_translation,
+      editions: 0,
+      bindings: 0,
+    };
+    summary.editions += 1;
+    summary.bindings += edition.bindings?.length || 0;
+    summaries.set(language, summary);
+  });
+
+  return Array.from(summaries.values()).sort(
+    (a, b) =>
+      Number(a.is_translation) - Number(b.is_translation) ||
+      getLanguageName(a.language).localeCompare(getLanguageName(b.language)),
+  );
+}
+
+/**
+ * A book's translated editions with their translators and ISBNs, grouped
+ * by language
+ */
+export function getBookTranslations(
+  editions: BookEdition[],
+): BookTranslation[] {
+  return editions
+    .filter(edition => edition.is_translation)
+    .map(edition => ({
+      edition_id: edition.id,
+      edition_number: edition.edition_number,
+      publication_year: edition.publication_year,
+      language: edition.language || DEFAULT_LANGUAGE,
+      translated_title: edition.translated_title,
+      territory: edition.territory,
+      translators: Array.from(
+        new Set(
+          edition.bindings.flatMap(binding =>
+            (binding.contributors || [])
+              .filter(credit => credit.role === 'translator')
+              .map(credit => credit.name),
+          ),
+        ),
+      ),
+      isbns: edition.bindings
+        .map(binding => binding.isbn)
+        .filter((isbn): isbn is string => !!isbn),
+      binding_types: Array.from(
+        new Set(edition.bindings.map(binding => binding.binding_type)),
+      ),
+    }))
+    .sort(
+      (a, b) =>
+        getLanguageName(a.language).localeCompare(
+          getLanguageName(b.language),
+        ) || a.edition_number - b.edition_number,
+    );
+}
@@ -0,0 +1,36 @@
+import { BookEdition } from '@/lib/types/book';
+import { LibraryOperationType } from '@/lib/types/library-operation';
+
+import { getLanguageName } from './languages';
+
+/**
+ * Library Operation Utilities
+ * Labels for the move/merge/split actions and the editions they target
+ */
+
+export const LIBRARY_OPERATION_LABELS: Record<LibraryOperationType, string> = {
+  library_move_binding: 'Moved format',
+  library_merge_editions: 'Merged editions',
+  library_merge_books: 'Merged books',
+  library_split_edition: 'Split edition',
+  library_undo: 'Undo',
+};
+
+const ordinal = (num: number): string => {
+  const suffix = ['th', 'st', 'nd', 'rd'];
+  const v = num % 100;
+  return num + (suffix[(v - 20) % 10] || suffix[v] || suffix[0]);
+};
+
+/**
+ * "2nd Edition (2019)", with the language for translations
+ */
+export function formatEditionLabel(edition: BookEdition): string {
+  return [
+    `${ordinal(edition.edition_number)} Edition`,
+    edition.publication_year && `(${edition.publication_year})`,
+    edition.is_translation && `· ${getLanguageName(edition.language)}`,
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
@@ -0,0 +1,195 @@
+import { BookBinding, BookBindingInsert } from '@/lib/types/book';
+import {
+  BookProvenance,
+  CONFLICT_FIELDS,
+  ConflictField,
+  FieldCandidate,
+  MetadataConflicts,
+  MetadataOverrides,
+} from '@/lib/types/provenance';
+import { UIBook } from '@/lib/types/ui-book';
+
+import { getFieldProvenance, getProvenanceValue, hasValue } from './provenance';
+
+/**
+ * Metadata Conflict Utilities
+ * Keeps every value providers offered for a field, and applies refreshed
+ * data to saved bindings without touching user-chosen values
+ */
+
+// Binding column that stores each conflict field
+export const CONFLICT_COLUMNS = {
+  publisher: 'publisher',
+  pages: 'pages',
+  cover: 'cover_image_url',
+  description: 'description',
+  language: 'language',
+  price: 'price',
+} as const satisfies Record<ConflictField, keyof BookBindingInsert>;
+
+// Numeric fields compare by value so "19.99" and 19.99 are one candidate
+const normalizeCandidate = (field: ConflictField, value: string | number) =>
+  field === 'pages' || field === 'price'
+    ? String(Number(value))
+    : String(value).trim().toLowerCase();
+
+/**
+ * Union of candidate lists, keeping the first occurrence of each value
+ */
+export function mergeConflicts(
+  ...sources: Array<MetadataConflicts | null | undefined>
+): MetadataConflicts {
+  const conflicts: MetadataConflicts = {};
+
+  CONFLICT_FIELDS.forEach(field => {
+    const candidates = new Map<string, FieldCandidate>();
+    sources.forEach(source =>
+      source?.[field]?.forEach(candidate => {
+        const key = normalizeCandidate(field, candidate.value);
+        if (!candidates.has(key)) {
+          candidates.set(key, candidate);
+        }
+      }),
+    );
+
+    if (candidates.size > 1) {
+      conflicts[field] = Array.from(candidates.values());
+    }
+  });
+
+  return conflicts;
+}
+
+/**
+ * Every distinct value the merged books offered for each conflict field.
+ * Books that were themselves merged contribute all of their candidates.
+ */
+export function collectConflicts(books: UIBook[]): MetadataConflicts {
+  return mergeConflicts(
+    ...books.map(book => ({
+      ...toCandidates(book),
+      ...book.conflicts,
+    })),
+  );
+}
+
+/**
+ * Convert a candidate value to what the binding column stores
+ */
+export function toBindingValue(
+  field: ConflictField,
+  value: string | number,
+): string | number {
+  if (field === 'pages') return parseInt(value.toString(), 10);
+  if (field === 'price') return parseFloat(value.toString());
+  return value.toString();
+}
+
+/**
+ * Changes to bring a saved binding up to date with freshly fetched data.
+ * Fields the user chose (overrides) or edited by hand are never changed;
+ * newly seen values still show up as conflict candidates. Returns null
+ * when nothing changed.
+ */
+export function getRefreshUpdate(
+  existing: BookBinding,
+  incoming: BookBindingInsert,
+): Partial<BookBindingInsert> | null {
+  const update: Partial<BookBindingInsert> = {};
+  const provenance: BookProvenance = { ...existing.provenance };
+  const existingCandidates: MetadataConflicts = {};
+  const incomingCandidates: MetadataConflicts = {};
+  let changed = false;
+
+  CONFLICT_FIELDS.forEach(field => {
+    const column = CONFLICT_COLUMNS[field];
+    const current = existing[column];
+    const fresh = incoming[column];
+    // Only values a source actually supplied (not defaults like 'en')
+    const freshProvenance = incoming.provenance?.[field];
+    if (!hasValue(fresh) || !freshProvenance || fresh === current) return;
+
+    if (hasValue(current)) {
+      existingCandidates[field] = [
+        {
+          value: current!,
+          ...(existing.provenance?.[field] || {
+            source: 'unknown',
+            fetched_at: existing.created_at,
+          }),
+        },
+      ];
+      incomingCandidates[field] = [{ value: fresh!, ...freshProvenance }];
+    }
+
+    const locked =
+      !!existing.user_overrides?.[field] ||
+      existing.provenance?.[field]?.source === 'manual';
+    if (!locked) {
+      (update as Record<string, unknown>)[column] = fresh;
+      provenance[field] = freshProvenance;
+      changed = true;
+    }
+  });
+
+  const metadataConflicts = mergeConflicts(
+    existing.metadata_conflicts,
+    incoming.metadata_conflicts,
+    existingCandidates,
+    incomingCandidates,
+  );
+  if (
+    JSON.stringify(metadataConflicts) !==
+    JSON.stringify(existing.metadata_conflicts || {})
+  ) {
+    changed = true;
+  }
+
+  return changed
+    ? { ...update, provenance, metadata_conflicts: metadataConflicts }
+    : null;
+}
+
+/**
+ * Overrides that still match the binding after a manual edit. Editing a
+ * field by hand replaces the earlier choice (the edit itself is protected).
+ */
+export function keepMatchingOverrides(
+  overrides: MetadataOverrides | null | undefined,
+  changes: Partial<BookBindingInsert>,
+): MetadataOverrides {
+  return Object.fromEntries(
+    Object.entries(overrides || {}).filter(([field, override]) => {
+      const column = CONFLICT_COLUMNS[field as ConflictField];
+      return (
+        !(column in changes) ||
+        changes[column] ===
+          toBindingValue(field as ConflictField, override.value)
+      );
+    }),
+  );
+}
+
+function toCandidates(book: UIBook): MetadataConflicts {
+  const candidates: MetadataConflicts = {};
+
+  CONFLICT_FIELDS.forEach(field => {
+    const value = getProvenanceValue(book, field);
+    if (
+      hasValue(value) &&
+      (typeof value === 'string' || typeof value === 'number')
+    ) {
+      candidates[field] = [
+        {
+          value,
+          ...(getFieldProvenance(book, field) || {
+            source: 'unknown',
+            fetched_at: new Date().toISOString(),
+          }),
+        },
+      ];
+    }
+  });
+
+  return candidates;
+}
@@ -0,0 +1,176 @@
+/**
+ * ONIX 3.0 code list helpers
+ * Maps our binding types and language codes to EDItEUR code lists and back
+ */
+
+import { ContributorRole } from '@/lib/types/contributor';
+
+export const ONIX_NAMESPACE = 'http://ns.editeur.org/onix/3.0/reference';
+
+// List 5 - Product identifier type
+export const ONIX_PRODUCT_ID_TYPES = {
+  ISBN_10: '02',
+  GTIN_13: '03',
+  ISBN_13: '15',
+} as const;
+
+// List 17 - Contributor role
+export const ONIX_CONTRIBUTOR_ROLES = {
+  AUTHOR: 'A01',
+  NARRATOR: 'E07',
+  EDITOR: 'B01',
+  TRANSLATOR: 'B06',
+  ILLUSTRATOR: 'A12',
+} as const;
+
+const CONTRIBUTOR_ROLE_TO_ONIX: Record<ContributorRole, string> = {
+  author: ONIX_CONTRIBUTOR_ROLES.AUTHOR,
+  'co-author': ONIX_CONTRIBUTOR_ROLES.AUTHOR,
+  editor: ONIX_CONTRIBUTOR_ROLES.EDITOR,
+  narrator: ONIX_CONTRIBUTOR_ROLES.NARRATOR,
+  translator: ONIX_CONTRIBUTOR_ROLES.TRANSLATOR,
+  illustrator: ONIX_CONTRIBUTOR_ROLES.ILLUSTRATOR,
+};
+
+const ONIX_TO_CONTRIBUTOR_ROLE: Record<string, ContributorRole> = {
+  A01: 'author',
+  A02: 'co-author', // "With"
+  B01: 'editor',
+  E07: 'narrator',
+  B06: 'translator',
+  A12: 'illustrator',
+};
+
+interface OnixProductForm {
+  productForm: string; // List 150
+  productFormDetail?: string; // List 175
+}
+
+// Binding type (as produced by EditionDetectionService.normalizeBindingType) → List 150/175
+const BINDING_TO_PRODUCT_FORM: Record<string, OnixProductForm> = {
+  hardcover: { productForm: 'BB' },
+  paperback: { productForm: 'BC' },
+  mass_market: { productForm: 'BC', productFormDetail: 'B101' }, // Rack paperback
+  'board book': { productForm: 'BH' },
+  board_book: { productForm: 'BH' },
+  'spiral bound': { productForm: 'BE' },
+  spiral_bound: { productForm: 'BE' },
+  leather_bound: { productForm: 'BG' },
+  ebook: { productForm: 'ED', productFormDetail: 'E101' },
+  kindle: { productForm: 'ED', productFormDetail: 'E116' },
+  audiobook: { productForm: 'AJ', productFormDetail: 'A103' },
+  audible: { productForm: 'AJ', productFormDetail: 'A103' },
+  'audio cd': { productForm: 'AC' },
+};
+
+// List 150 → binding type, used when importing ONIX feeds
+const PRODUCT_FORM_TO_BINDING: Record<string, string> = {
+  BA: 'paperback',
+  BB: 'hardcover',
+  BC: 'paperback',
+  BE: 'spiral bound',
+  BG: 'hardcover',
+  BH: 'board book',
+  EA: 'ebook',
+  EB: 'ebook',
+  ED: 'ebook',
+  AA: 'audiobook',
+  AC: 'audiobook',
+  AE: 'audiobook',
+  AJ: 'audiobook',
+  AN: 'audiobook',
+};
+
+// ISO 639-1 → ISO 639-2/B (ONIX List 74 uses the bibliographic 3-letter codes)
+const LANGUAGE_CODES: Record<string, string> = {
+  ar: 'ara',
+  cs: 'cze',
+  da: 'dan',
+  de: 'ger',
+  el: 'gre',
+  en: 'eng',
+  es: 'spa',
+  fi: 'fin',
+  fr: 'fre',
+  he: 'heb',
+  hi: 'hin',
+  hu: 'hun',
+  it: 'ita',
+  ja: 'jpn',
+  ko: 'kor',
+  nl: 'dut',
+  no: 'nor',
+  pl: 'pol',
+  pt: 'por',
+  ro: 'rum',
+  ru: 'rus',
+  sv: 'swe',
+  th: 'tha',
+  tr: 'tur',
+  uk: 'ukr',
+  vi: 'vie',
+  zh: 'chi',
+};
+
+/**
+ * Map a binding type to its ONIX ProductForm (and optional ProductFormDetail)
+ */
+export function bindingToProductForm(
+  bindingType?: string,
+): OnixProductForm | null {
+  if (!bindingType) return null;
+  return BINDING_TO_PRODUCT_FORM[bindingType.toLowerCase().trim()] || null;
+}
+
+/**
+ * Map an ONIX ProductForm code back to a binding type
+ */
+export function productFormToBinding(productForm?: string): string | null {
+  if (!productForm) return null;
+  return PRODUCT_FORM_TO_BINDING[productForm.toUpperCase().trim()] || null;
+}
+
+/**
+ * Whether an ONIX ProductForm describes an audio product
+ */
+export function isAudioProductForm(productForm: string): boolean {
+  return productForm.startsWith('A');
+}
+
+/**
+ * Map a contributor role to its ONIX ContributorRole code
+ */
+export function contributorRoleToOnix(role: ContributorRole): string {
+  return CONTRIBUTOR_ROLE_TO_ONIX[role];
+}
+
+/**
+ * Map an ONIX ContributorRole code to a contributor role we store
+ */
+export function onixToContributorRole(code?: string): ContributorRole | null {
+  if (!code) return null;
+  return ONIX_TO_CONTRIBUTOR_ROLE[code.toUpperCase().trim()] || null;
+}
+
+/**
+ * Convert a 2-letter language code to the ONIX 3-letter code
+ */
+export function toOnixLanguageCode(language?: string): string | null {
+  if (!language) return null;
+  const code = language.toLowerCase().trim();
+  if (code.length === 3) return code;
+  return LANGUAGE_CODES[code] || null;
+}
+
+/**
+ * Convert an ONIX 3-letter language code to the 2-letter code we store
+ */
+export function fromOnixLanguageCode(language?: string): string | null {
+  if (!language) return null;
+  const code = language.toLowerCase().trim();
+  if (code.length === 2) return code;
+  const match = Object.entries(LANGUAGE_CODES).find(
+    ([, onixCode]) => onixCode === code,
+  );
+  return match ? match[0] : null;
+}
@@ -0,0 +1,177 @@
+// Postgres Cache Store
+// Keeps ApiCache entries in the api_cache table (migration 028) so every
+// server instance, including serverless ones, shares one cache. Works against
+// hosted or local Supabase through the service role client.
+
+import { createServiceClient } from '@/lib/supabase/server';
+
+import {
+  CacheItem,
+  CacheStore,
+  CacheStoreType,
+  CacheStoreUsage,
+} from './cache-store';
+
+interface ApiCacheRow {
+  key: string;
+  data: unknown;
+  cached_at: string;
+  expires_at: string;
+  hits: number;
+  last_access: string | null;
+}
+
+const toItem = (row: ApiCacheRow): CacheItem<unknown> => {
+  const timestamp = new Date(row.cached_at).getTime();
+  return {
+    data: row.data,
+    timestamp,
+    ttl: new Date(row.expires_at).getTime() - timestamp,
+    hits: row.hits,
+    lastAccess: row.last_access
+      ? new Date(row.last_access).getTime()
+      : undefined,
+  };
+};
+
+export class PostgresCacheStore implements CacheStore {
+  readonly type: CacheStoreType = 'postgres';
+  private _supabase: ReturnType<typeof createServiceClient> | null = null;
+
+  private getSupabase() {
+    if (!this._supabase) {
+      this._supabase = createServiceClient();
+    }
+    return this._supabase;
+  }
+
+  async get(key: string): Promise<CacheItem<unknown> | null> {
+    const { data, error } = await this.getSupabase()
+      .from('api_cache')
+      .select('*')
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to read api cache: ${error.message}`);
+    }
+
+    return data ? toItem(data as ApiCacheRow) : null;
+  }
+
+  async set(key: string, item: CacheItem<unknown>): Promise<void> {
+    const { error } = await this.getSupabase()
+      .from('api_cache')
+      .upsert({
+        key,
+        data: item.data,
+        cached_at: new Date(item.timestamp).toISOString(),
+        expires_at: new Date(item.timestamp + item.ttl).toISOString(),
+        hits: item.hits || 0,
+        last_access: item.lastAccess
+          ? new Date(item.lastAccess).toISOString()
+          : null,
+      });
+
+    if (error) {
+      throw new Error(`Failed to write api cache: ${error.message}`);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const { data, error } = await this.getSupabase()
+      .from('api_cache')
+      .delete()
+      .eq('key', key)
+      .select('key');
+
+    if (error) {
+      throw new Error(`Failed to delete from api cache: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  async clear(): Promise<void> {
+    // PostgREST refuses an unfiltered delete, so match every key
+    const { error } = await this.getSupabase()
+      .from('api_cache')
+      .delete()
+      .neq('key', '');
+
+    if (error) {
+      throw new Error(`Failed to clear api cache: ${error.message}`);
+    }
+  }
+
+  async keys(): Promise<string[]> {
+    const { data, error } = await this.getSupabase()
+      .from('api_cache')
+      .select('key');
+
+    if (error) {
+      throw new Error(`Failed to list api cache keys: ${error.message}`);
+    }
+
+    return (data || []).map(row => row.key as string);
+  }
+
+  async recordHit(key: string, accessedAt: number): Promise<void> {
+    const { error } = await this.getSupabase().rpc('record_api_cache_hit', {
+      p_key: key,
+      p_accessed_at: new Date(accessedAt).toISOString(),
+    });
+
+    if (error) {
+      throw new Error(`Failed to record api cache hit: ${error.message}`);
+    }
+  }
+
+  async deleteExpired(now: number): Promise<number> {
+    const { data, error } = await this.getSupabase()
+      .from('api_cache')
+      .delete()
+      .lt('expires_at', new Date(now).toISOString())
+      .select('key');
+
+    if (error) {
+      throw new Error(`Failed to purge api cache: ${error.message}`);
+    }
+
+    return (data || []).length;
+  }
+
+  async getUsage(hotKeyLimit: number): Promise<CacheStoreUsage> {
+    const supabase = this.getSupabase();
+    const [totals, hot] = await Promise.all([
+      supabase.rpc('get_api_cache_usage').single(),
+      supabase
+        .from('api_cache')
+        .select('key, hits, last_access')
+        .order('hits', { ascending: false })
+        .limit(hotKeyLimit),
+    ]);
+
+    if (totals.error || hot.error) {
+      throw new Error(
+        `Failed to read api cache usage: ${(totals.error || hot.error)?.message}`,
+      );
+    }
+
+    const usage = totals.data as { size: number; total_hits: number };
+    return {
+      size: Number(usage.size),
+      totalHits: Number(usage.total_hits),
+      hotKeys: (hot.data || []).map(row => ({
+        key: row.key as string,
+        hits: row.hits as number,
+        lastAccess: row.last_access
+          ? new Date(row.last_access as string).getTime()
+          : undefined,
+      })),
+    };
+  }
+
+  // Nothing is buffered; every write goes straight to the table
+  async close(): Promise<void> {}
+}
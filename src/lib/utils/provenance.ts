@@ -0,0 +1,216 @@
+import { BookBinding, BookBindingInsert } from '@/lib/types/book';
+import {
+  BookProvenance,
+  FieldProvenance,
+  PROVENANCE_FIELDS,
+  ProvenanceField,
+} from '@/lib/types/provenance';
+import { UIBook } from '@/lib/types/ui-book';
+
+/**
+ * Field Provenance Utilities
+ * Stamps, merges and describes which source supplied each book field
+ */
+
+export const PROVENANCE_FIELD_LABELS: Record<ProvenanceField, string> = {
+  title: 'title',
+  authors: 'authors',
+  publisher: 'publisher',
+  year: 'year',
+  pages: 'pages',
+  cover: 'cover',
+  description: 'description',
+  binding: 'format',
+  language: 'language',
+  price: 'price',
+};
+
+export const PROVENANCE_SOURCE_LABELS: Record<string, string> = {
+  'isbn-db': 'ISBNdb',
+  'google-books': 'Google Books',
+  'open-library': 'Open Library',
+  itunes: 'iTunes',
+  manual: 'manual edit',
+  'csv-import': 'CSV import',
+  'onix-import': 'ONIX import',
+  'library-import': 'library backup',
+};
+
+// UIBook fields carry several aliases (pages/page_count, image/thumbnail, ...)
+const FIELD_VALUES: Record<ProvenanceField, (book: UIBook) => unknown> = {
+  title: book => book.title,
+  authors: book => (book.authors?.length ? book.authors.join(', ') : null),
+  publisher: book => book.publisher,
+  year: book =>
+    book.year || (book.published_date || book.date_published)?.slice(0, 4),
+  pages: book => book.pages || book.page_count,
+  cover: book => book.image || book.thumbnail,
+  description: book => book.synopsis || book.description,
+  binding: book => book.binding || book.print_type,
+  language: book => book.language,
+  price: book => book.msrp ?? book.price,
+};
+
+// Binding columns that hold each field; title, authors and year live on the
+// book and edition rows
+export const BINDING_COLUMNS: Partial<
+  Record<ProvenanceField, keyof BookBindingInsert>
+> = {
+  publisher: 'publisher',
+  pages: 'pages',
+  cover: 'cover_image_url',
+  description: 'description',
+  binding: 'binding_type',
+  language: 'language',
+  price: 'price',
+};
+
+export const hasValue = (value: unknown) =>
+  value !== undefined && value !== null && value !== '';
+
+export function getProvenanceValue(
+  book: UIBook,
+  field: ProvenanceField,
+): unknown {
+  return FIELD_VALUES[field](book);
+}
+
+/**
+ * Attribute every populated field that has no provenance yet to `source`
+ */
+export function stampProvenance(
+  book: UIBook,
+  source: string,
+  fetchedAt: string = new Date().toISOString(),
+): UIBook {
+  const provenance: BookProvenance = { ...book.provenance };
+
+  PROVENANCE_FIELDS.forEach(field => {
+    if (!provenance[field] && hasValue(getProvenanceValue(book, field))) {
+      provenance[field] = { source, fetched_at: fetchedAt };
+    }
+  });
+
+  return { ...book, provenance };
+}
+
+/**
+ * Work out provenance for a book merged from `candidates` (in preference
+ * order). Each field is credited to the first candidate holding the exact
+ * merged value, falling back to the first candidate with any value (e.g.
+ * for combined author lists).
+ */
+export function mergeProvenance(
+  merged: UIBook,
+  candidates: UIBook[],
+): BookProvenance {
+  const provenance: BookProvenance = {};
+
+  PROVENANCE_FIELDS.forEach(field => {
+    const value = getProvenanceValue(merged, field);
+    if (!hasValue(value)) return;
+
+    const supplier =
+      candidates.find(book => getProvenanceValue(book, field) === value) ||
+      candidates.find(book => hasValue(getProvenanceValue(book, field)));
+    const entry = supplier && getFieldProvenance(supplier, field);
+    if (entry) {
+      provenance[field] = entry;
+    }
+  });
+
+  return provenance;
+}
+
+/**
+ * Provenance to persist with a binding: only fields the binding (or its
+ * book and edition) actually stores
+ */
+export function getBindingProvenance(
+  book: UIBook,
+  binding: BookBindingInsert,
+): BookProvenance {
+  const source = book.source || book.data_source?.split(',')[0] || 'manual';
+  const { provenance = {} } = stampProvenance(book, source);
+
+  return Object.fromEntries(
+    Object.entries(provenance).filter(([field]) => {
+      const column = BINDING_COLUMNS[field as ProvenanceField];
+      return !column || hasValue(binding[column]);
+    }),
+  );
+}
+
+/**
+ * Provenance after a user edits a binding: changed fields are credited to a
+ * manual edit and cleared fields lose their entry
+ */
+export function markEditedFields(
+  binding: BookBinding,
+  changes: Partial<BookBindingInsert>,
+): BookProvenance {
+  const provenance: BookProvenance = { ...binding.provenance };
+  const editedAt = new Date().toISOString();
+
+  PROVENANCE_FIELDS.forEach(field => {
+    const column = BINDING_COLUMNS[field];
+    if (!column || !(column in changes)) return;
+
+    const value = changes[column];
+    if (!hasValue(value)) {
+      delete provenance[field];
+    } else if (value !== binding[column]) {
+      provenance[field] = { source: 'manual', fetched_at: editedAt };
+    }
+  });
+
+  return provenance;
+}
+
+/**
+ * Group fields by source for display, e.g.
+ * [{ source: 'ISBNdb', fields: ['publisher', 'pages'] }, ...]
+ */
+export function summarizeProvenance(
+  provenance: BookProvenance | null | undefined,
+): Array<{ source: string; fields: string[]; fetchedAt: string }> {
+  const groups = new Map<string, { fields: string[]; fetchedAt: string }>();
+
+  PROVENANCE_FIELDS.forEach(field => {
+    const entry = provenance?.[field];
+    if (!entry) return;
+
+    const group = groups.get(entry.source) || {
+      fields: [],
+      fetchedAt: entry.fetched_at,
+    };
+    group.fields.push(PROVENANCE_FIELD_LABELS[field]);
+    if (entry.fetched_at > group.fetchedAt) {
+      group.fetchedAt = entry.fetched_at;
+    }
+    groups.set(entry.source, group);
+  });
+
+  return Array.from(groups.entries()).map(([source, group]) => ({
+    source: PROVENANCE_SOURCE_LABELS[source] || source,
+    ...group,
+  }));
+}
+
+/**
+ * Provenance of a single field, falling back to the book's own source
+ */
+export function getFieldProvenance(
+  book: UIBook,
+  field: ProvenanceField,
+): FieldProvenance | undefined {
+  if (book.provenance?.[field]) {
+    return book.provenance[field];
+  }
+
+  // Books that never went through the registry are credited to their source
+  const source = book.source || book.data_source?.split(',')[0];
+  return source
+    ? { source, fetched_at: book.updated_at || new Date().toISOString() }
+    : undefined;
+}
@@ -0,0 +1,159 @@
+// Provider Transport
+// Every HTTP request to an external book-data provider goes through here.
+// PROVIDER_TRANSPORT selects the mode:
+//   live   - plain fetch (default)
+//   record - fetch, then save the response to disk
+//   replay - serve saved responses only; never touches the network
+// Recordings live in PROVIDER_RECORDINGS_DIR (default recordings/providers),
+// one file per request, so the search pipeline can run offline without keys.
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+
+export type ProviderTransportMode = 'live' | 'record' | 'replay';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  body?: string; // Only for requests that send one, e.g. ISBNdb bulk lookups
+}
+
+interface ProviderRecording {
+  request: RecordedRequest;
+  status: number;
+  statusText: string;
+  body: unknown;
+  recorded_at: string;
+}
+
+// Query parameters that carry credentials and must never reach a recording
+const SECRET_PARAMS = ['key', 'api_key', 'apikey'];
+
+export function getProviderTransportMode(): ProviderTransportMode {
+  const mode = process.env.PROVIDER_TRANSPORT?.toLowerCase();
+  return mode === 'record' || mode === 'replay' ? mode : 'live';
+}
+
+// In replay mode providers answer from disk, so missing API keys don't matter
+export function isReplayingProviders(): boolean {
+  return getProviderTransportMode() === 'replay';
+}
+
+function getRecordingsDir(): string {
+  return (
+    process.env.PROVIDER_RECORDINGS_DIR ||
+    join(process.cwd(), 'recordings', 'providers')
+  );
+}
+
+function redactUrl(url: string): string {
+  const parsed = new URL(url);
+  SECRET_PARAMS.forEach(param => parsed.searchParams.delete(param));
+  parsed.searchParams.sort();
+  return parsed.toString();
+}
+
+function getRecordingPath(providerId: string, request: RecordedRequest) {
+  const { method, url, body } = request;
+  // Bodiless requests keep the key they had before bodies were recorded
+  const hash = createHash('sha256')
+    .update(body ? `${method} ${url}\n${body}` : `${method} ${url}`)
+    .digest('hex')
+    .slice(0, 16);
+  return join(getRecordingsDir(), providerId, `${hash}.json`);
+}
+
+function toResponse(recording: ProviderRecording): Response {
+  const body =
+    typeof recording.body === 'string'
+      ? recording.body
+      : JSON.stringify(recording.body);
+  return new Response(body, {
+    status: recording.status,
+    statusText: recording.statusText,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+async function replay(
+  providerId: string,
+  request: RecordedRequest,
+): Promise<Response> {
+  const file = getRecordingPath(providerId, request);
+  try {
+    const recording = JSON.parse(
+      await fs.readFile(file, 'utf8'),
+    ) as ProviderRecording;
+    return toResponse(recording);
+  } catch {
+    throw new Error(
+      `No ${providerId} recording for ${request.method} ${request.url} (expected ${file})`,
+    );
+  }
+}
+
+async function record(
+  providerId: string,
+  request: RecordedRequest,
+  response: Response,
+): Promise<void> {
+  const text = await response.clone().text();
+  let body: unknown = text;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Keep non-JSON bodies (error pages) as text
+  }
+
+  const recording: ProviderRecording = {
+    request,
+    status: response.status,
+    statusText: response.statusText,
+    body,
+    recorded_at: new Date().toISOString(),
+  };
+
+  try {
+    const file = getRecordingPath(providerId, request);
+    await fs.mkdir(join(getRecordingsDir(), providerId), { recursive: true });
+    await fs.writeFile(file, `${JSON.stringify(recording, null, 2)}\n`);
+  } catch (error) {
+    // A failed write must not fail the live request it came from
+    if (process.env.NODE_ENV === 'development') {
+      // eslint-disable-next-line no-console
+      console.error(`Failed to record ${providerId} response:`, error);
+    }
+  }
+}
+
+/**
+ * Drop-in replacement for fetch() in provider services. Recordings are keyed
+ * by provider, method, URL with credentials removed and any string body, so
+ * a recording made with one API key replays for anyone.
+ */
+export async function providerFetch(
+  providerId: string,
+  url: string,
+  init: RequestInit = {},
+): Promise<Response> {
+  const mode = getProviderTransportMode();
+  const method = (init.method || 'GET').toUpperCase();
+
+  if (mode === 'live') {
+    return fetch(url, init);
+  }
+
+  const request: RecordedRequest = { method, url: redactUrl(url) };
+  if (typeof init.body === 'string') request.body = init.body;
+  if (mode === 'replay') {
+    return replay(providerId, request);
+  }
+
+  const response = await fetch(url, init);
+  // Rate limits and outages are transient; replaying them would be misleading
+  if (response.status !== 429 && response.status < 500) {
+    await record(providerId, request, response);
+  }
+  return response;
+}
@@ -0,0 +1,162 @@
+import { SeriesInfo } from '@/lib/types/series';
+import { UIBook } from '@/lib/types/ui-book';
+
+/**
+ * Series Detection Utilities
+ * Pull series names and numbers out of provider data and titles such as
+ * "Dune Messiah (Dune Chronicles, #2)" or "The Hunt (Book 3)"
+ */
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+};
+
+const NUMBER =
+  '(\\d+(?:\\.\\d+)?|one|two|three|four|five|six|seven|eight|nine|ten)';
+const MARKER = '(?:#|book|vol\\.?|volume|no\\.?|part)';
+
+// "(Series Name, #3)", "(Series Name Book 3)", "(Series Name, Vol. 3)"
+const NAMED_SUFFIX = new RegExp(
+  `\\(\\s*(.+?),?\\s+${MARKER}\\s*${NUMBER}\\s*\\)\\s*$`,
+  'i',
+);
+// "(Book 3 of Series Name)", "(Book Three in the Series Name)"
+const NUMBER_FIRST = new RegExp(
+  `\\(\\s*${MARKER}\\s*${NUMBER}\\s+(?:of|in)\\s+(?:the\\s+)?(.+?)\\s*\\)\\s*$`,
+  'i',
+);
+// "(Book 3)", "(#3)"
+const NUMBER_ONLY = new RegExp(
+  `\\(\\s*${MARKER}\\s*${NUMBER}\\s*\\)\\s*$`,
+  'i',
+);
+// "Title: Book 3 of the Series Name"
+const SUBTITLE = new RegExp(
+  `[:\\-–]\\s*${MARKER}\\s*${NUMBER}\\s+(?:of|in)\\s+(?:the\\s+)?(.+?)\\s*$`,
+  'i',
+);
+
+const toNumber = (value: string): number | undefined => {
+  const number = NUMBER_WORDS[value.toLowerCase()] ?? parseFloat(value);
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+};
+
+const cleanName = (name: string) =>
+  name
+    .replace(/\s+series$/i, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Series name and number from a title, or undefined when it has none
+ */
+export function parseSeriesFromTitle(title: string): SeriesInfo | undefined {
+  if (!title) return undefined;
+
+  let match = title.match(NUMBER_FIRST);
+  if (match) {
+    return { name: cleanName(match[2]), number: toNumber(match[1]) };
+  }
+
+  match = title.match(NUMBER_ONLY);
+  if (match) {
+    return { number: toNumber(match[1]) };
+  }
+
+  match = title.match(NAMED_SUFFIX);
+  if (match) {
+    return { name: cleanName(match[1]), number: toNumber(match[2]) };
+  }
+
+  match = title.match(SUBTITLE);
+  if (match) {
+    return { name: cleanName(match[2]), number: toNumber(match[1]) };
+  }
+
+  return undefined;
+}
+
+/**
+ * Combine series details across search results. Provider data wins over
+ * title parsing; a name from one result and a number from another are
+ * combined.
+ */
+export function detectSeries(books: UIBook[]): SeriesInfo | undefined {
+  const candidates = [
+    ...books.map(book => book.series),
+    ...books.map(book =>
+      parseSeriesFromTitle(
+        book.subtitle ? `${book.title}: ${book.subtitle}` : book.title,
+      ),
+    ),
+  ].filter((info): info is SeriesInfo => !!info);
+
+  const name = candidates.find(info => info.name)?.name;
+  const number = candidates.find(info => info.number)?.number;
+
+  return name || number ? { name, number } : undefined;
+}
+
+/**
+ * Display label, e.g. "Dune Chronicles #2"
+ */
+export function formatSeriesLabel(
+  name: string,
+  seriesNumber?: number | null,
+): string {
+  return seriesNumber ? `${name} #${seriesNumber}` : name;
+}
+
+/**
+ * Split books into series (by name, each in reading order) and books that
+ * are not in a series. Books keep their original order otherwise.
+ */
+export function groupBySeries<T>(
+  books: T[],
+  getSeries: (
+    book: T,
+  ) =>
+    | { name: string; number?: number | null; order?: number | null }
+    | null
+    | undefined,
+): { groups: Array<{ name: string; books: T[] }>; standalone: T[] } {
+  const groups = new Map<string, { name: string; books: T[] }>();
+  const standalone: T[] = [];
+
+  books.forEach(book => {
+    const series = getSeries(book);
+    if (!series?.name) {
+      standalone.push(book);
+      return;
+    }
+
+    const key = series.name.toLowerCase();
+    const group = groups.get(key) || { name: series.name, books: [] };
+    group.books.push(book);
+    groups.set(key, group);
+  });
+
+  const position = (book: T) => {
+    const series = getSeries(book);
+    return series?.order ?? series?.number ?? Number.MAX_SAFE_INTEGER;
+  };
+
+  return {
+    groups: Array.from(groups.values())
+      .map(group => ({
+        ...group,
+        books: [...group.books].sort((a, b) => position(a) - position(b)),
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    standalone,
+  };
+}
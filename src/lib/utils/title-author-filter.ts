@@ -0,0 +1,102 @@
+import { UIBook } from '@/lib/types/ui-book';
+import { AuthorAliasRegistry } from '@/lib/utils/author-alias-registry';
+
+/**
+ * Keep the provider results that match a title/author search. Lenient on
+ * purpose: editions with their own ISBNs often word the title differently.
+ * Co-authored books match through the author alias registry.
+ */
+export function filterBooksByTitleAuthor(
+  books: UIBook[],
+  title: string,
+  author: string,
+  authorAliases: AuthorAliasRegistry,
+): UIBook[] {
+  // Optimized filtering for better ISBN coverage
+  const normalize = (s: string) =>
+    s
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, '')
+      .trim();
+  const removeStopWords = (s: string) =>
+    s
+      .replace(/\b(the|a|an|and|or|but|in|on|at|to|for|of|with|by)\b/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+  const inputTitle = normalize(removeStopWords(title));
+  const inputAuthor = normalize(author);
+
+  // Split input title into words for more flexible matching
+  const inputTitleWords = inputTitle
+    .split(/\s+/)
+    .filter(word => word.length > 2);
+
+  return books.filter(book => {
+    // Title matching - MUCH more lenient for books with different ISBNs
+    const bookTitle = normalize(removeStopWords(book.title || ''));
+
+    let titleMatch = false;
+
+    // Method 1: Direct substring match (original logic)
+    if (bookTitle.includes(inputTitle) || inputTitle.includes(bookTitle)) {
+      titleMatch = true;
+    }
+
+    // Method 2: Word-based matching with REDUCED threshold for unique ISBNs
+    if (!titleMatch && inputTitleWords.length > 0) {
+      const bookTitleWords = bookTitle
+        .split(/\s+/)
+        .filter(word => word.length > 2);
+
+      // Count matching words
+      const matchingWords = inputTitleWords.filter(inputWord =>
+        bookTitleWords.some(
+          bookWord =>
+            bookWord.includes(inputWord) || inputWord.includes(bookWord),
+        ),
+      );
+
+      // FIXED: Lower threshold from 80% to 50% for better coverage
+      const matchRatio = matchingWords.length / inputTitleWords.length;
+      if (matchRatio >= 0.5) {
+        titleMatch = true;
+      }
+    }
+
+    // Method 3: NEW - Core title matching (handles "New Builders" vs "The New Builders")
+    if (!titleMatch) {
+      // Extract core words from both titles
+      const coreInputWords = inputTitle.split(/\s+/).filter(w => w.length > 3);
+      const coreBookWords = bookTitle.split(/\s+/).filter(w => w.length > 3);
+
+      // If core words overlap significantly, consider it a match
+      const coreMatches = coreInputWords.filter(word =>
+        coreBookWords.some(
+          bookWord => bookWord.includes(word) || word.includes(bookWord),
+        ),
+      );
+
+      if (coreMatches.length >= Math.min(2, coreInputWords.length)) {
+        titleMatch = true;
+      }
+    }
+
+    if (!titleMatch) return false;
+
+    // Author matching - more lenient for co-authored works
+    const authorMatch = (book.authors || []).some((a: string) => {
+      const normA = normalize(a);
+      return normA.includes(inputAuthor) || inputAuthor.includes(normA);
+    });
+
+    // For co-authored works, also check the alias registry for known co-authors
+    const isKnownCoAuthor =
+      !authorMatch &&
+      (book.authors || []).some((a: string) =>
+        authorAliases.isKnownCoAuthor(author, a),
+      );
+
+    return titleMatch && (authorMatch || isKnownCoAuthor);
+  });
+}
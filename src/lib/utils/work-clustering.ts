@@ -0,0 +1,146 @@
+import { Book } from '@/lib/types/book';
+import { UIBook } from '@/lib/types/ui-book';
+import {
+  ClusterableBook,
+  WorkDecision,
+  WorkLinkReason,
+} from '@/lib/types/work';
+import { normalizeIsbn } from '@/lib/utils/isbn';
+
+/**
+ * Work Clustering
+ * Groups library books into works. Books are linked when they share an
+ * Open Library work ID, when one lists the other's ISBN among its related
+ * ISBNs, or when the user merged them. A user's split always wins: two
+ * books the user separated never end up in the same work, even through a
+ * third book.
+ */
+
+export interface WorkCluster {
+  bookIds: string[];
+  reasons: WorkLinkReason[];
+}
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+/**
+ * ISBNs of other editions of the same work that a provider listed for a
+ * book, without the book's own ISBNs
+ */
+export function getRelatedIsbns(book: UIBook): string[] {
+  const own = new Set(
+    [book.isbn, book.isbn13]
+      .filter((isbn): isbn is string => !!isbn)
+      .map(normalizeIsbn),
+  );
+  const related = [
+    ...(book.related_isbns || []),
+    ...(book.other_isbns || []),
+  ].map(normalizeIsbn);
+  return Array.from(new Set(related)).filter(isbn => isbn && !own.has(isbn));
+}
+
+/**
+ * Collect the identifiers of a saved book across all its bindings
+ */
+export function toClusterableBook(book: Book): ClusterableBook {
+  const bindings = book.editions.flatMap(edition => edition.bindings);
+  const unique = (values: (string | null | undefined)[]) =>
+    Array.from(new Set(values.filter((value): value is string => !!value)));
+
+  return {
+    id: book.id,
+    title: book.title,
+    created_at: book.created_at,
+    isbns: unique(bindings.map(binding => binding.isbn)),
+    related_isbns: unique(bindings.flatMap(binding => binding.related_isbns)),
+    open_library_work_ids: unique(
+      bindings.map(binding => binding.open_library_work_id),
+    ),
+  };
+}
+
+export function clusterWorks(
+  books: ClusterableBook[],
+  decisions: WorkDecision[] = [],
+): WorkCluster[] {
+  const bookIds = new Set(books.map(book => book.id));
+  const parent = new Map<string, string>();
+  const members = new Map<string, string[]>();
+  const reasons = new Map<string, Set<WorkLinkReason>>();
+  books.forEach(book => {
+    parent.set(book.id, book.id);
+    members.set(book.id, [book.id]);
+    reasons.set(book.id, new Set());
+  });
+
+  const splits = new Set(
+    decisions
+      .filter(decision => !decision.same_work)
+      .map(decision => pairKey(decision.book_id, decision.other_book_id)),
+  );
+
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  const link = (a: string, b: string, reason: WorkLinkReason) => {
+    if (!bookIds.has(a) || !bookIds.has(b)) return;
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) {
+      reasons.get(rootA)!.add(reason);
+      return;
+    }
+
+    const membersA = members.get(rootA)!;
+    const membersB = members.get(rootB)!;
+    const blocked = membersA.some(x =>
+      membersB.some(y => splits.has(pairKey(x, y))),
+    );
+    if (blocked) return;
+
+    parent.set(rootB, rootA);
+    members.set(rootA, [...membersA, ...membersB]);
+    reasons.get(rootB)!.forEach(item => reasons.get(rootA)!.add(item));
+    reasons.get(rootA)!.add(reason);
+    members.delete(rootB);
+  };
+
+  // User merges first, then identifier evidence
+  decisions
+    .filter(decision => decision.same_work)
+    .forEach(decision =>
+      link(decision.book_id, decision.other_book_id, 'user'),
+    );
+
+  const byWorkId = new Map<string, string>();
+  const byIsbn = new Map<string, string>();
+  books.forEach(book => {
+    book.open_library_work_ids.forEach(workId => {
+      const other = byWorkId.get(workId);
+      if (other) link(other, book.id, 'open-library-work');
+      else byWorkId.set(workId, book.id);
+    });
+    book.isbns.forEach(isbn => byIsbn.set(normalizeIsbn(isbn), book.id));
+  });
+
+  books.forEach(book =>
+    book.related_isbns.forEach(isbn => {
+      const other = byIsbn.get(normalizeIsbn(isbn));
+      if (other && other !== book.id) link(book.id, other, 'related-isbn');
+    }),
+  );
+
+  const createdAt = new Map(books.map(book => [book.id, book.created_at]));
+
+  return Array.from(members, ([root, ids]) => ({
+    bookIds: [...ids].sort((a, b) =>
+      (createdAt.get(a) || '').localeCompare(createdAt.get(b) || ''),
+    ),
+    reasons: Array.from(reasons.get(root)!),
+  })).filter(cluster => cluster.bookIds.length > 1);
+}
@@ -1,5 +1,8 @@
 import { z } from 'zod';
 
+import { CONTRIBUTOR_ROLES } from '@/lib/types/contributor';
+import { CONFLICT_FIELDS, PROVENANCE_FIELDS } from '@/lib/types/provenance';
+
 // Common validation patterns
 const isbnRegex =
   /^(?:ISBN(?:-1[03])?:? )?(?=[0-9X]{10}$|(?=(?:[0-9]+[- ]){3})[- 0-9X]{13}$|97[89][0-9]{10}$|(?=(?:[0-9]+[- ]){4})[- 0-9]{17}$)(?:97[89][- ]?)?[0-9]{1,5}[- ]?[0-9]+[- ]?[0-9]+[- ]?[0-9X]$/;
@@ -9,6 +12,60 @@ const twitterUsernameRegex = /^[A-Za-z0-9_]{1,15}$/;
 const githubUsernameRegex = /^[A-Za-z0-9]([A-Za-z0-9]|-(?=[A-Za-z0-9])){0,38}$/;
 
 // Book-related schemas
+export const BookProvenanceSchema = z.record(
+  z.enum(PROVENANCE_FIELDS),
+  z.object({
+    source: z.string().min(1).max(50),
+    fetched_at: z.string().max(50),
+  }),
+);
+
+export const MetadataConflictsSchema = z.record(
+  z.enum(CONFLICT_FIELDS),
+  z
+    .array(
+      z.object({
+        value: z.union([z.string().max(10000), z.number()]),
+        source: z.string().min(1).max(50),
+        fetched_at: z.string().max(50),
+      }),
+    )
+    .max(10),
+);
+
+export const MetadataOverridesSchema = z.record(
+  z.enum(CONFLICT_FIELDS),
+  z.object({
+    value: z.union([z.string().max(10000), z.number()]),
+    source: z.string().min(1).max(50),
+    overridden_at: z.string().max(50),
+  }),
+);
+
+export const BindingConflictResolutionSchema = z.object({
+  field: z.enum(CONFLICT_FIELDS),
+  value: z.union([z.string().max(10000), z.number()]),
+});
+
+const seriesNumberSchema = z
+  .number()
+  .positive('Series number must be positive')
+  .max(9999, 'Series number too large');
+
+export const SeriesInfoSchema = z.object({
+  name: z.string().min(1).max(255).trim().optional(),
+  number: seriesNumberSchema.optional(),
+});
+
+export const ContributorCreditSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Contributor name cannot be empty')
+    .max(255, 'Contributor name too long')
+    .trim(),
+  role: z.enum(CONTRIBUTOR_ROLES),
+});
+
 export const BookSchema = z.object({
   title: z
     .string()
@@ -41,6 +98,16 @@ export const BookSchema = z.object({
   binding: z.string().max(50).optional(),
   image: z.string().url('Invalid image URL').optional(),
   thumbnail: z.string().url('Invalid thumbnail URL').optional(),
+  source: z
+    .enum(['isbn-db', 'google-books', 'itunes', 'open-library', 'manual'])
+    .optional(),
+  provenance: BookProvenanceSchema.optional(),
+  conflicts: MetadataConflictsSchema.optional(),
+  series: SeriesInfoSchema.optional(),
+  contributors: z
+    .array(ContributorCreditSchema)
+    .max(30, 'Maximum 30 contributors allowed')
+    .optional(),
 });
 
 // Edition Group schema for preserving search results structure
@@ -58,6 +125,286 @@ export const BookCreateRequestSchema = z.object({
     .min(1, 'At least one edition group required'),
 });
 
+// CSV import schemas
+// Spreadsheet cells arrive as strings, so numeric columns are coerced
+const csvNumber = (schema: z.ZodNumber) =>
+  z.preprocess(
+    value => (typeof value === 'string' ? value.replace(/[$,\s]/g, '') : value),
+    z.coerce.number().pipe(schema),
+  );
+
+export const CsvImportRowSchema = BookSchema.pick({
+  isbn: true,
+  publisher: true,
+  binding: true,
+}).extend({
+  row_number: z.number().int().positive(),
+  title: BookSchema.shape.title.optional(),
+  author: z.string().max(200, 'Author name too long').trim().optional(),
+  publication_year: csvNumber(z.number().int().min(1800).max(2100)).optional(),
+  edition_number: csvNumber(z.number().int().positive().max(100)).optional(),
+  price: csvNumber(z.number().nonnegative().max(100000)).optional(),
+});
+
+// Title and author are required once a row has been enriched
+export const CsvImportCompleteRowSchema = BookSchema.pick({
+  title: true,
+  authors: true,
+});
+
+export const CsvImportRequestSchema = z.object({
+  rows: z
+    .array(z.record(z.unknown()))
+    .min(1, 'At least one row is required')
+    .max(500, 'Maximum 500 rows per import'),
+  enrich: z.boolean().optional().default(false),
+});
+
+// ISBN batch schemas
+export const IsbnBatchLookupSchema = z.object({
+  isbns: z
+    .array(z.string().max(30, 'ISBN too long'))
+    .min(1, 'At least one ISBN is required')
+    .max(100, 'Maximum 100 ISBNs per lookup'),
+});
+
+// Items are validated one by one against BookCreateRequestSchema
+export const IsbnBatchCommitSchema = z.object({
+  items: z
+    .array(z.record(z.unknown()))
+    .min(1, 'At least one book is required')
+    .max(100, 'Maximum 100 books per batch'),
+});
+
+// Library JSON restore schema (mirrors the Book → BookEdition → BookBinding export)
+const LibraryBindingSchema = z.object({
+  isbn: z.string().max(20).optional().nullable(),
+  binding_type: z.string().min(1).max(50),
+  price: z.number().nonnegative().optional().nullable(),
+  publisher: z.string().max(200).optional().nullable(),
+  cover_image_url: z.string().max(2000).optional().nullable(),
+  description: z.string().max(10000).optional().nullable(),
+  pages: z.number().int().positive().max(50000).optional().nullable(),
+  language: z.string().max(10).optional().nullable(),
+  provenance: BookProvenanceSchema.optional().nullable(),
+  metadata_conflicts: MetadataConflictsSchema.optional().nullable(),
+  user_overrides: MetadataOverridesSchema.optional().nullable(),
+  contributors: z.array(ContributorCreditSchema).max(30).optional(),
+});
+
+const LibraryEditionSchema = z.object({
+  id: z.string().optional(),
+  edition_number: z.number().int().positive(),
+  publication_year: z.number().int().min(1400).max(2100).optional().nullable(),
+  language: z.string().length(2).optional().nullable(),
+  is_translation: z.boolean().optional(),
+  translated_title: z.string().max(500).optional().nullable(),
+  territory: z.string().max(255).optional().nullable(),
+  bindings: z.array(LibraryBindingSchema),
+});
+
+export const LibraryImportSchema = z.object({
+  format: z.literal('authormagic-library'),
+  version: z.number().int().positive(),
+  books: z
+    .array(
+      z.object({
+        title: z.string().min(1).max(500).trim(),
+        author: z.string().min(1).max(500).trim(),
+        selected_edition_id: z.string().optional().nullable(),
+        contributors: z.array(ContributorCreditSchema).max(30).optional(),
+        series: z
+          .object({ name: z.string().min(1).max(255).trim() })
+          .optional()
+          .nullable(),
+        series_number: seriesNumberSchema.optional().nullable(),
+        reading_order: z.number().int().positive().optional().nullable(),
+        // Books sharing a work ID are restored into one work
+        work_id: z.string().optional().nullable(),
+        work: z
+          .object({ title: z.string().min(1).max(500).trim() })
+          .optional()
+          .nullable(),
+        editions: z
+          .array(LibraryEditionSchema)
+          .min(1, 'Each book needs at least one edition'),
+      }),
+    )
+    .max(5000, 'Maximum 5000 books per restore'),
+});
+
+// Author alias registry schemas
+const canonicalAuthorsSchema = z
+  .array(
+    z
+      .string()
+      .min(1, 'Author name cannot be empty')
+      .max(200, 'Author name too long')
+      .trim(),
+  )
+  .min(1, 'At least one canonical author is required')
+  .max(10, 'Maximum 10 authors allowed');
+
+export const AuthorAliasCreateSchema = z.object({
+  alias: z
+    .string()
+    .min(1, 'Alias is required')
+    .max(500, 'Alias must be less than 500 characters')
+    .trim(),
+  canonical_authors: canonicalAuthorsSchema,
+  notes: z.string().max(1000, 'Notes too long').optional(),
+  scope: z.enum(['user', 'global']).optional().default('user'),
+});
+
+export const AuthorAliasUpdateSchema = z.object({
+  alias: z
+    .string()
+    .min(1, 'Alias is required')
+    .max(500, 'Alias must be less than 500 characters')
+    .trim()
+    .optional(),
+  canonical_authors: canonicalAuthorsSchema.optional(),
+  notes: z.string().max(1000, 'Notes too long').optional().nullable(),
+});
+
+// Metadata provider registry overrides (null resets a setting to its default)
+export const MetadataProviderSettingsUpdateSchema = z.object({
+  enabled: z.boolean().optional().nullable(),
+  priority: z
+    .number()
+    .int('Priority must be a whole number')
+    .min(0, 'Priority cannot be negative')
+    .max(1000, 'Priority must be 1000 or less')
+    .optional()
+    .nullable(),
+  timeout_ms: z
+    .number()
+    .int('Timeout must be a whole number of milliseconds')
+    .min(500, 'Timeout must be at least 500ms')
+    .max(60000, 'Timeout must be 60 seconds or less')
+    .optional()
+    .nullable(),
+});
+
+// Change feed: dismiss specific changes, or all of them when ids is omitted
+export const BookChangesReadSchema = z.object({
+  ids: z.array(z.string().uuid()).max(100).optional(),
+});
+
+// Series schemas
+export const SeriesCreateSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Series name is required')
+    .max(255, 'Series name must be less than 255 characters')
+    .trim(),
+  description: z.string().max(5000, 'Description too long').optional(),
+});
+
+export const SeriesUpdateSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Series name is required')
+    .max(255, 'Series name must be less than 255 characters')
+    .trim()
+    .optional(),
+  description: z
+    .string()
+    .max(5000, 'Description too long')
+    .optional()
+    .nullable(),
+});
+
+// Place a book in a series (null clears a number)
+export const SeriesEntrySchema = z.object({
+  series_number: seriesNumberSchema.optional().nullable(),
+  reading_order: z
+    .number()
+    .int('Reading order must be a whole number')
+    .positive('Reading order must be positive')
+    .optional()
+    .nullable(),
+});
+
+// Replace the credits on a book, or on one of its bindings
+export const BookContributorsUpdateSchema = z.object({
+  contributors: z
+    .array(ContributorCreditSchema)
+    .max(30, 'Maximum 30 contributors allowed'),
+  binding_id: z.string().uuid('Invalid binding ID').optional(),
+});
+
+// Translated editions
+const translationDetailsSchema = {
+  language: z
+    .string()
+    .length(2, 'Language must be 2 character code')
+    .toLowerCase(),
+  translated_title: z
+    .string()
+    .max(500, 'Title must be less than 500 characters')
+    .trim()
+    .optional()
+    .nullable(),
+  territory: z
+    .string()
+    .max(255, 'Territory must be less than 255 characters')
+    .trim()
+    .optional()
+    .nullable(),
+  translators: z
+    .array(z.string().min(1).max(255).trim())
+    .max(10, 'Maximum 10 translators allowed')
+    .optional(),
+};
+
+export const TranslationCreateSchema = z.object({
+  isbn: z.string().regex(isbnRegex, 'Invalid ISBN format'),
+  ...translationDetailsSchema,
+  language: translationDetailsSchema.language.optional(),
+});
+
+export const TranslationUpdateSchema = z.object({
+  ...translationDetailsSchema,
+  language: translationDetailsSchema.language.optional(),
+});
+
+// Works: merge library books into one work, or rename a work
+export const WorkMergeSchema = z.object({
+  book_ids: z
+    .array(z.string().uuid('Invalid book ID'))
+    .min(2, 'Select at least two books to merge')
+    .max(20, 'Maximum 20 books per merge'),
+});
+
+export const WorkUpdateSchema = z.object({
+  title: z
+    .string()
+    .min(1, 'Work title is required')
+    .max(500, 'Title must be less than 500 characters')
+    .trim(),
+});
+
+// Library restructuring: move, merge and split
+export const BindingMoveSchema = z.object({
+  edition_id: z.string().uuid('Invalid edition ID'),
+});
+
+export const EditionMergeSchema = z.object({
+  target_edition_id: z.string().uuid('Invalid edition ID'),
+});
+
+export const EditionSplitSchema = z.object({
+  binding_ids: z
+    .array(z.string().uuid('Invalid binding ID'))
+    .min(1, 'Select at least one binding to split off')
+    .max(50, 'Maximum 50 bindings per split'),
+});
+
+export const BookMergeSchema = z.object({
+  target_book_id: z.string().uuid('Invalid book ID'),
+});
+
 // Profile-related schemas
 export const ProfileUpdateSchema = z.object({
   bio: z
@@ -0,0 +1,69 @@
+-- Author Alias Registry Migration
+-- Maps variant author strings returned by metadata providers (e.g. concatenated
+-- co-author names like "Amy Batchelor Brad Feld") to a canonical contributor list.
+-- Rows with a NULL user_id are global entries managed by admins; rows with a
+-- user_id apply only to that user's searches and take precedence over globals.
+
+CREATE TABLE author_aliases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT, -- Clerk user ID, NULL for global aliases
+  alias TEXT NOT NULL, -- Variant string as it appears in provider data
+  alias_normalized TEXT NOT NULL, -- Lowercased, whitespace-collapsed alias used for lookups
+  canonical_authors TEXT[] NOT NULL CHECK (array_length(canonical_authors, 1) >= 1),
+  notes TEXT,
+  created_by TEXT, -- Clerk user ID of whoever created the entry
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One entry per alias per scope (NULLS NOT DISTINCT keeps globals unique too)
+CREATE UNIQUE INDEX idx_author_aliases_scope_alias
+  ON author_aliases (user_id, alias_normalized) NULLS NOT DISTINCT;
+
+CREATE INDEX idx_author_aliases_user_id ON author_aliases(user_id);
+CREATE INDEX idx_author_aliases_alias_normalized ON author_aliases(alias_normalized);
+
+CREATE TRIGGER update_author_aliases_updated_at
+  BEFORE UPDATE ON author_aliases
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE author_aliases ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own aliases and all global aliases
+CREATE POLICY "Users can view own and global aliases" ON author_aliases
+  FOR SELECT USING (user_id IS NULL OR auth.uid()::text = user_id);
+
+CREATE POLICY "Users can insert own aliases" ON author_aliases
+  FOR INSERT WITH CHECK (auth.uid()::text = user_id);
+
+CREATE POLICY "Users can update own aliases" ON author_aliases
+  FOR UPDATE USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Users can delete own aliases" ON author_aliases
+  FOR DELETE USING (auth.uid()::text = user_id);
+
+-- Admins manage global aliases
+CREATE POLICY "Admins can manage global aliases" ON author_aliases
+  FOR ALL USING (
+    user_id IS NULL AND EXISTS (
+      SELECT 1 FROM user_roles
+      WHERE user_roles.clerk_user_id = auth.uid()::text
+      AND user_roles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Service role can manage author aliases" ON author_aliases
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- Seed the combinations that were previously hard-coded in the search pipeline
+INSERT INTO author_aliases (user_id, alias, alias_normalized, canonical_authors, notes)
+VALUES
+  (NULL, 'Amy Batchelor Brad Feld', 'amy batchelor brad feld',
+    ARRAY['Amy Batchelor', 'Brad Feld'], 'Concatenated co-authors in ISBNDB data'),
+  (NULL, 'Brad Feld Sean Wise', 'brad feld sean wise',
+    ARRAY['Brad Feld', 'Sean Wise'], 'Concatenated co-authors in ISBNDB data'),
+  (NULL, 'Seth Levine Elizabeth MacBride', 'seth levine elizabeth macbride',
+    ARRAY['Seth Levine', 'Elizabeth MacBride'], 'Co-author pair');
+
+COMMENT ON TABLE author_aliases IS 'Maps variant author strings to canonical contributor lists for search filtering and edition grouping';
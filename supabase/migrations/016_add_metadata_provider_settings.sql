@@ -0,0 +1,35 @@
+-- Metadata Provider Settings Migration
+-- Admin overrides for the metadata provider registry (ISBNdb, Google Books,
+-- iTunes, Open Library, ...). Defaults live in API_CONFIG; a row here only
+-- needs the columns an admin actually changed.
+
+CREATE TABLE metadata_provider_settings (
+  provider_id TEXT PRIMARY KEY, -- Registry ID, e.g. 'isbn-db', 'itunes'
+  enabled BOOLEAN, -- NULL falls back to the default
+  priority INTEGER CHECK (priority IS NULL OR priority >= 0), -- Lower runs first
+  timeout_ms INTEGER CHECK (timeout_ms IS NULL OR timeout_ms BETWEEN 500 AND 60000),
+  updated_by TEXT, -- Clerk user ID of the admin who last changed the row
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_metadata_provider_settings_updated_at
+  BEFORE UPDATE ON metadata_provider_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE metadata_provider_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage metadata provider settings" ON metadata_provider_settings
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM user_roles
+      WHERE user_roles.clerk_user_id = auth.uid()::text
+      AND user_roles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Service role can manage metadata provider settings" ON metadata_provider_settings
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+COMMENT ON TABLE metadata_provider_settings IS 'Admin overrides for metadata provider enabled state, priority and timeout';
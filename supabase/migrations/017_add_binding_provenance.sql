@@ -0,0 +1,8 @@
+-- Binding Provenance Migration
+-- Records which metadata source supplied each field of a binding, and when,
+-- so bad data can be traced back to ISBNdb, Google Books, an import, etc.
+
+ALTER TABLE book_bindings
+  ADD COLUMN provenance JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN book_bindings.provenance IS 'Per-field source, e.g. {"publisher": {"source": "isbn-db", "fetched_at": "..."}}';
@@ -0,0 +1,11 @@
+-- Binding Conflicts and Overrides Migration
+-- metadata_conflicts keeps every value the providers offered for a field they
+-- disagreed on; user_overrides records the value the user picked, which
+-- metadata refreshes must never replace.
+
+ALTER TABLE book_bindings
+  ADD COLUMN metadata_conflicts JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN user_overrides JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN book_bindings.metadata_conflicts IS 'Candidate values per field, e.g. {"pages": [{"value": 240, "source": "isbn-db", ...}, {"value": 256, "source": "google-books", ...}]}';
+COMMENT ON COLUMN book_bindings.user_overrides IS 'User-chosen values per field; never overwritten by re-enrichment';
@@ -0,0 +1,240 @@
+-- Metadata Refresh Queue Migration
+-- Background job queue that re-queries metadata providers for saved books,
+-- plus the change feed the refresh writes to. Modelled on the image
+-- enhancement queue (011).
+
+-- Create metadata_refresh_queue table: one job per saved book
+CREATE TABLE metadata_refresh_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Book identification
+  book_id UUID NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL, -- Clerk user ID of the book owner
+
+  -- Job processing details
+  status VARCHAR(50) DEFAULT 'pending', -- 'pending', 'processing', 'completed', 'failed'
+  attempts INTEGER DEFAULT 0, -- Number of processing attempts
+  max_attempts INTEGER DEFAULT 3, -- Maximum retry attempts
+
+  -- Results
+  changes_found INTEGER DEFAULT 0, -- Change events recorded by this run
+
+  -- Error tracking
+  last_error TEXT, -- Last error message if failed
+  error_history JSONB DEFAULT '[]', -- Array of previous errors
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  scheduled_for TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- When to process this job
+  started_at TIMESTAMP WITH TIME ZONE, -- When processing started
+  completed_at TIMESTAMP WITH TIME ZONE -- When processing completed
+);
+
+-- Create indexes for efficient job processing
+CREATE INDEX idx_refresh_queue_book ON metadata_refresh_queue (book_id, completed_at DESC);
+CREATE INDEX idx_refresh_queue_ready_jobs ON metadata_refresh_queue (status, scheduled_for)
+  WHERE status = 'pending';
+
+-- Create book_change_events table: the "what changed" feed
+CREATE TABLE book_change_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL, -- Clerk user ID of the book owner
+  book_id UUID NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  binding_id UUID REFERENCES book_bindings(id) ON DELETE SET NULL,
+  job_id UUID REFERENCES metadata_refresh_queue(id) ON DELETE SET NULL,
+
+  change_type VARCHAR(50) NOT NULL, -- 'cover_changed', 'price_changed', 'metadata_changed', 'binding_discovered', 'edition_discovered'
+  field VARCHAR(50), -- Changed field for binding updates (e.g. 'pages')
+  old_value JSONB,
+  new_value JSONB, -- New value, or the discovered binding's details
+  source VARCHAR(50), -- Provider that supplied the new data
+
+  read_at TIMESTAMP WITH TIME ZONE, -- When the user dismissed it from the feed
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_change_events_user ON book_change_events (user_id, created_at DESC);
+CREATE INDEX idx_change_events_unread ON book_change_events (user_id) WHERE read_at IS NULL;
+CREATE INDEX idx_change_events_book ON book_change_events (book_id, change_type);
+
+-- Create job processing statistics view
+CREATE OR REPLACE VIEW metadata_refresh_stats AS
+SELECT
+  COUNT(*) as total_jobs,
+  COUNT(*) FILTER (WHERE status = 'pending') as pending_jobs,
+  COUNT(*) FILTER (WHERE status = 'processing') as processing_jobs,
+  COUNT(*) FILTER (WHERE status = 'completed') as completed_jobs,
+  COUNT(*) FILTER (WHERE status = 'failed') as failed_jobs,
+  COALESCE(SUM(changes_found) FILTER (WHERE completed_at > NOW() - INTERVAL '24 hours'), 0) as changes_last_24h,
+  COUNT(*) FILTER (WHERE completed_at > NOW() - INTERVAL '24 hours' AND status = 'completed') as completed_last_24h
+FROM metadata_refresh_queue;
+
+-- Trigger to automatically update updated_at
+CREATE TRIGGER trigger_refresh_queue_updated_at
+  BEFORE UPDATE ON metadata_refresh_queue
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Function to queue every book not refreshed within the stale window
+-- (skips books that already have a pending or running job)
+CREATE OR REPLACE FUNCTION schedule_metadata_refresh(
+  p_stale_after_days INTEGER DEFAULT 7,
+  p_limit INTEGER DEFAULT 500
+) RETURNS INTEGER AS $$
+DECLARE
+  v_queued INTEGER;
+BEGIN
+  INSERT INTO metadata_refresh_queue (book_id, user_id)
+  SELECT b.id, b.user_id
+  FROM books b
+  WHERE NOT EXISTS (
+      SELECT 1 FROM metadata_refresh_queue q
+      WHERE q.book_id = b.id
+        AND (
+          q.status IN ('pending', 'processing')
+          OR q.created_at > NOW() - INTERVAL '1 day' * p_stale_after_days
+        )
+    )
+  ORDER BY b.updated_at ASC
+  LIMIT p_limit;
+
+  GET DIAGNOSTICS v_queued = ROW_COUNT;
+  RETURN v_queued;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to get next jobs to process
+CREATE OR REPLACE FUNCTION get_next_metadata_refresh_jobs(p_limit INTEGER DEFAULT 5)
+RETURNS TABLE(
+  job_id UUID,
+  book_id UUID,
+  user_id TEXT,
+  attempts INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE metadata_refresh_queue
+  SET
+    status = 'processing',
+    started_at = NOW(),
+    attempts = metadata_refresh_queue.attempts + 1
+  WHERE id IN (
+    SELECT q.id
+    FROM metadata_refresh_queue q
+    WHERE q.status = 'pending'
+      AND q.scheduled_for <= NOW()
+      AND q.attempts < q.max_attempts
+    ORDER BY q.scheduled_for ASC, q.created_at ASC
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED  -- Prevent race conditions
+  )
+  RETURNING id, metadata_refresh_queue.book_id, metadata_refresh_queue.user_id,
+    metadata_refresh_queue.attempts;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to mark job as completed
+CREATE OR REPLACE FUNCTION complete_metadata_refresh_job(
+  p_job_id UUID,
+  p_changes_found INTEGER DEFAULT 0
+) RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE metadata_refresh_queue
+  SET
+    status = 'completed',
+    changes_found = p_changes_found,
+    completed_at = NOW()
+  WHERE id = p_job_id;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to mark job as failed
+CREATE OR REPLACE FUNCTION fail_metadata_refresh_job(
+  p_job_id UUID,
+  p_error_message TEXT,
+  p_reschedule_after_minutes INTEGER DEFAULT 60
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_attempts INTEGER;
+  v_max_attempts INTEGER;
+BEGIN
+  -- Get current attempt count
+  SELECT attempts, max_attempts
+  INTO v_attempts, v_max_attempts
+  FROM metadata_refresh_queue
+  WHERE id = p_job_id;
+
+  -- Update job with error
+  UPDATE metadata_refresh_queue
+  SET
+    status = CASE
+      WHEN v_attempts >= v_max_attempts THEN 'failed'
+      ELSE 'pending'  -- Reset to pending for retry
+    END,
+    last_error = p_error_message,
+    error_history = error_history || jsonb_build_array(jsonb_build_object(
+      'error', p_error_message,
+      'attempt', v_attempts,
+      'timestamp', NOW()
+    )),
+    scheduled_for = CASE
+      WHEN v_attempts >= v_max_attempts THEN scheduled_for  -- Don't reschedule if max attempts reached
+      ELSE NOW() + INTERVAL '1 minute' * p_reschedule_after_minutes  -- Reschedule for retry
+    END
+  WHERE id = p_job_id;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE metadata_refresh_queue ENABLE ROW LEVEL SECURITY;
+ALTER TABLE book_change_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Admins can read all refresh queue data
+CREATE POLICY "Admins can read metadata refresh queue" ON metadata_refresh_queue
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles
+      WHERE user_roles.clerk_user_id = auth.uid()::text
+      AND user_roles.role = 'admin'
+    )
+  );
+
+-- Users can read and dismiss their own change events
+CREATE POLICY "Users can read own change events" ON book_change_events
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid()::text);
+
+CREATE POLICY "Users can update own change events" ON book_change_events
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid()::text);
+
+-- Service role runs the worker
+CREATE POLICY "Service can manage metadata refresh queue" ON metadata_refresh_queue
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service can manage change events" ON book_change_events
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Grant service role permissions
+GRANT SELECT ON metadata_refresh_stats TO authenticated;
+GRANT ALL ON metadata_refresh_queue TO service_role;
+GRANT ALL ON book_change_events TO service_role;
+GRANT EXECUTE ON FUNCTION schedule_metadata_refresh TO service_role;
+GRANT EXECUTE ON FUNCTION get_next_metadata_refresh_jobs TO service_role;
+GRANT EXECUTE ON FUNCTION complete_metadata_refresh_job TO service_role;
+GRANT EXECUTE ON FUNCTION fail_metadata_refresh_job TO service_role;
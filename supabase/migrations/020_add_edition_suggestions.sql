@@ -0,0 +1,48 @@
+-- Edition Suggestions Migration
+-- Bindings and editions found by the periodic title/author discovery for
+-- books already in the library. Users accept a suggestion (which adds it via
+-- the normal add-editions path) or dismiss it so it is not suggested again.
+
+CREATE TABLE book_edition_suggestions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL, -- Clerk user ID of the book owner
+  book_id UUID NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+
+  -- What was found
+  isbn VARCHAR(20) NOT NULL,
+  edition_number INTEGER NOT NULL, -- Edition group the result was detected in
+  is_new_edition BOOLEAN NOT NULL DEFAULT false, -- No saved edition with this number yet
+  book_data JSONB NOT NULL, -- Search result as returned by the providers
+  source VARCHAR(50), -- Provider that found it
+
+  -- Resolution
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'accepted', 'dismissed'
+  resolved_at TIMESTAMP WITH TIME ZONE,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- A dismissed ISBN stays dismissed
+  UNIQUE (book_id, isbn)
+);
+
+CREATE INDEX idx_edition_suggestions_book ON book_edition_suggestions (book_id)
+  WHERE status = 'pending';
+CREATE INDEX idx_edition_suggestions_user ON book_edition_suggestions (user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE book_edition_suggestions ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own suggestions
+CREATE POLICY "Users can read own edition suggestions" ON book_edition_suggestions
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid()::text);
+
+-- Service role runs discovery and resolves suggestions
+CREATE POLICY "Service can manage edition suggestions" ON book_edition_suggestions
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON book_edition_suggestions TO service_role;
@@ -0,0 +1,50 @@
+-- Series Migration
+-- Groups a user's books into series. Each book belongs to at most one
+-- series and carries its number in the series (which may be fractional for
+-- novellas, e.g. 2.5) plus an optional reading order when that differs from
+-- publication order.
+
+CREATE TABLE series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL, -- Clerk user ID
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One series per name per user (case-insensitive, so prefill reuses it)
+CREATE UNIQUE INDEX idx_series_user_name ON series (user_id, lower(name));
+
+CREATE TRIGGER update_series_updated_at
+  BEFORE UPDATE ON series
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE books
+  ADD COLUMN series_id UUID REFERENCES series(id) ON DELETE SET NULL,
+  ADD COLUMN series_number NUMERIC(6, 2),
+  ADD COLUMN reading_order INTEGER;
+
+CREATE INDEX idx_books_series_id ON books (series_id);
+
+ALTER TABLE series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own series" ON series
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Users can insert own series" ON series
+  FOR INSERT WITH CHECK (auth.uid()::text = user_id);
+
+CREATE POLICY "Users can update own series" ON series
+  FOR UPDATE USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Users can delete own series" ON series
+  FOR DELETE USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Service role can manage series" ON series
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+COMMENT ON TABLE series IS 'Named series grouping a user''s books';
+COMMENT ON COLUMN books.series_number IS 'Position in the series as published, e.g. 3 for "(Book 3)"';
+COMMENT ON COLUMN books.reading_order IS 'Suggested reading position when it differs from series_number';
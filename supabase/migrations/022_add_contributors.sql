@@ -0,0 +1,83 @@
+-- Contributors Migration
+-- Replaces the comma-joined books.author string as the source of truth for
+-- who made a book. Contributors are shared people records; book_contributors
+-- links them to a book (binding_id NULL) or to a single binding, such as the
+-- narrator of an audiobook, with a role and display order.
+-- books.author is kept as the display string for search and duplicate checks.
+
+CREATE TABLE contributors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  name_normalized TEXT NOT NULL UNIQUE, -- Lowercased, punctuation-stripped name used for matching
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_contributors_updated_at
+  BEFORE UPDATE ON contributors
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE book_contributors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  book_id UUID NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  binding_id UUID REFERENCES book_bindings(id) ON DELETE CASCADE, -- NULL: applies to the whole book
+  contributor_id UUID NOT NULL REFERENCES contributors(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL CHECK (
+    role IN ('author', 'co-author', 'editor', 'narrator', 'translator', 'illustrator')
+  ),
+  display_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_book_contributors_unique
+  ON book_contributors (book_id, binding_id, contributor_id, role) NULLS NOT DISTINCT;
+CREATE INDEX idx_book_contributors_contributor ON book_contributors (contributor_id);
+CREATE INDEX idx_book_contributors_binding ON book_contributors (binding_id)
+  WHERE binding_id IS NOT NULL;
+
+-- Backfill from the existing author strings: first name is the author, the
+-- rest co-authors
+INSERT INTO contributors (name, name_normalized)
+SELECT trim(n.name),
+  trim(regexp_replace(regexp_replace(lower(trim(n.name)), '[.,;]', ' ', 'g'), '\s+', ' ', 'g'))
+FROM books b
+CROSS JOIN LATERAL regexp_split_to_table(b.author, '\s*(?:,|&|\mand\M)\s*') AS n(name)
+WHERE trim(n.name) <> ''
+ON CONFLICT (name_normalized) DO NOTHING;
+
+INSERT INTO book_contributors (book_id, contributor_id, role, display_order)
+SELECT b.id, c.id,
+  CASE WHEN n.ord = 1 THEN 'author' ELSE 'co-author' END,
+  n.ord - 1
+FROM books b
+CROSS JOIN LATERAL regexp_split_to_table(b.author, '\s*(?:,|&|\mand\M)\s*')
+  WITH ORDINALITY AS n(name, ord)
+JOIN contributors c ON c.name_normalized =
+  trim(regexp_replace(regexp_replace(lower(trim(n.name)), '[.,;]', ' ', 'g'), '\s+', ' ', 'g'))
+WHERE trim(n.name) <> ''
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE contributors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE book_contributors ENABLE ROW LEVEL SECURITY;
+
+-- Contributor names are public book metadata
+CREATE POLICY "Authenticated users can view contributors" ON contributors
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Users can view own book contributors" ON book_contributors
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM books
+      WHERE books.id = book_contributors.book_id
+      AND books.user_id = auth.uid()::text
+    )
+  );
+
+CREATE POLICY "Service role can manage contributors" ON contributors
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role can manage book contributors" ON book_contributors
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+COMMENT ON TABLE book_contributors IS 'Who contributed to a book or binding, in what role and display order';
@@ -0,0 +1,51 @@
+-- Translations Migration
+-- Lets a book hold translated editions alongside the original. Each edition
+-- records its language; translations also carry the translated title and
+-- the territory the rights were licensed for. Translators are stored as
+-- 'translator' credits on the translation's bindings (book_contributors).
+
+ALTER TABLE book_editions
+  ADD COLUMN language VARCHAR(10) NOT NULL DEFAULT 'en', -- ISO 639-1
+  ADD COLUMN is_translation BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN translated_title TEXT,
+  ADD COLUMN territory TEXT; -- e.g. "Germany, Austria, Switzerland"
+
+-- Backfill the language from each edition's first binding. A book's
+-- original language is that of its earliest edition with a known language;
+-- editions in any other language are translations, and editions with no
+-- known language take the original.
+WITH edition_languages AS (
+  SELECT e.id, e.book_id, e.publication_year, e.edition_number, e.created_at, (
+    SELECT lower(bb.language) FROM book_bindings bb
+    WHERE bb.book_edition_id = e.id
+      AND bb.language IS NOT NULL AND length(bb.language) = 2
+    ORDER BY bb.created_at
+    LIMIT 1
+  ) AS language
+  FROM book_editions e
+),
+original_languages AS (
+  SELECT DISTINCT ON (book_id) book_id, language
+  FROM edition_languages
+  WHERE language IS NOT NULL
+  ORDER BY book_id, publication_year NULLS LAST, edition_number, created_at
+)
+UPDATE book_editions e
+SET language = COALESCE(el.language, o.language, 'en'),
+  is_translation = COALESCE(el.language <> o.language, false)
+FROM edition_languages el
+LEFT JOIN original_languages o ON o.book_id = el.book_id
+WHERE el.id = e.id;
+
+-- Edition numbers now count per language: a German 1st edition can sit
+-- next to the English 1st edition
+ALTER TABLE book_editions
+  DROP CONSTRAINT IF EXISTS primary_book_editions_primary_book_id_edition_number_key;
+ALTER TABLE book_editions
+  DROP CONSTRAINT IF EXISTS book_editions_book_id_edition_number_key;
+
+CREATE UNIQUE INDEX idx_book_editions_book_language_number
+  ON book_editions (book_id, language, edition_number);
+
+COMMENT ON COLUMN book_editions.is_translation IS 'Translated edition of the book''s original work';
+COMMENT ON COLUMN book_editions.territory IS 'Territory the translation rights were licensed for';
@@ -0,0 +1,69 @@
+-- Works Migration
+-- Adds a "work" layer above books (FRBR-style): one work can hold several
+-- library books that are really the same intellectual work, such as the
+-- original and a retitled 2nd edition. Works are computed by a clustering
+-- pass over work identifiers saved on bindings (Open Library work IDs and
+-- related ISBNs) plus the user's own merge/split decisions.
+
+CREATE TABLE works (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL, -- Clerk user ID
+  title TEXT NOT NULL, -- Display title, defaults to the earliest book's title
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_works_user_id ON works (user_id);
+
+CREATE TRIGGER update_works_updated_at
+  BEFORE UPDATE ON works
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE books
+  ADD COLUMN work_id UUID REFERENCES works(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_books_work_id ON books (work_id);
+
+-- Work identifiers from the providers, used by the clustering pass
+ALTER TABLE book_bindings
+  ADD COLUMN open_library_work_id TEXT,
+  ADD COLUMN related_isbns TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX idx_book_bindings_open_library_work_id
+  ON book_bindings (open_library_work_id)
+  WHERE open_library_work_id IS NOT NULL;
+
+-- User confirmations: two books are (or are not) the same work. These win
+-- over identifier evidence when clustering.
+CREATE TABLE work_decisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  book_id UUID NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  other_book_id UUID NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  same_work BOOLEAN NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CHECK (book_id < other_book_id), -- One row per pair
+  UNIQUE (book_id, other_book_id)
+);
+
+CREATE INDEX idx_work_decisions_user_id ON work_decisions (user_id);
+
+ALTER TABLE works ENABLE ROW LEVEL SECURITY;
+ALTER TABLE work_decisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own works" ON works
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Users can view own work decisions" ON work_decisions
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Service role can manage works" ON works
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role can manage work decisions" ON work_decisions
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+COMMENT ON TABLE works IS 'Intellectual works grouping several library books (FRBR work level)';
+COMMENT ON TABLE work_decisions IS 'User merge/split decisions between two books, applied by work clustering';
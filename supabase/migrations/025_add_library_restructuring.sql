@@ -0,0 +1,613 @@
+-- Library Restructuring Migration
+-- Functions for fixing edition detection by hand: move a binding to another
+-- edition, merge two editions, merge two books and split an edition. Each
+-- function runs as a single transaction and writes an audit_logs entry
+-- (action_category 'library') holding the affected books' state before and
+-- after, which undo_library_operation uses to put back what changed.
+
+-- Everything stored for a set of books, as saved in the audit log
+CREATE OR REPLACE FUNCTION snapshot_library_books(p_book_ids UUID[])
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'books', COALESCE((
+      SELECT jsonb_agg(to_jsonb(b)) FROM books b WHERE b.id = ANY(p_book_ids)
+    ), '[]'::jsonb),
+    'editions', COALESCE((
+      SELECT jsonb_agg(to_jsonb(e)) FROM book_editions e
+      WHERE e.book_id = ANY(p_book_ids)
+    ), '[]'::jsonb),
+    'bindings', COALESCE((
+      SELECT jsonb_agg(to_jsonb(bb)) FROM book_bindings bb
+      JOIN book_editions e ON e.id = bb.book_edition_id
+      WHERE e.book_id = ANY(p_book_ids)
+    ), '[]'::jsonb),
+    'contributors', COALESCE((
+      SELECT jsonb_agg(to_jsonb(bc)) FROM book_contributors bc
+      WHERE bc.book_id = ANY(p_book_ids)
+    ), '[]'::jsonb)
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Rows that go with a book when a merge deletes it, so undoing the merge
+-- can bring them back. Refresh jobs are left out: the next scheduled
+-- refresh queues a restored book again.
+CREATE OR REPLACE FUNCTION snapshot_book_dependents(p_book_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'edition_suggestions', COALESCE((
+      SELECT jsonb_agg(to_jsonb(s)) FROM book_edition_suggestions s
+      WHERE s.book_id = p_book_id
+    ), '[]'::jsonb),
+    'change_events', COALESCE((
+      SELECT jsonb_agg(to_jsonb(c)) FROM book_change_events c
+      WHERE c.book_id = p_book_id
+    ), '[]'::jsonb),
+    'work_decisions', COALESCE((
+      SELECT jsonb_agg(to_jsonb(d)) FROM work_decisions d
+      WHERE p_book_id IN (d.book_id, d.other_book_id)
+    ), '[]'::jsonb)
+  );
+$$ LANGUAGE sql STABLE;
+
+-- The columns a restructuring changes, for each row of a snapshot. Edits
+-- to anything else (titles, prices, covers) neither block an undo nor get
+-- rolled back by it.
+CREATE OR REPLACE FUNCTION library_snapshot_rows(p_snapshot JSONB)
+RETURNS TABLE (kind TEXT, id UUID, state JSONB) AS $$
+  SELECT 'book', (r->>'id')::uuid, jsonb_build_object(
+    'selected_edition_id', r->'selected_edition_id',
+    'series_id', r->'series_id',
+    'series_number', r->'series_number',
+    'reading_order', r->'reading_order'
+  )
+  FROM jsonb_array_elements(p_snapshot->'books') r
+  UNION ALL
+  SELECT 'edition', (r->>'id')::uuid, jsonb_build_object(
+    'book_id', r->'book_id',
+    'language', r->'language',
+    'edition_number', r->'edition_number',
+    'publication_year', r->'publication_year'
+  )
+  FROM jsonb_array_elements(p_snapshot->'editions') r
+  UNION ALL
+  SELECT 'binding', (r->>'id')::uuid, jsonb_build_object(
+    'book_edition_id', r->'book_edition_id'
+  )
+  FROM jsonb_array_elements(p_snapshot->'bindings') r
+  UNION ALL
+  SELECT 'contributor', (r->>'id')::uuid, jsonb_build_object(
+    'book_id', r->'book_id',
+    'binding_id', r->'binding_id',
+    'contributor_id', r->'contributor_id',
+    'role', r->'role',
+    'display_order', r->'display_order'
+  )
+  FROM jsonb_array_elements(p_snapshot->'contributors') r;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Rows that differ between two snapshots; a NULL state means the row was
+-- added or removed
+CREATE OR REPLACE FUNCTION library_changed_rows(p_before JSONB, p_after JSONB)
+RETURNS TABLE (kind TEXT, id UUID, before_state JSONB, after_state JSONB) AS $$
+  SELECT kind, id, b.state, a.state
+  FROM library_snapshot_rows(p_before) b
+  FULL JOIN library_snapshot_rows(p_after) a USING (kind, id)
+  WHERE b.state IS DISTINCT FROM a.state;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Record a restructuring in the audit log. p_before is the snapshot taken
+-- before the change; p_book_ids lists every book it touched.
+CREATE OR REPLACE FUNCTION log_library_operation(
+  p_user_id TEXT,
+  p_action_type VARCHAR(100),
+  p_description TEXT,
+  p_book_ids UUID[],
+  p_before JSONB,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+) RETURNS UUID AS $$
+DECLARE
+  -- Distinct, keeping the order: the first book is where the change landed
+  v_book_ids UUID[] := ARRAY(
+    SELECT id FROM unnest(p_book_ids) WITH ORDINALITY AS t(id, n)
+    GROUP BY id ORDER BY MIN(n)
+  );
+  v_audit_id UUID;
+BEGIN
+  INSERT INTO audit_logs (
+    action_type, action_category, action_description, performed_by_user_id,
+    target_resource_type, target_resource_id, before_state, after_state,
+    metadata
+  ) VALUES (
+    p_action_type, 'library', p_description, p_user_id,
+    'book', p_book_ids[1]::text, p_before, snapshot_library_books(v_book_ids),
+    p_metadata || jsonb_build_object('book_ids', to_jsonb(v_book_ids::text[]))
+  )
+  RETURNING id INTO v_audit_id;
+
+  RETURN v_audit_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Remove an edition once its last binding has moved away
+CREATE OR REPLACE FUNCTION delete_empty_edition(p_edition_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM book_editions e
+  WHERE e.id = p_edition_id
+    AND NOT EXISTS (
+      SELECT 1 FROM book_bindings bb WHERE bb.book_edition_id = e.id
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Move a binding to another edition (of the same or another book)
+CREATE OR REPLACE FUNCTION move_binding(
+  p_user_id TEXT,
+  p_binding_id UUID,
+  p_target_edition_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_source_edition_id UUID;
+  v_source_book_id UUID;
+  v_target_book_id UUID;
+  v_before JSONB;
+  v_audit_id UUID;
+BEGIN
+  SELECT bb.book_edition_id, e.book_id
+  INTO v_source_edition_id, v_source_book_id
+  FROM book_bindings bb
+  JOIN book_editions e ON e.id = bb.book_edition_id
+  JOIN books b ON b.id = e.book_id
+  WHERE bb.id = p_binding_id AND b.user_id = p_user_id
+  FOR UPDATE OF bb;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Binding not found or access denied';
+  END IF;
+
+  SELECT e.book_id INTO v_target_book_id
+  FROM book_editions e
+  JOIN books b ON b.id = e.book_id
+  WHERE e.id = p_target_edition_id AND b.user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Edition not found or access denied';
+  END IF;
+
+  IF v_source_edition_id = p_target_edition_id THEN
+    RAISE EXCEPTION 'Binding is already in this edition';
+  END IF;
+
+  v_before := snapshot_library_books(ARRAY[v_source_book_id, v_target_book_id]);
+
+  UPDATE book_bindings SET book_edition_id = p_target_edition_id
+  WHERE id = p_binding_id;
+
+  -- Binding credits (narrators etc.) follow the binding
+  UPDATE book_contributors SET book_id = v_target_book_id
+  WHERE binding_id = p_binding_id;
+
+  PERFORM delete_empty_edition(v_source_edition_id);
+
+  v_audit_id := log_library_operation(
+    p_user_id, 'library_move_binding', 'Moved a binding to another edition',
+    ARRAY[v_target_book_id, v_source_book_id], v_before,
+    jsonb_build_object(
+      'binding_id', p_binding_id,
+      'source_edition_id', v_source_edition_id,
+      'target_edition_id', p_target_edition_id
+    )
+  );
+
+  RETURN jsonb_build_object(
+    'operation_id', v_audit_id, 'book_id', v_target_book_id
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Move every binding of one edition into another and drop the emptied one
+CREATE OR REPLACE FUNCTION merge_editions(
+  p_user_id TEXT,
+  p_source_edition_id UUID,
+  p_target_edition_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_source book_editions%ROWTYPE;
+  v_target book_editions%ROWTYPE;
+  v_before JSONB;
+  v_audit_id UUID;
+BEGIN
+  IF p_source_edition_id = p_target_edition_id THEN
+    RAISE EXCEPTION 'Cannot merge an edition into itself';
+  END IF;
+
+  SELECT e.* INTO v_source
+  FROM book_editions e JOIN books b ON b.id = e.book_id
+  WHERE e.id = p_source_edition_id AND b.user_id = p_user_id
+  FOR UPDATE OF e;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Edition not found or access denied';
+  END IF;
+
+  SELECT e.* INTO v_target
+  FROM book_editions e JOIN books b ON b.id = e.book_id
+  WHERE e.id = p_target_edition_id AND b.user_id = p_user_id
+  FOR UPDATE OF e;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Edition not found or access denied';
+  END IF;
+
+  v_before := snapshot_library_books(ARRAY[v_source.book_id, v_target.book_id]);
+
+  UPDATE book_contributors SET book_id = v_target.book_id
+  WHERE binding_id IN (
+    SELECT id FROM book_bindings WHERE book_edition_id = p_source_edition_id
+  );
+
+  UPDATE book_bindings SET book_edition_id = p_target_edition_id
+  WHERE book_edition_id = p_source_edition_id;
+
+  UPDATE book_editions
+  SET publication_year = COALESCE(v_target.publication_year, v_source.publication_year)
+  WHERE id = p_target_edition_id;
+
+  UPDATE books SET selected_edition_id = p_target_edition_id
+  WHERE selected_edition_id = p_source_edition_id;
+
+  DELETE FROM book_editions WHERE id = p_source_edition_id;
+
+  v_audit_id := log_library_operation(
+    p_user_id, 'library_merge_editions', 'Merged two editions',
+    ARRAY[v_target.book_id, v_source.book_id], v_before,
+    jsonb_build_object(
+      'source_edition_id', p_source_edition_id,
+      'target_edition_id', p_target_edition_id
+    )
+  );
+
+  RETURN jsonb_build_object(
+    'operation_id', v_audit_id, 'book_id', v_target.book_id
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Merge one book into another. Editions with the same language and number
+-- are combined; the rest move over as they are. The source book is removed.
+CREATE OR REPLACE FUNCTION merge_books(
+  p_user_id TEXT,
+  p_source_book_id UUID,
+  p_target_book_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_source books%ROWTYPE;
+  v_edition book_editions%ROWTYPE;
+  v_match_id UUID;
+  v_order_offset INTEGER;
+  v_before JSONB;
+  v_audit_id UUID;
+BEGIN
+  IF p_source_book_id = p_target_book_id THEN
+    RAISE EXCEPTION 'Cannot merge a book into itself';
+  END IF;
+
+  SELECT * INTO v_source FROM books
+  WHERE id = p_source_book_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Book not found or access denied';
+  END IF;
+
+  PERFORM 1 FROM books
+  WHERE id = p_target_book_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Book not found or access denied';
+  END IF;
+
+  v_before := snapshot_library_books(ARRAY[p_source_book_id, p_target_book_id])
+    || jsonb_build_object('dependents', snapshot_book_dependents(p_source_book_id));
+
+  FOR v_edition IN
+    SELECT * FROM book_editions WHERE book_id = p_source_book_id
+  LOOP
+    SELECT id INTO v_match_id FROM book_editions
+    WHERE book_id = p_target_book_id
+      AND language = v_edition.language
+      AND edition_number = v_edition.edition_number;
+
+    IF FOUND THEN
+      UPDATE book_bindings SET book_edition_id = v_match_id
+      WHERE book_edition_id = v_edition.id;
+      DELETE FROM book_editions WHERE id = v_edition.id;
+    ELSE
+      UPDATE book_editions SET book_id = p_target_book_id
+      WHERE id = v_edition.id;
+    END IF;
+  END LOOP;
+
+  -- Binding credits move with their bindings; book credits the target
+  -- lacks are added after its own
+  UPDATE book_contributors SET book_id = p_target_book_id
+  WHERE book_id = p_source_book_id AND binding_id IS NOT NULL;
+
+  SELECT COALESCE(MAX(display_order) + 1, 0) INTO v_order_offset
+  FROM book_contributors
+  WHERE book_id = p_target_book_id AND binding_id IS NULL;
+
+  INSERT INTO book_contributors (book_id, binding_id, contributor_id, role, display_order)
+  SELECT p_target_book_id, NULL, contributor_id, role, display_order + v_order_offset
+  FROM book_contributors
+  WHERE book_id = p_source_book_id AND binding_id IS NULL
+  ON CONFLICT DO NOTHING;
+
+  -- Keep the source's series placement when the target has none
+  UPDATE books SET
+    series_id = COALESCE(series_id, v_source.series_id),
+    series_number = CASE WHEN series_id IS NULL THEN v_source.series_number ELSE series_number END,
+    reading_order = CASE WHEN series_id IS NULL THEN v_source.reading_order ELSE reading_order END,
+    selected_edition_id = COALESCE(selected_edition_id, v_source.selected_edition_id)
+  WHERE id = p_target_book_id;
+
+  DELETE FROM books WHERE id = p_source_book_id;
+
+  v_audit_id := log_library_operation(
+    p_user_id, 'library_merge_books',
+    format('Merged "%s" into another book', v_source.title),
+    ARRAY[p_target_book_id, p_source_book_id], v_before,
+    jsonb_build_object(
+      'source_book_id', p_source_book_id,
+      'target_book_id', p_target_book_id
+    )
+  );
+
+  RETURN jsonb_build_object(
+    'operation_id', v_audit_id, 'book_id', p_target_book_id
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Move some of an edition's bindings into a new edition of the same book,
+-- numbered after the book's last edition in that language
+CREATE OR REPLACE FUNCTION split_edition(
+  p_user_id TEXT,
+  p_edition_id UUID,
+  p_binding_ids UUID[]
+) RETURNS JSONB AS $$
+DECLARE
+  v_edition book_editions%ROWTYPE;
+  v_binding_count INTEGER;
+  v_moving_count INTEGER;
+  v_new_edition_id UUID;
+  v_before JSONB;
+  v_audit_id UUID;
+BEGIN
+  SELECT e.* INTO v_edition
+  FROM book_editions e JOIN books b ON b.id = e.book_id
+  WHERE e.id = p_edition_id AND b.user_id = p_user_id
+  FOR UPDATE OF e;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Edition not found or access denied';
+  END IF;
+
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE id = ANY(p_binding_ids))
+  INTO v_binding_count, v_moving_count
+  FROM book_bindings WHERE book_edition_id = p_edition_id;
+
+  IF v_moving_count <> cardinality(ARRAY(SELECT DISTINCT unnest(p_binding_ids))) THEN
+    RAISE EXCEPTION 'Binding not found or access denied';
+  END IF;
+
+  IF v_moving_count = 0 OR v_moving_count = v_binding_count THEN
+    RAISE EXCEPTION 'Select some, but not all, of the edition''s bindings to split off';
+  END IF;
+
+  v_before := snapshot_library_books(ARRAY[v_edition.book_id]);
+
+  INSERT INTO book_editions (
+    book_id, edition_number, publication_year, language, is_translation,
+    translated_title, territory
+  )
+  SELECT
+    v_edition.book_id, MAX(edition_number) + 1, v_edition.publication_year,
+    v_edition.language, v_edition.is_translation, v_edition.translated_title,
+    v_edition.territory
+  FROM book_editions
+  WHERE book_id = v_edition.book_id AND language = v_edition.language
+  RETURNING id INTO v_new_edition_id;
+
+  UPDATE book_bindings SET book_edition_id = v_new_edition_id
+  WHERE id = ANY(p_binding_ids);
+
+  v_audit_id := log_library_operation(
+    p_user_id, 'library_split_edition', 'Split an edition in two',
+    ARRAY[v_edition.book_id], v_before,
+    jsonb_build_object(
+      'edition_id', p_edition_id,
+      'new_edition_id', v_new_edition_id,
+      'binding_ids', to_jsonb(p_binding_ids::text[])
+    )
+  );
+
+  RETURN jsonb_build_object(
+    'operation_id', v_audit_id, 'book_id', v_edition.book_id
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Put back the rows a restructuring changed: bindings it moved, editions it
+-- created, changed or removed, credits it moved, and the book a merge
+-- removed along with its suggestions, change events and work decisions.
+-- Later changes to other rows of the books are kept. If a row the
+-- restructuring changed has changed again since, the undo is refused
+-- rather than overwrite that later change.
+CREATE OR REPLACE FUNCTION undo_library_operation(
+  p_user_id TEXT,
+  p_operation_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_log audit_logs%ROWTYPE;
+  v_book_ids UUID[];
+  v_before JSONB;
+  v_after JSONB;
+  v_current JSONB;
+  v_removed_book_ids UUID[];
+  v_audit_id UUID;
+BEGIN
+  SELECT * INTO v_log FROM audit_logs
+  WHERE id = p_operation_id
+    AND performed_by_user_id = p_user_id
+    AND action_category = 'library'
+    AND action_type <> 'library_undo'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Operation not found or access denied';
+  END IF;
+
+  IF v_log.status = 'undone' THEN
+    RAISE EXCEPTION 'This change has already been undone';
+  END IF;
+
+  v_book_ids := ARRAY(
+    SELECT jsonb_array_elements_text(v_log.metadata->'book_ids')::uuid
+  );
+  v_before := v_log.before_state;
+  v_after := v_log.after_state;
+
+  -- Lock the books so nothing changes them between the check and the undo
+  PERFORM 1 FROM books WHERE id = ANY(v_book_ids) FOR UPDATE;
+  v_current := snapshot_library_books(v_book_ids);
+
+  IF EXISTS (
+    SELECT 1 FROM library_changed_rows(v_before, v_after) c
+    LEFT JOIN library_snapshot_rows(v_current) cur USING (kind, id)
+    WHERE cur.state IS DISTINCT FROM c.after_state
+  ) THEN
+    RAISE EXCEPTION 'These books have changed since, so this change can no longer be undone';
+  END IF;
+
+  -- Books removed by a merge come back first; references to editions,
+  -- series and works are restored once those exist
+  v_removed_book_ids := ARRAY(
+    SELECT id FROM library_changed_rows(v_before, v_after)
+    WHERE kind = 'book' AND after_state IS NULL
+  );
+
+  INSERT INTO books
+  SELECT * FROM jsonb_populate_recordset(NULL::books, (
+    SELECT jsonb_agg(b - 'selected_edition_id' - 'series_id' - 'work_id')
+    FROM jsonb_array_elements(v_before->'books') b
+    WHERE (b->>'id')::uuid = ANY(v_removed_book_ids)
+  ));
+
+  INSERT INTO book_editions
+  SELECT r.* FROM jsonb_populate_recordset(NULL::book_editions, v_before->'editions') r
+  WHERE r.id IN (
+    SELECT id FROM library_changed_rows(v_before, v_after) WHERE kind = 'edition'
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    book_id = EXCLUDED.book_id,
+    language = EXCLUDED.language,
+    edition_number = EXCLUDED.edition_number,
+    publication_year = EXCLUDED.publication_year;
+
+  UPDATE book_bindings bb SET book_edition_id = r.book_edition_id
+  FROM jsonb_populate_recordset(NULL::book_bindings, v_before->'bindings') r
+  WHERE bb.id = r.id
+    AND r.id IN (
+      SELECT id FROM library_changed_rows(v_before, v_after) WHERE kind = 'binding'
+    );
+
+  -- Editions created by the change are empty again, unless bindings were
+  -- added to them since
+  DELETE FROM book_editions e
+  WHERE e.id IN (
+      SELECT id FROM library_changed_rows(v_before, v_after)
+      WHERE kind = 'edition' AND before_state IS NULL
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM book_bindings bb WHERE bb.book_edition_id = e.id
+    );
+
+  -- Credits the change added go; those it moved or removed come back
+  DELETE FROM book_contributors WHERE id IN (
+    SELECT id FROM library_changed_rows(v_before, v_after)
+    WHERE kind = 'contributor' AND before_state IS NULL
+  );
+
+  INSERT INTO book_contributors
+  SELECT r.* FROM jsonb_populate_recordset(NULL::book_contributors, v_before->'contributors') r
+  WHERE r.id IN (
+    SELECT id FROM library_changed_rows(v_before, v_after) WHERE kind = 'contributor'
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    book_id = EXCLUDED.book_id,
+    binding_id = EXCLUDED.binding_id,
+    display_order = EXCLUDED.display_order;
+
+  UPDATE books b SET
+    selected_edition_id = (
+      SELECT e.id FROM book_editions e WHERE e.id = (s->>'selected_edition_id')::uuid
+    ),
+    series_id = (
+      SELECT sr.id FROM series sr WHERE sr.id = (s->>'series_id')::uuid
+    ),
+    series_number = (s->>'series_number')::numeric,
+    reading_order = (s->>'reading_order')::integer,
+    work_id = CASE
+      WHEN b.id = ANY(v_removed_book_ids)
+        THEN (SELECT w.id FROM works w WHERE w.id = (s->>'work_id')::uuid)
+      ELSE b.work_id
+    END
+  FROM jsonb_array_elements(v_before->'books') s
+  WHERE b.id = (s->>'id')::uuid
+    AND b.id IN (
+      SELECT id FROM library_changed_rows(v_before, v_after) WHERE kind = 'book'
+    );
+
+  -- What the database deleted along with a merged book
+  INSERT INTO book_edition_suggestions
+  SELECT r.* FROM jsonb_populate_recordset(
+    NULL::book_edition_suggestions, v_before->'dependents'->'edition_suggestions'
+  ) r
+  WHERE r.book_id = ANY(v_removed_book_ids)
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO book_change_events
+  SELECT r.* FROM jsonb_populate_recordset(NULL::book_change_events, (
+    SELECT jsonb_agg(c || jsonb_build_object('job_id', (
+      SELECT j.id FROM metadata_refresh_queue j WHERE j.id = (c->>'job_id')::uuid
+    )))
+    FROM jsonb_array_elements(v_before->'dependents'->'change_events') c
+  )) r
+  WHERE r.book_id = ANY(v_removed_book_ids)
+  ON CONFLICT (id) DO NOTHING;
+
+  INSERT INTO work_decisions
+  SELECT r.* FROM jsonb_populate_recordset(
+    NULL::work_decisions, v_before->'dependents'->'work_decisions'
+  ) r
+  WHERE EXISTS (SELECT 1 FROM books WHERE id = r.book_id)
+    AND EXISTS (SELECT 1 FROM books WHERE id = r.other_book_id)
+  ON CONFLICT DO NOTHING;
+
+  UPDATE audit_logs SET status = 'undone' WHERE id = p_operation_id;
+
+  v_audit_id := log_library_operation(
+    p_user_id, 'library_undo', 'Undid: ' || v_log.action_description,
+    v_book_ids, v_current,
+    jsonb_build_object('undone_operation_id', p_operation_id)
+  );
+
+  RETURN jsonb_build_object(
+    'operation_id', v_audit_id, 'book_id', v_book_ids[1]
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION undo_library_operation IS 'Restores the rows a move/merge/split changed from its audit log snapshots, unless they have changed since';
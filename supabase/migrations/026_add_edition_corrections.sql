@@ -0,0 +1,130 @@
+-- Edition Corrections Migration
+-- Labelled ISBN pairs collected from users fixing edition grouping: moving a
+-- binding between editions, merging or splitting editions, or taking a book
+-- out of a work. Corrections are shared across users so edition detection
+-- groups a confirmed pair the same way for everyone who searches that title.
+
+CREATE TABLE edition_corrections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  isbn_a TEXT NOT NULL, -- Normalized ISBN, always the lower of the pair
+  isbn_b TEXT NOT NULL,
+  relation TEXT NOT NULL CHECK (
+    relation IN ('same-edition', 'different-edition', 'different-work')
+  ),
+  confirmations INTEGER NOT NULL DEFAULT 1, -- Times users agreed with the current relation
+  last_confirmed_by TEXT, -- Clerk user ID of the latest correction
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (isbn_a < isbn_b),
+  UNIQUE (isbn_a, isbn_b)
+);
+
+CREATE INDEX idx_edition_corrections_isbn_a ON edition_corrections(isbn_a);
+CREATE INDEX idx_edition_corrections_isbn_b ON edition_corrections(isbn_b);
+
+CREATE TRIGGER update_edition_corrections_updated_at
+  BEFORE UPDATE ON edition_corrections
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Record a batch of corrections. A pair confirmed again keeps counting up;
+-- a pair relabelled starts over with the new relation. Returns every pair
+-- with the relation and confirmations it had before (null when new), which
+-- is what revert_edition_corrections needs to put it back.
+CREATE OR REPLACE FUNCTION record_edition_corrections(
+  p_user_id TEXT,
+  p_corrections JSONB
+) RETURNS JSONB AS $$
+  WITH pairs AS (
+    SELECT DISTINCT ON (c.isbn_a, c.isbn_b) c.isbn_a, c.isbn_b, c.relation
+    FROM jsonb_to_recordset(p_corrections) AS c(isbn_a TEXT, isbn_b TEXT, relation TEXT)
+  ),
+  -- Every statement in the query sees the table as it was before the upsert
+  previous AS (
+    SELECT p.isbn_a, p.isbn_b, p.relation,
+      ec.relation AS previous_relation,
+      ec.confirmations AS previous_confirmations
+    FROM pairs p
+    LEFT JOIN edition_corrections ec
+      ON ec.isbn_a = p.isbn_a AND ec.isbn_b = p.isbn_b
+  ),
+  recorded AS (
+    INSERT INTO edition_corrections (isbn_a, isbn_b, relation, last_confirmed_by)
+    SELECT isbn_a, isbn_b, relation, p_user_id FROM pairs
+    ON CONFLICT (isbn_a, isbn_b) DO UPDATE SET
+      confirmations = CASE
+        WHEN edition_corrections.relation = EXCLUDED.relation
+          THEN edition_corrections.confirmations + 1
+        ELSE 1
+      END,
+      relation = EXCLUDED.relation,
+      last_confirmed_by = EXCLUDED.last_confirmed_by
+    RETURNING id
+  )
+  SELECT COALESCE(jsonb_agg(to_jsonb(previous)), '[]'::jsonb) FROM previous;
+$$ LANGUAGE sql;
+
+-- Take back corrections recorded by a fix the user then undid, given what
+-- record_edition_corrections returned for it. Only pairs still carrying
+-- the recorded relation are touched; one relabelled since is someone
+-- else's correction and stays. Of those:
+--   * confirmed again by others since: loses one confirmation
+--   * relabelled by the fix: the previous relation and count come back
+--   * created by the fix: removed
+CREATE OR REPLACE FUNCTION revert_edition_corrections(
+  p_corrections JSONB
+) RETURNS INTEGER AS $$
+  WITH pairs AS (
+    SELECT DISTINCT ON (c.isbn_a, c.isbn_b) c.*
+    FROM jsonb_to_recordset(p_corrections) AS c(
+      isbn_a TEXT, isbn_b TEXT, relation TEXT,
+      previous_relation TEXT, previous_confirmations INTEGER
+    )
+  ),
+  removed AS (
+    DELETE FROM edition_corrections ec
+    USING pairs p
+    WHERE ec.isbn_a = p.isbn_a AND ec.isbn_b = p.isbn_b
+      AND ec.relation = p.relation
+      AND ec.confirmations <= 1
+      AND p.previous_relation IS NULL
+    RETURNING ec.id
+  ),
+  restored AS (
+    UPDATE edition_corrections ec SET
+      relation = p.previous_relation,
+      confirmations = p.previous_confirmations
+    FROM pairs p
+    WHERE ec.isbn_a = p.isbn_a AND ec.isbn_b = p.isbn_b
+      AND ec.relation = p.relation
+      AND ec.confirmations <= 1
+      AND p.previous_relation IS NOT NULL
+      AND p.previous_relation <> p.relation
+    RETURNING ec.id
+  ),
+  decremented AS (
+    UPDATE edition_corrections ec
+    SET confirmations = ec.confirmations - 1
+    FROM pairs p
+    WHERE ec.isbn_a = p.isbn_a AND ec.isbn_b = p.isbn_b
+      AND ec.relation = p.relation
+      AND ec.confirmations > 1
+    RETURNING ec.id
+  )
+  SELECT (
+    (SELECT COUNT(*) FROM removed) +
+    (SELECT COUNT(*) FROM restored) +
+    (SELECT COUNT(*) FROM decremented)
+  )::INTEGER;
+$$ LANGUAGE sql;
+
+ALTER TABLE edition_corrections ENABLE ROW LEVEL SECURITY;
+
+-- Corrections are shared knowledge; writes go through the service role
+CREATE POLICY "Authenticated users can view edition corrections" ON edition_corrections
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Service role can manage edition corrections" ON edition_corrections
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+COMMENT ON TABLE edition_corrections IS 'User-confirmed relations between ISBN pairs, applied by edition detection ahead of its heuristics';
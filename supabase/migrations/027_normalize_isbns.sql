@@ -0,0 +1,92 @@
+-- Normalize ISBNs Migration
+-- Bindings were saved with whatever ISBN form a provider or import handed
+-- over: ISBN-10, ISBN-13, sometimes hyphenated. The same book could then be
+-- stored twice. ISBNs are now stored as ISBN-13 digits (see
+-- src/lib/utils/isbn.ts); this converts existing rows and keeps new ones in
+-- that form.
+
+-- ISBN-13 digits for a valid ISBN-10 or ISBN-13; anything else is only
+-- stripped of separators. Mirrors normalizeIsbn() in the app.
+CREATE OR REPLACE FUNCTION normalize_isbn(p_isbn TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_isbn TEXT := regexp_replace(upper(COALESCE(p_isbn, '')), '[^0-9X]', '', 'g');
+  v_sum INTEGER := 0;
+  v_check TEXT;
+  i INTEGER;
+BEGIN
+  IF v_isbn = '' THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_isbn ~ '^[0-9]{9}[0-9X]$' THEN
+    FOR i IN 1..9 LOOP
+      v_sum := v_sum + substr(v_isbn, i, 1)::INTEGER * (11 - i);
+    END LOOP;
+    v_check := CASE (11 - v_sum % 11) % 11
+      WHEN 10 THEN 'X'
+      ELSE ((11 - v_sum % 11) % 11)::TEXT
+    END;
+    IF v_check <> substr(v_isbn, 10, 1) THEN
+      RETURN v_isbn;
+    END IF;
+
+    v_isbn := '978' || substr(v_isbn, 1, 9);
+    v_sum := 0;
+    FOR i IN 1..12 LOOP
+      v_sum := v_sum + substr(v_isbn, i, 1)::INTEGER
+        * CASE WHEN i % 2 = 0 THEN 3 ELSE 1 END;
+    END LOOP;
+    RETURN v_isbn || ((10 - v_sum % 10) % 10)::TEXT;
+  END IF;
+
+  RETURN v_isbn;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Convert stored bindings. When two rows normalize to the same ISBN only the
+-- oldest is converted; the other is a duplicate to merge by hand.
+WITH candidates AS (
+  SELECT DISTINCT ON (normalize_isbn(isbn)) id, normalize_isbn(isbn) AS isbn
+  FROM book_bindings
+  WHERE isbn IS NOT NULL AND normalize_isbn(isbn) IS DISTINCT FROM isbn
+  ORDER BY normalize_isbn(isbn), created_at
+)
+UPDATE book_bindings bb
+SET isbn = c.isbn
+FROM candidates c
+WHERE bb.id = c.id
+  AND NOT EXISTS (SELECT 1 FROM book_bindings o WHERE o.isbn = c.isbn);
+
+-- Same for suggestions, which are unique per book
+WITH candidates AS (
+  SELECT DISTINCT ON (book_id, normalize_isbn(isbn))
+    id, book_id, normalize_isbn(isbn) AS isbn
+  FROM book_edition_suggestions
+  WHERE normalize_isbn(isbn) IS DISTINCT FROM isbn
+  ORDER BY book_id, normalize_isbn(isbn), created_at
+)
+UPDATE book_edition_suggestions s
+SET isbn = c.isbn
+FROM candidates c
+WHERE s.id = c.id
+  AND NOT EXISTS (
+    SELECT 1 FROM book_edition_suggestions o
+    WHERE o.book_id = c.book_id AND o.isbn = c.isbn
+  );
+
+-- Keep every future write in the stored form, whichever path it takes
+CREATE OR REPLACE FUNCTION normalize_binding_isbn()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.isbn := normalize_isbn(NEW.isbn);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER normalize_book_bindings_isbn
+  BEFORE INSERT OR UPDATE OF isbn ON book_bindings
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_binding_isbn();
+
+COMMENT ON FUNCTION normalize_isbn IS 'ISBN-13 digits for a valid ISBN-10 or ISBN-13, otherwise the ISBN stripped of separators';
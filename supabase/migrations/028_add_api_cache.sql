@@ -0,0 +1,42 @@
+-- API Cache Migration
+-- Shared store for cached book-provider responses (API_CACHE_STORE=postgres).
+-- Every server instance reads and writes the same rows, so a cold start or a
+-- second instance doesn't refetch what another already looked up.
+
+CREATE TABLE api_cache (
+  key TEXT PRIMARY KEY, -- Normalized cache key, e.g. isbn_db:book:isbn:9780306406157
+  data JSONB NOT NULL,
+  cached_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  hits INTEGER NOT NULL DEFAULT 0,
+  last_access TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_api_cache_expires_at ON api_cache(expires_at);
+CREATE INDEX idx_api_cache_hits ON api_cache(hits DESC);
+
+-- Count a cache hit without a read-modify-write round trip
+CREATE OR REPLACE FUNCTION record_api_cache_hit(
+  p_key TEXT,
+  p_accessed_at TIMESTAMP WITH TIME ZONE
+) RETURNS VOID AS $$
+BEGIN
+  UPDATE api_cache
+  SET hits = hits + 1, last_access = p_accessed_at
+  WHERE key = p_key;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Size and total hits for cache analytics
+CREATE OR REPLACE FUNCTION get_api_cache_usage()
+RETURNS TABLE (size BIGINT, total_hits BIGINT) AS $$
+  SELECT COUNT(*), COALESCE(SUM(hits), 0) FROM api_cache;
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE api_cache ENABLE ROW LEVEL SECURITY;
+
+-- Only the server reads and writes the cache
+CREATE POLICY "Service role can manage api cache" ON api_cache
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+COMMENT ON TABLE api_cache IS 'Cached book-provider API responses shared across server instances; expired rows are ignored on read and purged periodically';